@@ -1,21 +1,72 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { FolderOpen, Layout, List, BarChart2, Plus, Sliders, Globe, FastForward, Activity, Waves, Image as ImageIcon, ChevronDown, Check, Loader2, AlertCircle, Disc, Music, Bookmark, Mic, Timer, X, Download, Sparkles, TrendingUp, Radio, Dna, Upload, Compass, Languages, BookOpen } from 'lucide-react';
-import { Track, PlayerState, ViewMode, EQBand, VisualizerMode, Playlist, ChapterMarker } from './types';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { FolderOpen, Layout, List, BarChart2, Plus, Sliders, Globe, FastForward, Activity, Waves, Image as ImageIcon, ChevronDown, Check, Loader2, AlertCircle, Disc, Music, Bookmark, Mic, Timer, X, Download, Sparkles, TrendingUp, Radio, Dna, Upload, Compass, Languages, BookOpen, Users, Disc3, Tags, Search, ListOrdered, Blend, Layers, Guitar, MicVocal, Archive, FolderSync, RefreshCw, CopyCheck, HardDrive, History } from 'lucide-react';
+import { Track, PlayerState, ViewMode, EQBand, VisualizerMode, EQPreset, DynamicsSettings, EffectType, EffectsSettings, SoundProfile, PracticeSettings, LoopRegion, SavedLoop, Playlist, ChapterMarker, SmartPlaylistRules, PlayQueue, CrossfadeSettings, LoudnessSettings, TrackLoudness, LinkedFolder, PlayThreshold, TrackSort } from './types';
 import { translations, Language } from './translations';
 import PlayerControls from './components/PlayerControls';
 import TrackList from './components/TrackList';
+import QueuePanel from './components/QueuePanel';
 import Visualizer from './components/Visualizer';
 import Equalizer from './components/Equalizer';
 import { ArtistPortal } from './components/ArtistPortal';
 import { BrowseMusic } from './components/BrowseMusic';
-import { saveTracksToIndexedDB, loadTracksFromIndexedDB, isPersistenceEnabled, setPersistenceEnabled, clearLibrary, saveEQSettings, loadEQSettings, savePlaylists, loadPlaylists, saveMarkers, loadMarkers } from './utils/persistence';
-import { formatTime } from './utils/formatters';
+import { TagEditor } from './components/TagEditor';
+import { LibraryBrowser } from './components/LibraryBrowser';
+import { SearchPanel } from './components/SearchPanel';
+import { SmartPlaylistEditor } from './components/SmartPlaylistEditor';
+import { PlaybackSettings } from './components/PlaybackSettings';
+import { EffectsPanel } from './components/EffectsPanel';
+import { PracticePanel } from './components/PracticePanel';
+import { LyricsView } from './components/LyricsView';
+import { PlaylistExportDialog } from './components/PlaylistExportDialog';
+import { PlaylistImportSummary } from './components/PlaylistImportSummary';
+import { BackupDialog } from './components/BackupDialog';
+import { DuplicatesDialog } from './components/DuplicatesDialog';
+import { StorageDialog } from './components/StorageDialog';
+import { ListeningStats } from './components/ListeningStats';
+import { saveTracksToIndexedDB, loadTracksFromIndexedDB, isPersistenceEnabled, setPersistenceEnabled, clearLibrary, saveEQSettings, loadEQSettings, savePlaylists, loadPlaylists, saveMarkers, loadMarkers, loadLoops, saveQueue, loadQueue, saveCrossfadeSettings, loadCrossfadeSettings, saveLoudnessSettings, loadLoudnessSettings, saveDynamicsSettings, loadDynamicsSettings, saveEffectsSettings, loadEffectsSettings, saveLinkedFolders, loadLinkedFolders, onQuotaExceeded, savePlayEvent, savePlayThreshold, loadPlayThreshold } from './utils/persistence';
+import { formatTime, formatBytes } from './utils/formatters';
+import { readMetadata, pictureToDataUrl } from './utils/metadata';
+import { writeMetadata, TagEdits } from './utils/tagWriter';
+import { buildLibrary, shuffleTracks } from './utils/library';
+import { createSearchIndex } from './utils/search';
+import { evaluateSmartPlaylist, sortTracks } from './utils/smartPlaylists';
+import { DEFAULT_CROSSFADE, getCrossfadeDuration, scheduleFade } from './utils/crossfade';
+import { DEFAULT_LOUDNESS, dbToGain, getNormalizationGain, measureLoudness } from './utils/loudness';
+import { MAX_EQ_BANDS, createEQBand, createGraphicBands } from './utils/equalizer';
+import { DEFAULT_DYNAMICS } from './utils/dynamics';
+import { DEFAULT_EFFECTS, createAudioGraph, AudioGraph } from './utils/audioGraph';
+import { createPitchShifter, PitchShifter } from './utils/pitchShift';
+import { DEFAULT_PRACTICE, getPitchShift, isDefaultPractice } from './utils/practice';
+import { MIN_LOOP_SECONDS, createLoop, getLoopTempo, isLoopFinished } from './utils/loop';
+import { getTrackWaveform } from './utils/waveform';
+import { downloadBlob } from './utils/download';
+import { RestoredLibrary } from './utils/backup';
+import { hashFiles, hashTracks, mergeDuplicates } from './utils/dedupe';
+import { getStorageEstimate, requestPersistentStorage, evictTracks, QUOTA_WARNING_RATIO, QUOTA_CRITICAL_RATIO } from './utils/storage';
+import { supportsLinkedFolders, pickLinkedFolder, findCoveringFolder, hasFolderPermission, scanFolder, reconcileFolder, getFingerprint, writeLinkedFile, FolderScanResult } from './utils/linkedFolders';
+import { readLyricsFile } from './utils/lyrics';
+import { normalizePlayThreshold, startListeningSession, advanceListeningSession, hasPassedThreshold, createPlayEvent, finishPlayEvent, ListeningSession } from './utils/history';
+import { readPlaylistFile, resolvePlaylist, writePlaylist, PLAYLIST_FORMATS, PLAYLIST_FILE_ACCEPT, PlaylistFormat, PlaylistImportResult } from './utils/playlistFiles';
+import { readCueFile, getCueTracksForFile, splitByCueSheet, getTrackStart, getTrackEnd, createCueSheet, CueSheet } from './utils/cue';
+import { createQueue, peekNextId, advanceQueue, retreatQueue, setQueueCurrent, setQueueShuffle, playNextInQueue, addToQueue, jumpToQueueItem, removeFromQueue, moveQueueItem, clearUpNext, pruneQueue, getQueueTrackIds, QueueSection } from './utils/queue';
 
 // Helper to generate IDs
 const generateId = () => Math.random().toString(36).substr(2, 9);
+const baseName = (name: string) => name.replace(/\.[^/.]+$/, '').toLowerCase();
+
+// Gapless hand-over timing: preload the next track this long before it's needed,
+// and start it slightly early to cover media element start-up latency
+const PRELOAD_LEAD_SECONDS = 15;
+const GAPLESS_SCHEDULE_SECONDS = 1;
+const GAPLESS_LEAD_MS = 20;
+
+// Background loudness analysis: tracks per batch, and idle time before each batch starts
+const LOUDNESS_BATCH_SIZE = 5;
+const LOUDNESS_ANALYSIS_DELAY_MS = 3000;
+
+// Playback speed while holding on the visualizer
+const HOLD_SPEED = 2;
 
-// Standard 10-Band EQ Frequencies
-const EQ_FREQUENCIES = [60, 170, 310, 600, 1000, 3000, 6000, 12000, 14000, 16000];
 
 // Helper to extract YouTube Video ID
 const extractVideoId = (url: string): string | null => {
@@ -55,12 +106,48 @@ function App() {
   const [selectedPlaylist, setSelectedPlaylist] = useState<string | null>(null); // null = "All Tracks"
   const [showCreatePlaylist, setShowCreatePlaylist] = useState(false);
   const [newPlaylistName, setNewPlaylistName] = useState('');
+  const [smartPlaylistEditor, setSmartPlaylistEditor] = useState<{ playlist?: Playlist } | null>(null);
+  const [playlistExport, setPlaylistExport] = useState<{ name: string; trackIds: string[] } | null>(null);
+  const [playlistImportResult, setPlaylistImportResult] = useState<PlaylistImportResult | null>(null);
+
+  // Play queue; null until playback starts from a list
+  const [queue, setQueue] = useState<PlayQueue | null>(null);
+  const [showQueue, setShowQueue] = useState(false);
+
+  // Artist/Album/Genre groupings
+  const library = useMemo(() => buildLibrary(tracks), [tracks]);
+  const isLibraryView = viewMode === ViewMode.ARTISTS || viewMode === ViewMode.ALBUMS || viewMode === ViewMode.GENRES;
 
   // Chapter Marker State
   const [markers, setMarkers] = useState<ChapterMarker[]>([]);
   const [editingMarkerId, setEditingMarkerId] = useState<string | null>(null);
   const [editingMarkerLabel, setEditingMarkerLabel] = useState('');
 
+  // A–B Loop State
+  const [loops, setLoops] = useState<SavedLoop[]>([]);
+  const [activeLoop, setActiveLoop] = useState<LoopRegion | null>(null);
+  const [loopStartPoint, setLoopStartPoint] = useState<number | null>(null); // A, while waiting for B
+  const [loopPass, setLoopPass] = useState(0);
+  const loopPassRef = useRef(0);
+  const pendingLoopRef = useRef<LoopRegion | null>(null); // Loop being redefined, so B keeps its passes and ramp
+
+  // Waveform of the current track for the seek bar (null for streams / while decoding)
+  const [waveform, setWaveform] = useState<Float32Array | null>(null);
+
+  // Search State
+  const [searchQuery, setSearchQuery] = useState('');
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const searchIndex = useMemo(() => createSearchIndex(), []);
+
+  // The index only re-indexes records that changed since the last query
+  const searchResults = useMemo(() => {
+    if (!searchQuery.trim()) return null;
+    searchIndex.syncTracks(tracks);
+    searchIndex.syncPlaylists(playlists);
+    searchIndex.syncMarkers(markers);
+    return searchIndex.search(searchQuery);
+  }, [searchIndex, searchQuery, tracks, playlists, markers]);
+
   const [showEQ, setShowEQ] = useState(false);
   const [showNetworkStream, setShowNetworkStream] = useState(false);
   const [showVisMenu, setShowVisMenu] = useState(false);
@@ -77,22 +164,43 @@ function App() {
   // Audio & Analyzer
   const audioRef = useRef<HTMLAudioElement>(new Audio());
   const audioContextRef = useRef<AudioContext | null>(null);
-  const sourceNodeRef = useRef<MediaElementAudioSourceNode | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
   const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
 
-  // Karaoke Mode Nodes
-  const splitterRef = useRef<ChannelSplitterNode | null>(null);
-  const mergerRef = useRef<ChannelMergerNode | null>(null);
-  const invertGainRef = useRef<GainNode | null>(null);
-  
+  // Two decks alternate so the next track can start before the current one ends.
+  // audioRef always points at the deck that is currently playing.
+  const decksRef = useRef<HTMLAudioElement[] | null>(null);
+  if (!decksRef.current) decksRef.current = [audioRef.current, new Audio()];
+  const deckGainsRef = useRef(new Map<HTMLAudioElement, GainNode>());
+  const deckLoudnessRef = useRef(new Map<HTMLAudioElement, GainNode>()); // ReplayGain, ahead of the fade gain
+  const deckPitchRef = useRef(new Map<HTMLAudioElement, PitchShifter>()); // Per-track practice pitch
+  const preloadRef = useRef<{ trackId: string; deck: HTMLAudioElement } | null>(null);
+  const transitionTimeoutRef = useRef<number | null>(null);
+  const fadeTimeoutRef = useRef<number | null>(null);
+  const staleUrlsRef = useRef(new Set<string>()); // Replaced blob URLs a deck may still be playing
+  const [crossfade, setCrossfade] = useState<CrossfadeSettings>(() => loadCrossfadeSettings() || DEFAULT_CROSSFADE);
+  const [showPlaybackSettings, setShowPlaybackSettings] = useState(false);
+
+  // Loudness Normalization
+  const [loudness, setLoudness] = useState<LoudnessSettings>(() => loadLoudnessSettings() || DEFAULT_LOUDNESS);
+  const isMeasuringLoudnessRef = useRef(false);
+  const failedLoudnessRef = useRef(new Set<string>()); // Tracks that couldn't be decoded this session
+
+  // Listening History
+  const [playThreshold, setPlayThreshold] = useState<PlayThreshold>(() => normalizePlayThreshold(loadPlayThreshold()));
+  const listeningRef = useRef<ListeningSession | null>(null);
+  const [trackSort, setTrackSort] = useState<TrackSort | null>(null);
+
+  // Effects Chain
+  const audioGraphRef = useRef<AudioGraph | null>(null);
+  const [effects, setEffects] = useState<EffectsSettings>(() => loadEffectsSettings() || DEFAULT_EFFECTS);
+  const [showEffects, setShowEffects] = useState(false);
+  const [showPractice, setShowPractice] = useState(false);
+  const [dynamics, setDynamics] = useState<DynamicsSettings>(() => loadDynamicsSettings() || DEFAULT_DYNAMICS);
+
   // EQ State
-  const eqNodesRef = useRef<BiquadFilterNode[]>([]);
-  const [eqBands, setEqBands] = useState<EQBand[]>(() => {
-    // Load saved EQ settings on startup
-    const saved = loadEQSettings();
-    return saved || EQ_FREQUENCIES.map(f => ({ frequency: f, gain: 0 }));
-  });
+  const savedEQ = useMemo(() => loadEQSettings(), []);
+  const [eqBands, setEqBands] = useState<EQBand[]>(() => savedEQ?.bands || createGraphicBands());
+  const [eqPreamp, setEqPreamp] = useState(() => savedEQ?.preamp ?? 0);
 
   // Player State
   const [playerState, setPlayerState] = useState<PlayerState>({
@@ -104,7 +212,6 @@ function App() {
     isShuffle: false,
     repeatMode: 'off',
     playbackRate: 1,
-    karaokeMode: false,
   });
 
   // Gestures State
@@ -129,8 +236,20 @@ function App() {
   // Browse Music State
   const [showBrowseMusic, setShowBrowseMusic] = useState(false);
 
+  // Tag Editor State
+  const [tagEditorTrack, setTagEditorTrack] = useState<Track | null>(null);
+
   // Persistence State
   const hasLoadedLibraryRef = useRef(false);
+  const [showBackup, setShowBackup] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [showStorage, setShowStorage] = useState(false);
+  const quotaWarningLevelRef = useRef(0); // 1 once warned at QUOTA_WARNING_RATIO, 2 at QUOTA_CRITICAL_RATIO
+
+  // Linked Folders State
+  const [linkedFolders, setLinkedFolders] = useState<LinkedFolder[]>([]);
+  const [disconnectedFolderIds, setDisconnectedFolderIds] = useState<string[]>([]); // Access not granted this session
+  const [scanningFolderId, setScanningFolderId] = useState<string | null>(null);
 
   // --- Initialization ---
 
@@ -140,106 +259,60 @@ function App() {
       const ctx = new AudioCtx();
       audioContextRef.current = ctx;
 
-      const source = ctx.createMediaElementSource(audioRef.current);
-      sourceNodeRef.current = source;
+      // Each deck gets its own normalization gain, pitch shifter and fade gain, summed into one bus ahead of the EQ
+      const mixBus = ctx.createGain();
+      decksRef.current!.forEach(deck => {
+        const deckSource = ctx.createMediaElementSource(deck);
+        const deckLoudness = ctx.createGain();
+        const deckPitch = createPitchShifter(ctx);
+        const deckGain = ctx.createGain();
+        deckSource.connect(deckLoudness);
+        deckLoudness.connect(deckPitch.input);
+        deckPitch.output.connect(deckGain);
+        deckGain.connect(mixBus);
+        deckLoudnessRef.current.set(deck, deckLoudness);
+        deckPitchRef.current.set(deck, deckPitch);
+        deckGainsRef.current.set(deck, deckGain);
+      });
 
       const analyserNode = ctx.createAnalyser();
       analyserNode.fftSize = 256;
-      analyserRef.current = analyserNode;
       setAnalyser(analyserNode);
 
-      // Karaoke processing nodes
-      const splitter = ctx.createChannelSplitter(2);
-      const merger = ctx.createChannelMerger(2);
-      const invertGain = ctx.createGain();
-      invertGain.gain.value = -1; // Invert phase for center channel cancellation
-
-      splitterRef.current = splitter;
-      mergerRef.current = merger;
-      invertGainRef.current = invertGain;
-
-      // EQ bands
-      const bands: BiquadFilterNode[] = EQ_FREQUENCIES.map(freq => {
-          const filter = ctx.createBiquadFilter();
-          filter.type = 'peaking';
-          filter.frequency.value = freq;
-          filter.Q.value = 1.4;
-          filter.gain.value = 0;
-          return filter;
+      // Effects run between the deck mix and the analyser, in the order of the chain
+      const graph = createAudioGraph(ctx, mixBus, analyserNode, {
+        eq: { bands: eqBands, preamp: eqPreamp },
+        karaoke: effects.karaoke,
+        stereoWidth: effects.stereoWidth,
+        crossfeed: effects.crossfeed,
+        dynamics
       });
-      eqNodesRef.current = bands;
-
-      // Build audio graph: source -> EQ chain -> analyser -> destination
-      // (Karaoke mode will be toggled by reconnecting nodes)
-      let previousNode: AudioNode = source;
-      bands.forEach(node => {
-          previousNode.connect(node);
-          previousNode = node;
-      });
-      previousNode.connect(analyserNode);
+      graph.setChain(effects.chain);
+      audioGraphRef.current = graph;
       analyserNode.connect(ctx.destination);
 
     } else if (audioContextRef.current.state === 'suspended') {
       audioContextRef.current.resume();
     }
-  }, []);
-
-  // --- Karaoke Mode Toggle ---
-  const toggleKaraokeMode = useCallback(() => {
-    if (!audioContextRef.current || !sourceNodeRef.current || !analyserRef.current) return;
+  }, [eqBands, eqPreamp, dynamics, effects]);
 
-    const ctx = audioContextRef.current;
-    const source = sourceNodeRef.current;
-    const analyser = analyserRef.current;
-    const eqChain = eqNodesRef.current;
-
-    // Disconnect everything
-    source.disconnect();
-    eqChain.forEach(node => node.disconnect());
-    analyser.disconnect();
-    splitterRef.current?.disconnect();
-    mergerRef.current?.disconnect();
-    invertGainRef.current?.disconnect();
-
-    const newKaraokeMode = !playerState.karaokeMode;
-
-    if (newKaraokeMode && splitterRef.current && mergerRef.current && invertGainRef.current) {
-      // Karaoke mode: split stereo, subtract right from left (vocal cancellation)
-      const splitter = splitterRef.current;
-      const merger = mergerRef.current;
-      const invertGain = invertGainRef.current;
-
-      // Connect source through EQ chain first
-      let previousNode: AudioNode = source;
-      eqChain.forEach(node => {
-        previousNode.connect(node);
-        previousNode = node;
-      });
+  // --- Effects Chain ---
+  const toggleEffect = useCallback((type: EffectType) => {
+    setEffects(prev => ({
+      ...prev,
+      chain: prev.chain.map(slot => slot.type === type ? { ...slot, enabled: !slot.enabled } : slot)
+    }));
+  }, []);
 
-      // Then apply karaoke processing
-      previousNode.connect(splitter);
-      splitter.connect(merger, 0, 0); // Left channel to left output
-      splitter.connect(invertGain, 1); // Right channel to inverter
-      invertGain.connect(merger, 0, 0); // Inverted right to left (cancels center)
-      splitter.connect(merger, 1, 1); // Right channel to right output
-      splitter.connect(invertGain, 0); // Left channel to inverter
-      invertGain.connect(merger, 0, 1); // Inverted left to right (cancels center)
-
-      merger.connect(analyser);
-      analyser.connect(ctx.destination);
-    } else {
-      // Normal mode: simple chain
-      let previousNode: AudioNode = source;
-      eqChain.forEach(node => {
-        previousNode.connect(node);
-        previousNode = node;
-      });
-      previousNode.connect(analyser);
-      analyser.connect(ctx.destination);
-    }
+  const isKaraokeEnabled = effects.chain.some(slot => slot.type === 'karaoke' && slot.enabled);
 
-    setPlayerState(prev => ({ ...prev, karaokeMode: newKaraokeMode }));
-  }, [playerState.karaokeMode]);
+  const loadSoundProfile = useCallback((profile: SoundProfile) => {
+    const { eq, dynamics: profileDynamics, ...profileEffects } = profile;
+    setEffects(profileEffects);
+    setEqBands(eq.bands);
+    setEqPreamp(eq.preamp);
+    setDynamics(profileDynamics);
+  }, []);
 
   // --- Helpers ---
   const addToast = (message: string, type: 'error' | 'info' = 'info') => {
@@ -251,30 +324,81 @@ function App() {
   };
 
   // --- Audio Event Handlers ---
+  // Listeners sit on both decks but only react to the active one
   useEffect(() => {
-    const audio = audioRef.current;
-    audio.crossOrigin = "anonymous";
+    const decks = decksRef.current!;
+    decks.forEach(deck => { deck.crossOrigin = "anonymous"; });
 
-    const updateTime = () => {
-      setPlayerState(prev => ({
-        ...prev,
-        currentTime: audio.currentTime,
-        duration: audio.duration || 0,
-        playbackRate: audio.playbackRate
-      }));
-    };
+    const isActiveDeck = (e: Event) => e.currentTarget === audioRef.current;
+
+    const finishTrack = () => {
+        const audio = audioRef.current;
+        endListening(true);
 
-    const handleEnded = () => {
         if (playerState.repeatMode === 'one') {
-            audio.currentTime = 0;
+            audio.currentTime = getTrackStart(currentTrack);
             audio.play().catch(e => console.error(e));
         } else {
             playNext();
         }
     };
 
+    const updateTime = (e: Event) => {
+      if (!isActiveDeck(e)) return;
+      const audio = audioRef.current;
+      const start = getTrackStart(currentTrack);
+      const end = getTrackEnd(currentTrack, audio.duration || 0);
+      setPlayerState(prev => ({
+        ...prev,
+        currentTime: Math.max(0, audio.currentTime - start),
+        duration: Math.max(0, end - start),
+        playbackRate: audio.playbackRate
+      }));
+      if (currentTrack && !audio.paused) trackListening(currentTrack, audio.currentTime - start, end - start);
+
+      // Fallback for background tabs, where the frame check below doesn't run
+      if (isPastCueEnd()) {
+        audio.pause();
+        finishTrack();
+        return;
+      }
+      prepareTransition();
+    };
+
+    // A CUE track ends partway through its file, so there's no 'ended' event. Checked every
+    // frame since timeupdate only fires every ~250ms, which would play into the next track.
+    let cueFrame = 0;
+    const isPastCueEnd = () => {
+      const audio = audioRef.current;
+      if (currentTrack?.cueEnd === undefined || audio.paused || activeLoop) return false;
+      return audio.currentTime >= getTrackEnd(currentTrack, audio.duration || 0);
+    };
+    const watchCueEnd = () => {
+      cancelAnimationFrame(cueFrame);
+      if (currentTrack?.cueEnd === undefined || audioRef.current.paused || activeLoop) return;
+      if (isPastCueEnd()) {
+        audioRef.current.pause();
+        finishTrack();
+        return;
+      }
+      cueFrame = requestAnimationFrame(watchCueEnd);
+    };
+
+    const handleEnded = (e: Event) => {
+        if (!isActiveDeck(e)) return;
+        finishTrack();
+    };
+
     const handleError = (e: Event) => {
         const target = e.target as HTMLAudioElement;
+        if (!isActiveDeck(e)) {
+          // A failed preload just falls back to loading the track normally
+          if (target.error && preloadRef.current?.deck === target) {
+            console.warn("[Gapless] Preload failed:", target.error);
+            preloadRef.current = null;
+          }
+          return;
+        }
         if (target.error) {
              console.error("Audio Error:", target.error);
              if (target.error.code === 4) {
@@ -286,23 +410,123 @@ function App() {
         }
     };
 
-    const handlePlay = () => setPlayerState(prev => ({ ...prev, isPlaying: true }));
-    const handlePause = () => setPlayerState(prev => ({ ...prev, isPlaying: false }));
+    const handlePlay = (e: Event) => {
+      if (!isActiveDeck(e)) return;
+      setPlayerState(prev => ({ ...prev, isPlaying: true }));
+      watchCueEnd();
+    };
+    const handlePause = (e: Event) => {
+      if (!isActiveDeck(e)) return;
+      clearTransitionTimer();
+      setPlayerState(prev => ({ ...prev, isPlaying: false }));
+    };
+    // A scheduled hand-over is only valid for the position it was timed from
+    const handleSeeking = (e: Event) => {
+      if (isActiveDeck(e)) clearTransitionTimer();
+    };
 
-    audio.addEventListener('timeupdate', updateTime);
-    audio.addEventListener('ended', handleEnded);
-    audio.addEventListener('play', handlePlay);
-    audio.addEventListener('pause', handlePause);
-    audio.addEventListener('error', handleError);
+    decks.forEach(deck => {
+      deck.addEventListener('timeupdate', updateTime);
+      deck.addEventListener('ended', handleEnded);
+      deck.addEventListener('play', handlePlay);
+      deck.addEventListener('pause', handlePause);
+      deck.addEventListener('seeking', handleSeeking);
+      deck.addEventListener('error', handleError);
+    });
+    watchCueEnd();
 
     return () => {
-      audio.removeEventListener('timeupdate', updateTime);
-      audio.removeEventListener('ended', handleEnded);
-      audio.removeEventListener('play', handlePlay);
-      audio.removeEventListener('pause', handlePause);
-      audio.removeEventListener('error', handleError);
+      cancelAnimationFrame(cueFrame);
+      decks.forEach(deck => {
+        deck.removeEventListener('timeupdate', updateTime);
+        deck.removeEventListener('ended', handleEnded);
+        deck.removeEventListener('play', handlePlay);
+        deck.removeEventListener('pause', handlePause);
+        deck.removeEventListener('seeking', handleSeeking);
+        deck.removeEventListener('error', handleError);
+      });
     };
-  }, [tracks, currentTrack, playerState.repeatMode, playerState.isShuffle]);
+  }, [tracks, currentTrack, queue, crossfade, activeLoop, playThreshold, playerState.repeatMode, playerState.isShuffle]);
+
+  // Release replaced blob URLs once no deck is playing them
+  useEffect(() => {
+    staleUrlsRef.current.forEach(url => {
+      const inUse = decksRef.current!.some(deck => deck.src === url && (deck === audioRef.current || !deck.paused));
+      if (inUse) return;
+      URL.revokeObjectURL(url);
+      staleUrlsRef.current.delete(url);
+    });
+  }, [currentTrack?.id]);
+
+  // --- Auto-save play threshold when it changes ---
+  useEffect(() => {
+    savePlayThreshold(playThreshold);
+  }, [playThreshold]);
+
+  // --- Auto-save crossfade settings when they change ---
+  useEffect(() => {
+    saveCrossfadeSettings(crossfade);
+  }, [crossfade]);
+
+  // --- Auto-save loudness settings when they change ---
+  useEffect(() => {
+    saveLoudnessSettings(loudness);
+  }, [loudness]);
+
+  // --- Keep normalization gain in sync with the tracks on each deck ---
+  useEffect(() => {
+    applyLoudness(audioRef.current, currentTrack);
+    const preloaded = preloadRef.current;
+    if (preloaded) applyLoudness(preloaded.deck, tracks.find(t => t.id === preloaded.trackId) || null);
+  }, [currentTrack, tracks, loudness]);
+
+  // --- Keep tempo and pitch in sync with the active track's practice settings ---
+  // (analyser is set once the audio graph, and with it the pitch shifters, exists)
+  useEffect(() => {
+    applyPractice(audioRef.current, currentTrack);
+  }, [currentTrack, analyser]);
+
+  // --- Background loudness analysis ---
+  // Local tracks without loudness info get their tags re-read, then measured, a few at a time
+  useEffect(() => {
+    if (!hasLoadedLibraryRef.current || loudness.mode === 'off' || isMeasuringLoudnessRef.current) return;
+
+    const pending = tracks
+      .filter(t => t.type === 'local' && t.file && !t.loudness && !failedLoudnessRef.current.has(t.id))
+      .slice(0, LOUDNESS_BATCH_SIZE);
+    if (pending.length === 0) return;
+
+    const timeoutId = window.setTimeout(async () => {
+      isMeasuringLoudnessRef.current = true;
+      const results = new Map<string, TrackLoudness>();
+
+      for (const track of pending) {
+        const meta = await readMetadata(track.file!);
+        const result = meta.replayGain
+          ? { ...meta.replayGain, source: 'tags' as const }
+          : await measureLoudness(track.file!);
+        if (result) {
+          results.set(track.id, result);
+        } else {
+          failedLoudnessRef.current.add(track.id);
+        }
+      }
+
+      isMeasuringLoudnessRef.current = false;
+      console.log(`[Loudness] Analyzed ${results.size} of ${pending.length} tracks`);
+      // Always update, even with no results, so the next batch gets picked up
+      setTracks(prev => {
+        const updatedTracks = prev.map(t => results.has(t.id) ? { ...t, loudness: results.get(t.id) } : t);
+        if (results.size > 0) {
+          saveTracksToIndexedDB(updatedTracks).catch(err => console.error("Failed to save loudness analysis", err));
+        }
+        return updatedTracks;
+      });
+      setCurrentTrack(prev => prev && results.has(prev.id) ? { ...prev, loudness: results.get(prev.id) } : prev);
+    }, LOUDNESS_ANALYSIS_DELAY_MS);
+
+    return () => clearTimeout(timeoutId);
+  }, [tracks, loudness.mode]);
 
   // --- Close language menu on click outside ---
   useEffect(() => {
@@ -409,16 +633,57 @@ function App() {
       hasLoadedLibraryRef.current = true;
 
       try {
-        const [savedTracks, savedPlaylists, savedMarkers] = await Promise.all([
+        const savedQueue = loadQueue();
+        const [loadedTracks, savedPlaylists, savedMarkers, savedLoops, savedFolders] = await Promise.all([
           loadTracksFromIndexedDB(),
           loadPlaylists(),
-          loadMarkers()
+          loadMarkers(),
+          loadLoops(),
+          loadLinkedFolders()
         ]);
 
+        // Folders we still have access to are rescanned now; the rest wait for a click to reconnect
+        let savedTracks = loadedTracks;
+        if (savedFolders.length > 0) {
+          setLinkedFolders(savedFolders);
+          const disconnected: string[] = [];
+          for (const folder of savedFolders) {
+            if (!await hasFolderPermission(folder)) {
+              disconnected.push(folder.id);
+              continue;
+            }
+            try {
+              const sync = await syncLinkedFolder(folder, savedTracks);
+              savedTracks = sync.tracks;
+              markFolderScanned(folder.id);
+              console.log(`[App] ${describeFolderSync(folder, sync.result, sync.addedCount)}`);
+            } catch (error) {
+              console.error(`[App] Failed to scan linked folder ${folder.name}:`, error);
+              disconnected.push(folder.id);
+            }
+          }
+          setDisconnectedFolderIds(disconnected);
+          if (disconnected.length < savedFolders.length) {
+            saveTracksToIndexedDB(savedTracks).catch(err => console.error("Failed to save linked folders", err));
+          }
+        }
+
         if (savedTracks.length > 0) {
           console.log(`[App] Setting ${savedTracks.length} tracks to state`);
           setTracks(savedTracks);
           addToast(`Loaded ${savedTracks.length} track${savedTracks.length !== 1 ? 's' : ''} from library`);
+
+          // Restore the play queue and cue up the track that was playing
+          if (savedQueue) {
+            const restoredQueue = pruneQueue(savedQueue, new Set(savedTracks.map(t => t.id)));
+            setQueue(restoredQueue);
+            setPlayerState(prev => ({ ...prev, isShuffle: restoredQueue.shuffled }));
+            const cuedTrack = savedTracks.find(t => t.id === restoredQueue.currentId);
+            if (cuedTrack?.url) {
+              audioRef.current.src = cuedTrack.url;
+              setCurrentTrack(cuedTrack);
+            }
+          }
         }
         if (savedPlaylists.length > 0) {
           console.log(`[App] Setting ${savedPlaylists.length} playlists to state`);
@@ -428,6 +693,9 @@ function App() {
           console.log(`[App] Setting ${savedMarkers.length} markers to state`);
           setMarkers(savedMarkers);
         }
+        if (savedLoops.length > 0) {
+          setLoops(savedLoops);
+        }
       } catch (error) {
         console.error('[App] Failed to load library, playlists, or markers:', error);
         hasLoadedLibraryRef.current = false; // Reset on error
@@ -440,8 +708,29 @@ function App() {
   // --- Auto-save EQ settings when they change ---
   useEffect(() => {
     // Save EQ settings to localStorage
-    saveEQSettings(eqBands);
-  }, [eqBands]);
+    saveEQSettings({ bands: eqBands, preamp: eqPreamp });
+  }, [eqBands, eqPreamp]);
+
+  // --- Apply parameter changes to the running effects ---
+  useEffect(() => {
+    audioGraphRef.current?.units.eq.apply({ bands: eqBands, preamp: eqPreamp });
+  }, [eqBands, eqPreamp]);
+
+  useEffect(() => {
+    audioGraphRef.current?.units.dynamics.apply(dynamics);
+    saveDynamicsSettings(dynamics);
+  }, [dynamics]);
+
+  useEffect(() => {
+    const graph = audioGraphRef.current;
+    if (graph) {
+      graph.setChain(effects.chain);
+      graph.units.karaoke.apply(effects.karaoke);
+      graph.units.stereoWidth.apply(effects.stereoWidth);
+      graph.units.crossfeed.apply(effects.crossfeed);
+    }
+    saveEffectsSettings(effects);
+  }, [effects]);
 
   // --- Auto-save playlists when they change ---
   useEffect(() => {
@@ -450,11 +739,91 @@ function App() {
     savePlaylists(playlists).catch(err => console.error("Failed to save playlists", err));
   }, [playlists]);
 
-  // --- Auto-save markers when they change ---
+  // --- Auto-save play queue when it changes ---
+  useEffect(() => {
+    if (!hasLoadedLibraryRef.current || !queue) return;
+    saveQueue(queue);
+  }, [queue]);
+
+  // --- Auto-save markers and saved loops when they change ---
   useEffect(() => {
     if (!hasLoadedLibraryRef.current) return;
-    saveMarkers(markers).catch(err => console.error("Failed to save markers", err));
-  }, [markers]);
+    saveMarkers(markers, loops).catch(err => console.error("Failed to save markers", err));
+  }, [markers, loops]);
+
+  // --- Storage quota: warn as it fills up, and when a write fails for lack of space ---
+  useEffect(() => {
+    return onQuotaExceeded(() => addToast('Out of storage space: changes were not saved. Free up space under Storage.', 'error'));
+  }, []);
+
+  useEffect(() => {
+    getStorageEstimate().then(estimate => {
+      if (!estimate?.quota) return;
+      const ratio = estimate.usage / estimate.quota;
+      const level = ratio >= QUOTA_CRITICAL_RATIO ? 2 : ratio >= QUOTA_WARNING_RATIO ? 1 : 0;
+      if (level > quotaWarningLevelRef.current) {
+        addToast(`Storage is ${Math.round(ratio * 100)}% full. Free up space under Storage.`, 'error');
+      }
+      quotaWarningLevelRef.current = level;
+    });
+  }, [tracks]);
+
+  // --- A–B loop: restart the pass count and tempo whenever the looped region changes ---
+  // Editing passes or the ramp mid-loop carries on from the current pass
+  useEffect(() => {
+    loopPassRef.current = 0;
+    setLoopPass(0);
+    applyPractice(audioRef.current, currentTrack);
+  }, [activeLoop?.start, activeLoop?.end]);
+
+  // --- A–B loop: jump back to A whenever playback crosses B ---
+  // Checked every frame since timeupdate only fires every ~250ms. Seeking past B
+  // doesn't cross it, so that escapes the loop.
+  useEffect(() => {
+    if (!activeLoop || !playerState.isPlaying) return;
+    let frame = 0;
+    const start = getTrackStart(currentTrack);
+    let lastTime = audioRef.current.currentTime - start;
+
+    const check = () => {
+      const audio = audioRef.current;
+      const time = audio.currentTime - start;
+      if (lastTime < activeLoop.end && time >= activeLoop.end) {
+        const completed = loopPassRef.current + 1;
+        loopPassRef.current = completed;
+        setLoopPass(completed);
+        if (isLoopFinished(activeLoop, completed)) {
+          addToast(`Loop finished after ${completed} passes`);
+          setActiveLoop(null);
+          return;
+        }
+        audio.currentTime = start + activeLoop.start;
+        audio.playbackRate = getLoopTempo(activeLoop, currentTrack?.practice?.tempo ?? DEFAULT_PRACTICE.tempo, completed);
+      }
+      lastTime = audio.currentTime - start;
+      frame = requestAnimationFrame(check);
+    };
+    frame = requestAnimationFrame(check);
+    return () => cancelAnimationFrame(frame);
+  }, [activeLoop, playerState.isPlaying, currentTrack]);
+
+  // --- Loops belong to one track ---
+  useEffect(() => {
+    setActiveLoop(null);
+    setLoopStartPoint(null);
+    pendingLoopRef.current = null;
+  }, [currentTrack?.id]);
+
+  // --- Seek Bar Waveform ---
+  useEffect(() => {
+    setWaveform(null);
+    if (!currentTrack) return;
+    let cancelled = false;
+    getTrackWaveform(currentTrack).then(peaks => {
+      if (!cancelled) setWaveform(peaks);
+    });
+    return () => { cancelled = true; };
+  }, [currentTrack?.id]);
 
   // --- Keyboard Shortcuts ---
   useEffect(() => {
@@ -462,6 +831,10 @@ function App() {
         if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
 
         switch(e.key) {
+            case '/':
+                e.preventDefault();
+                searchInputRef.current?.focus();
+                break;
             case ' ':
                 e.preventDefault();
                 togglePlayPause();
@@ -486,8 +859,16 @@ function App() {
                 toggleMute();
                 break;
             case 's':
-                setPlayerState(prev => ({ ...prev, isShuffle: !prev.isShuffle }));
-                addToast(`Shuffle ${!playerState.isShuffle ? 'On' : 'Off'}`);
+                addToast(`Shuffle ${toggleShuffle() ? 'On' : 'Off'}`);
+                break;
+            case '[':
+                setLoopPoint('start');
+                break;
+            case ']':
+                setLoopPoint('end');
+                break;
+            case '\\':
+                clearLoop();
                 break;
             case 'r':
                 setPlayerState(prev => {
@@ -501,7 +882,7 @@ function App() {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [playerState, currentTrack]);
+  }, [playerState, currentTrack, loopStartPoint, activeLoop]);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -515,12 +896,63 @@ function App() {
 
   // --- Actions ---
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+  // CUE sheets and lyrics that come along with audio files
+  const readSidecars = async (files: File[]) => {
+    const cueSheets = (await Promise.all(files.filter(f => /\.cue$/i.test(f.name)).map(readCueFile)))
+      .filter((sheet): sheet is CueSheet => sheet !== null);
+    // Sidecar lyrics pair up with the audio file of the same name
+    const lyricsFiles = new Map<string, string>();
+    for (const file of files.filter(f => /\.lrc$/i.test(f.name))) {
+      const text = await readLyricsFile(file);
+      if (text) lyricsFiles.set(baseName(file.name), text);
+    }
+    return { cueSheets, lyricsFiles };
+  };
+
+  // Read embedded tags, falling back to the filename when a file has none
+  const createLocalTracks = async (
+    audioFiles: File[],
+    { cueSheets, lyricsFiles }: Awaited<ReturnType<typeof readSidecars>>,
+    hashes: Map<File, string>
+  ): Promise<Track[]> => {
+    return (await Promise.all(audioFiles.map(async file => {
+      const meta = await readMetadata(file);
+      const track = {
+        file,
+        contentHash: hashes.get(file),
+        name: meta.title || file.name.replace(/\.[^/.]+$/, ""),
+        artist: meta.artist || meta.albumArtist || 'Local File',
+        album: meta.album,
+        albumArtist: meta.albumArtist,
+        year: meta.year,
+        genre: meta.genre,
+        trackNumber: meta.trackNumber,
+        discNumber: meta.discNumber,
+        duration: meta.duration,
+        coverArtUrl: meta.picture ? pictureToDataUrl(meta.picture) : undefined,
+        loudness: meta.replayGain ? { ...meta.replayGain, source: 'tags' as const } : undefined,
+        type: 'local' as const,
+        folder: file.webkitRelativePath.includes('/') ? file.webkitRelativePath.slice(0, file.webkitRelativePath.lastIndexOf('/')) : undefined,
+        addedAt: Date.now()
+      };
+
+      // A CUE sheet next to the file splits it into its album's tracks. Lyrics
+      // are timed against the whole file, so they only go on unsplit tracks.
+      const sheet = cueSheets.find(s => getCueTracksForFile(s, file).length > 0);
+      const lyrics = lyricsFiles.get(baseName(file.name)) ?? meta.lyrics;
+      const parts = sheet ? splitByCueSheet(track, sheet, getCueTracksForFile(sheet, file)) : [{ ...track, lyrics }];
+      return parts.map(part => ({ ...part, id: generateId(), url: URL.createObjectURL(file) }));
+    }))).flat();
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files) {
       const files = Array.from(event.target.files) as File[];
       
       const imageFile = files.find(f => f.type.startsWith('image/'));
       const audioFiles = files.filter(f => f.type.startsWith('audio/') || f.name.match(/\.(mp3|wav|ogg|flac|m4a|aac)$/i));
+      const sidecars = await readSidecars(files);
+      const { lyricsFiles } = sidecars;
       let tracksAddedCount = 0;
 
       if (imageFile) {
@@ -537,11 +969,20 @@ function App() {
       }
 
       if (audioFiles.length > 0) {
-        // Filter out duplicates based on file name, size, and last modified time
-        const newTracks: Track[] = audioFiles
+        // Filter out duplicates by audio content, so renamed or retagged copies are caught too.
+        // Tracks added before content hashing still match on file name, size and date.
+        const hashes = await hashFiles(audioFiles);
+        const knownHashes = new Set(tracks.map(t => t.contentHash).filter(Boolean));
+        const evictedHashes = new Set(tracks.filter(t => t.evictedAt).map(t => t.contentHash).filter(Boolean));
+        const restoredFiles = new Map<string, File>(); // Audio that was removed to free space, by hash
+        const uniqueFiles = audioFiles
           .filter(file => {
-            // Check if file already exists in library
-            const isDuplicate = tracks.some(track =>
+            const hash = hashes.get(file);
+            if (hash && evictedHashes.has(hash)) {
+              restoredFiles.set(hash, file);
+              return false;
+            }
+            const isDuplicate = (hash !== undefined && knownHashes.has(hash)) || tracks.some(track =>
               track.type === 'local' &&
               track.file &&
               track.file.name === file.name &&
@@ -550,17 +991,33 @@ function App() {
             );
             if (isDuplicate) {
               console.log(`Skipping duplicate: ${file.name}`);
+            } else if (hash) {
+              knownHashes.add(hash); // The same file twice in one selection
             }
             return !isDuplicate;
-          })
-          .map(file => ({
-            id: generateId(),
-            file,
-            name: file.name.replace(/\.[^/.]+$/, ""),
-            artist: 'Local File',
-            url: URL.createObjectURL(file),
-            type: 'local'
-          }));
+          });
+
+        // Files that won't fit are still playable this session, but their save will fail
+        const incomingBytes = [...uniqueFiles, ...restoredFiles.values()].reduce((sum, file) => sum + file.size, 0);
+        const estimate = await getStorageEstimate();
+        if (estimate?.quota && estimate.usage + incomingBytes > estimate.quota * QUOTA_CRITICAL_RATIO) {
+          addToast(`Not enough storage to keep ${formatBytes(incomingBytes, 1)} of new audio. Free up space under Storage.`, 'error');
+        }
+
+        const newTracks = await createLocalTracks(uniqueFiles, sidecars, hashes);
+
+        if (restoredFiles.size > 0) {
+          const restoredCount = tracks.filter(t => t.evictedAt && restoredFiles.has(t.contentHash!)).length;
+          setTracks(prev => {
+            const updatedTracks = prev.map(t => {
+              const file = t.evictedAt && t.contentHash ? restoredFiles.get(t.contentHash) : undefined;
+              return file ? { ...t, file, url: URL.createObjectURL(file), evictedAt: undefined } : t;
+            });
+            saveTracksToIndexedDB(updatedTracks).catch(err => console.error("Failed to save restored audio", err));
+            return updatedTracks;
+          });
+          addToast(`Audio restored for ${restoredCount} track${restoredCount !== 1 ? 's' : ''}`);
+        }
 
         if (newTracks.length > 0) {
           setTracks(prev => {
@@ -573,10 +1030,32 @@ function App() {
           });
           tracksAddedCount = newTracks.length;
           addToast(`Added ${tracksAddedCount} track${tracksAddedCount !== 1 ? 's' : ''}`);
-        } else if (audioFiles.length > 0) {
+          // Ask once the library holds audio worth protecting; browsers that prompt do it on this click
+          requestPersistentStorage();
+        } else if (restoredFiles.size === 0) {
           addToast('All files already in library');
         }
       }
+
+      // Lyrics dropped without their audio go to the library tracks they're named after
+      const newAudioNames = new Set(audioFiles.map(f => baseName(f.name)));
+      const lyricsUpdates = new Map<string, string>();
+      tracks.forEach(track => {
+        if (!track.file || track.cueStart !== undefined || newAudioNames.has(baseName(track.file.name))) return;
+        const lyrics = lyricsFiles.get(baseName(track.file.name));
+        if (lyrics) lyricsUpdates.set(track.id, lyrics);
+      });
+      if (lyricsUpdates.size > 0) {
+        setTracks(prev => {
+          const updatedTracks = prev.map(t => lyricsUpdates.has(t.id) ? { ...t, lyrics: lyricsUpdates.get(t.id) } : t);
+          saveTracksToIndexedDB(updatedTracks).catch(err => console.error("Failed to save lyrics", err));
+          return updatedTracks;
+        });
+        if (currentTrack && lyricsUpdates.has(currentTrack.id)) {
+          setCurrentTrack(prev => prev && { ...prev, lyrics: lyricsUpdates.get(prev.id) ?? prev.lyrics });
+        }
+        addToast(`Lyrics added to ${lyricsUpdates.size} track${lyricsUpdates.size !== 1 ? 's' : ''}`);
+      }
     }
   };
 
@@ -704,7 +1183,8 @@ function App() {
                   artist: streamData.author || 'YouTube',
                   url: streamData.url,
                   type: 'stream',
-                  coverArtUrl: streamData.thumbnail
+                  coverArtUrl: streamData.thumbnail,
+                  addedAt: Date.now()
               };
 
               setTracks(prev => {
@@ -736,7 +1216,8 @@ function App() {
           name: 'Network Stream',
           artist: networkUrl,
           url: networkUrl,
-          type: 'stream'
+          type: 'stream',
+          addedAt: Date.now()
       };
       setTracks(prev => {
         const updatedTracks = [...prev, newTrack];
@@ -748,7 +1229,185 @@ function App() {
       playTrack(newTrack);
   };
 
+  // --- Gapless / Crossfade Engine ---
+
+  const clearTransitionTimer = () => {
+    if (transitionTimeoutRef.current) {
+      clearTimeout(transitionTimeoutRef.current);
+      transitionTimeoutRef.current = null;
+    }
+  };
+
+  const setDeckGain = (deck: HTMLAudioElement, value: number) => {
+    const gain = deckGainsRef.current.get(deck);
+    const ctx = audioContextRef.current;
+    if (!gain || !ctx) return;
+    gain.gain.cancelScheduledValues(ctx.currentTime);
+    gain.gain.setValueAtTime(value, ctx.currentTime);
+  };
+
+  // Set a deck's ReplayGain for the track loaded on it
+  const applyLoudness = (deck: HTMLAudioElement, track: Track | null) => {
+    const gain = deckLoudnessRef.current.get(deck);
+    const ctx = audioContextRef.current;
+    if (!gain || !ctx) return;
+    const db = track ? getNormalizationGain(track, tracks, loudness) : 0;
+    // Short ramp so pre-amp changes don't click
+    gain.gain.setTargetAtTime(dbToGain(db), ctx.currentTime, 0.02);
+  };
+
+  // Set a deck's tempo and pitch for the track loaded on it
+  const applyPractice = (deck: HTMLAudioElement, track: Track | null) => {
+    const practice = track?.practice ?? DEFAULT_PRACTICE;
+    // Loading a new source resets playbackRate to the default rate, so set both
+    deck.defaultPlaybackRate = practice.tempo;
+    deck.playbackRate = practice.tempo;
+    deck.preservesPitch = practice.preservePitch;
+    deckPitchRef.current.get(deck)?.setPitch(getPitchShift(practice));
+  };
+
+  // Make another deck the active one, carrying over volume
+  const activateDeck = (deck: HTMLAudioElement) => {
+    const previous = audioRef.current;
+    deck.volume = previous.volume;
+    deck.muted = previous.muted;
+    audioRef.current = deck;
+  };
+
+  // Cut off anything still playing on the idle deck (e.g. the tail of a crossfade)
+  const stopInactiveDecks = () => {
+    clearTransitionTimer();
+    if (fadeTimeoutRef.current) {
+      clearTimeout(fadeTimeoutRef.current);
+      fadeTimeoutRef.current = null;
+    }
+    decksRef.current!.forEach(deck => {
+      if (deck !== audioRef.current) deck.pause();
+      setDeckGain(deck, 1);
+    });
+  };
+
+  // Stop and unload the current track, e.g. when it leaves the library
+  const stopPlayer = () => {
+    stopInactiveDecks();
+    audioRef.current.pause();
+    audioRef.current.removeAttribute('src');
+    audioRef.current.load();
+    setCurrentTrack(null);
+    setPlayerState(prev => ({ ...prev, isPlaying: false, currentTime: 0, duration: 0 }));
+  };
+
+  // Buffer the upcoming track on the idle deck
+  const preloadTrack = (track: Track) => {
+    if (preloadRef.current?.trackId === track.id || !track.url) return;
+    if (fadeTimeoutRef.current) return; // Idle deck is still fading out
+    const deck = decksRef.current!.find(d => d !== audioRef.current)!;
+    deck.pause();
+    applyLoudness(deck, track);
+    deck.preload = 'auto';
+    deck.src = track.url;
+    deck.load();
+    deck.currentTime = getTrackStart(track); // Honoured once the metadata loads
+    applyPractice(deck, track);
+    preloadRef.current = { trackId: track.id, deck };
+  };
+
+  const updateMediaSession = (track: Track) => {
+    // Update Media Session API for lock screen controls
+    if ('mediaSession' in navigator) {
+      navigator.mediaSession.metadata = new MediaMetadata({
+        title: track.name,
+        artist: track.artist || 'Unknown Artist',
+        album: track.album || 'Penko-tune',
+        artwork: track.coverArtUrl ? [
+          { src: track.coverArtUrl, sizes: '512x512', type: 'image/jpeg' }
+        ] : []
+      });
+    }
+  };
+
+  /**
+   * Start the preloaded next track on the idle deck while the current one finishes,
+   * fading between them when a crossfade applies. Falls back to the regular 'ended'
+   * path if the next track isn't ready.
+   */
+  const startTransition = (nextTrack: Track, fade: number) => {
+    const nextQueue = advanceQueue(getActiveQueue(), playerState.repeatMode === 'all');
+    const preloaded = preloadRef.current;
+    if (!nextQueue || nextQueue.currentId !== nextTrack.id) return;
+    if (!preloaded || preloaded.trackId !== nextTrack.id || preloaded.deck.error) return;
+
+    const outgoing = audioRef.current;
+    const incoming = preloaded.deck;
+    preloadRef.current = null;
+    endListening(true);
+
+    activateDeck(incoming);
+    const ctx = audioContextRef.current;
+    const incomingGain = deckGainsRef.current.get(incoming);
+    const outgoingGain = deckGainsRef.current.get(outgoing);
+    if (ctx && fade > 0 && incomingGain && outgoingGain) {
+      scheduleFade(incomingGain.gain, crossfade.curve, 'in', ctx.currentTime, fade);
+      scheduleFade(outgoingGain.gain, crossfade.curve, 'out', ctx.currentTime, fade);
+    } else {
+      setDeckGain(incoming, 1);
+    }
+    incoming.currentTime = getTrackStart(nextTrack);
+    incoming.play().catch(() => {
+      // Errors handled by listener
+    });
+
+    // Let the outgoing deck finish its fade (or its last few ms) before stopping it
+    fadeTimeoutRef.current = window.setTimeout(() => {
+      fadeTimeoutRef.current = null;
+      if (outgoing !== audioRef.current) outgoing.pause();
+      setDeckGain(outgoing, 1);
+    }, (fade > 0 ? fade * 1000 : GAPLESS_LEAD_MS) + 250);
+
+    console.log(`[Play] ${fade > 0 ? `Crossfading (${fade}s)` : 'Gapless'} into: ${nextTrack.name}`);
+    setQueue(nextQueue);
+    setCurrentTrack(nextTrack);
+    updateMediaSession(nextTrack);
+  };
+
+  // Runs on every timeupdate of the active deck
+  const prepareTransition = () => {
+    const audio = audioRef.current;
+    if (!currentTrack || audio.paused || !isFinite(audio.duration)) return;
+    if (playerState.repeatMode === 'one' || transitionTimeoutRef.current) return;
+    if (activeLoop) return; // Looping a passage, the track isn't going to end
+
+    const nextTrack = findTrack(peekNextId(getActiveQueue(), playerState.repeatMode === 'all'));
+    if (!nextTrack || nextTrack.id === currentTrack.id) return;
+
+    const remaining = (getTrackEnd(currentTrack, audio.duration) - audio.currentTime) / audio.playbackRate;
+    const fade = getCrossfadeDuration(crossfade, currentTrack, nextTrack);
+    if (remaining <= fade + PRELOAD_LEAD_SECONDS) preloadTrack(nextTrack);
+
+    if (fade > 0 && remaining <= fade) {
+      startTransition(nextTrack, Math.max(remaining, 0.1));
+    } else if (fade === 0 && remaining <= GAPLESS_SCHEDULE_SECONDS) {
+      // timeupdate only fires every ~250ms, so time the hand-over precisely
+      transitionTimeoutRef.current = window.setTimeout(() => {
+        transitionTimeoutRef.current = null;
+        startTransition(nextTrack, 0);
+      }, Math.max(0, remaining * 1000 - GAPLESS_LEAD_MS));
+    }
+  };
+
   const playTrack = async (track: Track) => {
+    // Linked tracks have no audio until their folder has been scanned this session,
+    // evicted ones until their file is added again
+    if (!track.url) {
+      const folder = linkedFolders.find(f => f.id === track.link?.folderId);
+      addToast(
+        folder ? `Reconnect "${folder.name}" to play this track`
+          : track.evictedAt ? `Audio for ${track.name} was removed to free space. Add the file again to play it.`
+          : `${track.name} can't be played`,
+        'error'
+      );
+      return;
+    }
     initAudioContext();
 
     if (currentTrack?.id !== track.id) {
@@ -759,20 +1418,21 @@ function App() {
         console.log(`[Play] -> File size: ${track.file.size} bytes | Type: ${track.file.type}`);
       }
 
-      audioRef.current.src = track.url;
-      setCurrentTrack(track);
-
-      // Update Media Session API for lock screen controls
-      if ('mediaSession' in navigator) {
-        navigator.mediaSession.metadata = new MediaMetadata({
-          title: track.name,
-          artist: track.artist || 'Unknown Artist',
-          album: track.album || 'Penko-tune',
-          artwork: track.coverArtUrl ? [
-            { src: track.coverArtUrl, sizes: '512x512', type: 'image/jpeg' }
-          ] : []
-        });
+      stopInactiveDecks();
+      const preloaded = preloadRef.current;
+      preloadRef.current = null;
+      if (preloaded?.trackId === track.id && preloaded.deck !== audioRef.current && !preloaded.deck.error) {
+        // Already buffered on the idle deck
+        audioRef.current.pause();
+        activateDeck(preloaded.deck);
+        audioRef.current.currentTime = getTrackStart(track);
+      } else {
+        audioRef.current.src = track.url;
+        audioRef.current.currentTime = getTrackStart(track);
       }
+      setCurrentTrack(track);
+      setQueue(prev => prev && setQueueCurrent(prev, track.id));
+      updateMediaSession(track);
     }
 
     // Slight delay to allow audio context to stabilize
@@ -788,7 +1448,7 @@ function App() {
   const togglePlayPause = async () => {
     if (!currentTrack && tracks.length === 0) return;
     if (!currentTrack && tracks.length > 0) {
-      playTrack(tracks[0]);
+      playTracks(tracks, 'Library');
       return;
     }
     
@@ -799,53 +1459,92 @@ function App() {
       } catch (err) { }
     } else {
       audioRef.current.pause();
+      stopInactiveDecks();
     }
   };
 
-  const getNextTrack = (): Track | null => {
-    if (tracks.length === 0) return null;
-    if (!currentTrack) return tracks[0];
+  // --- Play Queue ---
 
-    if (playerState.isShuffle) {
-        const remaining = tracks.filter(t => t.id !== currentTrack.id);
-        const randomIdx = Math.floor(Math.random() * remaining.length);
-        return remaining[randomIdx];
-    }
+  const findTrack = (id: string | null): Track | undefined => {
+    return id ? tracks.find(t => t.id === id) : undefined;
+  };
 
-    const currentIndex = tracks.findIndex(t => t.id === currentTrack.id);
-    const nextIndex = currentIndex + 1;
-    if (nextIndex < tracks.length) return tracks[nextIndex];
-    if (playerState.repeatMode === 'all') return tracks[0];
-    return null;
+  // Queue to work from: the current one, or the whole library if playback never started from a list
+  const getActiveQueue = (): PlayQueue => {
+    return queue ?? createQueue('Library', tracks.map(t => t.id), currentTrack?.id ?? null, playerState.isShuffle);
   };
 
-  const getPrevTrack = (): Track | null => {
-    if (tracks.length === 0) return null;
-    if (!currentTrack) return tracks[tracks.length - 1];
-    
-    if (audioRef.current.currentTime > 3) {
-        handleSeek(0);
-        return currentTrack;
-    }
-    const currentIndex = tracks.findIndex(t => t.id === currentTrack.id);
-    const prevIndex = currentIndex - 1;
-    if (prevIndex >= 0) return tracks[prevIndex];
-    if (playerState.repeatMode === 'all') return tracks[tracks.length - 1];
-    return tracks[0];
+  // Start playing a list (playlist, album, search results) so next/prev stay within it
+  const playTracks = (list: Track[], source: string, startIndex = 0) => {
+    if (list.length === 0) return;
+    const startTrack = list[startIndex];
+    setQueue(prev => createQueue(source, list.map(t => t.id), startTrack.id, playerState.isShuffle, prev));
+    playTrack(startTrack);
+  };
+
+  const playShuffledTracks = (list: Track[], source: string) => {
+    if (list.length === 0) return;
+    const startTrack = shuffleTracks(list)[0];
+    setQueue(prev => createQueue(source, list.map(t => t.id), startTrack.id, true, prev));
+    setPlayerState(prev => ({ ...prev, isShuffle: true }));
+    playTrack(startTrack);
+  };
+
+  // Picking a track from the list view queues up the list it was picked from
+  const selectListTrack = (track: Track) => {
+    const list = getSortedTracks();
+    const playlist = playlists.find(p => p.id === selectedPlaylist);
+    playTracks(list, playlist ? `Playlist: ${playlist.name}` : 'Library', list.indexOf(track));
+  };
+
+  const toggleShuffle = () => {
+    const isShuffle = !playerState.isShuffle;
+    setPlayerState(prev => ({ ...prev, isShuffle }));
+    setQueue(prev => prev && setQueueShuffle(prev, isShuffle));
+    return isShuffle;
+  };
+
+  const queueTracks = (trackIds: string[], mode: 'next' | 'last') => {
+    const active = getActiveQueue();
+    setQueue(mode === 'next' ? playNextInQueue(active, trackIds) : addToQueue(active, trackIds));
+    addToast(mode === 'next' ? 'Playing next' : 'Added to queue');
+  };
+
+  const playQueueItem = (section: QueueSection, index: number) => {
+    const next = jumpToQueueItem(getActiveQueue(), section, index);
+    const track = findTrack(next.currentId);
+    if (!track) return;
+    setQueue(next);
+    playTrack(track);
   };
 
   const playNext = () => {
-      const next = getNextTrack();
-      if (next) playTrack(next);
-      else addToast("End of playlist");
+      const next = advanceQueue(getActiveQueue(), playerState.repeatMode === 'all');
+      const track = next && findTrack(next.currentId);
+      if (next && track) {
+        setQueue(next);
+        playTrack(track);
+      } else {
+        addToast("End of playlist");
+      }
       showGestureFeedback('Next Track');
   };
 
   const playPrev = () => {
-      const prev = getPrevTrack();
-      if (prev) {
-        if (prev.id === currentTrack?.id) { } 
-        else playTrack(prev);
+      // Nothing is loaded on the deck to restart or step back from
+      if (!currentTrack) return;
+      // Restart the current track unless we're right at its beginning
+      if (audioRef.current.currentTime - getTrackStart(currentTrack) > 3) {
+        handleSeek(0);
+      } else {
+        const prev = retreatQueue(getActiveQueue());
+        const track = prev && findTrack(prev.currentId);
+        if (prev && track) {
+          setQueue(prev);
+          playTrack(track);
+        } else {
+          handleSeek(0);
+        }
       }
       showGestureFeedback('Prev Track');
   };
@@ -910,6 +1609,74 @@ function App() {
     }));
   };
 
+  // Create a smart playlist, or update the rules of an existing one
+  const saveSmartPlaylist = (name: string, rules: SmartPlaylistRules) => {
+    const existing = smartPlaylistEditor?.playlist;
+    if (existing) {
+      setPlaylists(prev => prev.map(p => p.id === existing.id ? { ...p, name, rules } : p));
+      addToast(`Updated smart playlist: ${name}`);
+    } else {
+      const newPlaylist: Playlist = {
+        id: generateId(),
+        name,
+        trackIds: [],
+        createdAt: Date.now(),
+        rules
+      };
+      setPlaylists(prev => [...prev, newPlaylist]);
+      setSelectedPlaylist(newPlaylist.id);
+      setViewMode(ViewMode.LIST);
+      addToast(`Created smart playlist: ${name}`);
+    }
+    setSmartPlaylistEditor(null);
+  };
+
+  // Smart playlists are resolved against the library on every call
+  const getPlaylistTracks = (playlist: Playlist): Track[] => {
+    if (playlist.rules) return evaluateSmartPlaylist(playlist.rules, tracks);
+    return tracks.filter(t => playlist.trackIds.includes(t.id));
+  };
+
+  // Export keeps the playlist's own order; smart playlists use their sort
+  const exportPlaylistFile = (format: PlaylistFormat) => {
+    if (!playlistExport) return;
+    const trackMap = new Map(tracks.map(t => [t.id, t]));
+    const exported = playlistExport.trackIds.map(id => trackMap.get(id)).filter((t): t is Track => !!t);
+    const fileName = playlistExport.name.replace(/[\\/:*?"<>|]/g, '_');
+    downloadBlob(writePlaylist(playlistExport.name, exported, format), `${fileName}.${PLAYLIST_FORMATS[format].extension}`);
+    setPlaylistExport(null);
+  };
+
+  const importPlaylistFile = async (file: File) => {
+    const parsed = await readPlaylistFile(file);
+    if (!parsed) {
+      addToast(`Could not read playlist: ${file.name}`, 'error');
+      return;
+    }
+    if (parsed.entries.length === 0) {
+      addToast(`No tracks in playlist: ${file.name}`, 'error');
+      return;
+    }
+
+    const result = resolvePlaylist(parsed, tracks);
+    if (result.newTracks.length > 0) {
+      setTracks(prev => {
+        const updatedTracks = [...prev, ...result.newTracks];
+        saveTracksToIndexedDB(updatedTracks).catch(err => console.error("Failed to save imported streams", err));
+        return updatedTracks;
+      });
+    }
+
+    const newPlaylist: Playlist = {
+      id: generateId(),
+      name: result.name,
+      trackIds: [...new Set(result.trackIds)],
+      createdAt: Date.now()
+    };
+    setPlaylists(prev => [...prev, newPlaylist]);
+    setPlaylistImportResult(result);
+  };
+
   // Get filtered tracks based on selected playlist
   const getFilteredTracks = (): Track[] => {
     if (!selectedPlaylist) {
@@ -918,7 +1685,13 @@ function App() {
     const playlist = playlists.find(p => p.id === selectedPlaylist);
     if (!playlist) return tracks;
 
-    return tracks.filter(t => playlist.trackIds.includes(t.id));
+    return getPlaylistTracks(playlist);
+  };
+
+  // The list as shown, which is also the order it plays in
+  const getSortedTracks = (): Track[] => {
+    const list = getFilteredTracks();
+    return trackSort ? sortTracks(list, trackSort) : list;
   };
 
   // --- Chapter Marker Functions ---
@@ -960,8 +1733,21 @@ function App() {
 
   const jumpToMarker = (timestamp: number) => {
     if (audioRef.current) {
-      audioRef.current.currentTime = timestamp;
+      audioRef.current.currentTime = getTrackStart(currentTrack) + timestamp;
+    }
+  };
+
+  // Jump into a marker on any track, loading the track first if needed
+  const playTrackAtMarker = (track: Track, timestamp: number) => {
+    if (currentTrack?.id === track.id) {
+      jumpToMarker(timestamp);
+      return;
     }
+    // jumpToMarker would still see the previous track here
+    audioRef.current.addEventListener('loadedmetadata', () => {
+      audioRef.current.currentTime = getTrackStart(track) + timestamp;
+    }, { once: true });
+    playTrack(track);
   };
 
   const jumpToNextMarker = () => {
@@ -985,12 +1771,77 @@ function App() {
     }
   };
 
+  // Save the current track's markers as a CUE sheet that splits its file at each marker
+  const exportMarkersAsCue = () => {
+    if (!currentTrack) return;
+    const sheet = createCueSheet(currentTrack, getCurrentTrackMarkers());
+    const baseName = (currentTrack.file?.name ?? currentTrack.name).replace(/\.[^/.]+$/, '');
+    downloadBlob(new Blob([sheet], { type: 'application/x-cue' }), `${baseName}.cue`);
+  };
+
   // Get markers for current track
   const getCurrentTrackMarkers = (): ChapterMarker[] => {
     if (!currentTrack) return [];
     return markers.filter(m => m.trackId === currentTrack.id).sort((a, b) => a.timestamp - b.timestamp);
   };
 
+  // --- A–B Loop ---
+
+  // A waits for B; B closes the loop. Either key can be pressed while the other is set.
+  const setLoopPoint = (point: 'start' | 'end') => {
+    if (!currentTrack) return;
+    const time = audioRef.current.currentTime - getTrackStart(currentTrack);
+    if (point === 'start') {
+      if (activeLoop) pendingLoopRef.current = activeLoop;
+      setActiveLoop(null);
+      setLoopStartPoint(time);
+      addToast(`Loop A: ${formatTime(time)}`);
+      return;
+    }
+    if (loopStartPoint === null) {
+      addToast('Set loop start first ( [ )', 'error');
+      return;
+    }
+    setLoop(loopStartPoint, time);
+  };
+
+  const setLoop = (start: number, end: number) => {
+    if (end - start < MIN_LOOP_SECONDS) {
+      addToast('Loop end must come after its start', 'error');
+      return;
+    }
+    setLoopStartPoint(null);
+    const settings = activeLoop ?? pendingLoopRef.current;
+    pendingLoopRef.current = null;
+    setActiveLoop(settings ? { ...settings, start, end } : createLoop(start, end));
+    handleSeek(start);
+    addToast(`Looping ${formatTime(start)} – ${formatTime(end)}`);
+  };
+
+  const clearLoop = () => {
+    setActiveLoop(null);
+    setLoopStartPoint(null);
+    pendingLoopRef.current = null;
+  };
+
+  const saveLoop = (label: string) => {
+    if (!currentTrack || !activeLoop) return;
+    const loop: SavedLoop = { ...activeLoop, id: generateId(), trackId: currentTrack.id, kind: 'loop', label };
+    setLoops(prev => [...prev, loop]);
+  };
+
+  const loadLoop = (loop: SavedLoop) => {
+    const { id, trackId, kind, label, ...region } = loop;
+    setLoopStartPoint(null);
+    pendingLoopRef.current = null;
+    setActiveLoop(region);
+    handleSeek(region.start);
+  };
+
+  const deleteLoop = (loopId: string) => {
+    setLoops(prev => prev.filter(l => l.id !== loopId));
+  };
+
   // --- Custom Album Cover ---
   const updateTrackCover = (trackId: string, imageFile: File) => {
     const reader = new FileReader();
@@ -1016,6 +1867,58 @@ function App() {
     reader.readAsDataURL(imageFile);
   };
 
+  // Update library-only fields (play stats, rating) and persist them
+  const updateTrackFields = (trackId: string, changes: Partial<Track>) => {
+    setTracks(prev => {
+      const updatedTracks = prev.map(t => t.id === trackId ? { ...t, ...changes } : t);
+      saveTracksToIndexedDB(updatedTracks).catch(err => console.error("Failed to save track changes", err));
+      return updatedTracks;
+    });
+    if (currentTrack?.id === trackId) {
+      setCurrentTrack(prev => prev?.id === trackId ? { ...prev, ...changes } : prev);
+    }
+  };
+
+  // Default settings are dropped rather than stored
+  const setTrackPractice = (trackId: string, practice: PracticeSettings) => {
+    updateTrackFields(trackId, { practice: isDefaultPractice(practice) ? undefined : practice });
+  };
+
+  const setTrackLyricsOffset = (trackId: string, offset: number) => {
+    updateTrackFields(trackId, { lyricsOffset: offset || undefined });
+  };
+
+  // --- Listening History ---
+  // A listen is a play once it passes the threshold; it's written then, and again when it ends
+  // so the history knows how much was heard and whether the track was skipped.
+  // Listens skipped before the threshold are written once, as early skips.
+
+  const trackListening = (track: Track, position: number, duration: number) => {
+    let session = listeningRef.current;
+    if (session?.track.id !== track.id) {
+      endListening(false);
+      session = startListeningSession(track, position);
+    }
+    session = advanceListeningSession(session, position, duration);
+    if (!session.event && hasPassedThreshold(session, playThreshold)) {
+      const event = createPlayEvent(session);
+      session = { ...session, event };
+      savePlayEvent(event);
+      updateTrackFields(track.id, { playCount: (track.playCount ?? 0) + 1, lastPlayedAt: Date.now() });
+    }
+    listeningRef.current = session;
+  };
+
+  const endListening = (finished: boolean) => {
+    const event = listeningRef.current && finishPlayEvent(listeningRef.current, finished);
+    listeningRef.current = null;
+    if (event) savePlayEvent(event);
+  };
+
+  const rateTrack = (trackId: string, rating: number) => {
+    updateTrackFields(trackId, { rating: rating || undefined });
+  };
+
   const removeTrackCover = (trackId: string) => {
     setTracks(prev => prev.map(t =>
       t.id === trackId ? { ...t, coverArtUrl: undefined } : t
@@ -1033,6 +1936,68 @@ function App() {
     addToast('Album cover removed');
   };
 
+  // --- Tag Editing ---
+  const saveTrackTags = async (trackId: string, edits: TagEdits): Promise<Track | null> => {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track) return null;
+
+    let updatedTrack: Track = {
+      ...track,
+      name: edits.title || track.name,
+      artist: edits.artist || undefined,
+      album: edits.album || undefined,
+      year: edits.year,
+      genre: edits.genre || undefined,
+      trackNumber: edits.trackNumber,
+      coverArtUrl: edits.picture === undefined
+        ? track.coverArtUrl
+        : edits.picture ? pictureToDataUrl(edits.picture) : undefined
+    };
+
+    // Rewrite the tags into the file itself for local tracks
+    if (track.type === 'local' && track.file) {
+      try {
+        const blob = await writeMetadata(track.file, edits);
+        const folder = track.link && linkedFolders.find(f => f.id === track.link!.folderId);
+        if (track.link && folder) {
+          // Linked files are edited in place on disk
+          const file = await writeLinkedFile(folder, track.link.path, blob);
+          const link = { ...track.link, size: file.size, lastModified: file.lastModified, fingerprint: await getFingerprint(file) };
+          updatedTrack = { ...updatedTrack, file, link, url: URL.createObjectURL(file) };
+        } else {
+          const file = new File([blob], track.file.name, { type: track.file.type, lastModified: Date.now() });
+          updatedTrack = { ...updatedTrack, file, url: URL.createObjectURL(file) };
+        }
+      } catch (error) {
+        console.error('Failed to write tags:', error);
+        addToast(`Could not write tags to ${track.file.name}`, 'error');
+        return null;
+      }
+
+      // The playing track keeps its old blob URL until the deck moves on from it
+      if (track.url.startsWith('blob:')) {
+        if (currentTrack?.id === trackId) staleUrlsRef.current.add(track.url);
+        else URL.revokeObjectURL(track.url);
+      }
+    }
+
+    setTracks(prev => {
+      const updatedTracks = prev.map(t => t.id === trackId ? updatedTrack : t);
+      saveTracksToIndexedDB(updatedTracks).catch(err => {
+        console.error("Failed to save tag edits", err);
+        addToast("Error saving library", "error");
+      });
+      return updatedTracks;
+    });
+
+    if (currentTrack?.id === trackId) {
+      setCurrentTrack({ ...updatedTrack, url: currentTrack.url });
+    }
+
+    addToast('Tags updated');
+    return updatedTrack;
+  };
+
   const removeTrack = (id: string, e: React.MouseEvent) => {
       e.stopPropagation();
 
@@ -1057,66 +2022,337 @@ function App() {
       setTracks(tracksAfterRemoval);
 
       // Handle playback transition
+      const remainingIds = new Set<string>(tracksAfterRemoval.map(t => t.id));
       if (currentTrack?.id === id) {
-        const currentIndex = tracks.findIndex(t => t.id === id);
-        const nextTrack = tracksAfterRemoval[currentIndex] ?? tracksAfterRemoval[0];
+        const prunedQueue = pruneQueue(getActiveQueue(), remainingIds);
+        const nextQueue = advanceQueue(prunedQueue, true);
+        const nextTrack = nextQueue && tracksAfterRemoval.find(t => t.id === nextQueue.currentId);
+        setQueue(nextTrack ? nextQueue : prunedQueue);
 
         if (nextTrack) {
           playTrack(nextTrack);
         } else {
           // Library is now empty, stop the player
-          audioRef.current.pause();
-          audioRef.current.removeAttribute('src');
-          audioRef.current.load();
-          setCurrentTrack(null);
-          setPlayerState(prev => ({ ...prev, isPlaying: false, currentTime: 0, duration: 0 }));
+          stopPlayer();
         }
+      } else {
+        setQueue(prev => prev && pruneQueue(prev, remainingIds));
+      }
+  };
+
+  // --- Linked Folders ---
+
+  /**
+   * Rescan a linked folder and apply what changed on disk to `libraryTracks`.
+   * Files that didn't change keep their blob URLs, so a playing track carries on.
+   */
+  const syncLinkedFolder = async (folder: LinkedFolder, libraryTracks: Track[]) => {
+    const result = await reconcileFolder(folder.id, libraryTracks, await scanFolder(folder.handle));
+    const links = new Map(result.added.map(({ file, link }) => [file, link]));
+    const addedFiles = result.added.map(({ file }) => file);
+    const addedTracks = (await createLocalTracks(addedFiles, await readSidecars(result.sidecars), await hashFiles(addedFiles)))
+      .map(track => ({ ...track, link: links.get(track.file!) }));
+    const removedIds = new Set(result.removed);
+
+    const keptTracks = libraryTracks.filter(track => {
+      if (!removedIds.has(track.id)) return true;
+      if (track.url.startsWith('blob:') && track.id !== currentTrack?.id) URL.revokeObjectURL(track.url);
+      return false;
+    });
+    const syncedTracks = keptTracks.map(track => {
+      const linked = result.existing.get(track.id);
+      const link = track.link;
+      if (!linked || (track.url && link?.path === linked.link.path && link.size === linked.link.size && link.lastModified === linked.link.lastModified)) {
+        return track;
+      }
+      if (track.url.startsWith('blob:') && track.id !== currentTrack?.id) URL.revokeObjectURL(track.url);
+      // A file whose content changed needs hashing again
+      const contentHash = link?.fingerprint === linked.link.fingerprint ? track.contentHash : undefined;
+      return { ...track, file: linked.file, link: linked.link, url: URL.createObjectURL(linked.file), contentHash };
+    });
+
+    return { tracks: [...syncedTracks, ...addedTracks], result, addedCount: addedTracks.length };
+  };
+
+  const describeFolderSync = (folder: LinkedFolder, result: FolderScanResult, addedCount: number): string => {
+    const changes = [
+      addedCount > 0 && `${addedCount} added`,
+      result.removed.length > 0 && `${result.removed.length} removed`,
+      result.moved + result.renamed > 0 && `${result.moved + result.renamed} moved or renamed`,
+      result.modified > 0 && `${result.modified} changed`,
+    ].filter(Boolean);
+    return `${folder.name}: ${changes.length > 0 ? changes.join(', ') : 'up to date'}`;
+  };
+
+  const markFolderScanned = (folderId: string) => {
+    setLinkedFolders(prev => {
+      const updatedFolders = prev.map(f => f.id === folderId ? { ...f, lastScannedAt: Date.now() } : f);
+      saveLinkedFolders(updatedFolders);
+      return updatedFolders;
+    });
+  };
+
+  // Asks for access again if needed, so call it from a click
+  const rescanLinkedFolder = async (folder: LinkedFolder) => {
+    if (!await hasFolderPermission(folder, true)) {
+      addToast(`No access to ${folder.name}`, 'error');
+      return;
+    }
+    setDisconnectedFolderIds(prev => prev.filter(id => id !== folder.id));
+    setScanningFolderId(folder.id);
+
+    try {
+      const sync = await syncLinkedFolder(folder, tracks);
+      setTracks(sync.tracks);
+      saveTracksToIndexedDB(sync.tracks).catch(err => console.error("Failed to save linked folder", err));
+      setQueue(prev => prev && pruneQueue(prev, new Set(sync.tracks.map(t => t.id))));
+
+      // A track cued before the folder was reconnected has no audio loaded yet
+      const refreshed = currentTrack && sync.tracks.find(t => t.id === currentTrack.id);
+      if (refreshed && !currentTrack.url) {
+        audioRef.current.src = refreshed.url;
+        audioRef.current.currentTime = getTrackStart(refreshed);
+        setCurrentTrack(refreshed);
+      } else if (refreshed) {
+        setCurrentTrack({ ...refreshed, url: currentTrack.url });
       }
+
+      markFolderScanned(folder.id);
+      addToast(describeFolderSync(folder, sync.result, sync.addedCount));
+    } catch (error) {
+      console.error('[Folders] Failed to scan folder:', error);
+      addToast(`Could not scan ${folder.name}`, 'error');
+    } finally {
+      setScanningFolderId(null);
+    }
+  };
+
+  const linkFolder = async () => {
+    let folder: LinkedFolder | null;
+    try {
+      folder = await pickLinkedFolder();
+    } catch {
+      addToast('Could not open folder', 'error');
+      return;
+    }
+    if (!folder) return;
+
+    // Linking a folder twice, or one inside another, would add its tracks twice
+    const covering = await findCoveringFolder(linkedFolders, folder.handle);
+    if (covering) {
+      addToast(`${folder.name} is already linked through ${covering.name}`, 'error');
+      return;
+    }
+    for (const existing of linkedFolders) {
+      if (await folder.handle.resolve(existing.handle)) {
+        addToast(`Unlink ${existing.name} first, it is inside ${folder.name}`, 'error');
+        return;
+      }
+    }
+
+    setLinkedFolders(prev => {
+      const updatedFolders = [...prev, folder];
+      saveLinkedFolders(updatedFolders);
+      return updatedFolders;
+    });
+    await rescanLinkedFolder(folder);
+  };
+
+  // Unlinking removes the folder's tracks; the files on disk are left alone
+  const unlinkFolder = (folder: LinkedFolder) => {
+    const remainingTracks = tracks.filter(t => t.link?.folderId !== folder.id);
+    tracks.forEach(track => {
+      if (track.link?.folderId === folder.id && track.url.startsWith('blob:') && track.id !== currentTrack?.id) {
+        URL.revokeObjectURL(track.url);
+      }
+    });
+
+    setTracks(remainingTracks);
+    if (remainingTracks.length > 0) {
+      saveTracksToIndexedDB(remainingTracks).catch(err => console.error("Failed to save after unlinking folder", err));
+    } else {
+      clearLibrary().catch(err => console.error("Failed to clear library", err));
+    }
+    setQueue(prev => prev && pruneQueue(prev, new Set(remainingTracks.map(t => t.id))));
+    if (currentTrack?.link?.folderId === folder.id) {
+      stopPlayer();
+      if (currentTrack.url.startsWith('blob:')) URL.revokeObjectURL(currentTrack.url);
+    }
+
+    setLinkedFolders(prev => {
+      const updatedFolders = prev.filter(f => f.id !== folder.id);
+      saveLinkedFolders(updatedFolders);
+      return updatedFolders;
+    });
+    setDisconnectedFolderIds(prev => prev.filter(id => id !== folder.id));
+    const removedCount = tracks.length - remainingTracks.length;
+    addToast(`Unlinked ${folder.name} (${removedCount} track${removedCount !== 1 ? 's' : ''} removed)`);
+  };
+
+  // --- Backup Restore ---
+
+  // Stable between renders so the restore preview isn't recomputed on every time update
+  const librarySnapshot = useMemo(() => ({ tracks, playlists, markers, loops }), [tracks, playlists, markers, loops]);
+
+  const handleRestoreBackup = (restored: RestoredLibrary) => {
+    const restoredIds = new Set(restored.tracks.map(t => t.id));
+    const restoredUrls = new Set(restored.tracks.map(t => t.url));
+
+    // Tracks that stayed keep their blob URLs; free the ones that are gone
+    tracks.forEach(track => {
+      if (track.type === 'local' && track.url.startsWith('blob:') && !restoredUrls.has(track.url) && track.id !== currentTrack?.id) {
+        URL.revokeObjectURL(track.url);
+      }
+    });
+
+    setTracks(restored.tracks);
+    if (restored.tracks.length > 0) {
+      saveTracksToIndexedDB(restored.tracks).catch(err => console.error("Failed to save restored library", err));
+    } else {
+      clearLibrary().catch(err => console.error("Failed to clear library", err));
+    }
+    setPlaylists(restored.playlists);
+    setMarkers(restored.markers);
+    setLoops(restored.loops);
+    setQueue(prev => prev && pruneQueue(prev, restoredIds));
+
+    if (currentTrack && !restoredIds.has(currentTrack.id)) {
+      stopPlayer();
+      if (currentTrack.url.startsWith('blob:')) URL.revokeObjectURL(currentTrack.url);
+    } else if (currentTrack) {
+      setCurrentTrack(restored.tracks.find(t => t.id === currentTrack.id)!);
+    }
+
+    // Settings were written to storage by the restore; pick them up from there
+    if (restored.settingsChanged) {
+      const eq = loadEQSettings();
+      if (eq) {
+        setEqBands(eq.bands);
+        setEqPreamp(eq.preamp);
+      }
+      setDynamics(loadDynamicsSettings() || DEFAULT_DYNAMICS);
+      setEffects(loadEffectsSettings() || DEFAULT_EFFECTS);
+      setCrossfade(loadCrossfadeSettings() || DEFAULT_CROSSFADE);
+      setLoudness(loadLoudnessSettings() || DEFAULT_LOUDNESS);
+    }
+  };
+
+  // Content hashes computed by the duplicate finder for tracks added before hashing
+  const saveContentHashes = (hashes: Map<string, string>) => {
+    setTracks(prev => {
+      const updatedTracks = prev.map(t => hashes.has(t.id) ? { ...t, contentHash: hashes.get(t.id) } : t);
+      saveTracksToIndexedDB(updatedTracks).catch(err => console.error("Failed to save content hashes", err));
+      return updatedTracks;
+    });
+  };
+
+  const handleMergeDuplicates = (groups: { keepId: string; duplicateIds: string[] }[]) => {
+    let library = librarySnapshot;
+    const removed: Track[] = [];
+    for (const { keepId, duplicateIds } of groups) {
+      const merged = mergeDuplicates(library, keepId, duplicateIds);
+      removed.push(...merged.removed);
+      library = merged;
+    }
+    if (removed.length === 0) return;
+
+    const remainingIds = new Set<string>(library.tracks.map(t => t.id));
+    removed.forEach(track => {
+      if (track.type === 'local' && track.url.startsWith('blob:') && track.id !== currentTrack?.id) {
+        URL.revokeObjectURL(track.url);
+      }
+    });
+
+    setTracks(library.tracks);
+    saveTracksToIndexedDB(library.tracks).catch(err => console.error("Failed to save after merging duplicates", err));
+    setPlaylists(library.playlists);
+    setMarkers(library.markers);
+    setLoops(library.loops);
+    setQueue(prev => prev && pruneQueue(prev, remainingIds));
+
+    if (currentTrack && !remainingIds.has(currentTrack.id)) {
+      stopPlayer();
+      if (currentTrack.url.startsWith('blob:')) URL.revokeObjectURL(currentTrack.url);
+    } else if (currentTrack) {
+      setCurrentTrack({ ...library.tracks.find(t => t.id === currentTrack.id)!, url: currentTrack.url });
+    }
+
+    addToast(`Merged ${removed.length} duplicate${removed.length !== 1 ? 's' : ''}`);
+  };
+
+  const handleEvictAudio = async (trackIds: string[]) => {
+    const ids = new Set(trackIds);
+    const evicted = tracks.filter(t => ids.has(t.id));
+    // With a hash, adding the file again puts the audio back on the same tracks
+    const hashes = await hashTracks(evicted);
+    evicted.forEach(track => {
+      if (track.url.startsWith('blob:')) URL.revokeObjectURL(track.url);
+    });
+
+    setTracks(prev => {
+      const hashed = prev.map(t => hashes.has(t.id) ? { ...t, contentHash: hashes.get(t.id) } : t);
+      const updatedTracks = evictTracks(hashed, ids);
+      saveTracksToIndexedDB(updatedTracks).catch(err => {
+        console.error("Failed to save after removing audio", err);
+        addToast("Error saving library", "error");
+      });
+      return updatedTracks;
+    });
+    addToast(`Removed audio of ${evicted.length} track${evicted.length !== 1 ? 's' : ''}`);
   };
 
   // --- Control Handlers ---
 
   const handleSeek = (time: number) => {
     if (isFinite(time)) {
-        audioRef.current.currentTime = time;
+        audioRef.current.currentTime = getTrackStart(currentTrack) + time;
         setPlayerState(prev => ({ ...prev, currentTime: time }));
     }
   };
 
   const skip = (seconds: number) => {
       if (audioRef.current) {
-          handleSeek(audioRef.current.currentTime + seconds);
+          handleSeek(audioRef.current.currentTime - getTrackStart(currentTrack) + seconds);
           showGestureFeedback(seconds > 0 ? '+10s' : '-10s');
       }
   };
 
   const handleVolume = (vol: number) => {
-    audioRef.current.volume = vol;
-    audioRef.current.muted = false;
+    decksRef.current!.forEach(deck => {
+      deck.volume = vol;
+      deck.muted = false;
+    });
     setPlayerState(prev => ({ ...prev, volume: vol, isMuted: false }));
   };
 
   const toggleMute = () => {
     const newMuted = !playerState.isMuted;
-    audioRef.current.muted = newMuted;
+    decksRef.current!.forEach(deck => { deck.muted = newMuted; });
     setPlayerState(prev => ({ ...prev, isMuted: newMuted }));
   };
 
   // --- EQ Handlers ---
-  const handleEQChange = (index: number, value: number) => {
-      setEqBands(prev => {
-          const next = [...prev];
-          next[index].gain = value;
-          return next;
-      });
-      if (eqNodesRef.current[index]) {
-          eqNodesRef.current[index].gain.value = value;
-      }
+  // Filter nodes follow eqBands through the sync effect
+  const handleEQChange = (index: number, changes: Partial<EQBand>) => {
+      setEqBands(prev => prev.map((band, i) => i === index ? { ...band, ...changes } : band));
+  };
+
+  const addEQBand = () => {
+      setEqBands(prev => prev.length < MAX_EQ_BANDS ? [...prev, createEQBand(1000)] : prev);
+  };
+
+  const removeEQBand = (index: number) => {
+      setEqBands(prev => prev.filter((_, i) => i !== index));
   };
 
   const resetEQ = () => {
       setEqBands(prev => prev.map(b => ({ ...b, gain: 0 })));
-      eqNodesRef.current.forEach(node => node.gain.value = 0);
+      setEqPreamp(0);
+  };
+
+  const loadEQPreset = (preset: EQPreset) => {
+      setEqBands(preset.bands);
+      setEqPreamp(preset.preamp);
   };
 
   // --- Gesture & Touch Handlers ---
@@ -1190,16 +2426,18 @@ function App() {
   };
 
   const handleSpeedUpStart = () => {
-      if (audioRef.current.playbackRate !== 2.0) {
-        audioRef.current.playbackRate = 2.0;
-        setPlayerState(prev => ({...prev, playbackRate: 2.0}));
+      if (audioRef.current.playbackRate !== HOLD_SPEED) {
+        audioRef.current.playbackRate = HOLD_SPEED;
+        setPlayerState(prev => ({...prev, playbackRate: HOLD_SPEED}));
       }
   };
 
+  // Back to the track's practice tempo, which is kept as the deck's default rate
   const handleSpeedUpEnd = () => {
-      if (audioRef.current.playbackRate !== 1.0) {
-        audioRef.current.playbackRate = 1.0;
-        setPlayerState(prev => ({...prev, playbackRate: 1.0}));
+      const tempo = audioRef.current.defaultPlaybackRate;
+      if (audioRef.current.playbackRate !== tempo) {
+        audioRef.current.playbackRate = tempo;
+        setPlayerState(prev => ({...prev, playbackRate: tempo}));
       }
   };
 
@@ -1221,6 +2459,7 @@ function App() {
       if (Date.now() >= endTime) {
         // Timer expired - pause playback
         audioRef.current.pause();
+        stopInactiveDecks();
         setPlayerState(prev => ({ ...prev, isPlaying: false }));
         clearSleepTimer();
         addToast('Sleep timer ended - playback paused');
@@ -1277,6 +2516,37 @@ function App() {
             <h1 className="text-xl font-bold tracking-tight bg-gradient-to-r from-white to-zinc-400 bg-clip-text text-transparent hidden sm:block">Penko-tune</h1>
         </div>
         
+        {/* Search */}
+        <div className="flex-1 max-w-md mx-6 relative hidden md:block">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-500 pointer-events-none" />
+          <input
+            ref={searchInputRef}
+            type="text"
+            value={searchQuery}
+            onChange={(e) => {
+              setSearchQuery(e.target.value);
+              if (viewMode !== ViewMode.LIST) setViewMode(ViewMode.LIST);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') {
+                setSearchQuery('');
+                e.currentTarget.blur();
+              }
+            }}
+            placeholder="Search tracks, playlists, markers  (/)"
+            className="w-full pl-9 pr-8 py-2 text-sm bg-zinc-900 text-white border border-zinc-800 rounded-lg placeholder-zinc-500 focus:outline-none focus:border-cyan-500 transition-colors"
+          />
+          {searchQuery && (
+            <button
+              onClick={() => setSearchQuery('')}
+              className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-zinc-500 hover:text-white"
+              title="Clear search"
+            >
+              <X size={14} />
+            </button>
+          )}
+        </div>
+
         <div className="flex items-center gap-4">
            {/* Browse Music Button */}
            <button
@@ -1313,12 +2583,40 @@ function App() {
            {/* Tools */}
            <div className="flex bg-zinc-900 rounded-lg p-1 border border-zinc-800">
              <button
-               onClick={toggleKaraokeMode}
-               className={`p-2 rounded-md transition-all ${playerState.karaokeMode ? 'bg-zinc-800 text-cyan-400' : 'text-zinc-500 hover:text-zinc-300'}`}
+               onClick={() => toggleEffect('karaoke')}
+               className={`p-2 rounded-md transition-all ${isKaraokeEnabled ? 'bg-zinc-800 text-cyan-400' : 'text-zinc-500 hover:text-zinc-300'}`}
                title={t.vocalReduction}
              >
                 <Mic size={18} />
              </button>
+             <button
+               onClick={() => setShowQueue(!showQueue)}
+               className={`p-2 rounded-md transition-all ${showQueue ? 'bg-zinc-800 text-cyan-400' : 'text-zinc-500 hover:text-zinc-300'}`}
+               title="Up Next"
+             >
+                <ListOrdered size={18} />
+             </button>
+             <button
+               onClick={() => setShowPlaybackSettings(!showPlaybackSettings)}
+               className={`p-2 rounded-md transition-all ${showPlaybackSettings || crossfade.duration > 0 ? 'bg-zinc-800 text-cyan-400' : 'text-zinc-500 hover:text-zinc-300'}`}
+               title="Playback settings"
+             >
+                <Blend size={18} />
+             </button>
+             <button
+               onClick={() => setShowEffects(!showEffects)}
+               className={`p-2 rounded-md transition-all ${showEffects ? 'bg-zinc-800 text-cyan-400' : 'text-zinc-500 hover:text-zinc-300'}`}
+               title="Effects"
+             >
+                <Layers size={18} />
+             </button>
+             <button
+               onClick={() => setShowPractice(!showPractice)}
+               className={`p-2 rounded-md transition-all ${showPractice || currentTrack?.practice ? 'bg-zinc-800 text-cyan-400' : 'text-zinc-500 hover:text-zinc-300'}`}
+               title="Practice (tempo & pitch)"
+             >
+                <Guitar size={18} />
+             </button>
              <button
                onClick={() => setShowEQ(!showEQ)}
                className={`p-2 rounded-md transition-all ${showEQ ? 'bg-zinc-800 text-cyan-400' : 'text-zinc-500 hover:text-zinc-300'}`}
@@ -1411,6 +2709,13 @@ function App() {
              >
                 <List size={18} />
              </button>
+             <button
+               onClick={() => setViewMode(ViewMode.LYRICS)}
+               className={`p-2 rounded-md transition-all ${viewMode === ViewMode.LYRICS ? 'bg-zinc-800 text-cyan-400 shadow-sm' : 'text-zinc-500 hover:text-zinc-300'}`}
+               title="Lyrics"
+             >
+                <MicVocal size={18} />
+             </button>
 
              {/* Visualizer Dropdown Group */}
              <div className="flex items-center border-l border-zinc-800 ml-1 pl-1 gap-1 relative" id="vis-menu-container">
@@ -1508,23 +2813,43 @@ function App() {
             <button
               onClick={() => {
                 setSelectedPlaylist(null);
+                setSearchQuery('');
                 setViewMode(ViewMode.LIST);
               }}
               className={`w-full flex items-center gap-3 px-3 py-2 text-sm font-medium rounded-md transition-colors text-left group ${
-                selectedPlaylist === null
+                selectedPlaylist === null && !isLibraryView && viewMode !== ViewMode.STATS
                   ? 'bg-zinc-900 text-cyan-400'
                   : 'text-zinc-300 hover:bg-zinc-900'
               }`}
             >
-                <Layout size={18} className={selectedPlaylist === null ? 'text-cyan-400' : 'text-zinc-500 group-hover:text-cyan-400'} />
+                <Layout size={18} className={selectedPlaylist === null && !isLibraryView && viewMode !== ViewMode.STATS ? 'text-cyan-400' : 'text-zinc-500 group-hover:text-cyan-400'} />
                 {t.allTracks}
             </button>
+            {[
+              { mode: ViewMode.ARTISTS, label: 'Artists', icon: Users },
+              { mode: ViewMode.ALBUMS, label: 'Albums', icon: Disc3 },
+              { mode: ViewMode.GENRES, label: 'Genres', icon: Tags },
+              { mode: ViewMode.STATS, label: 'Listening Stats', icon: History },
+            ].map(({ mode, label, icon: Icon }) => (
+              <button
+                key={mode}
+                onClick={() => setViewMode(mode)}
+                className={`w-full flex items-center gap-3 px-3 py-2 text-sm font-medium rounded-md transition-colors text-left group ${
+                  viewMode === mode
+                    ? 'bg-zinc-900 text-cyan-400'
+                    : 'text-zinc-300 hover:bg-zinc-900'
+                }`}
+              >
+                <Icon size={18} className={viewMode === mode ? 'text-cyan-400' : 'text-zinc-500 group-hover:text-cyan-400'} />
+                {label}
+              </button>
+            ))}
              <label className="w-full flex items-center gap-3 px-3 py-2 text-sm font-medium text-zinc-300 hover:bg-zinc-900 rounded-md transition-colors cursor-pointer group">
                 <Plus size={18} className="text-zinc-500 group-hover:text-cyan-400" />
                 {t.addFiles}
                 <input 
                   type="file" 
-                  accept="audio/*,image/*,.flac,.ogg,.m4a,.aac" 
+                  accept="audio/*,image/*,.flac,.ogg,.m4a,.aac,.cue,.lrc" 
                   multiple 
                   onChange={handleFileUpload} 
                   className="hidden" 
@@ -1541,19 +2866,125 @@ function App() {
                   className="hidden"
                 />
             </label>
+            {supportsLinkedFolders() && (
+              <button
+                onClick={linkFolder}
+                className="w-full flex items-center gap-3 px-3 py-2 text-sm font-medium text-zinc-300 hover:bg-zinc-900 rounded-md transition-colors text-left group"
+                title="Play a folder in place, without copying it into the library"
+              >
+                  <FolderSync size={18} className="text-zinc-500 group-hover:text-cyan-400" />
+                  Link Folder
+              </button>
+            )}
+            <button
+              onClick={() => setShowBackup(true)}
+              className="w-full flex items-center gap-3 px-3 py-2 text-sm font-medium text-zinc-300 hover:bg-zinc-900 rounded-md transition-colors text-left group"
+            >
+                <Archive size={18} className="text-zinc-500 group-hover:text-cyan-400" />
+                Backup & Restore
+            </button>
+            <button
+              onClick={() => setShowDuplicates(true)}
+              className="w-full flex items-center gap-3 px-3 py-2 text-sm font-medium text-zinc-300 hover:bg-zinc-900 rounded-md transition-colors text-left group"
+            >
+                <CopyCheck size={18} className="text-zinc-500 group-hover:text-cyan-400" />
+                Find Duplicates
+            </button>
+            <button
+              onClick={() => setShowStorage(true)}
+              className="w-full flex items-center gap-3 px-3 py-2 text-sm font-medium text-zinc-300 hover:bg-zinc-900 rounded-md transition-colors text-left group"
+            >
+                <HardDrive size={18} className="text-zinc-500 group-hover:text-cyan-400" />
+                Storage
+            </button>
           </div>
 
+          {/* Linked Folders */}
+          {linkedFolders.length > 0 && (
+            <div className="space-y-2 pt-2 border-t border-zinc-800">
+              <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider px-2">Linked Folders</h3>
+              <div className="space-y-1">
+                {linkedFolders.map(folder => {
+                  const isDisconnected = disconnectedFolderIds.includes(folder.id);
+                  const isScanning = scanningFolderId === folder.id;
+                  return (
+                    <div key={folder.id} className="flex items-center gap-2 px-3 py-1.5 group">
+                      <FolderOpen size={14} className={`shrink-0 ${isDisconnected ? 'text-zinc-600' : 'text-cyan-500'}`} />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-zinc-300 truncate">{folder.name}</p>
+                        {isDisconnected ? (
+                          <button
+                            onClick={() => rescanLinkedFolder(folder)}
+                            className="text-[10px] text-yellow-400 hover:text-yellow-300"
+                          >
+                            Reconnect to play
+                          </button>
+                        ) : (
+                          <p className="text-[10px] text-zinc-600">
+                            {tracks.filter(t => t.link?.folderId === folder.id).length} tracks
+                            {folder.lastScannedAt && ` • scanned ${new Date(folder.lastScannedAt).toLocaleDateString()}`}
+                          </p>
+                        )}
+                      </div>
+                      <button
+                        onClick={() => rescanLinkedFolder(folder)}
+                        disabled={scanningFolderId !== null}
+                        className="p-1 hover:bg-zinc-800 rounded text-zinc-600 hover:text-cyan-400 transition-all disabled:opacity-50"
+                        title="Rescan folder"
+                      >
+                        {isScanning ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+                      </button>
+                      <button
+                        onClick={() => unlinkFolder(folder)}
+                        disabled={isScanning}
+                        className="opacity-0 group-hover:opacity-100 p-1 hover:bg-zinc-800 rounded text-zinc-600 hover:text-red-400 transition-all"
+                        title="Unlink folder and remove its tracks"
+                      >
+                        <Plus size={14} className="rotate-45" />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {/* Playlists */}
           <div className="space-y-2 pt-2 border-t border-zinc-800">
             <div className="flex items-center justify-between px-2">
               <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">{t.playlists}</h3>
-              <button
-                onClick={() => setShowCreatePlaylist(true)}
-                className="p-1 hover:bg-zinc-800 rounded text-zinc-500 hover:text-cyan-400 transition-colors"
-                title={t.createPlaylist}
-              >
-                <Plus size={14} />
-              </button>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => setSmartPlaylistEditor({})}
+                  className="p-1 hover:bg-zinc-800 rounded text-zinc-500 hover:text-cyan-400 transition-colors"
+                  title="New smart playlist"
+                >
+                  <Sparkles size={14} />
+                </button>
+                <label
+                  className="p-1 hover:bg-zinc-800 rounded text-zinc-500 hover:text-cyan-400 transition-colors cursor-pointer"
+                  title="Import playlist (M3U, PLS, XSPF)"
+                >
+                  <Upload size={14} />
+                  <input
+                    type="file"
+                    accept={PLAYLIST_FILE_ACCEPT}
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) importPlaylistFile(file);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+                <button
+                  onClick={() => setShowCreatePlaylist(true)}
+                  className="p-1 hover:bg-zinc-800 rounded text-zinc-500 hover:text-cyan-400 transition-colors"
+                  title={t.createPlaylist}
+                >
+                  <Plus size={14} />
+                </button>
+              </div>
             </div>
 
             {showCreatePlaylist && (
@@ -1620,6 +3051,7 @@ function App() {
                   <button
                     onClick={() => {
                       setSelectedPlaylist(playlist.id);
+                      setSearchQuery('');
                       setViewMode(ViewMode.LIST);
                     }}
                     className={`flex-1 flex items-center gap-3 px-3 py-2 text-sm font-medium rounded-md transition-colors text-left ${
@@ -1628,11 +3060,31 @@ function App() {
                         : 'text-zinc-300 hover:bg-zinc-900'
                     }`}
                   >
+                    {playlist.rules && <Sparkles size={12} className="shrink-0 text-cyan-500" />}
                     <span className="flex-1 truncate">{playlist.name}</span>
                     <span className="text-xs text-zinc-600">
-                      {playlist.trackIds.length}
+                      {getPlaylistTracks(playlist).length}
                     </span>
                   </button>
+                  {playlist.rules && (
+                    <button
+                      onClick={() => setSmartPlaylistEditor({ playlist })}
+                      className="opacity-0 group-hover:opacity-100 p-1 hover:bg-zinc-800 rounded text-zinc-600 hover:text-cyan-400 transition-all"
+                      title="Edit rules"
+                    >
+                      <Sliders size={14} />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setPlaylistExport({
+                      name: playlist.name,
+                      trackIds: playlist.rules ? getPlaylistTracks(playlist).map(t => t.id) : playlist.trackIds
+                    })}
+                    className="opacity-0 group-hover:opacity-100 p-1 hover:bg-zinc-800 rounded text-zinc-600 hover:text-cyan-400 transition-all"
+                    title="Export playlist"
+                  >
+                    <Download size={14} />
+                  </button>
                   <button
                     onClick={() => deletePlaylist(playlist.id)}
                     className="opacity-0 group-hover:opacity-100 p-1 hover:bg-zinc-800 rounded text-zinc-600 hover:text-red-400 transition-all"
@@ -1655,7 +3107,18 @@ function App() {
           <div className="space-y-2 pt-2 border-t border-zinc-800">
             <div className="flex items-center justify-between px-2">
               <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">{t.chapterMarkers}</h3>
-              <span className="text-[10px] text-zinc-600">Right-click seek bar</span>
+              <div className="flex items-center gap-1">
+                <span className="text-[10px] text-zinc-600">Right-click seek bar</span>
+                {getCurrentTrackMarkers().length > 0 && (
+                  <button
+                    onClick={exportMarkersAsCue}
+                    className="p-1 hover:bg-zinc-800 rounded text-zinc-500 hover:text-cyan-400 transition-colors"
+                    title="Export markers as CUE sheet"
+                  >
+                    <Download size={12} />
+                  </button>
+                )}
+              </div>
             </div>
 
             <div className="space-y-1">
@@ -1745,7 +3208,7 @@ function App() {
           )}
 
           {/* 2x Speed Overlay */}
-          {playerState.playbackRate > 1 && (
+          {playerState.playbackRate === HOLD_SPEED && (
               <div className="absolute top-4 right-4 z-40 pointer-events-none">
                    <div className="bg-cyan-500/20 backdrop-blur-md text-cyan-400 px-4 py-2 rounded-full flex items-center gap-2 animate-pulse border border-cyan-500/30 shadow-lg shadow-cyan-500/10">
                         <FastForward size={18} className="fill-current" />
@@ -1755,19 +3218,51 @@ function App() {
           )}
 
           {/* Background Cover Art Blur */}
-          {currentTrack?.coverArtUrl && viewMode === ViewMode.VISUALIZER && (
+          {currentTrack?.coverArtUrl && (viewMode === ViewMode.VISUALIZER || viewMode === ViewMode.LYRICS) && (
               <div 
                 className="absolute inset-0 opacity-20 pointer-events-none z-0 bg-cover bg-center blur-3xl scale-110 transition-all duration-1000"
                 style={{ backgroundImage: `url(${currentTrack.coverArtUrl})` }}
               />
           )}
 
-          {viewMode === ViewMode.LIST ? (
+          {viewMode === ViewMode.LIST && searchResults ? (
+            <div className="flex-1 flex flex-col overflow-hidden">
+              <SearchPanel
+                query={searchQuery.trim()}
+                results={searchResults}
+                tracks={tracks}
+                onSelectPlaylist={(playlistId) => {
+                  setSearchQuery('');
+                  setSelectedPlaylist(playlistId);
+                }}
+                onJumpToMarker={playTrackAtMarker}
+              />
+              {searchResults.tracks.length > 0 && (
+                <TrackList
+                  tracks={searchResults.tracks}
+                  currentTrackId={currentTrack?.id}
+                  isPlaying={playerState.isPlaying}
+                  onSelectTrack={(track) => playTracks(searchResults.tracks, `Search: "${searchQuery.trim()}"`, searchResults.tracks.indexOf(track))}
+                  onRemoveTrack={removeTrack}
+                  playlists={playlists}
+                  onAddToPlaylist={addTrackToPlaylist}
+                  selectedPlaylist={null}
+                  onRemoveFromPlaylist={removeTrackFromPlaylist}
+                  onUpdateCover={updateTrackCover}
+                  onRemoveCover={removeTrackCover}
+                  onEditTags={setTagEditorTrack}
+                  onRateTrack={rateTrack}
+                  onPlayNext={(track) => queueTracks([track.id], 'next')}
+                  onAddToQueue={(track) => queueTracks([track.id], 'last')}
+                />
+              )}
+            </div>
+          ) : viewMode === ViewMode.LIST ? (
             <TrackList
-              tracks={getFilteredTracks()}
+              tracks={getSortedTracks()}
               currentTrackId={currentTrack?.id}
               isPlaying={playerState.isPlaying}
-              onSelectTrack={playTrack}
+              onSelectTrack={selectListTrack}
               onRemoveTrack={removeTrack}
               playlists={playlists}
               onAddToPlaylist={addTrackToPlaylist}
@@ -1775,6 +3270,39 @@ function App() {
               onRemoveFromPlaylist={removeTrackFromPlaylist}
               onUpdateCover={updateTrackCover}
               onRemoveCover={removeTrackCover}
+              onEditTags={setTagEditorTrack}
+              onRateTrack={rateTrack}
+              onPlayNext={(track) => queueTracks([track.id], 'next')}
+              onAddToQueue={(track) => queueTracks([track.id], 'last')}
+              sort={trackSort}
+              onSortChange={setTrackSort}
+            />
+          ) : viewMode === ViewMode.LYRICS ? (
+            <LyricsView
+              track={currentTrack}
+              currentTime={playerState.currentTime}
+              getCurrentTime={() => audioRef.current.currentTime - getTrackStart(currentTrack)}
+              isPlaying={playerState.isPlaying}
+              karaoke={isKaraokeEnabled}
+              onSeek={handleSeek}
+              onOffsetChange={setTrackLyricsOffset}
+            />
+          ) : viewMode === ViewMode.STATS ? (
+            <ListeningStats
+              tracks={tracks}
+              threshold={playThreshold}
+              onThresholdChange={setPlayThreshold}
+              onPlayTrack={(track) => playTracks([track], 'Listening Stats')}
+              addToast={addToast}
+            />
+          ) : isLibraryView ? (
+            <LibraryBrowser
+              mode={viewMode as ViewMode.ARTISTS | ViewMode.ALBUMS | ViewMode.GENRES}
+              library={library}
+              currentTrackId={currentTrack?.id}
+              isPlaying={playerState.isPlaying}
+              onPlayTracks={playTracks}
+              onShuffleTracks={playShuffledTracks}
             />
           ) : (
             <div className="flex-1 p-6 flex flex-col items-center justify-center z-10">
@@ -1812,10 +3340,14 @@ function App() {
           {showEQ && (
               <Equalizer
                 bands={eqBands}
+                preamp={eqPreamp}
                 onBandChange={handleEQChange}
+                onPreampChange={setEqPreamp}
+                onAddBand={addEQBand}
+                onRemoveBand={removeEQBand}
                 onReset={resetEQ}
                 onClose={() => setShowEQ(false)}
-                onLoadPreset={(presetBands) => setEqBands(presetBands)}
+                onLoadPreset={loadEQPreset}
               />
           )}
 
@@ -1922,6 +3454,20 @@ function App() {
              </div>
           )}
         </div>
+
+        {showQueue && (
+          <QueuePanel
+            queue={queue}
+            tracks={tracks}
+            currentTrack={currentTrack}
+            onPlayItem={playQueueItem}
+            onRemoveItem={(section, index) => setQueue(prev => prev && removeFromQueue(prev, section, index))}
+            onMoveItem={(section, from, to) => setQueue(prev => prev && moveQueueItem(prev, section, from, to))}
+            onClearUpNext={() => setQueue(prev => prev && clearUpNext(prev))}
+            onExport={() => queue && setPlaylistExport({ name: 'Queue', trackIds: getQueueTrackIds(queue) })}
+            onClose={() => setShowQueue(false)}
+          />
+        )}
       </main>
 
       {/* Controls */}
@@ -1933,7 +3479,7 @@ function App() {
         onSeek={handleSeek}
         onVolumeChange={handleVolume}
         onToggleMute={toggleMute}
-        onToggleShuffle={() => setPlayerState(prev => ({ ...prev, isShuffle: !prev.isShuffle }))}
+        onToggleShuffle={toggleShuffle}
         onToggleRepeat={() => setPlayerState(prev => {
             if (prev.repeatMode === 'off') return { ...prev, repeatMode: 'all' };
             if (prev.repeatMode === 'all') return { ...prev, repeatMode: 'one' };
@@ -1942,6 +3488,8 @@ function App() {
         onSkipForward={() => skip(10)}
         onSkipBackward={() => skip(-10)}
         markers={getCurrentTrackMarkers()}
+        waveform={waveform}
+        loopRegion={activeLoop}
         onJumpToMarker={jumpToMarker}
         onAddMarker={addMarker}
         onNextMarker={jumpToNextMarker}
@@ -1957,6 +3505,120 @@ function App() {
         />
       )}
 
+      {/* Tag Editor Modal */}
+      {tagEditorTrack && (
+        <TagEditor
+          track={tagEditorTrack}
+          onSave={saveTrackTags}
+          onClose={() => setTagEditorTrack(null)}
+          addToast={addToast}
+        />
+      )}
+
+      {smartPlaylistEditor && (
+        <SmartPlaylistEditor
+          playlist={smartPlaylistEditor.playlist}
+          tracks={tracks}
+          onSave={saveSmartPlaylist}
+          onClose={() => setSmartPlaylistEditor(null)}
+        />
+      )}
+
+      {showBackup && (
+        <BackupDialog
+          library={librarySnapshot}
+          onRestore={handleRestoreBackup}
+          onClose={() => setShowBackup(false)}
+          addToast={addToast}
+        />
+      )}
+
+      {showDuplicates && (
+        <DuplicatesDialog
+          tracks={tracks}
+          onHashed={saveContentHashes}
+          onMerge={handleMergeDuplicates}
+          onClose={() => setShowDuplicates(false)}
+        />
+      )}
+
+      {showStorage && (
+        <StorageDialog
+          tracks={tracks}
+          playlists={playlists}
+          currentTrackId={currentTrack?.id}
+          onEvict={handleEvictAudio}
+          onClose={() => setShowStorage(false)}
+          addToast={addToast}
+        />
+      )}
+
+      {playlistExport && (
+        <PlaylistExportDialog
+          name={playlistExport.name}
+          trackCount={playlistExport.trackIds.length}
+          onExport={exportPlaylistFile}
+          onClose={() => setPlaylistExport(null)}
+        />
+      )}
+
+      {playlistImportResult && (
+        <PlaylistImportSummary
+          result={playlistImportResult}
+          onClose={() => setPlaylistImportResult(null)}
+        />
+      )}
+
+      {showPlaybackSettings && (
+        <PlaybackSettings
+          crossfade={crossfade}
+          onCrossfadeChange={setCrossfade}
+          loudness={loudness}
+          onLoudnessChange={setLoudness}
+          analyzedCount={tracks.filter(t => t.type === 'local' && t.loudness).length}
+          localCount={tracks.filter(t => t.type === 'local').length}
+          currentGain={currentTrack && loudness.mode !== 'off' ? getNormalizationGain(currentTrack, tracks, loudness) : null}
+          dynamics={dynamics}
+          onDynamicsChange={setDynamics}
+          onClose={() => setShowPlaybackSettings(false)}
+        />
+      )}
+
+      {/* Practice Modal */}
+      {showPractice && (
+        <PracticePanel
+          track={currentTrack}
+          onChange={setTrackPractice}
+          currentTime={playerState.currentTime}
+          duration={playerState.duration}
+          onSeek={handleSeek}
+          markers={getCurrentTrackMarkers()}
+          loop={activeLoop}
+          loopStartPoint={loopStartPoint}
+          loopPass={loopPass}
+          onSetLoopPoint={setLoopPoint}
+          onSetLoop={setLoop}
+          onLoopChange={(changes) => setActiveLoop(prev => prev && { ...prev, ...changes })}
+          onClearLoop={clearLoop}
+          savedLoops={currentTrack ? loops.filter(l => l.trackId === currentTrack.id) : []}
+          onSaveLoop={saveLoop}
+          onLoadLoop={loadLoop}
+          onDeleteLoop={deleteLoop}
+          onClose={() => setShowPractice(false)}
+        />
+      )}
+
+      {/* Effects Chain Modal */}
+      {showEffects && (
+        <EffectsPanel
+          effects={effects}
+          onEffectsChange={setEffects}
+          currentProfile={{ ...effects, eq: { bands: eqBands, preamp: eqPreamp }, dynamics }}
+          onLoadProfile={loadSoundProfile}
+          onClose={() => setShowEffects(false)}
+        />
+      )}
+
       {/* Browse Music Modal */}
       {showBrowseMusic && (
         <BrowseMusic
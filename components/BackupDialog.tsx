@@ -0,0 +1,262 @@
+import React, { useMemo, useState } from 'react';
+import { X, Archive, ArchiveRestore, Loader2, AlertCircle } from 'lucide-react';
+import {
+  createBackup, readBackup, planRestore, applyRestore, getAudioSize, getBackupFileName,
+  BACKUP_SETTING_LABELS, LibrarySnapshot, LoadedBackup, RestoreMode, ConflictPolicy, RestoreChanges, RestoredLibrary
+} from '../utils/backup';
+import { saveBlobToDisk } from '../utils/download';
+import { formatBytes } from '../utils/formatters';
+
+interface BackupDialogProps {
+  library: LibrarySnapshot;
+  onRestore: (restored: RestoredLibrary) => void;
+  onClose: () => void;
+  addToast: (message: string, type?: 'error' | 'info') => void;
+}
+
+const RESTORE_MODES: { mode: RestoreMode; label: string }[] = [
+  { mode: 'merge', label: 'Merge' },
+  { mode: 'replace', label: 'Replace' },
+];
+
+const CONFLICT_POLICIES: { policy: ConflictPolicy; label: string }[] = [
+  { policy: 'keep', label: 'Keep mine' },
+  { policy: 'backup', label: 'Use backup' },
+];
+
+const describeChanges = (changes: RestoreChanges): string => {
+  const parts = [
+    changes.added > 0 && `+${changes.added} new`,
+    changes.updated > 0 && `${changes.updated} updated`,
+    changes.removed > 0 && `${changes.removed} removed`,
+    changes.kept > 0 && `${changes.kept} conflicts kept`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'No changes';
+};
+
+export const BackupDialog: React.FC<BackupDialogProps> = ({ library, onRestore, onClose, addToast }) => {
+  const [includeAudio, setIncludeAudio] = useState(true);
+  const [includeCovers, setIncludeCovers] = useState(true);
+  const [progress, setProgress] = useState<number | null>(null); // Backup being written
+  const [backup, setBackup] = useState<LoadedBackup | null>(null);
+  const [backupName, setBackupName] = useState('');
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [conflicts, setConflicts] = useState<ConflictPolicy>('keep');
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const audioSize = useMemo(() => getAudioSize(library.tracks), [library.tracks]);
+  const plan = useMemo(
+    () => backup && planRestore(backup, library, mode, conflicts),
+    [backup, library, mode, conflicts]
+  );
+  const isBusy = progress !== null || isRestoring;
+
+  const handleBackup = async () => {
+    setProgress(0);
+    try {
+      const archive = await createBackup(library, { includeAudio, includeCovers }, setProgress);
+      if (await saveBlobToDisk(archive, getBackupFileName())) {
+        addToast(`Backup saved (${formatBytes(archive.size)})`);
+      }
+    } catch (error) {
+      console.error('[Backup] Failed to create backup:', error);
+      addToast(`Backup failed: ${(error as Error).message}`, 'error');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleOpenBackup = async (file: File) => {
+    const loaded = await readBackup(file);
+    if (!loaded) {
+      addToast(`${file.name} is not a backup that can be restored`, 'error');
+      return;
+    }
+    setBackup(loaded);
+    setBackupName(file.name);
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    setIsRestoring(true);
+    try {
+      onRestore(await applyRestore(backup, library, mode, conflicts));
+      addToast('Backup restored');
+      onClose();
+    } catch (error) {
+      console.error('[Backup] Failed to restore backup:', error);
+      addToast('Restore failed', 'error');
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl w-full max-w-md p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-white">Backup & Restore</h3>
+          <button onClick={onClose} disabled={isBusy} className="text-zinc-400 hover:text-white disabled:opacity-30">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Backup */}
+        <h4 className="text-sm font-semibold text-white flex items-center gap-2 mb-3">
+          <Archive size={16} className="text-cyan-500" />
+          Back Up
+        </h4>
+        <p className="text-xs text-zinc-500 mb-3">
+          {library.tracks.length} tracks, {library.playlists.length} playlists, {library.markers.length} markers
+          and your EQ, effects and playback settings, in one .zip file.
+        </p>
+        <div className="space-y-2 mb-4">
+          <label className="flex items-center justify-between gap-3 text-sm text-zinc-300 cursor-pointer">
+            <span>Include audio files <span className="text-zinc-500">({formatBytes(audioSize)})</span></span>
+            <input
+              type="checkbox"
+              checked={includeAudio}
+              onChange={(e) => setIncludeAudio(e.target.checked)}
+              className="accent-cyan-500"
+            />
+          </label>
+          <label className="flex items-center justify-between gap-3 text-sm text-zinc-300 cursor-pointer">
+            <span>Include cover images</span>
+            <input
+              type="checkbox"
+              checked={includeCovers}
+              onChange={(e) => setIncludeCovers(e.target.checked)}
+              className="accent-cyan-500"
+            />
+          </label>
+        </div>
+        <button
+          onClick={handleBackup}
+          disabled={isBusy}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2 text-sm rounded-lg bg-cyan-600 hover:bg-cyan-500 text-white transition-colors disabled:opacity-50"
+        >
+          {progress !== null ? (
+            <>
+              <Loader2 size={16} className="animate-spin" />
+              Creating backup… {Math.round(progress * 100)}%
+            </>
+          ) : 'Create Backup'}
+        </button>
+        {!includeAudio && (
+          <p className="text-xs text-zinc-500 mt-2">
+            Without audio, local tracks can only be restored into a library that still has them.
+          </p>
+        )}
+
+        {/* Restore */}
+        <h4 className="text-sm font-semibold text-white flex items-center gap-2 mt-6 pt-5 mb-3 border-t border-zinc-800">
+          <ArchiveRestore size={16} className="text-cyan-500" />
+          Restore
+        </h4>
+        <label className={`block w-full px-4 py-2 text-sm text-center rounded-lg bg-zinc-800 hover:bg-zinc-700 text-zinc-300 transition-colors cursor-pointer truncate ${isBusy ? 'opacity-50 pointer-events-none' : ''}`}>
+          {backup ? backupName : 'Choose backup file…'}
+          <input
+            type="file"
+            accept=".zip,application/zip"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleOpenBackup(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+
+        {backup && plan && (
+          <div className="space-y-4 mt-4">
+            <p className="text-xs text-zinc-500">
+              Created {new Date(backup.manifest.createdAt).toLocaleString()} •{' '}
+              {backup.manifest.includesAudio ? 'with audio' : 'without audio'}
+            </p>
+
+            <div>
+              <span className="text-sm text-zinc-300 block mb-2">Mode</span>
+              <div className="grid grid-cols-2 gap-2">
+                {RESTORE_MODES.map(({ mode: value, label }) => (
+                  <button
+                    key={value}
+                    onClick={() => setMode(value)}
+                    className={`px-3 py-2 text-sm rounded-lg transition-colors ${
+                      mode === value ? 'bg-cyan-600 text-white' : 'bg-zinc-800 hover:bg-zinc-700 text-zinc-300'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {mode === 'merge' && (
+              <div>
+                <span className="text-sm text-zinc-300 block mb-2">When an item exists in both</span>
+                <div className="grid grid-cols-2 gap-2">
+                  {CONFLICT_POLICIES.map(({ policy, label }) => (
+                    <button
+                      key={policy}
+                      onClick={() => setConflicts(policy)}
+                      className={`px-3 py-2 text-sm rounded-lg transition-colors ${
+                        conflicts === policy ? 'bg-cyan-600 text-white' : 'bg-zinc-800 hover:bg-zinc-700 text-zinc-300'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Dry run */}
+            <div className="bg-zinc-950 border border-zinc-800 rounded-lg p-3 space-y-1.5 text-xs">
+              <p className="text-zinc-500 uppercase tracking-wider text-[10px] font-semibold mb-2">Preview</p>
+              {([
+                ['Tracks', plan.tracks],
+                ['Playlists', plan.playlists],
+                ['Markers', plan.markers],
+                ['Saved loops', plan.loops],
+              ] as [string, RestoreChanges][]).map(([label, changes]) => (
+                <div key={label} className="flex justify-between gap-3">
+                  <span className="text-zinc-400">{label}</span>
+                  <span className={changes.removed > 0 ? 'text-red-400' : 'text-zinc-200'}>{describeChanges(changes)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between gap-3">
+                <span className="text-zinc-400">Settings</span>
+                <span className="text-zinc-200 text-right">
+                  {plan.settings.length > 0 ? plan.settings.map(key => BACKUP_SETTING_LABELS[key]).join(', ') : 'No changes'}
+                </span>
+              </div>
+              {plan.tracks.missingAudio > 0 && (
+                <p className="flex items-start gap-1.5 text-yellow-400 pt-1">
+                  <AlertCircle size={12} className="shrink-0 mt-0.5" />
+                  {plan.tracks.missingAudio} local track{plan.tracks.missingAudio !== 1 ? 's' : ''} can't be restored:
+                  the backup has no audio for {plan.tracks.missingAudio !== 1 ? 'them' : 'it'}.
+                </p>
+              )}
+            </div>
+
+            {mode === 'replace' && (
+              <p className="text-xs text-red-400">
+                Replace removes everything that isn't in the backup.
+              </p>
+            )}
+
+            <button
+              onClick={handleRestore}
+              disabled={isBusy}
+              className={`w-full flex items-center justify-center gap-2 px-4 py-2 text-sm rounded-lg text-white transition-colors disabled:opacity-50 ${
+                mode === 'replace' ? 'bg-red-600 hover:bg-red-500' : 'bg-cyan-600 hover:bg-cyan-500'
+              }`}
+            >
+              {isRestoring && <Loader2 size={16} className="animate-spin" />}
+              {mode === 'replace' ? 'Replace Library' : 'Merge Into Library'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
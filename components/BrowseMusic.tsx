@@ -92,6 +92,7 @@ export const BrowseMusic: React.FC<BrowseMusicProps> = ({ onClose, onPlayTrack,
       duration: track.duration,
       url: track.url,
       coverArtUrl: track.coverArtUrl,
+      lyrics: track.lyrics,
       type: 'stream'
     };
 
@@ -0,0 +1,168 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, CopyCheck, Loader2, Radio, Music } from 'lucide-react';
+import { Track } from '../types';
+import { findDuplicates, hashTracks, DuplicateGroup } from '../utils/dedupe';
+import { formatTime, formatBytes } from '../utils/formatters';
+
+interface DuplicatesDialogProps {
+  tracks: Track[];
+  onHashed: (hashes: Map<string, string>) => void;
+  onMerge: (groups: { keepId: string; duplicateIds: string[] }[]) => void;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<DuplicateGroup['kind'], { label: string; className: string }> = {
+  exact: { label: 'Identical audio', className: 'bg-cyan-500/10 text-cyan-400' },
+  similar: { label: 'Possibly the same', className: 'bg-yellow-500/10 text-yellow-400' },
+};
+
+const describeSource = (track: Track): string => {
+  if (track.type === 'stream') return 'Stream';
+  const extension = track.file?.name.split('.').pop()?.toUpperCase() ?? 'Local';
+  const size = track.file ? ` • ${formatBytes(track.file.size, 1)}` : '';
+  const span = track.cueStart !== undefined ? ' • CUE' : '';
+  return `${extension}${size}${span}${track.link ? ' • Linked' : ''}`;
+};
+
+export const DuplicatesDialog: React.FC<DuplicatesDialogProps> = ({ tracks, onHashed, onMerge, onClose }) => {
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [keepIds, setKeepIds] = useState<Record<string, string>>({});
+  const [ignored, setIgnored] = useState<Set<string>>(new Set());
+
+  // Tracks added before content hashing have no hash yet
+  useEffect(() => {
+    let cancelled = false;
+    const scan = async () => {
+      if (!tracks.some(t => t.type === 'local' && t.file && !t.contentHash)) return;
+      const hashes = await hashTracks(tracks, (done, total) => {
+        if (!cancelled) setProgress({ done, total });
+      });
+      if (cancelled) return;
+      setProgress(null);
+      if (hashes.size > 0) onHashed(hashes);
+    };
+    scan();
+    return () => { cancelled = true; };
+  }, []);
+
+  const tracksById = useMemo(() => new Map(tracks.map(t => [t.id, t])), [tracks]);
+  const groups = useMemo(
+    () => progress ? [] : findDuplicates(tracks).filter(group => !ignored.has(group.id)),
+    [tracks, progress, ignored]
+  );
+  const exactGroups = groups.filter(group => group.kind === 'exact');
+
+  const toMerge = (group: DuplicateGroup) => {
+    const keepId = keepIds[group.id] ?? group.keepId;
+    return { keepId, duplicateIds: group.trackIds.filter(id => id !== keepId) };
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl w-full max-w-2xl p-6 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <CopyCheck size={18} className="text-cyan-500" />
+            Find Duplicates
+          </h3>
+          <button onClick={onClose} className="text-zinc-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+        <p className="text-xs text-zinc-500 mb-4">
+          Merging keeps one copy; playlists, markers and saved loops from every copy move to it.
+        </p>
+
+        {progress ? (
+          <div className="flex items-center gap-2 text-sm text-zinc-400 py-8 justify-center">
+            <Loader2 size={16} className="animate-spin text-cyan-500" />
+            Checking audio… {progress.done} of {progress.total} files
+          </div>
+        ) : groups.length === 0 ? (
+          <p className="text-sm text-zinc-400 py-8 text-center">No duplicates found.</p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between mb-3">
+              <span className="text-xs text-zinc-400">
+                {groups.length} group{groups.length !== 1 ? 's' : ''} • {exactGroups.length} identical
+              </span>
+              {exactGroups.length > 0 && (
+                <button
+                  onClick={() => onMerge(exactGroups.map(toMerge))}
+                  className="px-3 py-1.5 text-xs rounded-lg bg-cyan-600 hover:bg-cyan-500 text-white transition-colors"
+                >
+                  Merge All Identical
+                </button>
+              )}
+            </div>
+
+            <div className="flex-1 overflow-y-auto space-y-3 pr-1">
+              {groups.map(group => {
+                const keepId = keepIds[group.id] ?? group.keepId;
+                const kind = KIND_LABELS[group.kind];
+                return (
+                  <div key={group.id} className="bg-zinc-950 border border-zinc-800 rounded-lg p-3">
+                    <div className="flex items-center justify-between mb-2">
+                      <span className={`text-[10px] uppercase tracking-wider font-semibold px-2 py-0.5 rounded ${kind.className}`}>
+                        {kind.label}
+                      </span>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => setIgnored(prev => new Set(prev).add(group.id))}
+                          className="px-2.5 py-1 text-xs rounded-md bg-zinc-800 hover:bg-zinc-700 text-zinc-300 transition-colors"
+                        >
+                          Not Duplicates
+                        </button>
+                        <button
+                          onClick={() => onMerge([toMerge(group)])}
+                          className="px-2.5 py-1 text-xs rounded-md bg-cyan-600 hover:bg-cyan-500 text-white transition-colors"
+                        >
+                          Merge
+                        </button>
+                      </div>
+                    </div>
+                    <div className="space-y-1">
+                      {group.trackIds.map(id => {
+                        const track = tracksById.get(id)!;
+                        return (
+                          <label
+                            key={id}
+                            className={`flex items-center gap-3 px-2 py-1.5 rounded-md cursor-pointer transition-colors ${
+                              id === keepId ? 'bg-cyan-500/10' : 'hover:bg-zinc-900'
+                            }`}
+                          >
+                            <input
+                              type="radio"
+                              name={group.id}
+                              checked={id === keepId}
+                              onChange={() => setKeepIds(prev => ({ ...prev, [group.id]: id }))}
+                              className="accent-cyan-500"
+                            />
+                            {track.type === 'stream'
+                              ? <Radio size={14} className="text-zinc-500 shrink-0" />
+                              : <Music size={14} className="text-zinc-500 shrink-0" />}
+                            <div className="min-w-0 flex-1">
+                              <p className="text-sm text-zinc-200 truncate">{track.name}</p>
+                              <p className="text-xs text-zinc-500 truncate">
+                                {[track.artist, track.album].filter(Boolean).join(' • ')}
+                              </p>
+                            </div>
+                            <div className="text-right shrink-0">
+                              <p className="text-xs text-zinc-400 font-mono">{track.duration ? formatTime(track.duration) : '--:--'}</p>
+                              <p className="text-[10px] text-zinc-600">{describeSource(track)}</p>
+                            </div>
+                            {id === keepId && <span className="text-[10px] text-cyan-400 shrink-0">Keep</span>}
+                          </label>
+                        );
+                      })}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,266 @@
+import React, { useState } from 'react';
+import { X, Layers, ChevronUp, ChevronDown, Save, Trash2 } from 'lucide-react';
+import { EffectsSettings, EffectSlot, EffectType, KaraokeSettings, SoundProfile } from '../types';
+import { EFFECT_TYPES, MAX_STEREO_WIDTH, CROSSFEED_RANGES } from '../utils/audioGraph';
+import { KARAOKE_RANGES } from '../utils/karaoke';
+import { saveSoundProfile, loadSoundProfiles, deleteSoundProfile } from '../utils/persistence';
+
+const KARAOKE_CONTROLS: { key: keyof KaraokeSettings; label: string; format: (value: number) => string }[] = [
+  { key: 'strength', label: 'Strength', format: v => `${Math.round(v * 100)}%` },
+  { key: 'pitch', label: 'Key', format: v => v === 0 ? 'Original' : `${v > 0 ? '+' : ''}${v} st` },
+  { key: 'lowCut', label: 'Keep below', format: v => `${v} Hz` },
+  { key: 'highCut', label: 'Keep above', format: v => `${(v / 1000).toFixed(1)} kHz` },
+];
+
+interface EffectsPanelProps {
+  effects: EffectsSettings;
+  onEffectsChange: (settings: EffectsSettings) => void;
+  currentProfile: SoundProfile; // Snapshot of everything a profile stores
+  onLoadProfile: (profile: SoundProfile) => void;
+  onClose: () => void;
+}
+
+export const EffectsPanel: React.FC<EffectsPanelProps> = ({
+  effects,
+  onEffectsChange,
+  currentProfile,
+  onLoadProfile,
+  onClose
+}) => {
+  const [profiles, setProfiles] = useState(loadSoundProfiles());
+  const [newProfileName, setNewProfileName] = useState('');
+  const [showSaveInput, setShowSaveInput] = useState(false);
+
+  const updateChain = (chain: EffectSlot[]) => onEffectsChange({ ...effects, chain });
+
+  const toggleSlot = (type: EffectType) => {
+    updateChain(effects.chain.map(slot => slot.type === type ? { ...slot, enabled: !slot.enabled } : slot));
+  };
+
+  const moveSlot = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= effects.chain.length) return;
+    const chain = [...effects.chain];
+    [chain[index], chain[target]] = [chain[target], chain[index]];
+    updateChain(chain);
+  };
+
+  const handleSaveProfile = () => {
+    if (newProfileName.trim()) {
+      saveSoundProfile(newProfileName.trim(), currentProfile);
+      setProfiles(loadSoundProfiles());
+      setNewProfileName('');
+      setShowSaveInput(false);
+    }
+  };
+
+  const handleDeleteProfile = (name: string) => {
+    deleteSoundProfile(name);
+    setProfiles(loadSoundProfiles());
+  };
+
+  const renderParams = (type: EffectType) => {
+    if (type === 'karaoke') {
+      return (
+        <div className="grid grid-cols-2 gap-x-4 gap-y-3">
+          {KARAOKE_CONTROLS.map(({ key, label, format }) => (
+            <div key={key}>
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-xs text-zinc-400">{label}</span>
+                <span className="text-xs font-mono text-cyan-400">{format(effects.karaoke[key])}</span>
+              </div>
+              <input
+                type="range"
+                {...KARAOKE_RANGES[key]}
+                value={effects.karaoke[key]}
+                onChange={(e) => onEffectsChange({ ...effects, karaoke: { ...effects.karaoke, [key]: parseFloat(e.target.value) } })}
+                className="w-full accent-cyan-500"
+              />
+            </div>
+          ))}
+        </div>
+      );
+    }
+    if (type === 'stereoWidth') {
+      const { width } = effects.stereoWidth;
+      return (
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-xs text-zinc-400">Width</span>
+            <span className="text-xs font-mono text-cyan-400">{width === 0 ? 'Mono' : `${Math.round(width * 100)}%`}</span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={MAX_STEREO_WIDTH}
+            step={0.05}
+            value={width}
+            onChange={(e) => onEffectsChange({ ...effects, stereoWidth: { width: parseFloat(e.target.value) } })}
+            className="w-full accent-cyan-500"
+          />
+        </div>
+      );
+    }
+    if (type === 'crossfeed') {
+      const { feed, cutoff } = effects.crossfeed;
+      return (
+        <div className="grid grid-cols-2 gap-x-4">
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs text-zinc-400">Level</span>
+              <span className="text-xs font-mono text-cyan-400">-{feed.toFixed(1)} dB</span>
+            </div>
+            <input
+              type="range"
+              {...CROSSFEED_RANGES.feed}
+              value={feed}
+              onChange={(e) => onEffectsChange({ ...effects, crossfeed: { ...effects.crossfeed, feed: parseFloat(e.target.value) } })}
+              className="w-full accent-cyan-500"
+            />
+          </div>
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs text-zinc-400">Cutoff</span>
+              <span className="text-xs font-mono text-cyan-400">{cutoff} Hz</span>
+            </div>
+            <input
+              type="range"
+              {...CROSSFEED_RANGES.cutoff}
+              value={cutoff}
+              onChange={(e) => onEffectsChange({ ...effects, crossfeed: { ...effects.crossfeed, cutoff: parseFloat(e.target.value) } })}
+              className="w-full accent-cyan-500"
+            />
+          </div>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl w-full max-w-md p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <Layers size={18} className="text-cyan-500" />
+            Effects
+          </h3>
+          <button onClick={onClose} className="text-zinc-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          {effects.chain.map((slot, index) => {
+            const info = EFFECT_TYPES.find(e => e.type === slot.type)!;
+            const params = renderParams(slot.type);
+            return (
+              <div key={slot.type} className="bg-zinc-950 border border-zinc-800 rounded-lg p-3">
+                <div className="flex items-center gap-3">
+                  <div className="flex flex-col">
+                    <button
+                      onClick={() => moveSlot(index, -1)}
+                      disabled={index === 0}
+                      className="text-zinc-500 hover:text-white disabled:opacity-30 disabled:hover:text-zinc-500"
+                      title="Move up"
+                    >
+                      <ChevronUp size={14} />
+                    </button>
+                    <button
+                      onClick={() => moveSlot(index, 1)}
+                      disabled={index === effects.chain.length - 1}
+                      className="text-zinc-500 hover:text-white disabled:opacity-30 disabled:hover:text-zinc-500"
+                      title="Move down"
+                    >
+                      <ChevronDown size={14} />
+                    </button>
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm text-white">{info.label}</div>
+                    <div className="text-xs text-zinc-500 truncate">{info.description}</div>
+                  </div>
+                  <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={slot.enabled}
+                      onChange={() => toggleSlot(slot.type)}
+                      className="accent-cyan-500"
+                    />
+                    {slot.enabled ? 'On' : 'Bypassed'}
+                  </label>
+                </div>
+                {params && (
+                  <div className={`mt-3 ${slot.enabled ? '' : 'opacity-40 pointer-events-none'}`}>{params}</div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <h4 className="text-sm font-semibold text-white mt-6 pt-5 mb-3 border-t border-zinc-800">Sound Profiles</h4>
+        <div className="space-y-2">
+          {Object.keys(profiles).length > 0 && (
+            <div className="flex items-center gap-2 flex-wrap">
+              {Object.entries(profiles).map(([name, profile]) => (
+                <div key={name} className="flex items-center gap-1">
+                  <button
+                    onClick={() => onLoadProfile(profile as SoundProfile)}
+                    className="text-xs px-2 py-1 bg-cyan-900/30 hover:bg-cyan-800/40 text-cyan-300 rounded-l-md transition-colors"
+                  >
+                    {name}
+                  </button>
+                  <button
+                    onClick={() => handleDeleteProfile(name)}
+                    className="text-xs px-1.5 py-1 bg-red-900/30 hover:bg-red-800/40 text-red-300 rounded-r-md transition-colors"
+                    title="Delete profile"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {!showSaveInput ? (
+            <button
+              onClick={() => setShowSaveInput(true)}
+              className="text-xs px-2 py-1 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md transition-colors flex items-center gap-1"
+            >
+              <Save size={12} />
+              Save Current as Profile
+            </button>
+          ) : (
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={newProfileName}
+                onChange={(e) => setNewProfileName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSaveProfile()}
+                placeholder="Profile name..."
+                className="text-xs px-2 py-1 bg-zinc-800 text-white border border-zinc-700 rounded-md focus:outline-none focus:border-cyan-500"
+                autoFocus
+              />
+              <button
+                onClick={handleSaveProfile}
+                className="text-xs px-2 py-1 bg-cyan-700 hover:bg-cyan-600 text-white rounded-md transition-colors"
+              >
+                Save
+              </button>
+              <button
+                onClick={() => { setShowSaveInput(false); setNewProfileName(''); }}
+                className="text-xs px-2 py-1 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
+
+          <p className="text-xs text-zinc-500">
+            A profile stores the chain order, which effects are on, and the settings of every effect
+            including the equalizer and dynamics.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
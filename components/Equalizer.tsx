@@ -1,22 +1,116 @@
-import React, { useState } from 'react';
-import { EQBand } from '../types';
-import { X, RotateCcw, Save, Trash2 } from 'lucide-react';
+import React, { useState, useMemo, useRef } from 'react';
+import { EQBand, EQFilterType, EQPreset } from '../types';
+import { X, RotateCcw, Save, Trash2, Plus, Upload, Download } from 'lucide-react';
 import { getBuiltInPresets, saveEQPreset, loadEQPresets, deleteEQPreset } from '../utils/persistence';
+import { parseEQProfile, formatEQProfile } from '../utils/eqProfiles';
+import { downloadBlob } from '../utils/download';
+import {
+  EQ_FILTER_TYPES,
+  MAX_EQ_BANDS,
+  MAX_EQ_GAIN,
+  MIN_EQ_PREAMP,
+  MAX_EQ_PREAMP,
+  MIN_EQ_FREQUENCY,
+  MAX_EQ_FREQUENCY,
+  isGraphicLayout,
+  toGraphicBands,
+  getResponseFrequencies,
+  getCombinedResponse
+} from '../utils/equalizer';
 
 interface EqualizerProps {
   bands: EQBand[];
-  onBandChange: (index: number, value: number) => void;
+  preamp: number;
+  onBandChange: (index: number, changes: Partial<EQBand>) => void;
+  onPreampChange: (preamp: number) => void;
+  onAddBand: () => void;
+  onRemoveBand: (index: number) => void;
   onReset: () => void;
   onClose: () => void;
-  onLoadPreset: (bands: EQBand[]) => void;
+  onLoadPreset: (preset: EQPreset) => void;
 }
 
-const Equalizer: React.FC<EqualizerProps> = ({ bands, onBandChange, onReset, onClose, onLoadPreset }) => {
+type EQMode = 'graphic' | 'parametric';
+
+// Response curve plot
+const CURVE_WIDTH = 600;
+const CURVE_HEIGHT = 120;
+const CURVE_RANGE_DB = 18;
+const CURVE_POINTS = 200;
+const CURVE_FREQUENCIES = getResponseFrequencies(CURVE_POINTS);
+const CURVE_GRID_FREQUENCIES = [100, 1000, 10000];
+
+const frequencyToX = (frequency: number) => {
+  return (Math.log(frequency / MIN_EQ_FREQUENCY) / Math.log(MAX_EQ_FREQUENCY / MIN_EQ_FREQUENCY)) * CURVE_WIDTH;
+};
+
+const dbToY = (db: number) => {
+  const clamped = Math.max(-CURVE_RANGE_DB, Math.min(CURVE_RANGE_DB, db));
+  return CURVE_HEIGHT / 2 - (clamped / CURVE_RANGE_DB) * (CURVE_HEIGHT / 2);
+};
+
+const formatFrequency = (frequency: number) => {
+  return frequency >= 1000 ? `${+(frequency / 1000).toFixed(1)}K` : `${Math.round(frequency)}`;
+};
+
+const Equalizer: React.FC<EqualizerProps> = ({
+  bands,
+  preamp,
+  onBandChange,
+  onPreampChange,
+  onAddBand,
+  onRemoveBand,
+  onReset,
+  onClose,
+  onLoadPreset
+}) => {
   const [userPresets, setUserPresets] = useState(loadEQPresets());
   const [newPresetName, setNewPresetName] = useState('');
   const [showSaveInput, setShowSaveInput] = useState(false);
+  const [mode, setMode] = useState<EQMode>(() => isGraphicLayout(bands) ? 'graphic' : 'parametric');
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
-  const builtInPresets = getBuiltInPresets();
+  const builtInPresets = useMemo(() => getBuiltInPresets(), []);
+
+  const responsePath = useMemo(() => {
+    const response = getCombinedResponse(bands, CURVE_FREQUENCIES);
+    return Array.from(response)
+      .map((db, i) => `${i === 0 ? 'M' : 'L'}${((i / (CURVE_POINTS - 1)) * CURVE_WIDTH).toFixed(1)},${dbToY(db + preamp).toFixed(1)}`)
+      .join(' ');
+  }, [bands, preamp]);
+
+  // The graphic sliders can only show the classic 10-band layout
+  const changeMode = (newMode: EQMode) => {
+    if (newMode === 'graphic' && !isGraphicLayout(bands)) {
+      onLoadPreset({ bands: toGraphicBands(bands), preamp });
+    }
+    setMode(newMode);
+  };
+
+  const loadPreset = (preset: EQPreset) => {
+    onLoadPreset(preset);
+    setImportError(null);
+    if (!isGraphicLayout(preset.bands)) setMode('parametric');
+  };
+
+  // EqualizerAPO ParametricEQ.txt or AutoEQ GraphicEQ text
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      loadPreset(parseEQProfile(await file.text()));
+    } catch (error) {
+      console.error('[EQ] Failed to import profile:', error);
+      setImportError(error instanceof Error ? error.message : 'Could not read EQ profile');
+    }
+  };
+
+  const handleExport = () => {
+    const text = formatEQProfile({ bands, preamp });
+    downloadBlob(new Blob([text], { type: 'text/plain' }), 'ParametricEQ.txt');
+  };
 
   // Stop gestures from bubbling up to the main app container
   const stopPropagation = (e: React.SyntheticEvent) => {
@@ -25,7 +119,7 @@ const Equalizer: React.FC<EqualizerProps> = ({ bands, onBandChange, onReset, onC
 
   const handleSavePreset = () => {
     if (newPresetName.trim()) {
-      saveEQPreset(newPresetName.trim(), bands);
+      saveEQPreset(newPresetName.trim(), { bands, preamp });
       setUserPresets(loadEQPresets());
       setNewPresetName('');
       setShowSaveInput(false);
@@ -46,11 +140,23 @@ const Equalizer: React.FC<EqualizerProps> = ({ bands, onBandChange, onReset, onC
         onTouchEnd={stopPropagation}
         onClick={stopPropagation}
     >
-      <div className="bg-zinc-900 border border-zinc-800 p-6 rounded-xl shadow-2xl w-full max-w-2xl mx-4">
+      <div className="bg-zinc-900 border border-zinc-800 p-6 rounded-xl shadow-2xl w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto">
         <div className="flex items-center justify-between mb-4">
-            <h3 className="text-xl font-bold text-white flex items-center gap-2">
+            <h3 className="text-xl font-bold text-white flex items-center gap-3">
                 Equalizer
-                <span className="text-xs font-normal text-zinc-500 bg-zinc-800 px-2 py-0.5 rounded-full">10-Band</span>
+                <div className="flex bg-zinc-800 rounded-full p-0.5 text-xs font-normal">
+                    {(['graphic', 'parametric'] as EQMode[]).map(m => (
+                        <button
+                            key={m}
+                            onClick={() => changeMode(m)}
+                            className={`px-2.5 py-0.5 rounded-full capitalize transition-colors ${
+                                mode === m ? 'bg-cyan-600 text-white' : 'text-zinc-400 hover:text-white'
+                            }`}
+                        >
+                            {m}
+                        </button>
+                    ))}
+                </div>
             </h3>
             <div className="flex items-center gap-2">
                 <button
@@ -73,10 +179,10 @@ const Equalizer: React.FC<EqualizerProps> = ({ bands, onBandChange, onReset, onC
         <div className="mb-4 space-y-2">
           <div className="flex items-center gap-2 flex-wrap">
             <span className="text-xs text-zinc-500">Built-in:</span>
-            {Object.entries(builtInPresets).map(([name, presetBands]) => (
+            {Object.entries(builtInPresets).map(([name, preset]) => (
               <button
                 key={name}
-                onClick={() => onLoadPreset(presetBands as EQBand[])}
+                onClick={() => loadPreset(preset as EQPreset)}
                 className="text-xs px-2 py-1 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md transition-colors"
               >
                 {name}
@@ -87,10 +193,10 @@ const Equalizer: React.FC<EqualizerProps> = ({ bands, onBandChange, onReset, onC
           {Object.keys(userPresets).length > 0 && (
             <div className="flex items-center gap-2 flex-wrap">
               <span className="text-xs text-zinc-500">Custom:</span>
-              {Object.entries(userPresets).map(([name, presetBands]) => (
+              {Object.entries(userPresets).map(([name, preset]) => (
                 <div key={name} className="flex items-center gap-1">
                   <button
-                    onClick={() => onLoadPreset(presetBands as EQBand[])}
+                    onClick={() => loadPreset(preset as EQPreset)}
                     className="text-xs px-2 py-1 bg-cyan-900/30 hover:bg-cyan-800/40 text-cyan-300 rounded-l-md transition-colors"
                   >
                     {name}
@@ -107,7 +213,7 @@ const Equalizer: React.FC<EqualizerProps> = ({ bands, onBandChange, onReset, onC
             </div>
           )}
 
-          <div className="flex items-center gap-2">
+          <div className="flex items-center gap-2 flex-wrap">
             {!showSaveInput ? (
               <button
                 onClick={() => setShowSaveInput(true)}
@@ -141,20 +247,156 @@ const Equalizer: React.FC<EqualizerProps> = ({ bands, onBandChange, onReset, onC
                 </button>
               </div>
             )}
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".txt,text/plain"
+              onChange={handleImport}
+              className="hidden"
+            />
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="text-xs px-2 py-1 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md transition-colors flex items-center gap-1"
+              title="Import EqualizerAPO / AutoEQ profile"
+            >
+              <Upload size={12} />
+              Import
+            </button>
+            <button
+              onClick={handleExport}
+              className="text-xs px-2 py-1 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md transition-colors flex items-center gap-1"
+              title="Export as EqualizerAPO ParametricEQ.txt"
+            >
+              <Download size={12} />
+              Export
+            </button>
           </div>
+          {importError && <p className="text-xs text-red-400">{importError}</p>}
+        </div>
+
+        <div className="flex items-center gap-3 mb-3">
+          <span className="text-xs text-zinc-500">Pre-amp</span>
+          <input
+            type="range"
+            min={MIN_EQ_PREAMP}
+            max={MAX_EQ_PREAMP}
+            step={0.1}
+            value={preamp}
+            onChange={(e) => onPreampChange(parseFloat(e.target.value))}
+            className="flex-1 accent-cyan-500"
+          />
+          <span className="w-16 text-right text-xs font-mono text-zinc-400">
+            {preamp > 0 ? '+' : ''}{preamp.toFixed(1)} dB
+          </span>
         </div>
 
+        {/* Combined response */}
+        <svg
+            viewBox={`0 0 ${CURVE_WIDTH} ${CURVE_HEIGHT}`}
+            className="w-full h-28 mb-4 bg-zinc-950 rounded-lg border border-zinc-800"
+            preserveAspectRatio="none"
+        >
+            <line x1={0} x2={CURVE_WIDTH} y1={CURVE_HEIGHT / 2} y2={CURVE_HEIGHT / 2} stroke="#3f3f46" strokeWidth={1} />
+            {CURVE_GRID_FREQUENCIES.map(f => (
+                <line key={f} x1={frequencyToX(f)} x2={frequencyToX(f)} y1={0} y2={CURVE_HEIGHT} stroke="#27272a" strokeWidth={1} />
+            ))}
+            {mode === 'parametric' && bands.map(band => (
+                <circle key={band.id} cx={frequencyToX(band.frequency)} cy={dbToY(band.gain)} r={3} fill="#a1a1aa" />
+            ))}
+            <path d={responsePath} fill="none" stroke="#06b6d4" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        </svg>
+
+        {mode === 'parametric' ? (
+          <div className="space-y-2">
+            <div className="max-h-64 overflow-y-auto space-y-1.5 pr-1">
+              {bands.map((band, index) => {
+                const filterType = EQ_FILTER_TYPES.find(t => t.type === band.type)!;
+                return (
+                  <div key={band.id} className="flex items-center gap-2 bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1.5">
+                    <select
+                      value={band.type}
+                      onChange={(e) => onBandChange(index, { type: e.target.value as EQFilterType })}
+                      className="text-xs bg-zinc-800 text-white border border-zinc-700 rounded-md px-1.5 py-1 focus:outline-none focus:border-cyan-500"
+                    >
+                      {EQ_FILTER_TYPES.map(t => (
+                        <option key={t.type} value={t.type}>{t.label}</option>
+                      ))}
+                    </select>
+                    <label className="flex items-center gap-1 text-[10px] text-zinc-500">
+                      Hz
+                      <input
+                        type="number"
+                        min={MIN_EQ_FREQUENCY}
+                        max={MAX_EQ_FREQUENCY}
+                        value={Math.round(band.frequency)}
+                        onChange={(e) => {
+                          const frequency = parseFloat(e.target.value);
+                          if (frequency >= MIN_EQ_FREQUENCY && frequency <= MAX_EQ_FREQUENCY) onBandChange(index, { frequency });
+                        }}
+                        className="w-16 text-xs font-mono bg-zinc-800 text-white border border-zinc-700 rounded-md px-1.5 py-1 focus:outline-none focus:border-cyan-500"
+                      />
+                    </label>
+                    <div className={`flex items-center gap-1 flex-1 min-w-0 ${filterType.hasGain ? '' : 'opacity-30 pointer-events-none'}`}>
+                      <input
+                        type="range"
+                        min={-MAX_EQ_GAIN}
+                        max={MAX_EQ_GAIN}
+                        step={0.5}
+                        value={band.gain}
+                        onChange={(e) => onBandChange(index, { gain: parseFloat(e.target.value) })}
+                        className="flex-1 min-w-0 accent-cyan-500"
+                      />
+                      <span className="w-10 text-right text-[10px] font-mono text-zinc-400">
+                        {band.gain > 0 ? '+' : ''}{band.gain}
+                      </span>
+                    </div>
+                    <label className={`flex items-center gap-1 text-[10px] text-zinc-500 ${filterType.hasQ ? '' : 'opacity-30 pointer-events-none'}`}>
+                      Q
+                      <input
+                        type="number"
+                        min={0.1}
+                        max={18}
+                        step={0.1}
+                        value={band.q}
+                        onChange={(e) => {
+                          const q = parseFloat(e.target.value);
+                          if (q > 0) onBandChange(index, { q });
+                        }}
+                        className="w-14 text-xs font-mono bg-zinc-800 text-white border border-zinc-700 rounded-md px-1.5 py-1 focus:outline-none focus:border-cyan-500"
+                      />
+                    </label>
+                    <button
+                      onClick={() => onRemoveBand(index)}
+                      className="p-1 text-zinc-500 hover:text-red-400 transition-colors"
+                      title="Remove band"
+                    >
+                      <X size={14} />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+            <button
+              onClick={onAddBand}
+              disabled={bands.length >= MAX_EQ_BANDS}
+              className="text-xs px-2 py-1 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md transition-colors flex items-center gap-1 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Plus size={12} />
+              Add Band
+            </button>
+          </div>
+        ) : (
         <div className="flex justify-between items-end gap-2 h-64 px-2 overflow-x-auto pb-2">
             {bands.map((band, index) => (
-                <div key={band.frequency} className="flex flex-col items-center gap-3 h-full group min-w-[40px]">
+                <div key={band.id} className="flex flex-col items-center gap-3 h-full group min-w-[40px]">
                     <div className="relative flex-1 w-2 bg-zinc-800 rounded-full">
                         <input
                             type="range"
-                            min="-12"
-                            max="12"
+                            min={-MAX_EQ_GAIN}
+                            max={MAX_EQ_GAIN}
                             step="0.5"
                             value={band.gain}
-                            onChange={(e) => onBandChange(index, parseFloat(e.target.value))}
+                            onChange={(e) => onBandChange(index, { gain: parseFloat(e.target.value) })}
                             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10 appearance-none"
                             style={{ writingMode: 'vertical-lr', direction: 'rtl' } as any} // Firefox/Standard fallback
                         />
@@ -175,7 +417,7 @@ const Equalizer: React.FC<EqualizerProps> = ({ bands, onBandChange, onReset, onC
                         />
                     </div>
                     <div className="text-[10px] font-mono text-zinc-500 transform -rotate-45 origin-left translate-x-2 mt-2">
-                        {band.frequency >= 1000 ? `${band.frequency/1000}K` : band.frequency}
+                        {formatFrequency(band.frequency)}
                     </div>
                     <div className="text-[10px] font-bold text-zinc-600">
                         {band.gain > 0 ? '+' : ''}{Math.round(band.gain)}
@@ -183,6 +425,7 @@ const Equalizer: React.FC<EqualizerProps> = ({ bands, onBandChange, onReset, onC
                 </div>
             ))}
         </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,317 @@
+import React, { useState, useEffect } from 'react';
+import { Play, Shuffle, ArrowLeft, Music, Disc3, Users, Tags } from 'lucide-react';
+import { Track, ViewMode, LibraryAlbum } from '../types';
+import { Library } from '../utils/library';
+import { formatTime } from '../utils/formatters';
+
+interface LibraryBrowserProps {
+  mode: ViewMode.ARTISTS | ViewMode.ALBUMS | ViewMode.GENRES;
+  library: Library;
+  currentTrackId?: string;
+  isPlaying: boolean;
+  onPlayTracks: (tracks: Track[], source: string, startIndex?: number) => void;
+  onShuffleTracks: (tracks: Track[], source: string) => void;
+}
+
+const AlbumGrid: React.FC<{ albums: LibraryAlbum[]; onOpen: (album: LibraryAlbum) => void; onPlay: (album: LibraryAlbum) => void }> = ({ albums, onOpen, onPlay }) => (
+  <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
+    {albums.map(album => (
+      <div key={album.id} onClick={() => onOpen(album)} className="group cursor-pointer">
+        <div className="relative aspect-square rounded-lg overflow-hidden bg-zinc-800 flex items-center justify-center mb-2">
+          {album.coverArtUrl ? (
+            <img src={album.coverArtUrl} alt="" className="w-full h-full object-cover" />
+          ) : (
+            <Disc3 size={40} className="text-zinc-600" />
+          )}
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onPlay(album);
+            }}
+            className="absolute bottom-2 right-2 w-10 h-10 bg-cyan-500 hover:bg-cyan-400 rounded-full flex items-center justify-center text-black shadow-lg opacity-0 group-hover:opacity-100 transition-opacity"
+            title="Play Album"
+          >
+            <Play size={18} fill="currentColor" className="ml-0.5" />
+          </button>
+        </div>
+        <p className="text-sm font-medium text-zinc-100 truncate">{album.title}</p>
+        <p className="text-xs text-zinc-500 truncate">{album.artist}{album.year ? ` • ${album.year}` : ''}</p>
+      </div>
+    ))}
+  </div>
+);
+
+const ActionButtons: React.FC<{ tracks: Track[]; playLabel: string; onPlay: () => void; onShuffle: () => void }> = ({ tracks, playLabel, onPlay, onShuffle }) => (
+  <div className="flex items-center gap-2">
+    <button
+      onClick={onPlay}
+      disabled={tracks.length === 0}
+      className="px-4 py-2 text-sm bg-cyan-600 hover:bg-cyan-500 text-white rounded-full font-medium transition-colors flex items-center gap-2 disabled:opacity-50"
+    >
+      <Play size={16} fill="currentColor" />
+      {playLabel}
+    </button>
+    <button
+      onClick={onShuffle}
+      disabled={tracks.length === 0}
+      className="px-4 py-2 text-sm bg-zinc-800 hover:bg-zinc-700 text-zinc-200 rounded-full font-medium transition-colors flex items-center gap-2 disabled:opacity-50"
+    >
+      <Shuffle size={16} />
+      Shuffle
+    </button>
+  </div>
+);
+
+export const LibraryBrowser: React.FC<LibraryBrowserProps> = ({
+  mode,
+  library,
+  currentTrackId,
+  isPlaying,
+  onPlayTracks,
+  onShuffleTracks
+}) => {
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+  const [selectedAlbumId, setSelectedAlbumId] = useState<string | null>(null);
+
+  // Switching between Artists/Albums/Genres returns to the grid
+  useEffect(() => {
+    setSelectedGroupId(null);
+    setSelectedAlbumId(null);
+  }, [mode]);
+
+  const selectedAlbum = selectedAlbumId ? library.albums.find(a => a.id === selectedAlbumId) : undefined;
+  const selectedArtist = mode === ViewMode.ARTISTS && selectedGroupId ? library.artists.find(a => a.id === selectedGroupId) : undefined;
+  const selectedGenre = mode === ViewMode.GENRES && selectedGroupId ? library.genres.find(g => g.id === selectedGroupId) : undefined;
+
+  const goBack = () => {
+    if (selectedAlbumId) setSelectedAlbumId(null);
+    else setSelectedGroupId(null);
+  };
+
+  const openAlbum = (album: LibraryAlbum) => setSelectedAlbumId(album.id);
+  const playAlbum = (album: LibraryAlbum) => onPlayTracks(album.tracks, `Album: ${album.title}`);
+
+  const backButton = (
+    <button onClick={goBack} className="flex items-center gap-2 text-sm text-zinc-400 hover:text-white transition-colors mb-4">
+      <ArrowLeft size={16} />
+      Back
+    </button>
+  );
+
+  // --- Album detail ---
+  if (selectedAlbum) {
+    const hasMultipleDiscs = new Set(selectedAlbum.tracks.map(t => t.discNumber ?? 1)).size > 1;
+    return (
+      <div className="flex-1 overflow-y-auto px-6 py-4">
+        {backButton}
+        <div className="flex flex-col sm:flex-row items-start sm:items-end gap-6 mb-6">
+          <div className="w-40 h-40 rounded-lg overflow-hidden bg-zinc-800 flex items-center justify-center shadow-2xl shrink-0">
+            {selectedAlbum.coverArtUrl ? (
+              <img src={selectedAlbum.coverArtUrl} alt="" className="w-full h-full object-cover" />
+            ) : (
+              <Disc3 size={56} className="text-zinc-600" />
+            )}
+          </div>
+          <div className="space-y-3">
+            <div>
+              <p className="text-xs uppercase tracking-wider text-zinc-500">Album</p>
+              <h2 className="text-3xl font-bold text-white">{selectedAlbum.title}</h2>
+              <p className="text-zinc-400">
+                {selectedAlbum.artist}
+                {selectedAlbum.year ? ` • ${selectedAlbum.year}` : ''}
+                {` • ${selectedAlbum.tracks.length} track${selectedAlbum.tracks.length !== 1 ? 's' : ''}`}
+              </p>
+            </div>
+            <ActionButtons
+              tracks={selectedAlbum.tracks}
+              playLabel="Play Album"
+              onPlay={() => playAlbum(selectedAlbum)}
+              onShuffle={() => onShuffleTracks(selectedAlbum.tracks, `Album: ${selectedAlbum.title}`)}
+            />
+          </div>
+        </div>
+
+        <table className="w-full text-left border-collapse">
+          <tbody className="text-sm">
+            {selectedAlbum.tracks.map((track, index) => {
+              const isCurrent = currentTrackId === track.id;
+              const startsDisc = hasMultipleDiscs && (index === 0 || selectedAlbum.tracks[index - 1].discNumber !== track.discNumber);
+              return (
+                <React.Fragment key={track.id}>
+                  {startsDisc && (
+                    <tr>
+                      <td colSpan={3} className="pt-4 pb-2 pl-4 text-xs font-semibold text-zinc-500 uppercase tracking-wider">
+                        Disc {track.discNumber ?? 1}
+                      </td>
+                    </tr>
+                  )}
+                  <tr
+                    onClick={() => onPlayTracks(selectedAlbum.tracks, `Album: ${selectedAlbum.title}`, index)}
+                    className={`group cursor-pointer transition-colors border-b border-zinc-900/50 hover:bg-zinc-900/60 ${isCurrent ? 'bg-zinc-900 text-cyan-400' : 'text-zinc-300'}`}
+                  >
+                    <td className="py-3 pl-4 w-12 font-mono text-zinc-500">
+                      {isCurrent && isPlaying ? (
+                        <div className="w-3 h-3 bg-cyan-500 animate-pulse rounded-full" />
+                      ) : (
+                        track.trackNumber ?? index + 1
+                      )}
+                    </td>
+                    <td className="py-3">
+                      <div className="flex flex-col">
+                        <span className={isCurrent ? 'text-cyan-400' : 'text-zinc-100'}>{track.name}</span>
+                        {track.artist && track.artist !== selectedAlbum.artist && (
+                          <span className="text-xs text-zinc-500">{track.artist}</span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="py-3 pr-4 text-right text-zinc-500 font-mono text-xs">
+                      {track.duration ? formatTime(track.duration) : '--'}
+                    </td>
+                  </tr>
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    );
+  }
+
+  // --- Artist detail ---
+  if (selectedArtist) {
+    // Tracks outside the artist's own albums, e.g. singles or their part of a compilation
+    const looseTracks = selectedArtist.tracks.filter(t => !selectedArtist.albums.some(a => a.tracks.includes(t)));
+    return (
+      <div className="flex-1 overflow-y-auto px-6 py-4">
+        {backButton}
+        <div className="flex items-end gap-6 mb-6">
+          <div className="w-32 h-32 rounded-full overflow-hidden bg-zinc-800 flex items-center justify-center shadow-2xl shrink-0">
+            {selectedArtist.coverArtUrl ? (
+              <img src={selectedArtist.coverArtUrl} alt="" className="w-full h-full object-cover" />
+            ) : (
+              <Users size={40} className="text-zinc-600" />
+            )}
+          </div>
+          <div className="space-y-3">
+            <div>
+              <p className="text-xs uppercase tracking-wider text-zinc-500">Artist</p>
+              <h2 className="text-3xl font-bold text-white">{selectedArtist.name}</h2>
+              <p className="text-zinc-400">
+                {selectedArtist.albums.length} album{selectedArtist.albums.length !== 1 ? 's' : ''} • {selectedArtist.tracks.length} track{selectedArtist.tracks.length !== 1 ? 's' : ''}
+              </p>
+            </div>
+            <ActionButtons
+              tracks={selectedArtist.tracks}
+              playLabel="Play All"
+              onPlay={() => onPlayTracks([...selectedArtist.albums.flatMap(a => a.tracks), ...looseTracks], `Artist: ${selectedArtist.name}`)}
+              onShuffle={() => onShuffleTracks(selectedArtist.tracks, `Artist: ${selectedArtist.name}`)}
+            />
+          </div>
+        </div>
+
+        {selectedArtist.albums.length > 0 && (
+          <AlbumGrid albums={selectedArtist.albums} onOpen={openAlbum} onPlay={playAlbum} />
+        )}
+
+        {looseTracks.length > 0 && (
+          <div className="mt-6">
+            <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-2">Other Tracks</h3>
+            {looseTracks.map((track, index) => (
+              <button
+                key={track.id}
+                onClick={() => onPlayTracks(looseTracks, `Artist: ${selectedArtist.name}`, index)}
+                className={`w-full flex items-center justify-between px-3 py-2 text-sm rounded-md hover:bg-zinc-900 transition-colors text-left ${currentTrackId === track.id ? 'text-cyan-400' : 'text-zinc-300'}`}
+              >
+                <span className="truncate">{track.name}</span>
+                <span className="text-xs text-zinc-500 font-mono">{track.duration ? formatTime(track.duration) : '--'}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  // --- Genre detail ---
+  if (selectedGenre) {
+    return (
+      <div className="flex-1 overflow-y-auto px-6 py-4">
+        {backButton}
+        <div className="mb-6 space-y-3">
+          <div>
+            <p className="text-xs uppercase tracking-wider text-zinc-500">Genre</p>
+            <h2 className="text-3xl font-bold text-white">{selectedGenre.name}</h2>
+            <p className="text-zinc-400">{selectedGenre.tracks.length} track{selectedGenre.tracks.length !== 1 ? 's' : ''}</p>
+          </div>
+          <ActionButtons
+            tracks={selectedGenre.tracks}
+            playLabel="Play All"
+            onPlay={() => onPlayTracks(selectedGenre.tracks, `Genre: ${selectedGenre.name}`)}
+            onShuffle={() => onShuffleTracks(selectedGenre.tracks, `Genre: ${selectedGenre.name}`)}
+          />
+        </div>
+        <AlbumGrid albums={selectedGenre.albums} onOpen={openAlbum} onPlay={playAlbum} />
+      </div>
+    );
+  }
+
+  // --- Grids ---
+  const isEmpty =
+    (mode === ViewMode.ALBUMS && library.albums.length === 0) ||
+    (mode === ViewMode.ARTISTS && library.artists.length === 0) ||
+    (mode === ViewMode.GENRES && library.genres.length === 0);
+
+  if (isEmpty) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center text-zinc-500">
+        <Music size={64} className="mb-4 opacity-20" />
+        <p className="text-xl font-medium">Nothing here yet</p>
+        <p className="text-sm mt-2">Add tagged files to browse by artist, album and genre</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-y-auto px-6 py-4">
+      {mode === ViewMode.ALBUMS && (
+        <AlbumGrid albums={library.albums} onOpen={openAlbum} onPlay={playAlbum} />
+      )}
+
+      {mode === ViewMode.ARTISTS && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
+          {library.artists.map(artist => (
+            <div key={artist.id} onClick={() => setSelectedGroupId(artist.id)} className="group cursor-pointer text-center">
+              <div className="aspect-square rounded-full overflow-hidden bg-zinc-800 flex items-center justify-center mb-2 group-hover:ring-2 group-hover:ring-cyan-500 transition-all">
+                {artist.coverArtUrl ? (
+                  <img src={artist.coverArtUrl} alt="" className="w-full h-full object-cover" />
+                ) : (
+                  <Users size={40} className="text-zinc-600" />
+                )}
+              </div>
+              <p className="text-sm font-medium text-zinc-100 truncate">{artist.name}</p>
+              <p className="text-xs text-zinc-500">{artist.tracks.length} track{artist.tracks.length !== 1 ? 's' : ''}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {mode === ViewMode.GENRES && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+          {library.genres.map(genre => (
+            <div
+              key={genre.id}
+              onClick={() => setSelectedGroupId(genre.id)}
+              className="cursor-pointer rounded-lg bg-zinc-900 hover:bg-zinc-800 border border-zinc-800 p-4 transition-colors"
+            >
+              <Tags size={20} className="text-cyan-500 mb-3" />
+              <p className="text-sm font-medium text-zinc-100 truncate">{genre.name}</p>
+              <p className="text-xs text-zinc-500">
+                {genre.albums.length} album{genre.albums.length !== 1 ? 's' : ''} • {genre.tracks.length} track{genre.tracks.length !== 1 ? 's' : ''}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,207 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, Lock, Play, Trash2 } from 'lucide-react';
+import { Track, PlayEvent, PlayThreshold } from '../types';
+import { getListeningStats, STATS_PERIODS, StatsPeriod, RankedItem } from '../utils/history';
+import { loadPlayHistory, clearPlayHistory } from '../utils/persistence';
+
+interface ListeningStatsProps {
+  tracks: Track[]; // Reloads history as plays update the library
+  threshold: PlayThreshold;
+  onThresholdChange: (threshold: PlayThreshold) => void;
+  onPlayTrack: (track: Track) => void;
+  addToast: (message: string, type?: 'error' | 'info') => void;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatListeningTime = (seconds: number): string => {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const RankedList: React.FC<{
+  title: string;
+  items: RankedItem[];
+  onPlay?: (item: RankedItem) => void;
+}> = ({ title, items, onPlay }) => (
+  <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-4">
+    <h3 className="text-sm font-semibold text-white mb-3">{title}</h3>
+    {items.length === 0 ? (
+      <p className="text-xs text-zinc-500">Nothing played yet.</p>
+    ) : (
+      <ol className="space-y-1">
+        {items.map((item, index) => (
+          <li key={item.key} className="group flex items-center gap-3 px-2 py-1.5 rounded-md hover:bg-zinc-900">
+            <span className="w-5 text-xs font-mono text-zinc-500 text-right shrink-0">{index + 1}</span>
+            <div className="min-w-0 flex-1">
+              <p className="text-sm text-zinc-200 truncate">{item.label}</p>
+              {item.detail && <p className="text-xs text-zinc-500 truncate">{item.detail}</p>}
+            </div>
+            {onPlay && (
+              <button
+                onClick={() => onPlay(item)}
+                className="p-1 text-zinc-500 hover:text-cyan-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Play"
+              >
+                <Play size={14} />
+              </button>
+            )}
+            <span className="text-xs text-zinc-400 font-mono shrink-0">
+              {item.plays} play{item.plays !== 1 ? 's' : ''}
+            </span>
+          </li>
+        ))}
+      </ol>
+    )}
+  </div>
+);
+
+export const ListeningStats: React.FC<ListeningStatsProps> = ({ tracks, threshold, onThresholdChange, onPlayTrack, addToast }) => {
+  const [history, setHistory] = useState<PlayEvent[] | null>(null);
+  const [period, setPeriod] = useState<StatsPeriod>('month');
+  const [isConfirmingClear, setIsConfirmingClear] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadPlayHistory().then(events => {
+      if (!cancelled) setHistory(events);
+    });
+    return () => { cancelled = true; };
+  }, [tracks]);
+
+  const stats = useMemo(() => getListeningStats(history ?? [], period), [history, period]);
+  const tracksById = useMemo(() => new Map(tracks.map(t => [t.id, t])), [tracks]);
+  const heatmapMax = Math.max(1, ...stats.heatmap.flat());
+
+  const handleClear = async () => {
+    // Takes a second click, since history can't be rebuilt
+    if (!isConfirmingClear) {
+      setIsConfirmingClear(true);
+      return;
+    }
+    setIsConfirmingClear(false);
+    try {
+      await clearPlayHistory();
+      setHistory([]);
+      addToast('Listening history cleared');
+    } catch (error) {
+      console.error('[History] Failed to clear listening history:', error);
+      addToast('Could not clear listening history', 'error');
+    }
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto px-6 py-4 z-10">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-2">
+        <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+          <History size={22} className="text-cyan-500" />
+          Listening Stats
+        </h2>
+        <div className="flex gap-1 bg-zinc-900 rounded-lg p-1 self-start">
+          {STATS_PERIODS.map(({ period: value, label }) => (
+            <button
+              key={value}
+              onClick={() => setPeriod(value)}
+              className={`px-3 py-1 text-xs rounded-md transition-colors ${
+                period === value ? 'bg-zinc-800 text-cyan-400' : 'text-zinc-400 hover:text-zinc-200'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="flex items-center gap-1.5 text-xs text-zinc-500 mb-6">
+        <Lock size={12} />
+        Your history is stored only in this browser and never leaves your device.
+      </p>
+
+      {/* Totals */}
+      <div className="grid grid-cols-3 gap-3 mb-6">
+        {[
+          { label: 'Plays', value: String(stats.plays) },
+          { label: 'Listening time', value: formatListeningTime(stats.seconds) },
+          { label: 'Skipped', value: stats.listens > 0 ? `${Math.round((stats.skips / stats.listens) * 100)}%` : '--' },
+        ].map(({ label, value }) => (
+          <div key={label} className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-4">
+            <p className="text-xs text-zinc-500 uppercase tracking-wider">{label}</p>
+            <p className="text-2xl font-bold text-white mt-1">{history ? value : '…'}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-6">
+        <RankedList title="Top Artists" items={stats.topArtists} />
+        <RankedList title="Top Albums" items={stats.topAlbums} />
+        <RankedList
+          title="Top Tracks"
+          items={stats.topTracks}
+          onPlay={(item) => {
+            const track = tracksById.get(item.trackId!);
+            if (track) onPlayTrack(track);
+            else addToast('This track is no longer in your library', 'error');
+          }}
+        />
+      </div>
+
+      {/* Heatmap */}
+      <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-4 mb-6 overflow-x-auto">
+        <h3 className="text-sm font-semibold text-white mb-3">When You Listen</h3>
+        <div className="min-w-[560px]">
+          {stats.heatmap.map((hours, day) => (
+            <div key={day} className="flex items-center gap-1 mb-1">
+              <span className="w-8 text-[10px] text-zinc-500 shrink-0">{WEEKDAYS[day]}</span>
+              {hours.map((seconds, hour) => (
+                <div
+                  key={hour}
+                  className={`flex-1 h-4 rounded-sm ${seconds > 0 ? 'bg-cyan-500' : 'bg-zinc-800'}`}
+                  style={seconds > 0 ? { opacity: 0.2 + 0.8 * (seconds / heatmapMax) } : undefined}
+                  title={`${WEEKDAYS[day]} ${hour}:00 • ${formatListeningTime(seconds)}`}
+                />
+              ))}
+            </div>
+          ))}
+          <div className="flex gap-1 ml-9 text-[10px] text-zinc-600">
+            {Array.from({ length: 24 }, (_, hour) => (
+              <span key={hour} className="flex-1 text-center">{hour % 6 === 0 ? hour : ''}</span>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Settings */}
+      <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex flex-wrap items-center gap-2 text-sm text-zinc-300">
+          Count a play after
+          <input
+            type="number"
+            min={1}
+            max={100}
+            value={threshold.percent}
+            onChange={(e) => onThresholdChange({ ...threshold, percent: Math.min(100, Math.max(1, Number(e.target.value) || 1)) })}
+            className="w-16 bg-zinc-950 border border-zinc-800 rounded-md px-2 py-1 text-sm text-white text-right focus:outline-none focus:border-cyan-500"
+          />
+          % of the track or
+          <input
+            type="number"
+            min={1}
+            value={threshold.maxSeconds}
+            onChange={(e) => onThresholdChange({ ...threshold, maxSeconds: Math.max(1, Number(e.target.value) || 1) })}
+            className="w-20 bg-zinc-950 border border-zinc-800 rounded-md px-2 py-1 text-sm text-white text-right focus:outline-none focus:border-cyan-500"
+          />
+          seconds, whichever comes first
+        </div>
+        <button
+          onClick={handleClear}
+          onBlur={() => setIsConfirmingClear(false)}
+          disabled={!history || history.length === 0}
+          className="flex items-center gap-2 px-3 py-1.5 text-xs rounded-lg bg-zinc-800 hover:bg-red-600 text-zinc-300 hover:text-white transition-colors shrink-0 disabled:opacity-50 disabled:hover:bg-zinc-800"
+        >
+          <Trash2 size={14} />
+          {isConfirmingClear ? 'Click to Confirm' : 'Clear History'}
+        </button>
+      </div>
+    </div>
+  );
+};
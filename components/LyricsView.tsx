@@ -0,0 +1,190 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { MicVocal, Minus, Plus, RotateCcw } from 'lucide-react';
+import { Track, LyricLine } from '../types';
+import { parseLyrics, findLyricLine, findLyricWord } from '../utils/lyrics';
+
+interface LyricsViewProps {
+  track: Track | null;
+  currentTime: number; // Track-relative, from the player state
+  getCurrentTime: () => number; // Read every frame while playing, for word timing
+  isPlaying: boolean;
+  karaoke: boolean; // Karaoke effect is on: bigger text with a sung-along wipe
+  onSeek: (time: number) => void;
+  onOffsetChange: (trackId: string, offset: number) => void;
+}
+
+const OFFSET_STEP = 0.1;
+// After scrolling by hand, leave the view alone for a bit
+const MANUAL_SCROLL_HOLD_MS = 4000;
+
+const formatOffset = (offset: number): string => {
+  if (Math.abs(offset) < 0.05) return '0.0s';
+  return `${offset > 0 ? '+' : ''}${offset.toFixed(1)}s`;
+};
+
+/**
+ * How far through `line` playback is (0-1): words when timed, otherwise the whole
+ * line up to the next one
+ */
+const getWordProgress = (line: LyricLine, nextTime: number | undefined, wordIndex: number, time: number): number => {
+  const words = line.words!;
+  const start = words[wordIndex].time;
+  const end = words[wordIndex + 1]?.time ?? nextTime ?? start + 1;
+  return end > start ? Math.min(1, Math.max(0, (time - start) / (end - start))) : 1;
+};
+
+// Highlight color sweeps left to right through the text
+const wipeStyle = (progress: number, color: string): React.CSSProperties => ({
+  backgroundImage: `linear-gradient(to right, ${color} ${progress * 100}%, rgba(161, 161, 170, 0.6) ${progress * 100}%)`,
+  WebkitBackgroundClip: 'text',
+  backgroundClip: 'text',
+  color: 'transparent'
+});
+
+export const LyricsView: React.FC<LyricsViewProps> = ({
+  track,
+  currentTime,
+  getCurrentTime,
+  isPlaying,
+  karaoke,
+  onSeek,
+  onOffsetChange
+}) => {
+  const [time, setTime] = useState(currentTime);
+  const activeLineRef = useRef<HTMLButtonElement>(null);
+  const manualScrollUntilRef = useRef(0);
+
+  const lyrics = useMemo(() => (track?.lyrics ? parseLyrics(track.lyrics) : null), [track?.lyrics]);
+  const trackOffset = track?.lyricsOffset ?? 0;
+  const lyricTime = time + (lyrics?.offset ?? 0) + trackOffset;
+  const activeLine = lyrics ? findLyricLine(lyrics, lyricTime) : -1;
+
+  useEffect(() => {
+    setTime(currentTime);
+  }, [currentTime]);
+
+  // timeupdate only fires every ~250ms, too coarse for word highlighting
+  useEffect(() => {
+    if (!isPlaying || !lyrics?.synced) return;
+    let frame = 0;
+    const tick = () => {
+      setTime(getCurrentTime());
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, lyrics]);
+
+  useEffect(() => {
+    if (Date.now() < manualScrollUntilRef.current) return;
+    activeLineRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [activeLine, karaoke]);
+
+  const holdScroll = () => {
+    manualScrollUntilRef.current = Date.now() + MANUAL_SCROLL_HOLD_MS;
+  };
+
+  const changeOffset = (offset: number) => {
+    if (track) onOffsetChange(track.id, Math.round(offset * 10) / 10);
+  };
+
+  if (!track || !lyrics || lyrics.lines.length === 0) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center gap-2 text-zinc-500 z-10 p-6 text-center">
+        <MicVocal size={48} className="opacity-20" />
+        <p>{track ? 'No lyrics for this track' : 'Play a track to see its lyrics'}</p>
+        {track?.type === 'local' && (
+          <p className="text-xs text-zinc-600 max-w-sm">
+            Add a .lrc file with the same name as the audio file, or tag the file with lyrics.
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  const renderLine = (line: LyricLine, index: number) => {
+    const isActive = index === activeLine;
+    const isPast = index < activeLine;
+    const nextTime = lyrics.lines[index + 1]?.time;
+
+    let content: React.ReactNode = line.text || '♪';
+    if (isActive && line.words) {
+      const activeWord = findLyricWord(line, lyricTime);
+      content = line.words.map((word, i) => {
+        if (karaoke) {
+          const progress = i < activeWord ? 1 : i > activeWord ? 0 : getWordProgress(line, nextTime, i, lyricTime);
+          return <span key={i} style={wipeStyle(progress, '#facc15')}>{word.text}</span>;
+        }
+        return <span key={i} className={i <= activeWord ? 'text-cyan-400' : 'text-zinc-400'}>{word.text}</span>;
+      });
+    } else if (isActive && karaoke && line.text && line.time !== undefined) {
+      const end = nextTime ?? line.time + 5;
+      const progress = Math.min(1, Math.max(0, (lyricTime - line.time) / (end - line.time)));
+      content = <span style={wipeStyle(progress, '#facc15')}>{line.text}</span>;
+    }
+
+    const sizeClass = karaoke
+      ? (isActive ? 'text-3xl md:text-4xl' : 'text-xl md:text-2xl')
+      : (isActive ? 'text-2xl md:text-3xl' : 'text-lg md:text-xl');
+
+    return (
+      <button
+        key={index}
+        ref={isActive ? activeLineRef : undefined}
+        onClick={() => line.time !== undefined && onSeek(Math.max(0, line.time - (lyrics.offset + trackOffset)))}
+        className={`block w-full text-center font-bold leading-snug py-2 px-4 rounded-lg transition-all duration-300 hover:bg-white/5 ${sizeClass} ${
+          isActive ? 'text-white' : isPast ? 'text-zinc-600' : 'text-zinc-400'
+        }`}
+      >
+        {content}
+      </button>
+    );
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0 z-10">
+      <div
+        className="flex-1 overflow-y-auto px-6 py-[40vh]"
+        onWheel={holdScroll}
+        onTouchMove={holdScroll}
+      >
+        {lyrics.synced ? (
+          <div className="max-w-3xl mx-auto">{lyrics.lines.map(renderLine)}</div>
+        ) : (
+          <div className="max-w-2xl mx-auto text-center text-lg text-zinc-300 leading-relaxed whitespace-pre-line">
+            {lyrics.lines.map(line => line.text).join('\n')}
+          </div>
+        )}
+      </div>
+
+      {lyrics.synced && (
+        <div className="flex items-center justify-center gap-2 py-2 border-t border-zinc-900 text-xs text-zinc-500">
+          <span>Lyrics timing</span>
+          <button
+            onClick={() => changeOffset(trackOffset - OFFSET_STEP)}
+            className="p-1 rounded hover:bg-zinc-800 hover:text-zinc-300"
+            title="Show lyrics later"
+          >
+            <Minus size={14} />
+          </button>
+          <span className="w-12 text-center font-mono text-cyan-400">{formatOffset(trackOffset)}</span>
+          <button
+            onClick={() => changeOffset(trackOffset + OFFSET_STEP)}
+            className="p-1 rounded hover:bg-zinc-800 hover:text-zinc-300"
+            title="Show lyrics earlier"
+          >
+            <Plus size={14} />
+          </button>
+          <button
+            onClick={() => changeOffset(0)}
+            disabled={trackOffset === 0}
+            className="p-1 rounded hover:bg-zinc-800 hover:text-zinc-300 disabled:opacity-30"
+            title="Reset timing"
+          >
+            <RotateCcw size={14} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
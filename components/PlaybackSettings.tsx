@@ -0,0 +1,277 @@
+import React from 'react';
+import { X, Blend, Volume2, Gauge, Moon } from 'lucide-react';
+import { CrossfadeSettings, LoudnessSettings, LoudnessMode, DynamicsSettings, CompressorSettings } from '../types';
+import { CROSSFADE_CURVES, MAX_CROSSFADE_SECONDS, getFadeCurve } from '../utils/crossfade';
+import { MAX_PREAMP_DB } from '../utils/loudness';
+import { COMPRESSOR_RANGES, getEffectiveDynamics } from '../utils/dynamics';
+
+interface PlaybackSettingsProps {
+  crossfade: CrossfadeSettings;
+  onCrossfadeChange: (settings: CrossfadeSettings) => void;
+  loudness: LoudnessSettings;
+  onLoudnessChange: (settings: LoudnessSettings) => void;
+  analyzedCount: number; // Local tracks with loudness info
+  localCount: number;
+  currentGain: number | null; // dB applied to the playing track
+  dynamics: DynamicsSettings;
+  onDynamicsChange: (settings: DynamicsSettings) => void;
+  onClose: () => void;
+}
+
+const LOUDNESS_MODES: { mode: LoudnessMode; label: string }[] = [
+  { mode: 'off', label: 'Off' },
+  { mode: 'track', label: 'Track' },
+  { mode: 'album', label: 'Album' },
+];
+
+const formatDb = (db: number): string => `${db > 0 ? '+' : ''}${db.toFixed(1)} dB`;
+
+const COMPRESSOR_CONTROLS: { key: keyof CompressorSettings; label: string; format: (value: number) => string }[] = [
+  { key: 'threshold', label: 'Threshold', format: v => `${v} dB` },
+  { key: 'ratio', label: 'Ratio', format: v => `${v}:1` },
+  { key: 'attack', label: 'Attack', format: v => `${Math.round(v * 1000)} ms` },
+  { key: 'release', label: 'Release', format: v => `${Math.round(v * 1000)} ms` },
+  { key: 'knee', label: 'Knee', format: v => `${v} dB` },
+  { key: 'makeupGain', label: 'Makeup', format: formatDb },
+];
+
+const PREVIEW_WIDTH = 240;
+const PREVIEW_HEIGHT = 60;
+
+const curveToPoints = (values: Float32Array): string => {
+  return Array.from(values)
+    .map((v, i) => `${(i / (values.length - 1)) * PREVIEW_WIDTH},${PREVIEW_HEIGHT - v * PREVIEW_HEIGHT}`)
+    .join(' ');
+};
+
+export const PlaybackSettings: React.FC<PlaybackSettingsProps> = ({
+  crossfade,
+  onCrossfadeChange,
+  loudness,
+  onLoudnessChange,
+  analyzedCount,
+  localCount,
+  currentGain,
+  dynamics,
+  onDynamicsChange,
+  onClose
+}) => {
+  const isGapless = crossfade.duration === 0;
+  const isNormalizing = loudness.mode !== 'off';
+  // Night mode takes over the compressor, so show what's actually applied
+  const effectiveDynamics = getEffectiveDynamics(dynamics);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl w-full max-w-md p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-white">Playback</h3>
+          <button onClick={onClose} className="text-zinc-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <h4 className="text-sm font-semibold text-white flex items-center gap-2 mb-3">
+          <Blend size={16} className="text-cyan-500" />
+          Crossfade
+        </h4>
+        <div className="space-y-5">
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm text-zinc-300">Duration</span>
+              <span className="text-sm font-mono text-cyan-400">
+                {isGapless ? 'Off (gapless)' : `${crossfade.duration}s`}
+              </span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={MAX_CROSSFADE_SECONDS}
+              step={0.5}
+              value={crossfade.duration}
+              onChange={(e) => onCrossfadeChange({ ...crossfade, duration: parseFloat(e.target.value) })}
+              className="w-full accent-cyan-500"
+            />
+          </div>
+
+          <div className={isGapless ? 'opacity-40 pointer-events-none' : ''}>
+            <span className="text-sm text-zinc-300 block mb-2">Curve</span>
+            <div className="grid grid-cols-2 gap-2 mb-3">
+              {CROSSFADE_CURVES.map(({ curve, label }) => (
+                <button
+                  key={curve}
+                  onClick={() => onCrossfadeChange({ ...crossfade, curve })}
+                  className={`px-3 py-2 text-sm rounded-lg transition-colors ${
+                    crossfade.curve === curve
+                      ? 'bg-cyan-600 text-white'
+                      : 'bg-zinc-800 hover:bg-zinc-700 text-zinc-300'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <svg
+              viewBox={`0 0 ${PREVIEW_WIDTH} ${PREVIEW_HEIGHT}`}
+              className="w-full h-16 bg-zinc-950 rounded-lg border border-zinc-800"
+              preserveAspectRatio="none"
+            >
+              <polyline points={curveToPoints(getFadeCurve(crossfade.curve, 'out', 48))} fill="none" stroke="#71717a" strokeWidth={2} />
+              <polyline points={curveToPoints(getFadeCurve(crossfade.curve, 'in', 48))} fill="none" stroke="#06b6d4" strokeWidth={2} />
+            </svg>
+          </div>
+
+          <p className="text-xs text-zinc-500">
+            Tracks always play back to back without a gap. Consecutive tracks from the same album
+            are never crossfaded, so live albums and mixes play through untouched.
+          </p>
+        </div>
+
+        <h4 className="text-sm font-semibold text-white flex items-center gap-2 mt-6 pt-5 mb-3 border-t border-zinc-800">
+          <Volume2 size={16} className="text-cyan-500" />
+          Loudness Normalization
+        </h4>
+        <div className="space-y-5">
+          <div className="grid grid-cols-3 gap-2">
+            {LOUDNESS_MODES.map(({ mode, label }) => (
+              <button
+                key={mode}
+                onClick={() => onLoudnessChange({ ...loudness, mode })}
+                className={`px-3 py-2 text-sm rounded-lg transition-colors ${
+                  loudness.mode === mode
+                    ? 'bg-cyan-600 text-white'
+                    : 'bg-zinc-800 hover:bg-zinc-700 text-zinc-300'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <div className={isNormalizing ? 'space-y-4' : 'space-y-4 opacity-40 pointer-events-none'}>
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm text-zinc-300">Pre-amp</span>
+                <span className="text-sm font-mono text-cyan-400">{formatDb(loudness.preAmp)}</span>
+              </div>
+              <input
+                type="range"
+                min={-MAX_PREAMP_DB}
+                max={MAX_PREAMP_DB}
+                step={0.5}
+                value={loudness.preAmp}
+                onChange={(e) => onLoudnessChange({ ...loudness, preAmp: parseFloat(e.target.value) })}
+                className="w-full accent-cyan-500"
+              />
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={loudness.preventClipping}
+                onChange={(e) => onLoudnessChange({ ...loudness, preventClipping: e.target.checked })}
+                className="accent-cyan-500"
+              />
+              Prevent clipping
+            </label>
+
+            <div className="flex items-center justify-between text-xs text-zinc-500">
+              <span>Analyzed {analyzedCount} of {localCount} local tracks</span>
+              {currentGain !== null && (
+                <span>Now playing: <span className="font-mono text-zinc-300">{formatDb(currentGain)}</span></span>
+              )}
+            </div>
+          </div>
+
+          <p className="text-xs text-zinc-500">
+            Uses ReplayGain and R128 tags when present and measures the rest in the background
+            (EBU R128 / ITU-R BS.1770). Album mode keeps the level differences between tracks of the same
+            album. Streams can't be analyzed and only get the pre-amp.
+          </p>
+        </div>
+
+        <h4 className="text-sm font-semibold text-white flex items-center gap-2 mt-6 pt-5 mb-3 border-t border-zinc-800">
+          <Gauge size={16} className="text-cyan-500" />
+          Dynamics
+        </h4>
+        <div className="space-y-5">
+          <button
+            onClick={() => onDynamicsChange({ ...dynamics, nightMode: !dynamics.nightMode })}
+            className={`w-full flex items-center justify-center gap-2 px-3 py-2 text-sm rounded-lg transition-colors ${
+              dynamics.nightMode
+                ? 'bg-cyan-600 text-white'
+                : 'bg-zinc-800 hover:bg-zinc-700 text-zinc-300'
+            }`}
+          >
+            <Moon size={16} />
+            Night Mode {dynamics.nightMode ? 'On' : 'Off'}
+          </button>
+
+          <div className={dynamics.nightMode ? 'space-y-4 opacity-40 pointer-events-none' : 'space-y-4'}>
+            <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={effectiveDynamics.compressorEnabled}
+                onChange={(e) => onDynamicsChange({ ...dynamics, compressorEnabled: e.target.checked })}
+                className="accent-cyan-500"
+              />
+              Compressor
+            </label>
+
+            <div className={effectiveDynamics.compressorEnabled ? 'grid grid-cols-2 gap-x-4 gap-y-3' : 'grid grid-cols-2 gap-x-4 gap-y-3 opacity-40 pointer-events-none'}>
+              {COMPRESSOR_CONTROLS.map(({ key, label, format }) => (
+                <div key={key}>
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-xs text-zinc-400">{label}</span>
+                    <span className="text-xs font-mono text-cyan-400">{format(effectiveDynamics.compressor[key])}</span>
+                  </div>
+                  <input
+                    type="range"
+                    {...COMPRESSOR_RANGES[key]}
+                    value={effectiveDynamics.compressor[key]}
+                    onChange={(e) => onDynamicsChange({
+                      ...dynamics,
+                      compressor: { ...dynamics.compressor, [key]: parseFloat(e.target.value) }
+                    })}
+                    className="w-full accent-cyan-500"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={effectiveDynamics.limiterEnabled}
+                onChange={(e) => onDynamicsChange({ ...dynamics, limiterEnabled: e.target.checked })}
+                className="accent-cyan-500"
+              />
+              Limiter
+            </label>
+          </div>
+
+          <div className={effectiveDynamics.limiterEnabled ? '' : 'opacity-40 pointer-events-none'}>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm text-zinc-300">Limiter ceiling</span>
+              <span className="text-sm font-mono text-cyan-400">{formatDb(dynamics.limiterCeiling)}</span>
+            </div>
+            <input
+              type="range"
+              min={-12}
+              max={0}
+              step={0.1}
+              value={dynamics.limiterCeiling}
+              onChange={(e) => onDynamicsChange({ ...dynamics, limiterCeiling: parseFloat(e.target.value) })}
+              className="w-full accent-cyan-500"
+            />
+          </div>
+
+          <p className="text-xs text-zinc-500">
+            Runs after the equalizer. The limiter keeps EQ boosts and pre-amp from clipping; night mode
+            squeezes quiet and loud passages together for late-night listening at low volume.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -2,6 +2,7 @@ import React from 'react';
 import { Play, Pause, SkipBack, SkipForward, Volume2, VolumeX, Shuffle, Repeat, RotateCcw, RotateCw, FastForward, Bookmark } from 'lucide-react';
 import { PlayerState, ChapterMarker } from '../types';
 import { formatTime } from '../utils/formatters';
+import { SeekBar } from './SeekBar';
 
 interface PlayerControlsProps {
   playerState: PlayerState;
@@ -16,6 +17,8 @@ interface PlayerControlsProps {
   onSkipForward: () => void;
   onSkipBackward: () => void;
   markers?: ChapterMarker[];
+  waveform?: Float32Array | null;
+  loopRegion?: { start: number; end: number } | null; // In seconds
   onJumpToMarker?: (timestamp: number) => void;
   onAddMarker?: (timestamp: number) => void;
   onNextMarker?: () => void;
@@ -36,30 +39,14 @@ const PlayerControls: React.FC<PlayerControlsProps> = ({
   onSkipForward,
   onSkipBackward,
   markers = [],
+  waveform = null,
+  loopRegion = null,
   onJumpToMarker,
   onAddMarker,
   onNextMarker,
   onPrevMarker,
   hasTrack = false,
 }) => {
-  const handleSeekBarClick = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (!hasTrack) return;
-
-    const seekBar = e.currentTarget;
-    const rect = seekBar.getBoundingClientRect();
-    const clickX = e.clientX - rect.left;
-    const percentage = clickX / rect.width;
-    const timestamp = percentage * (playerState.duration || 0);
-
-    // Right-click or Ctrl+Click to add marker
-    if (e.button === 2 || e.ctrlKey || e.metaKey) {
-      e.preventDefault();
-      onAddMarker?.(timestamp);
-    } else {
-      // Left-click to seek
-      onSeek(timestamp);
-    }
-  };
   return (
     <div className="h-24 bg-zinc-900 border-t border-zinc-800 flex items-center justify-between px-6 shrink-0 z-50 select-none">
       {/* Track Info Placeholder (Left) */}
@@ -145,41 +132,17 @@ const PlayerControls: React.FC<PlayerControlsProps> = ({
 
         <div className="w-full flex items-center gap-3 text-xs text-zinc-400 font-mono">
           <span className="w-10 text-right">{formatTime(playerState.currentTime)}</span>
-          <div
-            className="relative flex-1 group h-4 flex items-center cursor-pointer"
-            onClick={handleSeekBarClick}
-            onContextMenu={(e) => {
-              e.preventDefault();
-              handleSeekBarClick(e as any);
-            }}
-            title={hasTrack ? "Click to seek • Right-click to add marker" : ""}
-          >
-            <div className="absolute inset-0 bg-zinc-800 rounded-full h-1 my-auto overflow-hidden pointer-events-none">
-                <div
-                    className="h-full bg-cyan-500 rounded-full group-hover:bg-cyan-400 transition-all duration-75 ease-linear"
-                    style={{ width: `${(playerState.currentTime / (playerState.duration || 1)) * 100}%` }}
-                ></div>
-            </div>
-
-            {/* Chapter Markers */}
-            {markers.map((marker) => {
-              const position = (marker.timestamp / (playerState.duration || 1)) * 100;
-              return (
-                <div
-                  key={marker.id}
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    onJumpToMarker?.(marker.timestamp);
-                  }}
-                  className="absolute w-2 h-2 -translate-x-1 cursor-pointer z-10 group/marker"
-                  style={{ left: `${position}%`, top: '50%', transform: `translateY(-50%) translateX(-50%)` }}
-                  title={`${marker.label} (${formatTime(marker.timestamp)})`}
-                >
-                  <div className="w-full h-full bg-yellow-500 rounded-full group-hover/marker:bg-yellow-400 group-hover/marker:scale-150 transition-all shadow-lg" />
-                </div>
-              );
-            })}
-          </div>
+          <SeekBar
+            currentTime={playerState.currentTime}
+            duration={playerState.duration}
+            waveform={waveform}
+            markers={markers}
+            region={loopRegion}
+            enabled={hasTrack}
+            onSeek={onSeek}
+            onJumpToMarker={onJumpToMarker}
+            onAddMarker={onAddMarker}
+          />
           <span className="w-10">{formatTime(playerState.duration)}</span>
         </div>
       </div>
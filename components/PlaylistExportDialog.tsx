@@ -0,0 +1,55 @@
+import React from 'react';
+import { X, Download } from 'lucide-react';
+import { PLAYLIST_FORMATS, PlaylistFormat } from '../utils/playlistFiles';
+
+interface PlaylistExportDialogProps {
+  name: string;
+  trackCount: number;
+  onExport: (format: PlaylistFormat) => void;
+  onClose: () => void;
+}
+
+const FORMAT_DESCRIPTIONS: Record<PlaylistFormat, string> = {
+  m3u8: 'Most players, with titles and durations',
+  pls: 'Winamp and internet radio players',
+  xspf: 'VLC and other XML-based players'
+};
+
+export const PlaylistExportDialog: React.FC<PlaylistExportDialogProps> = ({ name, trackCount, onExport, onClose }) => {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl w-full max-w-sm p-6">
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <Download size={18} className="text-cyan-500" />
+            Export Playlist
+          </h3>
+          <button onClick={onClose} className="text-zinc-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+        <p className="text-xs text-zinc-500 mb-4 truncate">
+          {name} • {trackCount} track{trackCount !== 1 ? 's' : ''}
+        </p>
+
+        <div className="space-y-2">
+          {(Object.keys(PLAYLIST_FORMATS) as PlaylistFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => onExport(format)}
+              className="w-full flex items-center justify-between gap-3 px-3 py-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition-colors text-left"
+            >
+              <span className="text-sm font-semibold text-white">{PLAYLIST_FORMATS[format].label}</span>
+              <span className="text-xs text-zinc-400">{FORMAT_DESCRIPTIONS[format]}</span>
+            </button>
+          ))}
+        </div>
+
+        <p className="text-xs text-zinc-500 mt-4">
+          Local files are listed by their path in the imported folder, so the playlist works
+          when saved next to that folder.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React from 'react';
+import { X, Upload, AlertCircle } from 'lucide-react';
+import { PlaylistImportResult } from '../utils/playlistFiles';
+
+interface PlaylistImportSummaryProps {
+  result: PlaylistImportResult;
+  onClose: () => void;
+}
+
+export const PlaylistImportSummary: React.FC<PlaylistImportSummaryProps> = ({ result, onClose }) => {
+  const total = result.matched + result.newTracks.length + result.unresolved.length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl w-full max-w-md p-6 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <Upload size={18} className="text-cyan-500" />
+            Playlist Imported
+          </h3>
+          <button onClick={onClose} className="text-zinc-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+        <p className="text-xs text-zinc-500 mb-4 truncate">{result.name}</p>
+
+        <div className="grid grid-cols-3 gap-2 mb-4 text-center">
+          <div className="bg-zinc-800 rounded-lg py-2">
+            <p className="text-lg font-bold text-white">{result.matched}</p>
+            <p className="text-[10px] text-zinc-400 uppercase tracking-wider">In library</p>
+          </div>
+          <div className="bg-zinc-800 rounded-lg py-2">
+            <p className="text-lg font-bold text-white">{result.newTracks.length}</p>
+            <p className="text-[10px] text-zinc-400 uppercase tracking-wider">New streams</p>
+          </div>
+          <div className="bg-zinc-800 rounded-lg py-2">
+            <p className={`text-lg font-bold ${result.unresolved.length > 0 ? 'text-yellow-400' : 'text-white'}`}>{result.unresolved.length}</p>
+            <p className="text-[10px] text-zinc-400 uppercase tracking-wider">Not found</p>
+          </div>
+        </div>
+
+        {result.unresolved.length > 0 ? (
+          <div className="flex-1 min-h-0 flex flex-col">
+            <p className="text-xs text-zinc-400 mb-2 flex items-center gap-1.5">
+              <AlertCircle size={12} className="text-yellow-400" />
+              {result.unresolved.length} of {total} entries matched no track in your library:
+            </p>
+            <div className="flex-1 overflow-y-auto bg-zinc-950 border border-zinc-800 rounded-lg divide-y divide-zinc-900">
+              {result.unresolved.map((entry, i) => (
+                <div key={i} className="px-3 py-1.5">
+                  <p className="text-xs text-zinc-300 truncate">
+                    {entry.title ? `${entry.artist ? `${entry.artist} - ` : ''}${entry.title}` : entry.location}
+                  </p>
+                  {entry.title && entry.location && (
+                    <p className="text-[10px] text-zinc-600 font-mono truncate">{entry.location}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <p className="text-xs text-zinc-400">Every entry was found.</p>
+        )}
+
+        <div className="flex justify-end mt-4">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm rounded-lg bg-cyan-600 hover:bg-cyan-500 text-white transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
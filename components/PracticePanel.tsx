@@ -0,0 +1,353 @@
+import React, { useEffect, useState } from 'react';
+import { X, Guitar, RotateCcw, Repeat, Save, Trash2 } from 'lucide-react';
+import { Track, PracticeSettings, ChapterMarker, LoopRegion, SavedLoop } from '../types';
+import { DEFAULT_PRACTICE, MIN_TEMPO, MAX_TEMPO, MAX_PRACTICE_SEMITONES, MAX_PRACTICE_CENTS, isDefaultPractice } from '../utils/practice';
+import { MAX_LOOP_PASSES } from '../utils/loop';
+import { getTrackWaveform } from '../utils/waveform';
+import { formatTime } from '../utils/formatters';
+import { Waveform } from './Waveform';
+
+interface PracticePanelProps {
+  track: Track | null;
+  onChange: (trackId: string, practice: PracticeSettings) => void;
+  currentTime: number;
+  duration: number;
+  onSeek: (time: number) => void;
+  markers: ChapterMarker[]; // Current track's markers, sorted
+  loop: LoopRegion | null;
+  loopStartPoint: number | null; // A, while waiting for B
+  loopPass: number;
+  onSetLoopPoint: (point: 'start' | 'end') => void;
+  onSetLoop: (start: number, end: number) => void;
+  onLoopChange: (changes: Partial<LoopRegion>) => void;
+  onClearLoop: () => void;
+  savedLoops: SavedLoop[]; // Current track's saved loops
+  onSaveLoop: (label: string) => void;
+  onLoadLoop: (loop: SavedLoop) => void;
+  onDeleteLoop: (loopId: string) => void;
+  onClose: () => void;
+}
+
+const selectClass = 'flex-1 min-w-0 px-2 py-1 text-xs bg-zinc-800 text-white border border-zinc-700 rounded focus:outline-none focus:border-cyan-500';
+const numberClass = 'w-14 px-2 py-1 text-xs bg-zinc-800 text-white border border-zinc-700 rounded focus:outline-none focus:border-cyan-500';
+
+const formatSigned = (value: number, unit: string): string => `${value > 0 ? '+' : ''}${value} ${unit}`;
+
+export const PracticePanel: React.FC<PracticePanelProps> = ({
+  track,
+  onChange,
+  currentTime,
+  duration,
+  onSeek,
+  markers,
+  loop,
+  loopStartPoint,
+  loopPass,
+  onSetLoopPoint,
+  onSetLoop,
+  onLoopChange,
+  onClearLoop,
+  savedLoops,
+  onSaveLoop,
+  onLoadLoop,
+  onDeleteLoop,
+  onClose
+}) => {
+  const [peaks, setPeaks] = useState<Float32Array | null>(null);
+  const [markerA, setMarkerA] = useState('');
+  const [markerB, setMarkerB] = useState('');
+  const [loopName, setLoopName] = useState('');
+
+  const practice = track?.practice ?? DEFAULT_PRACTICE;
+  const update = (changes: Partial<PracticeSettings>) => {
+    if (track) onChange(track.id, { ...practice, ...changes });
+  };
+
+  useEffect(() => {
+    setPeaks(null);
+    if (!track) return;
+    let cancelled = false;
+    getTrackWaveform(track).then(result => {
+      if (!cancelled) setPeaks(result);
+    });
+    return () => { cancelled = true; };
+  }, [track?.id]);
+
+  const toFraction = (time: number) => duration > 0 ? Math.min(1, time / duration) : 0;
+  const region = loop
+    ? { start: toFraction(loop.start), end: toFraction(loop.end) }
+    : loopStartPoint !== null ? { start: toFraction(loopStartPoint), end: toFraction(loopStartPoint) } : null;
+
+  const loopFromMarkers = () => {
+    const a = markers.find(m => m.id === markerA);
+    const b = markers.find(m => m.id === markerB);
+    if (a && b) onSetLoop(Math.min(a.timestamp, b.timestamp), Math.max(a.timestamp, b.timestamp));
+  };
+
+  const handleSaveLoop = () => {
+    if (!loop) return;
+    onSaveLoop(loopName.trim() || `${formatTime(loop.start)} – ${formatTime(loop.end)}`);
+    setLoopName('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl w-full max-w-md p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <Guitar size={18} className="text-cyan-500" />
+            Practice
+          </h3>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => update(DEFAULT_PRACTICE)}
+              disabled={!track || isDefaultPractice(practice)}
+              className="p-1 text-zinc-400 hover:text-white disabled:opacity-30 disabled:hover:text-zinc-400"
+              title="Reset to original"
+            >
+              <RotateCcw size={16} />
+            </button>
+            <button onClick={onClose} className="text-zinc-400 hover:text-white">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+        <p className="text-xs text-zinc-500 mb-5 truncate">
+          {track ? `Saved for "${track.name}"` : 'Play a track to adjust its tempo and key'}
+        </p>
+
+        <div className={track ? 'space-y-5' : 'space-y-5 opacity-40 pointer-events-none'}>
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm text-zinc-300">Tempo</span>
+              <span className="text-sm font-mono text-cyan-400">{Math.round(practice.tempo * 100)}%</span>
+            </div>
+            <input
+              type="range"
+              min={MIN_TEMPO}
+              max={MAX_TEMPO}
+              step={0.05}
+              value={practice.tempo}
+              onChange={(e) => update({ tempo: parseFloat(e.target.value) })}
+              className="w-full accent-cyan-500"
+            />
+            <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer mt-3">
+              <input
+                type="checkbox"
+                checked={practice.preservePitch}
+                onChange={(e) => update({ preservePitch: e.target.checked })}
+                className="accent-cyan-500"
+              />
+              Preserve pitch
+            </label>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm text-zinc-300">Pitch</span>
+              <span className="text-sm font-mono text-cyan-400">{formatSigned(practice.semitones, 'st')}</span>
+            </div>
+            <input
+              type="range"
+              min={-MAX_PRACTICE_SEMITONES}
+              max={MAX_PRACTICE_SEMITONES}
+              step={1}
+              value={practice.semitones}
+              onChange={(e) => update({ semitones: parseInt(e.target.value) })}
+              className="w-full accent-cyan-500"
+            />
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm text-zinc-300">Fine tune</span>
+              <span className="text-sm font-mono text-cyan-400">{formatSigned(practice.cents, 'cents')}</span>
+            </div>
+            <input
+              type="range"
+              min={-MAX_PRACTICE_CENTS}
+              max={MAX_PRACTICE_CENTS}
+              step={1}
+              value={practice.cents}
+              onChange={(e) => update({ cents: parseInt(e.target.value) })}
+              className="w-full accent-cyan-500"
+            />
+          </div>
+
+          <p className="text-xs text-zinc-500">
+            Tempo uses the browser's time-stretching. Pitch is shifted separately, so a song can be
+            slowed down and moved to another key at the same time. Holding on the visualizer still
+            plays at 2x.
+          </p>
+        </div>
+
+        <h4 className="text-sm font-semibold text-white flex items-center gap-2 mt-6 pt-5 mb-3 border-t border-zinc-800">
+          <Repeat size={16} className="text-cyan-500" />
+          A–B Loop
+        </h4>
+        <div className={track ? 'space-y-4' : 'space-y-4 opacity-40 pointer-events-none'}>
+          <div className="bg-zinc-950 border border-zinc-800 rounded-lg p-2">
+            <Waveform
+              peaks={peaks}
+              progress={toFraction(currentTime)}
+              region={region}
+              onSeek={(fraction) => onSeek(fraction * duration)}
+              className="h-16"
+            />
+            <div className="flex justify-between text-[10px] font-mono text-zinc-500 mt-1">
+              <span>{loop ? `A ${formatTime(loop.start)}` : loopStartPoint !== null ? `A ${formatTime(loopStartPoint)}` : 'No loop'}</span>
+              {loop && <span>Pass {loopPass + 1}{loop.passes > 0 ? ` of ${loop.passes}` : ''}</span>}
+              <span>{loop ? `B ${formatTime(loop.end)}` : ''}</span>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <button
+              onClick={() => onSetLoopPoint('start')}
+              className="px-3 py-2 text-sm rounded-lg bg-zinc-800 hover:bg-zinc-700 text-zinc-300 transition-colors"
+              title="Set A at the current position ( [ )"
+            >
+              Set A
+            </button>
+            <button
+              onClick={() => onSetLoopPoint('end')}
+              disabled={loopStartPoint === null}
+              className="px-3 py-2 text-sm rounded-lg bg-zinc-800 hover:bg-zinc-700 text-zinc-300 transition-colors disabled:opacity-40"
+              title="Set B at the current position ( ] )"
+            >
+              Set B
+            </button>
+            <button
+              onClick={onClearLoop}
+              disabled={!loop && loopStartPoint === null}
+              className="px-3 py-2 text-sm rounded-lg bg-zinc-800 hover:bg-zinc-700 text-zinc-300 transition-colors disabled:opacity-40"
+              title="Clear loop ( \\ )"
+            >
+              Clear
+            </button>
+          </div>
+
+          {markers.length >= 2 && (
+            <div className="flex items-center gap-2">
+              <select value={markerA} onChange={(e) => setMarkerA(e.target.value)} className={selectClass}>
+                <option value="">From marker…</option>
+                {markers.map(m => <option key={m.id} value={m.id}>{m.label} ({formatTime(m.timestamp)})</option>)}
+              </select>
+              <select value={markerB} onChange={(e) => setMarkerB(e.target.value)} className={selectClass}>
+                <option value="">To marker…</option>
+                {markers.map(m => <option key={m.id} value={m.id}>{m.label} ({formatTime(m.timestamp)})</option>)}
+              </select>
+              <button
+                onClick={loopFromMarkers}
+                disabled={!markerA || !markerB || markerA === markerB}
+                className="text-xs px-2 py-1 bg-cyan-700 hover:bg-cyan-600 text-white rounded-md transition-colors disabled:opacity-40"
+              >
+                Loop
+              </button>
+            </div>
+          )}
+
+          {loop && (
+            <div className="space-y-3 text-xs text-zinc-400">
+              <div className="flex items-center gap-2">
+                <span className="flex-1">Passes (0 = until cleared)</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={MAX_LOOP_PASSES}
+                  value={loop.passes}
+                  onChange={(e) => onLoopChange({ passes: Math.max(0, parseInt(e.target.value) || 0) })}
+                  className={numberClass}
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="flex-1">Speed up every N passes (0 = off)</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={MAX_LOOP_PASSES}
+                  value={loop.rampEvery}
+                  onChange={(e) => onLoopChange({ rampEvery: Math.max(0, parseInt(e.target.value) || 0) })}
+                  className={numberClass}
+                />
+              </div>
+              <div className={loop.rampEvery > 0 ? 'grid grid-cols-2 gap-x-4' : 'grid grid-cols-2 gap-x-4 opacity-40 pointer-events-none'}>
+                <div>
+                  <div className="flex items-center justify-between mb-1">
+                    <span>Step</span>
+                    <span className="font-mono text-cyan-400">+{Math.round(loop.rampStep * 100)}%</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={0.01}
+                    max={0.2}
+                    step={0.01}
+                    value={loop.rampStep}
+                    onChange={(e) => onLoopChange({ rampStep: parseFloat(e.target.value) })}
+                    className="w-full accent-cyan-500"
+                  />
+                </div>
+                <div>
+                  <div className="flex items-center justify-between mb-1">
+                    <span>Up to</span>
+                    <span className="font-mono text-cyan-400">{Math.round(loop.rampMax * 100)}%</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={MIN_TEMPO}
+                    max={MAX_TEMPO}
+                    step={0.05}
+                    value={loop.rampMax}
+                    onChange={(e) => onLoopChange({ rampMax: parseFloat(e.target.value) })}
+                    className="w-full accent-cyan-500"
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={loopName}
+                  onChange={(e) => setLoopName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSaveLoop()}
+                  placeholder="Loop name..."
+                  className="flex-1 px-2 py-1 text-xs bg-zinc-800 text-white border border-zinc-700 rounded-md focus:outline-none focus:border-cyan-500"
+                />
+                <button
+                  onClick={handleSaveLoop}
+                  className="text-xs px-2 py-1 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md transition-colors flex items-center gap-1"
+                >
+                  <Save size={12} />
+                  Save Loop
+                </button>
+              </div>
+            </div>
+          )}
+
+          {savedLoops.length > 0 && (
+            <div className="flex items-center gap-2 flex-wrap">
+              {savedLoops.map(saved => (
+                <div key={saved.id} className="flex items-center gap-1">
+                  <button
+                    onClick={() => onLoadLoop(saved)}
+                    className="text-xs px-2 py-1 bg-cyan-900/30 hover:bg-cyan-800/40 text-cyan-300 rounded-l-md transition-colors"
+                    title={`${formatTime(saved.start)} – ${formatTime(saved.end)}`}
+                  >
+                    {saved.label}
+                  </button>
+                  <button
+                    onClick={() => onDeleteLoop(saved.id)}
+                    className="text-xs px-1.5 py-1 bg-red-900/30 hover:bg-red-800/40 text-red-300 rounded-r-md transition-colors"
+                    title="Delete loop"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { X, GripVertical, Music, ListOrdered, Download } from 'lucide-react';
+import { Track, PlayQueue } from '../types';
+import { QueueSection } from '../utils/queue';
+import { formatTime } from '../utils/formatters';
+
+interface QueuePanelProps {
+  queue: PlayQueue | null;
+  tracks: Track[];
+  currentTrack: Track | null;
+  onPlayItem: (section: QueueSection, index: number) => void;
+  onRemoveItem: (section: QueueSection, index: number) => void;
+  onMoveItem: (section: QueueSection, from: number, to: number) => void;
+  onClearUpNext: () => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+// Long lists only render the first few upcoming tracks
+const MAX_VISIBLE_ITEMS = 100;
+
+const QueuePanel: React.FC<QueuePanelProps> = ({
+  queue,
+  tracks,
+  currentTrack,
+  onPlayItem,
+  onRemoveItem,
+  onMoveItem,
+  onClearUpNext,
+  onExport,
+  onClose
+}) => {
+  const [dragging, setDragging] = useState<{ section: QueueSection; index: number } | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const trackMap = new Map<string, Track>(tracks.map(t => [t.id, t]));
+
+  const renderItem = (id: string, section: QueueSection, index: number) => {
+    const track = trackMap.get(id);
+    if (!track) return null;
+    const isDropTarget = dragging?.section === section && dropIndex === index && dragging.index !== index;
+    // The dragged item takes the target's place, so it lands below the target when dragged down
+    const dropBorder = isDropTarget && dragging.index < index ? 'border-b-cyan-500' : isDropTarget ? 'border-t-cyan-500' : '';
+
+    return (
+      <div
+        key={`${section}-${index}-${id}`}
+        draggable
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = 'move';
+          setDragging({ section, index });
+        }}
+        onDragOver={(e) => {
+          if (dragging?.section !== section) return;
+          e.preventDefault();
+          setDropIndex(index);
+        }}
+        onDrop={(e) => {
+          e.preventDefault();
+          if (dragging?.section === section) onMoveItem(section, dragging.index, index);
+          setDragging(null);
+          setDropIndex(null);
+        }}
+        onDragEnd={() => {
+          setDragging(null);
+          setDropIndex(null);
+        }}
+        className={`group flex items-center gap-2 px-2 py-1.5 rounded-md hover:bg-zinc-900 transition-colors ${
+          `border-y-2 border-transparent ${dropBorder}`
+        } ${dragging?.section === section && dragging.index === index ? 'opacity-40' : ''}`}
+      >
+        <GripVertical size={14} className="text-zinc-700 group-hover:text-zinc-500 cursor-grab shrink-0" />
+        <div className="w-8 h-8 rounded overflow-hidden bg-zinc-800 flex items-center justify-center shrink-0">
+          {track.coverArtUrl ? (
+            <img src={track.coverArtUrl} alt="" className="w-full h-full object-cover" />
+          ) : (
+            <Music size={12} className="text-zinc-600" />
+          )}
+        </div>
+        <button onClick={() => onPlayItem(section, index)} className="flex-1 min-w-0 text-left">
+          <p className="text-sm text-zinc-200 truncate">{track.name}</p>
+          <p className="text-xs text-zinc-500 truncate">{track.artist || 'Unknown Artist'}</p>
+        </button>
+        {track.duration !== undefined && (
+          <span className="text-xs text-zinc-600 font-mono">{formatTime(track.duration)}</span>
+        )}
+        <button
+          onClick={() => onRemoveItem(section, index)}
+          className="p-1 text-zinc-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-all"
+          title="Remove from queue"
+        >
+          <X size={14} />
+        </button>
+      </div>
+    );
+  };
+
+  const upNext = queue?.upNext ?? [];
+  const orderStart = (queue?.position ?? -1) + 1;
+  const remainingOrder = queue ? queue.order.slice(orderStart) : [];
+
+  return (
+    <aside className="w-80 bg-zinc-950 border-l border-zinc-900 flex flex-col z-10 shrink-0">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-900">
+        <h3 className="text-sm font-bold text-white flex items-center gap-2">
+          <ListOrdered size={16} className="text-cyan-500" />
+          Up Next
+        </h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onExport}
+            disabled={!queue?.currentId && !queue?.upNext.length && remainingOrder.length === 0}
+            className="text-zinc-400 hover:text-white disabled:opacity-30"
+            title="Export queue as playlist"
+          >
+            <Download size={16} />
+          </button>
+          <button onClick={onClose} className="text-zinc-400 hover:text-white">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-4">
+        {currentTrack && (
+          <div>
+            <h4 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider px-2 mb-1">Now Playing</h4>
+            <div className="flex items-center gap-2 px-2 py-1.5">
+              <div className="w-10 h-10 rounded overflow-hidden bg-zinc-800 flex items-center justify-center shrink-0">
+                {currentTrack.coverArtUrl ? (
+                  <img src={currentTrack.coverArtUrl} alt="" className="w-full h-full object-cover" />
+                ) : (
+                  <Music size={14} className="text-zinc-600" />
+                )}
+              </div>
+              <div className="min-w-0">
+                <p className="text-sm text-cyan-400 truncate">{currentTrack.name}</p>
+                <p className="text-xs text-zinc-500 truncate">{currentTrack.artist || 'Unknown Artist'}</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {upNext.length > 0 && (
+          <div>
+            <div className="flex items-center justify-between px-2 mb-1">
+              <h4 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">Queue</h4>
+              <button onClick={onClearUpNext} className="text-xs text-zinc-500 hover:text-white">
+                Clear
+              </button>
+            </div>
+            {upNext.map((id, index) => renderItem(id, 'upNext', index))}
+          </div>
+        )}
+
+        {remainingOrder.length > 0 && (
+          <div>
+            <h4 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider px-2 mb-1 truncate">
+              Next from {queue?.source}
+            </h4>
+            {remainingOrder.slice(0, MAX_VISIBLE_ITEMS).map((id, i) => renderItem(id, 'order', orderStart + i))}
+            {remainingOrder.length > MAX_VISIBLE_ITEMS && (
+              <p className="px-2 py-2 text-xs text-zinc-600">
+                +{remainingOrder.length - MAX_VISIBLE_ITEMS} more
+              </p>
+            )}
+          </div>
+        )}
+
+        {upNext.length === 0 && remainingOrder.length === 0 && (
+          <p className="px-2 py-6 text-xs text-zinc-600 text-center">
+            Nothing queued. Use "Play Next" or "Add to Queue" from a track's menu.
+          </p>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default QueuePanel;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { ListMusic, Bookmark, SearchX, Sparkles } from 'lucide-react';
+import { Track } from '../types';
+import { SearchResults } from '../utils/search';
+import { formatTime } from '../utils/formatters';
+
+interface SearchPanelProps {
+  query: string;
+  results: SearchResults;
+  tracks: Track[];
+  onSelectPlaylist: (playlistId: string) => void;
+  onJumpToMarker: (track: Track, timestamp: number) => void;
+}
+
+/**
+ * Playlist and marker matches shown above the track results
+ */
+export const SearchPanel: React.FC<SearchPanelProps> = ({ query, results, tracks, onSelectPlaylist, onJumpToMarker }) => {
+  const total = results.tracks.length + results.playlists.length + results.markers.length;
+
+  if (total === 0) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center text-zinc-500">
+        <SearchX size={64} className="mb-4 opacity-20" />
+        <p className="text-xl font-medium">No results for "{query}"</p>
+        <p className="text-sm mt-2">Try artist:, album:, year:&gt;2010, type:stream, type:playlist or duration:&lt;3m</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-6 pt-4 space-y-4 shrink-0">
+      <p className="text-xs text-zinc-500">
+        {total} {total === 1 ? 'result' : 'results'} for "{query}"
+      </p>
+
+      {results.playlists.length > 0 && (
+        <div>
+          <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-2">Playlists</h3>
+          <div className="flex flex-wrap gap-2">
+            {results.playlists.map(playlist => (
+              <button
+                key={playlist.id}
+                onClick={() => onSelectPlaylist(playlist.id)}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm bg-zinc-900 hover:bg-zinc-800 text-zinc-300 hover:text-white border border-zinc-800 rounded-lg transition-colors"
+              >
+                {playlist.rules ? <Sparkles size={14} className="text-cyan-500" /> : <ListMusic size={14} className="text-cyan-500" />}
+                {playlist.name}
+                {!playlist.rules && <span className="text-xs text-zinc-500">{playlist.trackIds.length}</span>}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {results.markers.length > 0 && (
+        <div>
+          <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-2">Markers</h3>
+          <div className="flex flex-wrap gap-2">
+            {results.markers.map(marker => {
+              const track = tracks.find(t => t.id === marker.trackId);
+              if (!track) return null;
+              return (
+                <button
+                  key={marker.id}
+                  onClick={() => onJumpToMarker(track, marker.timestamp)}
+                  className="flex items-center gap-2 px-3 py-1.5 text-sm bg-zinc-900 hover:bg-zinc-800 text-zinc-300 hover:text-white border border-zinc-800 rounded-lg transition-colors max-w-xs"
+                  title={`${track.name} @ ${formatTime(marker.timestamp)}`}
+                >
+                  <Bookmark size={14} style={{ color: marker.color || '#06b6d4' }} />
+                  <span className="truncate">{marker.label}</span>
+                  <span className="text-xs text-zinc-500 truncate">{track.name} • {formatTime(marker.timestamp)}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {results.tracks.length > 0 && (
+        <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">Tracks</h3>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { ChapterMarker } from '../types';
+import { formatTime } from '../utils/formatters';
+import { Waveform } from './Waveform';
+
+interface SeekBarProps {
+  currentTime: number;
+  duration: number;
+  waveform: Float32Array | null; // null falls back to the plain bar
+  markers: ChapterMarker[];
+  region?: { start: number; end: number } | null; // In seconds, e.g. an A–B loop
+  enabled: boolean;
+  onSeek: (time: number) => void;
+  onJumpToMarker?: (timestamp: number) => void;
+  onAddMarker?: (timestamp: number) => void;
+}
+
+const DEFAULT_MARKER_COLOR = '#eab308';
+
+export const SeekBar: React.FC<SeekBarProps> = ({
+  currentTime,
+  duration,
+  waveform,
+  markers,
+  region,
+  enabled,
+  onSeek,
+  onJumpToMarker,
+  onAddMarker
+}) => {
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+  const [dragTime, setDragTime] = useState<number | null>(null);
+
+  const total = duration || 1;
+  const shownTime = dragTime ?? currentTime;
+  const progress = Math.min(1, shownTime / total);
+
+  const timeAt = (e: React.PointerEvent<HTMLDivElement> | React.MouseEvent<HTMLDivElement>): number => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    return fraction * (duration || 0);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!enabled || e.button !== 0) return;
+
+    // Ctrl/Cmd+Click adds a marker instead of seeking
+    if (e.ctrlKey || e.metaKey) {
+      onAddMarker?.(timeAt(e));
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragTime(timeAt(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!enabled) return;
+    const time = timeAt(e);
+    setHoverTime(time);
+    if (dragTime !== null) setDragTime(time);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragTime === null) return;
+    // Seek once on release; seeking on every move makes the audio stutter
+    onSeek(timeAt(e));
+    setDragTime(null);
+  };
+
+  const handleContextMenu = (e: React.MouseEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    if (enabled) onAddMarker?.(timeAt(e));
+  };
+
+  const previewTime = dragTime ?? hoverTime;
+
+  return (
+    <div
+      className={`relative flex-1 group flex items-center touch-none ${waveform ? 'h-8' : 'h-4'} ${enabled ? 'cursor-pointer' : ''}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setDragTime(null)}
+      onPointerLeave={() => setHoverTime(null)}
+      onContextMenu={handleContextMenu}
+      title={enabled ? "Click or drag to seek • Right-click to add marker" : ""}
+    >
+      {waveform ? (
+        <Waveform
+          peaks={waveform}
+          progress={progress}
+          region={region && { start: region.start / total, end: region.end / total }}
+          className="h-full pointer-events-none"
+        />
+      ) : (
+        <div className="absolute inset-0 bg-zinc-800 rounded-full h-1 my-auto overflow-hidden pointer-events-none">
+          {region && (
+            <div
+              className="absolute h-full bg-yellow-500/40"
+              style={{ left: `${(region.start / total) * 100}%`, width: `${((region.end - region.start) / total) * 100}%` }}
+            />
+          )}
+          <div
+            className="relative h-full bg-cyan-500 rounded-full group-hover:bg-cyan-400 transition-all duration-75 ease-linear"
+            style={{ width: `${progress * 100}%` }}
+          ></div>
+        </div>
+      )}
+
+      {/* Chapter Markers */}
+      {markers.map((marker) => {
+        const position = (marker.timestamp / total) * 100;
+        const color = marker.color || DEFAULT_MARKER_COLOR;
+        return (
+          <React.Fragment key={marker.id}>
+            {waveform && (
+              <div
+                className="absolute inset-y-0 w-px pointer-events-none opacity-70"
+                style={{ left: `${position}%`, backgroundColor: color }}
+              />
+            )}
+            <div
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={(e) => {
+                e.stopPropagation();
+                onJumpToMarker?.(marker.timestamp);
+              }}
+              className="absolute w-2 h-2 cursor-pointer z-10 group/marker"
+              style={{ left: `${position}%`, top: waveform ? '0' : '50%', transform: `translateY(${waveform ? '-25%' : '-50%'}) translateX(-50%)` }}
+              title={`${marker.label} (${formatTime(marker.timestamp)})`}
+            >
+              <div
+                className="w-full h-full rounded-full group-hover/marker:scale-150 transition-all shadow-lg"
+                style={{ backgroundColor: color }}
+              />
+            </div>
+          </React.Fragment>
+        );
+      })}
+
+      {/* Hover / drag time preview */}
+      {enabled && previewTime !== null && (
+        <div
+          className="absolute bottom-full mb-1 px-1.5 py-0.5 bg-zinc-800 border border-zinc-700 rounded text-[10px] text-zinc-200 pointer-events-none -translate-x-1/2 whitespace-nowrap"
+          style={{ left: `${(previewTime / total) * 100}%` }}
+        >
+          {formatTime(previewTime)}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,226 @@
+import React, { useState, useMemo } from 'react';
+import { X, Sparkles, Plus, Trash2 } from 'lucide-react';
+import { Track, Playlist, SmartPlaylistRule, SmartPlaylistRules, SmartRuleField, SmartRuleOperator, SmartSortField } from '../types';
+import {
+  SMART_RULE_FIELDS,
+  SMART_OPERATOR_LABELS,
+  SMART_SORT_FIELDS,
+  createSmartRule,
+  createSmartPlaylistRules,
+  getSmartPlaylistTemplates,
+  evaluateSmartPlaylist
+} from '../utils/smartPlaylists';
+
+interface SmartPlaylistEditorProps {
+  playlist?: Playlist; // Omitted when creating a new smart playlist
+  tracks: Track[];
+  onSave: (name: string, rules: SmartPlaylistRules) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'px-2 py-1 text-sm bg-zinc-800 text-white border border-zinc-700 rounded focus:outline-none focus:border-cyan-500';
+
+export const SmartPlaylistEditor: React.FC<SmartPlaylistEditorProps> = ({ playlist, tracks, onSave, onClose }) => {
+  const [name, setName] = useState(playlist?.name || '');
+  const [rules, setRules] = useState<SmartPlaylistRules>(playlist?.rules || createSmartPlaylistRules());
+
+  const matchCount = useMemo(() => evaluateSmartPlaylist(rules, tracks).length, [rules, tracks]);
+
+  const updateRule = (ruleId: string, changes: Partial<SmartPlaylistRule>) => {
+    setRules(prev => ({
+      ...prev,
+      rules: prev.rules.map(rule => rule.id === ruleId ? { ...rule, ...changes } : rule)
+    }));
+  };
+
+  // Switching field resets operator and value to that field's defaults
+  const changeRuleField = (ruleId: string, field: SmartRuleField) => {
+    const { operator, value } = createSmartRule(field);
+    updateRule(ruleId, { field, operator, value });
+  };
+
+  const removeRule = (ruleId: string) => {
+    setRules(prev => ({ ...prev, rules: prev.rules.filter(rule => rule.id !== ruleId) }));
+  };
+
+  const applyTemplate = (template: { name: string; rules: SmartPlaylistRules }) => {
+    setName(template.name);
+    setRules(template.rules);
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSave(name.trim(), rules);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <Sparkles size={20} className="text-cyan-500" />
+            {playlist ? 'Edit Smart Playlist' : 'New Smart Playlist'}
+          </h3>
+          <button onClick={onClose} className="text-zinc-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        {!playlist && (
+          <div className="flex flex-wrap gap-2 mb-4">
+            {getSmartPlaylistTemplates().map(template => (
+              <button
+                key={template.name}
+                onClick={() => applyTemplate(template)}
+                className="px-3 py-1 text-xs bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-full transition-colors"
+              >
+                {template.name}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <label className="block mb-4">
+          <span className="text-xs text-zinc-500">Name</span>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className={`w-full ${inputClass}`}
+            autoFocus
+          />
+        </label>
+
+        <div className="flex items-center gap-2 text-sm text-zinc-300 mb-2">
+          Match
+          <select
+            value={rules.match}
+            onChange={(e) => setRules(prev => ({ ...prev, match: e.target.value as 'all' | 'any' }))}
+            className={inputClass}
+          >
+            <option value="all">all</option>
+            <option value="any">any</option>
+          </select>
+          of the following rules:
+        </div>
+
+        <div className="space-y-2 mb-2">
+          {rules.rules.map(rule => {
+            const definition = SMART_RULE_FIELDS.find(f => f.field === rule.field)!;
+            return (
+              <div key={rule.id} className="flex items-center gap-2">
+                <select
+                  value={rule.field}
+                  onChange={(e) => changeRuleField(rule.id, e.target.value as SmartRuleField)}
+                  className={inputClass}
+                >
+                  {SMART_RULE_FIELDS.map(f => (
+                    <option key={f.field} value={f.field}>{f.label}</option>
+                  ))}
+                </select>
+                <select
+                  value={rule.operator}
+                  onChange={(e) => updateRule(rule.id, { operator: e.target.value as SmartRuleOperator })}
+                  className={inputClass}
+                >
+                  {definition.operators.map(op => (
+                    <option key={op} value={op}>{SMART_OPERATOR_LABELS[op]}</option>
+                  ))}
+                </select>
+                {rule.field === 'type' ? (
+                  <select
+                    value={rule.value}
+                    onChange={(e) => updateRule(rule.id, { value: e.target.value })}
+                    className={`flex-1 ${inputClass}`}
+                  >
+                    <option value="local">Local File</option>
+                    <option value="stream">Stream</option>
+                  </select>
+                ) : rule.operator !== 'never' ? (
+                  <input
+                    type={['artist', 'album', 'genre'].includes(rule.field) ? 'text' : 'number'}
+                    value={rule.value}
+                    onChange={(e) => updateRule(rule.id, { value: e.target.value })}
+                    className={`flex-1 min-w-0 ${inputClass}`}
+                  />
+                ) : (
+                  <div className="flex-1" />
+                )}
+                <button
+                  onClick={() => removeRule(rule.id)}
+                  className="p-1 text-zinc-500 hover:text-red-400 transition-colors"
+                  title="Remove rule"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <button
+          onClick={() => setRules(prev => ({ ...prev, rules: [...prev.rules, createSmartRule()] }))}
+          className="flex items-center gap-1 text-xs text-cyan-400 hover:text-cyan-300 mb-4"
+        >
+          <Plus size={14} />
+          Add Rule
+        </button>
+
+        <div className="flex flex-wrap items-center gap-2 text-sm text-zinc-300 border-t border-zinc-800 pt-4">
+          Sort by
+          <select
+            value={rules.sortBy}
+            onChange={(e) => setRules(prev => ({ ...prev, sortBy: e.target.value as SmartSortField }))}
+            className={inputClass}
+          >
+            {SMART_SORT_FIELDS.map(f => (
+              <option key={f.field} value={f.field}>{f.label}</option>
+            ))}
+          </select>
+          <select
+            value={rules.sortDirection}
+            onChange={(e) => setRules(prev => ({ ...prev, sortDirection: e.target.value as 'asc' | 'desc' }))}
+            className={inputClass}
+          >
+            <option value="asc">ascending</option>
+            <option value="desc">descending</option>
+          </select>
+          <span className="ml-2">Limit to</span>
+          <input
+            type="number"
+            min={1}
+            value={rules.limit ?? ''}
+            onChange={(e) => {
+              const limit = parseInt(e.target.value, 10);
+              setRules(prev => ({ ...prev, limit: isNaN(limit) ? undefined : limit }));
+            }}
+            placeholder="No limit"
+            className={`w-24 ${inputClass}`}
+          />
+          tracks
+        </div>
+
+        <div className="flex items-center justify-between mt-6">
+          <span className="text-xs text-zinc-500">
+            {matchCount} matching track{matchCount !== 1 ? 's' : ''}
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!name.trim()}
+              className="px-4 py-2 text-sm bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,279 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, HardDrive, ShieldCheck, Shield, Loader2, AlertCircle } from 'lucide-react';
+import { Track, Playlist } from '../types';
+import {
+  getStorageReport, requestPersistentStorage, planEviction, clearCacheStorage, clearTorrents,
+  STORAGE_CATEGORY_LABELS, QUOTA_WARNING_RATIO, StorageCategory, StorageReport, EvictionPolicy
+} from '../utils/storage';
+import { deleteWaveforms } from '../utils/persistence';
+import { formatBytes } from '../utils/formatters';
+
+interface StorageDialogProps {
+  tracks: Track[];
+  playlists: Playlist[];
+  currentTrackId?: string;
+  onEvict: (trackIds: string[]) => Promise<void>;
+  onClose: () => void;
+  addToast: (message: string, type?: 'error' | 'info') => void;
+}
+
+const CATEGORY_COLORS: Record<StorageCategory, string> = {
+  audio: 'bg-cyan-500',
+  covers: 'bg-purple-500',
+  waveforms: 'bg-emerald-500',
+  cache: 'bg-yellow-500',
+  torrents: 'bg-orange-500',
+  library: 'bg-blue-500',
+  other: 'bg-zinc-600',
+};
+
+const POLICIES: { kind: EvictionPolicy['kind']; label: string }[] = [
+  { kind: 'lru', label: 'Least recently played' },
+  { kind: 'unplayed', label: 'Not played in…' },
+];
+
+const MB = 1024 * 1024;
+
+export const StorageDialog: React.FC<StorageDialogProps> = ({ tracks, playlists, currentTrackId, onEvict, onClose, addToast }) => {
+  const [report, setReport] = useState<StorageReport | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [policyKind, setPolicyKind] = useState<EvictionPolicy['kind']>('lru');
+  const [targetMB, setTargetMB] = useState(500);
+  const [days, setDays] = useState(90);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getStorageReport(tracks, playlists).then(next => {
+      if (!cancelled) setReport(next);
+    });
+    return () => { cancelled = true; };
+  }, [tracks, playlists, refreshKey]);
+
+  const policy: EvictionPolicy = policyKind === 'lru' ? { kind: 'lru', targetBytes: targetMB * MB } : { kind: 'unplayed', days };
+  const plan = useMemo(
+    () => planEviction(tracks, policy, new Set(currentTrackId ? [currentTrackId] : [])),
+    [tracks, policyKind, targetMB, days, currentTrackId]
+  );
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } finally {
+      setIsBusy(false);
+      setRefreshKey(key => key + 1);
+    }
+  };
+
+  const handlePersist = () => run(async () => {
+    const granted = await requestPersistentStorage();
+    addToast(granted ? 'Storage is now persistent' : 'The browser declined persistent storage', granted ? 'info' : 'error');
+  });
+
+  const handleEvict = () => run(async () => {
+    await onEvict(plan.trackIds);
+  });
+
+  const handleClearWaveforms = (trackIds: string[]) => run(async () => {
+    try {
+      await deleteWaveforms(trackIds);
+      addToast('Waveforms cleared');
+    } catch (error) {
+      console.error('[Storage] Failed to clear waveforms:', error);
+      addToast('Could not clear waveforms', 'error');
+    }
+  });
+
+  const handleClearCache = () => run(async () => {
+    try {
+      await clearCacheStorage();
+      addToast('Cache cleared');
+    } catch (error) {
+      console.error('[Storage] Failed to clear cache:', error);
+      addToast('Could not clear cache', 'error');
+    }
+  });
+
+  const handleClearTorrents = () => run(async () => {
+    clearTorrents();
+    addToast('Torrents removed');
+  });
+
+  const ratio = report && report.quota > 0 ? report.usage / report.quota : 0;
+  const categories = Object.keys(STORAGE_CATEGORY_LABELS) as StorageCategory[];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl w-full max-w-md p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <HardDrive size={18} className="text-cyan-500" />
+            Storage
+          </h3>
+          <button onClick={onClose} disabled={isBusy} className="text-zinc-400 hover:text-white disabled:opacity-30">
+            <X size={20} />
+          </button>
+        </div>
+
+        {!report ? (
+          <div className="flex items-center justify-center gap-2 text-sm text-zinc-400 py-8">
+            <Loader2 size={16} className="animate-spin text-cyan-500" />
+            Measuring…
+          </div>
+        ) : (
+          <>
+            {/* Usage */}
+            <div className="flex justify-between text-sm mb-2">
+              <span className="text-zinc-300">{formatBytes(report.usage, 1)} used</span>
+              <span className="text-zinc-500">
+                {report.quota > 0 ? `of ${formatBytes(report.quota, 1)} (${Math.round(ratio * 100)}%)` : 'Quota unknown'}
+              </span>
+            </div>
+            <div className="h-2 rounded-full bg-zinc-800 overflow-hidden flex mb-3">
+              {report.quota > 0 && categories.filter(category => category !== 'torrents').map(category => (
+                <div
+                  key={category}
+                  className={CATEGORY_COLORS[category]}
+                  style={{ width: `${(report.categories[category] / report.quota) * 100}%` }}
+                />
+              ))}
+            </div>
+            {ratio >= QUOTA_WARNING_RATIO && (
+              <p className="flex items-start gap-1.5 text-xs text-yellow-400 mb-3">
+                <AlertCircle size={12} className="shrink-0 mt-0.5" />
+                Storage is almost full. New tracks and changes may fail to save until you free up space.
+              </p>
+            )}
+
+            <div className="space-y-1.5 text-xs mb-4">
+              {categories.map(category => (
+                <div key={category} className="flex items-center justify-between gap-3">
+                  <span className="flex items-center gap-2 text-zinc-400">
+                    <span className={`w-2 h-2 rounded-full ${CATEGORY_COLORS[category]}`} />
+                    {STORAGE_CATEGORY_LABELS[category]}
+                  </span>
+                  <span className="text-zinc-200 font-mono">{formatBytes(report.categories[category], 1)}</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between gap-3 bg-zinc-950 border border-zinc-800 rounded-lg p-3 mb-6">
+              <span className="flex items-center gap-2 text-xs text-zinc-400">
+                {report.persisted
+                  ? <ShieldCheck size={16} className="text-emerald-400 shrink-0" />
+                  : <Shield size={16} className="text-zinc-500 shrink-0" />}
+                {report.persisted
+                  ? 'Persistent: the browser won\'t clear this data on its own'
+                  : 'Not persistent: the browser may clear this data when space runs low'}
+              </span>
+              {!report.persisted && (
+                <button
+                  onClick={handlePersist}
+                  disabled={isBusy}
+                  className="px-2.5 py-1 text-xs rounded-md bg-zinc-800 hover:bg-zinc-700 text-zinc-300 transition-colors shrink-0 disabled:opacity-50"
+                >
+                  Make Persistent
+                </button>
+              )}
+            </div>
+
+            {/* Eviction */}
+            <h4 className="text-sm font-semibold text-white mb-1">Free Up Space</h4>
+            <p className="text-xs text-zinc-500 mb-3">
+              Removes stored audio only. Tracks keep their tags, stats, playlists and markers; add the files again to play them.
+            </p>
+            <div className="grid grid-cols-2 gap-2 mb-3">
+              {POLICIES.map(({ kind, label }) => (
+                <button
+                  key={kind}
+                  onClick={() => setPolicyKind(kind)}
+                  className={`px-3 py-2 text-sm rounded-lg transition-colors ${
+                    policyKind === kind ? 'bg-cyan-600 text-white' : 'bg-zinc-800 hover:bg-zinc-700 text-zinc-300'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center justify-between gap-3 text-sm text-zinc-300 mb-3">
+              {policyKind === 'lru' ? 'Free at least (MB)' : 'Days without a play'}
+              <input
+                type="number"
+                min={1}
+                value={policyKind === 'lru' ? targetMB : days}
+                onChange={(e) => {
+                  const value = Math.max(1, Number(e.target.value) || 1);
+                  if (policyKind === 'lru') setTargetMB(value);
+                  else setDays(value);
+                }}
+                className="w-24 bg-zinc-950 border border-zinc-800 rounded-md px-2 py-1 text-sm text-white text-right focus:outline-none focus:border-cyan-500"
+              />
+            </label>
+            <p className="text-xs text-zinc-400 mb-3">
+              {plan.files > 0
+                ? `${plan.trackIds.length} track${plan.trackIds.length !== 1 ? 's' : ''} from ${plan.files} file${plan.files !== 1 ? 's' : ''}, freeing ${formatBytes(plan.bytes, 1)}`
+                : 'Nothing to remove with this policy.'}
+            </p>
+            <button
+              onClick={handleEvict}
+              disabled={isBusy || plan.files === 0}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 text-sm rounded-lg bg-red-600 hover:bg-red-500 text-white transition-colors disabled:opacity-50"
+            >
+              {isBusy && <Loader2 size={16} className="animate-spin" />}
+              Remove Audio
+            </button>
+
+            {/* Caches */}
+            <div className="mt-6 pt-5 border-t border-zinc-800 space-y-2">
+              <div className="flex items-center justify-between gap-3 text-sm">
+                <span className="text-zinc-300">
+                  Unused waveforms <span className="text-zinc-500">({report.orphanedWaveforms.length})</span>
+                </span>
+                <button
+                  onClick={() => handleClearWaveforms(report.orphanedWaveforms)}
+                  disabled={isBusy || report.orphanedWaveforms.length === 0}
+                  className="px-2.5 py-1 text-xs rounded-md bg-zinc-800 hover:bg-zinc-700 text-zinc-300 transition-colors disabled:opacity-50"
+                >
+                  Clear
+                </button>
+              </div>
+              <div className="flex items-center justify-between gap-3 text-sm">
+                <span className="text-zinc-300">
+                  All waveforms <span className="text-zinc-500">(rebuilt when shown)</span>
+                </span>
+                <button
+                  onClick={() => handleClearWaveforms(tracks.map(t => t.id).concat(report.orphanedWaveforms))}
+                  disabled={isBusy || report.categories.waveforms === 0}
+                  className="px-2.5 py-1 text-xs rounded-md bg-zinc-800 hover:bg-zinc-700 text-zinc-300 transition-colors disabled:opacity-50"
+                >
+                  Clear
+                </button>
+              </div>
+              <div className="flex items-center justify-between gap-3 text-sm">
+                <span className="text-zinc-300">{STORAGE_CATEGORY_LABELS.cache}</span>
+                <button
+                  onClick={handleClearCache}
+                  disabled={isBusy || report.categories.cache === 0}
+                  className="px-2.5 py-1 text-xs rounded-md bg-zinc-800 hover:bg-zinc-700 text-zinc-300 transition-colors disabled:opacity-50"
+                >
+                  Clear
+                </button>
+              </div>
+              <div className="flex items-center justify-between gap-3 text-sm">
+                <span className="text-zinc-300">{STORAGE_CATEGORY_LABELS.torrents}</span>
+                <button
+                  onClick={handleClearTorrents}
+                  disabled={isBusy || report.categories.torrents === 0}
+                  className="px-2.5 py-1 text-xs rounded-md bg-zinc-800 hover:bg-zinc-700 text-zinc-300 transition-colors disabled:opacity-50"
+                >
+                  Clear
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
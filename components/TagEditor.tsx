@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { X, Tag, Save, Download, HardDrive, Image, Loader2 } from 'lucide-react';
+import { Track } from '../types';
+import { EmbeddedPicture } from '../utils/metadata';
+import { TagEdits } from '../utils/tagWriter';
+import { downloadBlob, saveBlobToDisk, supportsSaveFilePicker } from '../utils/download';
+
+interface TagEditorProps {
+  track: Track;
+  onSave: (trackId: string, edits: TagEdits) => Promise<Track | null>;
+  onClose: () => void;
+  addToast: (message: string, type?: 'error' | 'info') => void;
+}
+
+type SaveAction = 'library' | 'download' | 'disk';
+
+export const TagEditor: React.FC<TagEditorProps> = ({ track, onSave, onClose, addToast }) => {
+  const [title, setTitle] = useState(track.name);
+  const [artist, setArtist] = useState(track.artist === 'Local File' ? '' : track.artist || '');
+  const [album, setAlbum] = useState(track.album || '');
+  const [year, setYear] = useState(track.year ? String(track.year) : '');
+  const [genre, setGenre] = useState(track.genre || '');
+  const [trackNumber, setTrackNumber] = useState(track.trackNumber ? String(track.trackNumber) : '');
+  const [coverPreview, setCoverPreview] = useState<string | undefined>(track.coverArtUrl);
+  const [picture, setPicture] = useState<EmbeddedPicture | null | undefined>(undefined);
+  const [savingAction, setSavingAction] = useState<SaveAction | null>(null);
+
+  const canWriteFile = track.type === 'local' && !!track.file;
+
+  const handleCoverChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file || !file.type.startsWith('image/')) return;
+    const data = new Uint8Array(await file.arrayBuffer());
+    setPicture({ mimeType: file.type, type: 3, data });
+    setCoverPreview(URL.createObjectURL(file));
+  };
+
+  const handleSave = async (action: SaveAction) => {
+    const parsedYear = parseInt(year, 10);
+    const parsedTrackNumber = parseInt(trackNumber, 10);
+    const edits: TagEdits = {
+      title: title.trim(),
+      artist: artist.trim(),
+      album: album.trim(),
+      year: isNaN(parsedYear) ? undefined : parsedYear,
+      genre: genre.trim(),
+      trackNumber: isNaN(parsedTrackNumber) ? undefined : parsedTrackNumber,
+      picture
+    };
+
+    setSavingAction(action);
+    try {
+      const updated = await onSave(track.id, edits);
+      if (!updated) return;
+
+      if (action === 'download' && updated.file) {
+        downloadBlob(updated.file, updated.file.name);
+      } else if (action === 'disk' && updated.file) {
+        const saved = await saveBlobToDisk(updated.file, updated.file.name);
+        if (saved) addToast('Tags written to file');
+      }
+      onClose();
+    } catch (error) {
+      console.error('Failed to save tags:', error);
+      addToast('Failed to save tags', 'error');
+    } finally {
+      setSavingAction(null);
+    }
+  };
+
+  const fields: { label: string; value: string; onChange: (value: string) => void; type?: string }[] = [
+    { label: 'Title', value: title, onChange: setTitle },
+    { label: 'Artist', value: artist, onChange: setArtist },
+    { label: 'Album', value: album, onChange: setAlbum },
+    { label: 'Genre', value: genre, onChange: setGenre },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl w-full max-w-lg p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <Tag size={20} className="text-cyan-500" />
+            Edit Tags
+          </h3>
+          <button onClick={onClose} className="text-zinc-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex gap-4">
+          {/* Cover */}
+          <div className="flex flex-col items-center gap-2 shrink-0">
+            <label className="w-28 h-28 rounded-lg overflow-hidden bg-zinc-800 flex items-center justify-center cursor-pointer hover:ring-2 hover:ring-cyan-500 transition-all">
+              <input type="file" accept="image/*" className="hidden" onChange={handleCoverChange} />
+              {coverPreview ? (
+                <img src={coverPreview} alt="" className="w-full h-full object-cover" />
+              ) : (
+                <Image size={24} className="text-zinc-600" />
+              )}
+            </label>
+            {coverPreview && (
+              <button
+                onClick={() => { setPicture(null); setCoverPreview(undefined); }}
+                className="text-xs text-red-400 hover:text-red-300"
+              >
+                Remove Cover
+              </button>
+            )}
+          </div>
+
+          {/* Fields */}
+          <div className="flex-1 space-y-2">
+            {fields.map(field => (
+              <label key={field.label} className="block">
+                <span className="text-xs text-zinc-500">{field.label}</span>
+                <input
+                  type="text"
+                  value={field.value}
+                  onChange={(e) => field.onChange(e.target.value)}
+                  className="w-full px-2 py-1 text-sm bg-zinc-800 text-white border border-zinc-700 rounded focus:outline-none focus:border-cyan-500"
+                />
+              </label>
+            ))}
+            <div className="flex gap-2">
+              <label className="block flex-1">
+                <span className="text-xs text-zinc-500">Year</span>
+                <input
+                  type="number"
+                  value={year}
+                  onChange={(e) => setYear(e.target.value)}
+                  className="w-full px-2 py-1 text-sm bg-zinc-800 text-white border border-zinc-700 rounded focus:outline-none focus:border-cyan-500"
+                />
+              </label>
+              <label className="block flex-1">
+                <span className="text-xs text-zinc-500">Track #</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={trackNumber}
+                  onChange={(e) => setTrackNumber(e.target.value)}
+                  className="w-full px-2 py-1 text-sm bg-zinc-800 text-white border border-zinc-700 rounded focus:outline-none focus:border-cyan-500"
+                />
+              </label>
+            </div>
+          </div>
+        </div>
+
+        {!canWriteFile && (
+          <p className="text-xs text-zinc-500 mt-4">
+            Streams have no file to write to. Changes are saved to your library only.
+          </p>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-2 mt-6">
+          {canWriteFile && (
+            <>
+              <button
+                onClick={() => handleSave('download')}
+                disabled={savingAction !== null}
+                className="px-3 py-2 text-sm bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+              >
+                {savingAction === 'download' ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+                Save & Download
+              </button>
+              {supportsSaveFilePicker() && (
+                <button
+                  onClick={() => handleSave('disk')}
+                  disabled={savingAction !== null}
+                  className="px-3 py-2 text-sm bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+                >
+                  {savingAction === 'disk' ? <Loader2 size={14} className="animate-spin" /> : <HardDrive size={14} />}
+                  Save to File…
+                </button>
+              )}
+            </>
+          )}
+          <button
+            onClick={() => handleSave('library')}
+            disabled={savingAction !== null}
+            className="px-4 py-2 text-sm bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg font-medium transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            {savingAction === 'library' ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />}
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
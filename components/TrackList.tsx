@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { Track, Playlist } from '../types';
-import { Music, Play, Trash2, MoreVertical, Plus, X, Image } from 'lucide-react';
+import { Track, Playlist, TrackSort, SmartSortField } from '../types';
+import { Music, Play, Trash2, MoreVertical, Plus, X, Image, Tag, Star, ListStart, ListEnd, ChevronUp, ChevronDown } from 'lucide-react';
 import { formatBytes } from '../utils/formatters';
 
 interface TrackListProps {
@@ -15,8 +15,17 @@ interface TrackListProps {
   onRemoveFromPlaylist: (trackId: string, playlistId: string) => void;
   onUpdateCover: (trackId: string, imageFile: File) => void;
   onRemoveCover: (trackId: string) => void;
+  onEditTags?: (track: Track) => void;
+  onRateTrack?: (trackId: string, rating: number) => void;
+  onPlayNext?: (track: Track) => void;
+  onAddToQueue?: (track: Track) => void;
+  sort?: TrackSort | null;
+  onSortChange?: (sort: TrackSort | null) => void; // Headers only sort when this is given
 }
 
+// Numbers start with the highest first
+const FIRST_DIRECTION: Partial<Record<SmartSortField, TrackSort['direction']>> = { playCount: 'desc', rating: 'desc' };
+
 const TrackList: React.FC<TrackListProps> = ({
   tracks,
   currentTrackId,
@@ -28,11 +37,21 @@ const TrackList: React.FC<TrackListProps> = ({
   selectedPlaylist,
   onRemoveFromPlaylist,
   onUpdateCover,
-  onRemoveCover
+  onRemoveCover,
+  onEditTags,
+  onRateTrack,
+  onPlayNext,
+  onAddToQueue,
+  sort,
+  onSortChange
 }) => {
   const [showPlaylistMenuForTrack, setShowPlaylistMenuForTrack] = useState<string | null>(null);
   const [showCoverMenuForTrack, setShowCoverMenuForTrack] = useState<string | null>(null);
 
+  // Smart playlists are rule-based, so tracks can't be added or removed by hand
+  const manualPlaylists = playlists.filter(p => !p.rules);
+  const isSmartPlaylist = !!playlists.find(p => p.id === selectedPlaylist)?.rules;
+
   // Close menus when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -61,6 +80,32 @@ const TrackList: React.FC<TrackListProps> = ({
     }
   };
 
+  // Each click on a header goes first direction, reversed, then back to the list's own order
+  const toggleSort = (field: SmartSortField) => {
+    if (!onSortChange) return;
+    const first = FIRST_DIRECTION[field] ?? 'asc';
+    if (sort?.field !== field) onSortChange({ field, direction: first });
+    else if (sort.direction === first) onSortChange({ field, direction: first === 'asc' ? 'desc' : 'asc' });
+    else onSortChange(null);
+  };
+
+  const renderHeader = (field: SmartSortField, label: string, className: string) => {
+    const isSorted = sort?.field === field;
+    return (
+      <th className={className}>
+        {onSortChange ? (
+          <button
+            onClick={() => toggleSort(field)}
+            className={`inline-flex items-center gap-1 uppercase tracking-wider hover:text-zinc-200 transition-colors ${isSorted ? 'text-cyan-400' : ''}`}
+          >
+            {label}
+            {isSorted && (sort.direction === 'asc' ? <ChevronUp size={12} /> : <ChevronDown size={12} />)}
+          </button>
+        ) : label}
+      </th>
+    );
+  };
+
   if (tracks.length === 0) {
     return (
       <div className="flex-1 flex flex-col items-center justify-center text-zinc-500">
@@ -78,9 +123,11 @@ const TrackList: React.FC<TrackListProps> = ({
           <tr>
             <th className="py-3 pl-4 w-12">#</th>
             <th className="py-3 w-12">Cover</th>
-            <th className="py-3">Title</th>
+            {renderHeader('name', 'Title', 'py-3')}
             <th className="py-3 hidden sm:table-cell">Format</th>
             <th className="py-3 hidden md:table-cell">Size</th>
+            {renderHeader('playCount', 'Plays', 'py-3 hidden md:table-cell')}
+            {onRateTrack && renderHeader('rating', 'Rating', 'py-3 hidden lg:table-cell')}
             <th className="py-3 w-12"></th>
           </tr>
         </thead>
@@ -166,8 +213,46 @@ const TrackList: React.FC<TrackListProps> = ({
                 <td className="py-3 hidden md:table-cell text-zinc-500 font-mono text-xs">
                   {track.file ? formatBytes(track.file.size) : '--'}
                 </td>
+                <td className="py-3 hidden md:table-cell text-zinc-500 font-mono text-xs">
+                  {track.playCount ?? 0}
+                </td>
+                {onRateTrack && (
+                  <td className="py-3 hidden lg:table-cell" onClick={(e) => e.stopPropagation()}>
+                    <div className="flex items-center">
+                      {[1, 2, 3, 4, 5].map(star => (
+                        <button
+                          key={star}
+                          // Clicking the current rating clears it
+                          onClick={() => onRateTrack(track.id, track.rating === star ? 0 : star)}
+                          className="p-0.5 text-zinc-700 hover:text-yellow-400 transition-colors"
+                          title={`${star} star${star !== 1 ? 's' : ''}`}
+                        >
+                          <Star
+                            size={12}
+                            className={track.rating && star <= track.rating ? 'text-yellow-500' : ''}
+                            fill={track.rating && star <= track.rating ? 'currentColor' : 'none'}
+                          />
+                        </button>
+                      ))}
+                    </div>
+                  </td>
+                )}
                 <td className="py-3 rounded-r-md">
                   <div className="flex items-center gap-1 justify-end">
+                    {/* Edit tags button */}
+                    {onEditTags && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onEditTags(track);
+                        }}
+                        className="p-2 text-zinc-600 hover:text-cyan-400 transition-colors opacity-0 group-hover:opacity-100"
+                        title="Edit tags"
+                      >
+                        <Tag size={16} />
+                      </button>
+                    )}
+
                     {/* Add to Playlist button */}
                     <div className="relative playlist-menu-container">
                       <button
@@ -176,7 +261,7 @@ const TrackList: React.FC<TrackListProps> = ({
                           setShowPlaylistMenuForTrack(showPlaylistMenuForTrack === track.id ? null : track.id);
                         }}
                         className="p-2 text-zinc-600 hover:text-cyan-400 transition-colors opacity-0 group-hover:opacity-100"
-                        title="Add to playlist"
+                        title={onAddToQueue ? "Queue or add to playlist" : "Add to playlist"}
                       >
                         <MoreVertical size={16} />
                       </button>
@@ -184,15 +269,41 @@ const TrackList: React.FC<TrackListProps> = ({
                       {/* Playlist dropdown menu */}
                       {showPlaylistMenuForTrack === track.id && (
                         <div className="absolute right-0 top-full mt-1 bg-zinc-900 border border-zinc-800 rounded-md shadow-xl z-20 min-w-[200px] py-1">
+                          {onPlayNext && onAddToQueue && (
+                            <div className="border-b border-zinc-800 pb-1 mb-1">
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  onPlayNext(track);
+                                  setShowPlaylistMenuForTrack(null);
+                                }}
+                                className="w-full px-3 py-2 text-left text-sm text-zinc-300 hover:bg-zinc-800 transition-colors flex items-center gap-2"
+                              >
+                                <ListStart size={14} />
+                                Play Next
+                              </button>
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  onAddToQueue(track);
+                                  setShowPlaylistMenuForTrack(null);
+                                }}
+                                className="w-full px-3 py-2 text-left text-sm text-zinc-300 hover:bg-zinc-800 transition-colors flex items-center gap-2"
+                              >
+                                <ListEnd size={14} />
+                                Add to Queue
+                              </button>
+                            </div>
+                          )}
                           <div className="px-3 py-2 text-xs font-semibold text-zinc-500 border-b border-zinc-800">
                             Add to Playlist
                           </div>
-                          {playlists.length === 0 ? (
+                          {manualPlaylists.length === 0 ? (
                             <div className="px-3 py-2 text-xs text-zinc-600">
                               No playlists yet
                             </div>
                           ) : (
-                            playlists.map(playlist => (
+                            manualPlaylists.map(playlist => (
                               <button
                                 key={playlist.id}
                                 onClick={(e) => {
@@ -212,7 +323,7 @@ const TrackList: React.FC<TrackListProps> = ({
                     </div>
 
                     {/* Remove from playlist/library button */}
-                    {selectedPlaylist ? (
+                    {isSmartPlaylist ? null : selectedPlaylist ? (
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
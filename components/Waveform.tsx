@@ -0,0 +1,80 @@
+import React, { useEffect, useRef } from 'react';
+
+interface WaveformProps {
+  peaks: Float32Array | null; // null while decoding, or for streams
+  progress: number; // 0-1
+  region?: { start: number; end: number } | null; // 0-1, highlighted (e.g. an A–B loop)
+  onSeek?: (fraction: number) => void;
+  className?: string;
+}
+
+const PLAYED_COLOR = '#06b6d4';
+const UNPLAYED_COLOR = '#3f3f46';
+const REGION_COLOR = 'rgba(234, 179, 8, 0.18)';
+const REGION_EDGE_COLOR = '#eab308';
+
+export const Waveform: React.FC<WaveformProps> = ({ peaks, progress, region, onSeek, className = '' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const width = canvas.clientWidth;
+    const height = canvas.clientHeight;
+    if (canvas.width !== width * dpr || canvas.height !== height * dpr) {
+      canvas.width = width * dpr;
+      canvas.height = height * dpr;
+    }
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    if (region) {
+      ctx.fillStyle = REGION_COLOR;
+      ctx.fillRect(region.start * width, 0, (region.end - region.start) * width, height);
+      ctx.fillStyle = REGION_EDGE_COLOR;
+      ctx.fillRect(region.start * width, 0, 1, height);
+      ctx.fillRect(region.end * width - 1, 0, 1, height);
+    }
+
+    const progressX = progress * width;
+    if (peaks && peaks.length > 0) {
+      // One bar per 2px, taking the loudest bucket it covers
+      const barCount = Math.max(1, Math.floor(width / 2));
+      const max = Math.max(...peaks) || 1;
+      for (let i = 0; i < barCount; i++) {
+        const from = Math.floor((i / barCount) * peaks.length);
+        const to = Math.max(from + 1, Math.floor(((i + 1) / barCount) * peaks.length));
+        let peak = 0;
+        for (let j = from; j < to; j++) peak = Math.max(peak, peaks[j]);
+        const barHeight = Math.max(1, (peak / max) * height);
+        const x = i * 2;
+        ctx.fillStyle = x < progressX ? PLAYED_COLOR : UNPLAYED_COLOR;
+        ctx.fillRect(x, (height - barHeight) / 2, 1, barHeight);
+      }
+    } else {
+      // Flat line until the peaks are ready
+      ctx.fillStyle = UNPLAYED_COLOR;
+      ctx.fillRect(0, height / 2 - 1, width, 2);
+      ctx.fillStyle = PLAYED_COLOR;
+      ctx.fillRect(0, height / 2 - 1, progressX, 2);
+    }
+  }, [peaks, progress, region]);
+
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!onSeek) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onClick={handleClick}
+      className={`w-full ${onSeek ? 'cursor-pointer' : ''} ${className}`}
+    />
+  );
+};
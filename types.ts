@@ -4,10 +4,83 @@ export interface Track {
   name: string;
   artist?: string;
   album?: string;
+  albumArtist?: string;
+  year?: number;
+  genre?: string;
+  trackNumber?: number;
+  discNumber?: number;
   duration?: number; // In seconds
+  cueStart?: number; // Tracks split from one file by a CUE sheet: offsets into the file, in seconds
+  cueEnd?: number; // Undefined plays to the end of the file
   url: string;
   coverArtUrl?: string;
   type: 'local' | 'stream'; // Unified types
+  addedAt?: number; // Timestamp the track was added to the library
+  playCount?: number;
+  lastPlayedAt?: number;
+  rating?: number; // 1-5 stars
+  loudness?: TrackLoudness;
+  practice?: PracticeSettings;
+  lyrics?: string; // LRC (synced, optionally word-level) or plain text
+  lyricsOffset?: number; // Seconds; positive shows lyrics earlier, like LRC's [offset:]
+  link?: TrackLink; // Played from a linked folder instead of a copy in the library
+  folder?: string; // Folder the file was imported from, when a whole folder was picked
+  contentHash?: string; // Hash of the audio with tags stripped, for finding duplicates
+  evictedAt?: number; // Stored audio was removed to free space; tags, stats and playlists stay
+}
+
+// Where a linked track's file lives. The fingerprint recognises the file after it is moved or renamed.
+export interface TrackLink {
+  folderId: string;
+  path: string; // Relative to the folder, '/'-separated
+  size: number;
+  lastModified: number;
+  fingerprint: string;
+}
+
+// A folder on disk whose audio files make up part of the library, read in place
+export interface LinkedFolder {
+  id: string;
+  name: string;
+  handle: FileSystemDirectoryHandle;
+  addedAt: number;
+  lastScannedAt?: number;
+}
+
+// ReplayGain values read from tags or measured in the background.
+// Gains are in dB relative to the ReplayGain 2.0 reference (-18 LUFS), peaks are linear (1 = full scale).
+export interface TrackLoudness {
+  trackGain?: number;
+  trackPeak?: number;
+  albumGain?: number;
+  albumPeak?: number;
+  source: 'tags' | 'measured';
+}
+
+// Tempo and key for practicing along, remembered per track
+export interface PracticeSettings {
+  tempo: number; // Playback speed, 1 = original
+  preservePitch: boolean; // Time-stretch; off changes pitch with speed like a turntable
+  semitones: number;
+  cents: number;
+}
+
+// Lyrics parsed from Track.lyrics (see utils/lyrics.ts). Times are in seconds from the track start.
+export interface LyricWord {
+  time: number;
+  text: string; // Including its trailing space
+}
+
+export interface LyricLine {
+  time?: number; // Undefined for plain-text lyrics
+  text: string;
+  words?: LyricWord[]; // Enhanced LRC word timings
+}
+
+export interface Lyrics {
+  lines: LyricLine[];
+  synced: boolean;
+  offset: number; // From the LRC [offset:] tag, in seconds
 }
 
 export interface PlayerState {
@@ -19,12 +92,52 @@ export interface PlayerState {
   isShuffle: boolean;
   repeatMode: 'off' | 'all' | 'one';
   playbackRate: number;
-  karaokeMode: boolean;
+}
+
+// Play queue, stored as track ids so it can be persisted
+export interface PlayQueue {
+  source: string; // Label of the list playback started from, e.g. "Album: Abbey Road"
+  sourceIds: string[]; // That list in its original order
+  order: string[]; // Play order: sourceIds, or a shuffled copy
+  shuffled: boolean;
+  position: number; // Index in order of the last track played from it
+  upNext: string[]; // Manually queued tracks, played before order continues
+  history: string[]; // Previously played tracks, most recent last
+  currentId: string | null;
+}
+
+export type PlaySource = 'local' | 'linked' | 'stream';
+
+// A listen that passed the play threshold. History stays on this device and is never sent anywhere.
+export interface PlayEvent {
+  id: string;
+  trackId: string;
+  playedAt: number; // Timestamp playback started
+  listened: number; // Seconds actually heard, seeks excluded
+  duration: number; // Seconds, 0 when unknown (e.g. live streams)
+  source: PlaySource;
+  skipped: boolean; // Moved on before the end
+  earlySkip?: boolean; // Skipped before passing the threshold: counts toward skips, not plays
+  // Copied from the track so stats survive it being retagged or removed
+  name: string;
+  artist?: string;
+  album?: string;
+}
+
+// A listen counts as a play after this share of the track or this many seconds, whichever comes first
+export interface PlayThreshold {
+  percent: number;
+  maxSeconds: number;
 }
 
 export enum ViewMode {
   LIST = 'LIST',
   VISUALIZER = 'VISUALIZER',
+  ARTISTS = 'ARTISTS',
+  ALBUMS = 'ALBUMS',
+  GENRES = 'GENRES',
+  LYRICS = 'LYRICS',
+  STATS = 'STATS',
 }
 
 export enum VisualizerMode {
@@ -38,18 +151,159 @@ export enum VisualizerMode {
   DNA = 'DNA',
 }
 
+export type CrossfadeCurve = 'linear' | 'equalPower' | 'exponential' | 'sCurve';
+
+export interface CrossfadeSettings {
+  duration: number; // Seconds, 0 = gapless with no overlap
+  curve: CrossfadeCurve;
+}
+
+export type LoudnessMode = 'off' | 'track' | 'album';
+
+export interface LoudnessSettings {
+  mode: LoudnessMode;
+  preAmp: number; // dB added on top of the normalization gain
+  preventClipping: boolean; // Lower the gain so the track's peak stays below full scale
+}
+
+export interface CompressorSettings {
+  threshold: number; // dB
+  ratio: number;
+  attack: number; // Seconds
+  release: number; // Seconds
+  knee: number; // dB
+  makeupGain: number; // dB
+}
+
+export interface DynamicsSettings {
+  compressorEnabled: boolean;
+  compressor: CompressorSettings;
+  limiterEnabled: boolean;
+  limiterCeiling: number; // dBFS
+  nightMode: boolean; // Overrides the compressor with a heavy preset
+}
+
+export type EQFilterType = 'peaking' | 'lowshelf' | 'highshelf' | 'lowpass' | 'highpass' | 'notch';
+
 export interface EQBand {
+  id: string;
+  type: EQFilterType;
   frequency: number;
-  gain: number;
+  gain: number; // dB, only used by peaking and shelf filters
+  q: number; // Ignored by shelf filters
   node?: BiquadFilterNode;
 }
 
+export interface EQPreset {
+  bands: EQBand[];
+  preamp: number; // dB applied ahead of the filters
+}
+
+// Effects chain: units run in this order between the deck mix and the analyser
+export type EffectType = 'eq' | 'karaoke' | 'stereoWidth' | 'crossfeed' | 'dynamics';
+
+export interface EffectSlot {
+  type: EffectType;
+  enabled: boolean; // Disabled units are left out of the graph entirely
+}
+
+// Vocal removal: the centre (mid) channel is cut inside a frequency band, so bass and
+// cymbals panned to the centre survive
+export interface KaraokeSettings {
+  strength: number; // 0-1
+  lowCut: number; // Hz, lower edge of the removed band
+  highCut: number; // Hz, upper edge
+  pitch: number; // Semitones, for singing in a different key
+}
+
+export interface StereoWidthSettings {
+  width: number; // 0 = mono, 1 = unchanged, 2 = double side level
+}
+
+// Headphone crossfeed: each ear gets a low-passed, attenuated copy of the other channel
+export interface CrossfeedSettings {
+  feed: number; // dB the crossfed signal sits below the direct one
+  cutoff: number; // Hz
+}
+
+export interface EffectsSettings {
+  chain: EffectSlot[];
+  karaoke: KaraokeSettings;
+  stereoWidth: StereoWidthSettings;
+  crossfeed: CrossfeedSettings;
+}
+
+// A named snapshot of the whole chain, including EQ and dynamics parameters
+export interface SoundProfile extends EffectsSettings {
+  eq: EQPreset;
+  dynamics: DynamicsSettings;
+}
+
 export interface Playlist {
   id: string;
   name: string;
   trackIds: string[];
   createdAt: number;
   coverArtUrl?: string;
+  rules?: SmartPlaylistRules; // Smart playlists are evaluated live; trackIds is unused
+}
+
+// Smart playlist rules
+export type SmartRuleField = 'artist' | 'album' | 'genre' | 'type' | 'year' | 'addedAt' | 'playCount' | 'lastPlayedAt' | 'duration' | 'rating';
+
+export type SmartRuleOperator =
+  | 'contains' | 'notContains' | 'is' | 'isNot' // Text
+  | 'gt' | 'lt'                                 // Numbers
+  | 'inLast' | 'notInLast' | 'never';           // Dates, value in days
+
+export interface SmartPlaylistRule {
+  id: string;
+  field: SmartRuleField;
+  operator: SmartRuleOperator;
+  value: string;
+}
+
+export type SmartSortField = 'name' | 'artist' | 'album' | 'year' | 'addedAt' | 'playCount' | 'lastPlayedAt' | 'duration' | 'rating';
+
+// Column sort picked in the track list
+export interface TrackSort {
+  field: SmartSortField;
+  direction: 'asc' | 'desc';
+}
+
+export interface SmartPlaylistRules {
+  match: 'all' | 'any';
+  rules: SmartPlaylistRule[];
+  sortBy: SmartSortField;
+  sortDirection: 'asc' | 'desc';
+  limit?: number;
+}
+
+// Library groupings derived from track metadata
+
+export interface LibraryAlbum {
+  id: string; // Derived from artist + title, stable across reloads
+  title: string;
+  artist: string;
+  year?: number;
+  genre?: string;
+  coverArtUrl?: string;
+  tracks: Track[]; // Ordered by disc and track number
+}
+
+export interface LibraryArtist {
+  id: string;
+  name: string;
+  coverArtUrl?: string;
+  albums: LibraryAlbum[];
+  tracks: Track[];
+}
+
+export interface LibraryGenre {
+  id: string;
+  name: string;
+  albums: LibraryAlbum[];
+  tracks: Track[];
 }
 
 export interface ChapterMarker {
@@ -60,6 +314,24 @@ export interface ChapterMarker {
   color?: string;
 }
 
+// A–B loop for practicing a passage
+export interface LoopRegion {
+  start: number; // In seconds
+  end: number;
+  passes: number; // Times to play the region before carrying on, 0 = until cleared
+  rampEvery: number; // Speed up after every N passes, 0 = no ramp
+  rampStep: number; // Tempo added at each step, e.g. 0.05 = +5%
+  rampMax: number; // Tempo the ramp stops at
+}
+
+// Saved loops share the markers store with ChapterMarker, told apart by `kind`
+export interface SavedLoop extends LoopRegion {
+  id: string;
+  trackId: string;
+  kind: 'loop';
+  label: string;
+}
+
 // Phase 2: Decentralized Music Platform
 
 export interface ArtistProfile {
@@ -113,7 +385,6 @@ export interface DecentralizedTrack extends Track {
   bpm?: number;
   key?: string; // Musical key
   mood?: string[];
-  lyrics?: string;
   credits?: {
     role: string;
     name: string;
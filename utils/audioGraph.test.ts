@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_EFFECTS, DEFAULT_CROSSFEED, normalizeEffectChain, normalizeEffectsSettings, normalizeSoundProfile } from './audioGraph';
+import { DEFAULT_COMPRESSOR, DEFAULT_DYNAMICS } from './dynamics';
+import { EQ_FREQUENCIES } from './equalizer';
+
+describe('normalizeEffectChain', () => {
+  it('keeps the stored order and drops unknown or repeated units', () => {
+    const chain = normalizeEffectChain([
+      { type: 'dynamics', enabled: true },
+      { type: 'reverb', enabled: true },
+      { type: 'eq', enabled: false },
+      { type: 'dynamics', enabled: false },
+      { type: 'crossfeed', enabled: 1 },
+      { type: 'karaoke' },
+      { type: 'stereoWidth', enabled: true }
+    ]);
+    expect(chain).toEqual([
+      { type: 'dynamics', enabled: true },
+      { type: 'eq', enabled: false },
+      { type: 'crossfeed', enabled: true },
+      { type: 'karaoke', enabled: false },
+      { type: 'stereoWidth', enabled: true }
+    ]);
+  });
+
+  it('inserts units missing from an older save at their default position', () => {
+    const chain = normalizeEffectChain([{ type: 'eq', enabled: true }, { type: 'karaoke', enabled: true }, { type: 'dynamics', enabled: true }]);
+    expect(chain.map(slot => slot.type)).toEqual(DEFAULT_EFFECTS.chain.map(slot => slot.type));
+    expect(chain.find(slot => slot.type === 'karaoke')?.enabled).toBe(true);
+    expect(normalizeEffectChain(undefined)).toEqual(DEFAULT_EFFECTS.chain);
+  });
+});
+
+describe('normalizeEffectsSettings', () => {
+  it('fills in settings added after the save was made', () => {
+    const settings = normalizeEffectsSettings({ chain: [], crossfeed: { feed: 8 } });
+    expect(settings?.crossfeed).toEqual({ ...DEFAULT_CROSSFEED, feed: 8 });
+    expect(settings?.stereoWidth).toEqual(DEFAULT_EFFECTS.stereoWidth);
+    expect(normalizeEffectsSettings(null)).toBeNull();
+  });
+});
+
+describe('normalizeSoundProfile', () => {
+  it('migrates a bare band list and partial dynamics', () => {
+    const profile = normalizeSoundProfile({
+      eq: EQ_FREQUENCIES.map(frequency => ({ frequency, gain: 1 })),
+      dynamics: { nightMode: true, compressor: { ratio: 2 } }
+    });
+    expect(profile?.eq.preamp).toBe(0);
+    expect(profile?.eq.bands.every(band => band.gain === 1 && band.type === 'peaking')).toBe(true);
+    expect(profile?.dynamics).toEqual({ ...DEFAULT_DYNAMICS, nightMode: true, compressor: { ...DEFAULT_COMPRESSOR, ratio: 2 } });
+    expect(profile?.chain).toEqual(DEFAULT_EFFECTS.chain);
+  });
+});
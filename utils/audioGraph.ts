@@ -0,0 +1,244 @@
+// Effects chain: independent units wired between the deck mix and the analyser in a configurable order
+import { EffectType, EffectSlot, EffectsSettings, SoundProfile, EQPreset, DynamicsSettings, KaraokeSettings, StereoWidthSettings, CrossfeedSettings } from '../types';
+import { applyBandToFilter, createGraphicBands, normalizeEQPreset } from './equalizer';
+import { DEFAULT_DYNAMICS, DEFAULT_COMPRESSOR, createDynamicsChain } from './dynamics';
+import { dbToGain } from './loudness';
+import { DEFAULT_KARAOKE, createKaraokeUnit } from './karaoke';
+import { EffectUnit, createParamSetter } from './effectUnit';
+
+// Parameters each unit takes
+export interface EffectParams {
+  eq: EQPreset;
+  karaoke: KaraokeSettings;
+  stereoWidth: StereoWidthSettings;
+  crossfeed: CrossfeedSettings;
+  dynamics: DynamicsSettings;
+}
+
+type EffectUnits = { [T in EffectType]: EffectUnit<EffectParams[T]> };
+
+export const EFFECT_TYPES: { type: EffectType; label: string; description: string }[] = [
+  { type: 'eq', label: 'Equalizer', description: 'Graphic or parametric EQ with pre-amp' },
+  { type: 'karaoke', label: 'Vocal Remover', description: 'Cuts centre-panned vocals, optionally in another key' },
+  { type: 'stereoWidth', label: 'Stereo Width', description: 'Narrows or widens the stereo image' },
+  { type: 'crossfeed', label: 'Crossfeed', description: 'Blends the channels for less fatiguing headphone listening' },
+  { type: 'dynamics', label: 'Dynamics', description: 'Compressor, limiter and night mode' },
+];
+
+export const MAX_STEREO_WIDTH = 2;
+export const CROSSFEED_RANGES = {
+  feed: { min: 1, max: 15, step: 0.5 },
+  cutoff: { min: 300, max: 2000, step: 50 }
+};
+
+export const DEFAULT_STEREO_WIDTH: StereoWidthSettings = { width: 1 };
+export const DEFAULT_CROSSFEED: CrossfeedSettings = { feed: 4.5, cutoff: 700 }; // bs2b's default level
+
+export const DEFAULT_EFFECTS: EffectsSettings = {
+  chain: [
+    { type: 'eq', enabled: true },
+    { type: 'karaoke', enabled: false },
+    { type: 'stereoWidth', enabled: false },
+    { type: 'crossfeed', enabled: false },
+    { type: 'dynamics', enabled: true }, // Last, so the limiter catches everything ahead of it
+  ],
+  karaoke: DEFAULT_KARAOKE,
+  stereoWidth: DEFAULT_STEREO_WIDTH,
+  crossfeed: DEFAULT_CROSSFEED
+};
+
+// --- Units ---
+
+// Pre-amp -> one biquad per band. The filter chain is rebuilt when bands are added or removed.
+const createEQUnit = (ctx: BaseAudioContext, preset: EQPreset): EffectUnit<EQPreset> => {
+  const input = ctx.createGain();
+  const output = ctx.createGain();
+  const params = createParamSetter(ctx);
+  let filters: BiquadFilterNode[] | null = null;
+
+  const apply = ({ bands, preamp }: EQPreset) => {
+    if (!filters || filters.length !== bands.length) {
+      input.disconnect();
+      filters?.forEach(filter => filter.disconnect());
+      filters = bands.map(() => ctx.createBiquadFilter());
+      let previous: AudioNode = input;
+      filters.forEach(filter => {
+        previous.connect(filter);
+        previous = filter;
+      });
+      previous.connect(output);
+    }
+    bands.forEach((band, i) => applyBandToFilter(filters![i], band));
+    params.set(input.gain, dbToGain(preamp));
+    params.markInitialized();
+  };
+
+  apply(preset);
+  return { input, output, apply };
+};
+
+// Each output channel is the direct channel plus a share of the opposite one
+const createChannelMatrix = (ctx: BaseAudioContext, crossFilter?: () => BiquadFilterNode) => {
+  const splitter = ctx.createChannelSplitter(2);
+  const merger = ctx.createChannelMerger(2);
+  const direct = [ctx.createGain(), ctx.createGain()];
+  const cross = [ctx.createGain(), ctx.createGain()];
+  const filters: BiquadFilterNode[] = [];
+
+  for (const channel of [0, 1]) {
+    const opposite = 1 - channel;
+    splitter.connect(direct[channel], channel);
+    direct[channel].connect(merger, 0, channel);
+
+    if (crossFilter) {
+      const filter = crossFilter();
+      splitter.connect(filter, channel);
+      filter.connect(cross[channel]);
+      filters.push(filter);
+    } else {
+      splitter.connect(cross[channel], channel);
+    }
+    cross[channel].connect(merger, 0, opposite);
+  }
+  return { splitter, merger, direct, cross, filters };
+};
+
+/**
+ * Mid/side width. With w the width, L' = L(1+w)/2 + R(1-w)/2 and vice versa,
+ * i.e. the mid stays put and the side is scaled by w.
+ */
+const createStereoWidthUnit = (ctx: BaseAudioContext, settings: StereoWidthSettings): EffectUnit<StereoWidthSettings> => {
+  const { splitter, merger, direct, cross } = createChannelMatrix(ctx);
+  const params = createParamSetter(ctx);
+
+  const apply = ({ width }: StereoWidthSettings) => {
+    direct.forEach(gain => params.set(gain.gain, (1 + width) / 2));
+    cross.forEach(gain => params.set(gain.gain, (1 - width) / 2));
+    params.markInitialized();
+  };
+
+  apply(settings);
+  return { input: splitter, output: merger, apply };
+};
+
+/**
+ * Bauer-style crossfeed. Both paths are scaled so centred (mono) content keeps its level.
+ */
+const createCrossfeedUnit = (ctx: BaseAudioContext, settings: CrossfeedSettings): EffectUnit<CrossfeedSettings> => {
+  const { splitter, merger, direct, cross, filters } = createChannelMatrix(ctx, () => {
+    const lowpass = ctx.createBiquadFilter();
+    lowpass.type = 'lowpass';
+    lowpass.Q.value = Math.SQRT1_2;
+    return lowpass;
+  });
+  const params = createParamSetter(ctx);
+
+  const apply = ({ feed, cutoff }: CrossfeedSettings) => {
+    const crossLevel = dbToGain(-feed);
+    direct.forEach(gain => params.set(gain.gain, 1 / (1 + crossLevel)));
+    cross.forEach(gain => params.set(gain.gain, crossLevel / (1 + crossLevel)));
+    filters.forEach(filter => params.set(filter.frequency, cutoff));
+    params.markInitialized();
+  };
+
+  apply(settings);
+  return { input: splitter, output: merger, apply };
+};
+
+// --- Graph ---
+
+export interface AudioGraph {
+  units: EffectUnits;
+  setChain: (chain: EffectSlot[]) => void;
+}
+
+/**
+ * Create every unit once and wire source -> enabled units (in chain order) -> destination.
+ * `setChain` only touches the connections between units, so reordering or bypassing
+ * never rebuilds their internals.
+ */
+export const createAudioGraph = (
+  ctx: BaseAudioContext,
+  source: AudioNode,
+  destination: AudioNode,
+  params: EffectParams
+): AudioGraph => {
+  const units: EffectUnits = {
+    eq: createEQUnit(ctx, params.eq),
+    karaoke: createKaraokeUnit(ctx, params.karaoke),
+    stereoWidth: createStereoWidthUnit(ctx, params.stereoWidth),
+    crossfeed: createCrossfeedUnit(ctx, params.crossfeed),
+    dynamics: createDynamicsChain(ctx, params.dynamics)
+  };
+
+  let wiredKey: string | null = null;
+
+  const setChain = (chain: EffectSlot[]) => {
+    const active = chain.filter(slot => slot.enabled).map(slot => slot.type);
+    const key = active.join('>');
+    if (key === wiredKey) return;
+
+    source.disconnect();
+    Object.values(units).forEach(unit => unit.output.disconnect());
+
+    let previous: AudioNode = source;
+    for (const type of active) {
+      previous.connect(units[type].input);
+      previous = units[type].output;
+    }
+    previous.connect(destination);
+    wiredKey = key;
+  };
+
+  return { units, setChain };
+};
+
+// --- Serialization ---
+
+const isEffectType = (value: unknown): value is EffectType => {
+  return EFFECT_TYPES.some(e => e.type === value);
+};
+
+/**
+ * Keep known units once each, in the stored order. Units missing from an older
+ * save are inserted at their default position.
+ */
+export const normalizeEffectChain = (raw: unknown): EffectSlot[] => {
+  const chain: EffectSlot[] = [];
+  if (Array.isArray(raw)) {
+    for (const slot of raw) {
+      if (!slot || !isEffectType(slot.type) || chain.some(s => s.type === slot.type)) continue;
+      chain.push({ type: slot.type, enabled: !!slot.enabled });
+    }
+  }
+  DEFAULT_EFFECTS.chain.forEach((slot, index) => {
+    if (!chain.some(s => s.type === slot.type)) chain.splice(Math.min(index, chain.length), 0, { ...slot });
+  });
+  return chain;
+};
+
+export const normalizeEffectsSettings = (raw: unknown): EffectsSettings | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const { chain, karaoke, stereoWidth, crossfeed } = raw as Partial<EffectsSettings>;
+  return {
+    chain: normalizeEffectChain(chain),
+    karaoke: { ...DEFAULT_KARAOKE, ...karaoke },
+    stereoWidth: { ...DEFAULT_STEREO_WIDTH, ...stereoWidth },
+    crossfeed: { ...DEFAULT_CROSSFEED, ...crossfeed }
+  };
+};
+
+export const normalizeSoundProfile = (raw: unknown): SoundProfile | null => {
+  const effects = normalizeEffectsSettings(raw);
+  if (!effects) return null;
+  const { eq, dynamics } = raw as Partial<SoundProfile>;
+  return {
+    ...effects,
+    eq: normalizeEQPreset(eq) || { bands: createGraphicBands(), preamp: 0 },
+    dynamics: {
+      ...DEFAULT_DYNAMICS,
+      ...dynamics,
+      compressor: { ...DEFAULT_COMPRESSOR, ...dynamics?.compressor }
+    }
+  };
+};
@@ -0,0 +1,499 @@
+// Library backup: one ZIP with a versioned JSON manifest and, optionally, the audio files
+// and cover images. Restoring merges into or replaces the current library.
+import { Track, Playlist, ChapterMarker, SavedLoop, EQPreset, SoundProfile, DynamicsSettings, EffectsSettings, CrossfadeSettings, LoudnessSettings } from '../types';
+import { createZip, readZip, ZipEntry } from './zip';
+import {
+  loadEQSettings, saveEQSettings, loadEQPresets, saveEQPreset, deleteEQPreset,
+  loadSoundProfiles, saveSoundProfile, deleteSoundProfile,
+  loadDynamicsSettings, saveDynamicsSettings, loadEffectsSettings, saveEffectsSettings,
+  loadCrossfadeSettings, saveCrossfadeSettings, loadLoudnessSettings, saveLoudnessSettings
+} from './persistence';
+
+export const BACKUP_FORMAT = 'penko-tune-backup';
+export const BACKUP_VERSION = 1;
+const MANIFEST_NAME = 'manifest.json';
+
+// Track metadata as stored in the manifest; the audio itself lives in the archive
+export interface BackupTrack extends Omit<Track, 'file' | 'url'> {
+  streamUrl?: string;
+  audio?: { path: string; name: string; type: string };
+  cover?: string; // Archive path of a cover that was a data URL
+}
+
+export interface BackupPlaylist extends Playlist {
+  cover?: string;
+}
+
+export interface BackupSettings {
+  eq?: EQPreset;
+  eqPresets?: Record<string, EQPreset>;
+  soundProfiles?: Record<string, SoundProfile>;
+  dynamics?: DynamicsSettings;
+  effects?: EffectsSettings;
+  crossfade?: CrossfadeSettings;
+  loudness?: LoudnessSettings;
+}
+
+export type BackupSettingKey = keyof BackupSettings;
+
+export const BACKUP_SETTING_LABELS: Record<BackupSettingKey, string> = {
+  eq: 'Equalizer',
+  eqPresets: 'EQ presets',
+  soundProfiles: 'Sound profiles',
+  dynamics: 'Dynamics',
+  effects: 'Effects',
+  crossfade: 'Crossfade',
+  loudness: 'Loudness normalization'
+};
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  includesAudio: boolean;
+  includesCovers: boolean;
+  tracks: BackupTrack[];
+  playlists: BackupPlaylist[];
+  markers: ChapterMarker[];
+  loops: SavedLoop[];
+  settings: BackupSettings;
+}
+
+export interface BackupOptions {
+  includeAudio: boolean;
+  includeCovers: boolean;
+}
+
+// An opened backup: the manifest plus the archive entries it points to
+export interface LoadedBackup {
+  manifest: BackupManifest;
+  entries: Map<string, ZipEntry>;
+}
+
+export interface LibrarySnapshot {
+  tracks: Track[];
+  playlists: Playlist[];
+  markers: ChapterMarker[];
+  loops: SavedLoop[];
+}
+
+export type RestoreMode = 'merge' | 'replace';
+export type ConflictPolicy = 'keep' | 'backup'; // Same id on both sides: keep ours or take the backup's
+
+export interface RestoreChanges {
+  added: number;
+  updated: number; // Same id, different content, backup wins
+  unchanged: number;
+  kept: number; // Same id, different content, ours wins
+  removed: number; // Replace mode only
+}
+
+export interface RestorePlan {
+  mode: RestoreMode;
+  conflicts: ConflictPolicy;
+  tracks: RestoreChanges & { missingAudio: number }; // Local tracks without audio in the backup or library
+  playlists: RestoreChanges;
+  markers: RestoreChanges;
+  loops: RestoreChanges;
+  settings: BackupSettingKey[]; // Settings that will change
+}
+
+export interface RestoredLibrary extends LibrarySnapshot {
+  settingsChanged: boolean;
+}
+
+// --- Backup ---
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+const imageExtension = (dataUrl: string): string => {
+  const subtype = dataUrl.match(/^data:image\/([a-z0-9.+-]+)/i)?.[1]?.toLowerCase();
+  return subtype === 'jpeg' ? 'jpg' : subtype?.replace(/\+xml$/, '') || 'img';
+};
+
+// Characters that trip up archive tools on some systems
+const safeFileName = (name: string): string => name.replace(/[\\/:*?"<>|]/g, '_');
+
+const toBackupTrack = (track: Track): BackupTrack => {
+  const { file, url, ...metadata } = track;
+  return { ...metadata, streamUrl: track.type === 'stream' ? url : undefined };
+};
+
+/**
+ * The settings this browser has saved, read back through persistence so they are normalized
+ */
+export const collectSettings = (): BackupSettings => ({
+  eq: loadEQSettings() ?? undefined,
+  eqPresets: loadEQPresets(),
+  soundProfiles: loadSoundProfiles(),
+  dynamics: loadDynamicsSettings() ?? undefined,
+  effects: loadEffectsSettings() ?? undefined,
+  crossfade: loadCrossfadeSettings() ?? undefined,
+  loudness: loadLoudnessSettings() ?? undefined
+});
+
+/**
+ * Write the library and settings into a ZIP archive
+ * @param onProgress Called with 0-1 while the archive is built
+ */
+export const createBackup = async (
+  library: LibrarySnapshot,
+  options: BackupOptions,
+  onProgress?: (fraction: number) => void
+): Promise<Blob> => {
+  const files: { name: string; data: Blob }[] = [];
+  const audioPaths = new Map<File, string>(); // CUE tracks share one file
+  const coverPaths = new Map<string, string>(); // Albums share one cover
+
+  const addCover = async (dataUrl: string | undefined): Promise<string | undefined> => {
+    if (!options.includeCovers || !dataUrl?.startsWith('data:')) return undefined;
+    let path = coverPaths.get(dataUrl);
+    if (!path) {
+      path = `covers/${coverPaths.size + 1}.${imageExtension(dataUrl)}`;
+      files.push({ name: path, data: await dataUrlToBlob(dataUrl) });
+      coverPaths.set(dataUrl, path);
+    }
+    return path;
+  };
+
+  const tracks: BackupTrack[] = [];
+  for (const track of library.tracks) {
+    const entry = toBackupTrack(track);
+    if (track.coverArtUrl?.startsWith('data:')) {
+      // Without covers the data URL would bloat the manifest, so it is left out entirely
+      entry.coverArtUrl = undefined;
+      entry.cover = await addCover(track.coverArtUrl);
+    }
+    if (options.includeAudio && track.type === 'local' && track.file) {
+      let path = audioPaths.get(track.file);
+      if (!path) {
+        path = `audio/${track.id}-${safeFileName(track.file.name)}`;
+        files.push({ name: path, data: track.file });
+        audioPaths.set(track.file, path);
+      }
+      entry.audio = { path, name: track.file.name, type: track.file.type };
+    }
+    tracks.push(entry);
+  }
+
+  const playlists: BackupPlaylist[] = [];
+  for (const playlist of library.playlists) {
+    if (playlist.coverArtUrl?.startsWith('data:')) {
+      playlists.push({ ...playlist, coverArtUrl: undefined, cover: await addCover(playlist.coverArtUrl) });
+    } else {
+      playlists.push(playlist);
+    }
+  }
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    includesAudio: options.includeAudio,
+    includesCovers: options.includeCovers,
+    tracks,
+    playlists,
+    markers: library.markers,
+    loops: library.loops,
+    settings: collectSettings()
+  };
+
+  const manifestBlob = new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' });
+  return createZip([{ name: MANIFEST_NAME, data: manifestBlob }, ...files], onProgress);
+};
+
+/**
+ * Total size of the audio files a backup with audio would contain
+ */
+export const getAudioSize = (tracks: Track[]): number => {
+  const files = new Set(tracks.filter(t => t.type === 'local' && t.file).map(t => t.file!));
+  return [...files].reduce((sum, file) => sum + file.size, 0);
+};
+
+// --- Restore ---
+
+/**
+ * Open a backup archive and check its manifest
+ * @returns null if the file isn't a backup this version can read
+ */
+export const readBackup = async (file: Blob): Promise<LoadedBackup | null> => {
+  try {
+    const entries = new Map((await readZip(file)).map(entry => [entry.name, entry]));
+    const manifestEntry = entries.get(MANIFEST_NAME);
+    if (!manifestEntry) {
+      console.error('[Backup] Archive has no manifest');
+      return null;
+    }
+
+    const manifest = JSON.parse(await (await manifestEntry.read()).text());
+    if (manifest?.format !== BACKUP_FORMAT || !Array.isArray(manifest.tracks)) {
+      console.error('[Backup] Not a library backup');
+      return null;
+    }
+    if (manifest.version > BACKUP_VERSION) {
+      console.error(`[Backup] Backup version ${manifest.version} is newer than supported (${BACKUP_VERSION})`);
+      return null;
+    }
+
+    return {
+      manifest: {
+        ...manifest,
+        playlists: manifest.playlists ?? [],
+        markers: manifest.markers ?? [],
+        loops: manifest.loops ?? [],
+        settings: manifest.settings ?? {}
+      },
+      entries
+    };
+  } catch (error) {
+    console.error('[Backup] Failed to read backup:', error);
+    return null;
+  }
+};
+
+const emptyChanges = (): RestoreChanges => ({ added: 0, updated: 0, unchanged: 0, kept: 0, removed: 0 });
+
+const isSame = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+// Compare tracks on their metadata; audio and cover paths only exist on the backup side
+const trackContent = ({ audio, cover, coverArtUrl, ...metadata }: BackupTrack) => metadata;
+const playlistContent = ({ cover, coverArtUrl, ...playlist }: BackupPlaylist) => playlist;
+
+/**
+ * Decide, per id, whether ours or the backup's record ends up in the library.
+ * Returns the winning records in order: ours first, then new ones from the backup.
+ */
+const mergeById = <T extends { id: string }>(
+  current: T[],
+  incoming: T[],
+  mode: RestoreMode,
+  conflicts: ConflictPolicy,
+  content: (record: T) => unknown = record => record
+): { records: { record: T; fromBackup: boolean }[]; changes: RestoreChanges } => {
+  const changes = emptyChanges();
+  const incomingById = new Map(incoming.map(record => [record.id, record]));
+  const currentIds = new Set(current.map(record => record.id));
+  const records: { record: T; fromBackup: boolean }[] = [];
+
+  for (const record of current) {
+    const backupRecord = incomingById.get(record.id);
+    if (!backupRecord) {
+      if (mode === 'replace') {
+        changes.removed++;
+      } else {
+        records.push({ record, fromBackup: false });
+      }
+    } else if (isSame(content(record), content(backupRecord))) {
+      changes.unchanged++;
+      records.push({ record, fromBackup: false });
+    } else if (mode === 'replace' || conflicts === 'backup') {
+      changes.updated++;
+      records.push({ record: backupRecord, fromBackup: true });
+    } else {
+      changes.kept++;
+      records.push({ record, fromBackup: false });
+    }
+  }
+
+  for (const record of incoming) {
+    if (!currentIds.has(record.id)) {
+      changes.added++;
+      records.push({ record, fromBackup: true });
+    }
+  }
+  return { records, changes };
+};
+
+// Which settings restoring would change. Presets and profiles merge by name.
+const planSettings = (settings: BackupSettings, mode: RestoreMode, conflicts: ConflictPolicy): { key: BackupSettingKey; value: BackupSettings[BackupSettingKey] }[] => {
+  const current = collectSettings();
+  const changes: { key: BackupSettingKey; value: BackupSettings[BackupSettingKey] }[] = [];
+  const overwrite = mode === 'replace' || conflicts === 'backup';
+
+  for (const key of Object.keys(BACKUP_SETTING_LABELS) as BackupSettingKey[]) {
+    const incoming = settings[key];
+    if (incoming === undefined) continue;
+
+    if (key === 'eqPresets' || key === 'soundProfiles') {
+      const ours = (current[key] ?? {}) as Record<string, unknown>;
+      const theirs = incoming as Record<string, unknown>;
+      const merged = mode === 'replace'
+        ? theirs
+        : overwrite ? { ...ours, ...theirs } : { ...theirs, ...ours };
+      if (!isSame(merged, ours)) changes.push({ key, value: merged as BackupSettings[typeof key] });
+    } else if ((overwrite || current[key] === undefined) && !isSame(incoming, current[key])) {
+      // Keeping local settings only wins where there are local settings to keep
+      changes.push({ key, value: incoming });
+    }
+  }
+  return changes;
+};
+
+/**
+ * Dry run: what restoring the backup would change, without touching anything
+ */
+export const planRestore = (
+  backup: LoadedBackup,
+  library: LibrarySnapshot,
+  mode: RestoreMode,
+  conflicts: ConflictPolicy
+): RestorePlan => {
+  const { manifest, entries } = backup;
+  const trackMerge = mergeById(library.tracks.map(toBackupTrack), manifest.tracks, mode, conflicts, trackContent);
+  const playableIds = new Set<string>();
+  let missingAudio = 0;
+
+  const currentWithFile = new Set(library.tracks.filter(t => t.file).map(t => t.id));
+  for (const { record, fromBackup } of trackMerge.records) {
+    const playable = record.type === 'stream'
+      ? !!record.streamUrl
+      : !fromBackup || currentWithFile.has(record.id) || !!record.evictedAt || (!!record.audio && entries.has(record.audio.path));
+    if (playable) playableIds.add(record.id);
+    else missingAudio++;
+  }
+
+  // Markers and loops of tracks that won't be in the library are left out
+  const onPlayable = <T extends { trackId: string }>(records: T[]) => records.filter(r => playableIds.has(r.trackId));
+
+  return {
+    mode,
+    conflicts,
+    tracks: { ...trackMerge.changes, missingAudio },
+    playlists: mergeById<BackupPlaylist>(library.playlists, manifest.playlists, mode, conflicts, playlistContent).changes,
+    markers: mergeById(library.markers, onPlayable(manifest.markers), mode, conflicts).changes,
+    loops: mergeById(library.loops, onPlayable(manifest.loops), mode, conflicts).changes,
+    settings: planSettings(manifest.settings, mode, conflicts).map(change => change.key)
+  };
+};
+
+const applySettings = (changes: ReturnType<typeof planSettings>, mode: RestoreMode): void => {
+  for (const { key, value } of changes) {
+    switch (key) {
+      case 'eq': saveEQSettings(value as EQPreset); break;
+      case 'dynamics': saveDynamicsSettings(value as DynamicsSettings); break;
+      case 'effects': saveEffectsSettings(value as EffectsSettings); break;
+      case 'crossfade': saveCrossfadeSettings(value as CrossfadeSettings); break;
+      case 'loudness': saveLoudnessSettings(value as LoudnessSettings); break;
+      case 'eqPresets': {
+        const presets = value as Record<string, EQPreset>;
+        if (mode === 'replace') Object.keys(loadEQPresets()).filter(name => !(name in presets)).forEach(deleteEQPreset);
+        Object.entries(presets).forEach(([name, preset]) => saveEQPreset(name, preset));
+        break;
+      }
+      case 'soundProfiles': {
+        const profiles = value as Record<string, SoundProfile>;
+        if (mode === 'replace') Object.keys(loadSoundProfiles()).filter(name => !(name in profiles)).forEach(deleteSoundProfile);
+        Object.entries(profiles).forEach(([name, profile]) => saveSoundProfile(name, profile));
+        break;
+      }
+    }
+  }
+};
+
+/**
+ * Restore a backup: returns the library to put in place and writes the settings.
+ * Tracks already in the library keep their audio; the archive's copy is only used for new ones.
+ */
+export const applyRestore = async (
+  backup: LoadedBackup,
+  library: LibrarySnapshot,
+  mode: RestoreMode,
+  conflicts: ConflictPolicy
+): Promise<RestoredLibrary> => {
+  const { manifest, entries } = backup;
+  const currentTracks = new Map(library.tracks.map(t => [t.id, t]));
+  const restoredFiles = new Map<string, File>(); // Archive path -> File, shared by CUE tracks
+  const restoredCovers = new Map<string, string>();
+
+  const readCover = async (path: string | undefined): Promise<string | undefined> => {
+    const entry = path ? entries.get(path) : undefined;
+    if (!entry) return undefined;
+    if (!restoredCovers.has(entry.name)) {
+      restoredCovers.set(entry.name, await blobToDataUrl(await entry.read()));
+    }
+    return restoredCovers.get(entry.name);
+  };
+
+  const readAudio = async (audio: BackupTrack['audio']): Promise<File | undefined> => {
+    const entry = audio ? entries.get(audio.path) : undefined;
+    if (!audio || !entry) return undefined;
+    if (!restoredFiles.has(audio.path)) {
+      const blob = await entry.read();
+      restoredFiles.set(audio.path, new File([blob], audio.name, { type: audio.type || blob.type }));
+    }
+    return restoredFiles.get(audio.path);
+  };
+
+  const tracks: Track[] = [];
+  const trackMerge = mergeById(library.tracks.map(toBackupTrack), manifest.tracks, mode, conflicts, trackContent);
+  for (const { record, fromBackup } of trackMerge.records) {
+    const existing = currentTracks.get(record.id);
+    if (!fromBackup && existing) {
+      tracks.push(existing);
+      continue;
+    }
+
+    const { streamUrl, audio, cover, ...metadata } = record;
+    const coverArtUrl = metadata.coverArtUrl ?? await readCover(cover) ?? existing?.coverArtUrl;
+    if (record.type === 'stream') {
+      if (streamUrl) tracks.push({ ...metadata, coverArtUrl, url: streamUrl });
+      continue;
+    }
+
+    if (existing?.file) {
+      tracks.push({ ...metadata, coverArtUrl, file: existing.file, url: existing.url });
+      continue;
+    }
+    const file = await readAudio(audio);
+    if (file) {
+      // Audio from the archive lives in the library now, not in a linked folder
+      tracks.push({ ...metadata, coverArtUrl, file, url: URL.createObjectURL(file), link: undefined, evictedAt: undefined });
+    } else if (metadata.evictedAt) {
+      // Its audio was removed to free space before the backup; it comes back the same way
+      tracks.push({ ...metadata, coverArtUrl, url: '' });
+    } else {
+      console.warn(`[Backup] No audio for "${record.name}", skipping`);
+    }
+  }
+
+  const trackIds = new Set(tracks.map(t => t.id));
+  const onRestoredTracks = <T extends { trackId: string }>(records: T[]) => records.filter(r => trackIds.has(r.trackId));
+
+  const playlists: Playlist[] = [];
+  for (const { record, fromBackup } of mergeById<BackupPlaylist>(library.playlists, manifest.playlists, mode, conflicts, playlistContent).records) {
+    if (!fromBackup) {
+      playlists.push(record);
+      continue;
+    }
+    const { cover, ...playlist } = record;
+    playlists.push({ ...playlist, coverArtUrl: playlist.coverArtUrl ?? await readCover(cover) });
+  }
+
+  const settingChanges = planSettings(manifest.settings, mode, conflicts);
+  applySettings(settingChanges, mode);
+
+  return {
+    tracks,
+    playlists,
+    markers: onRestoredTracks(mergeById(library.markers, onRestoredTracks(manifest.markers), mode, conflicts).records.map(r => r.record)),
+    loops: onRestoredTracks(mergeById(library.loops, onRestoredTracks(manifest.loops), mode, conflicts).records.map(r => r.record)),
+    settingsChanged: settingChanges.length > 0
+  };
+};
+
+/**
+ * File name for a new backup, dated so several can sit side by side
+ */
+export const getBackupFileName = (date = new Date()): string => {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `penko-tune-backup-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}.zip`;
+};
@@ -0,0 +1,70 @@
+// Fade curves and transition rules for gapless/crossfade playback
+import { Track, CrossfadeCurve, CrossfadeSettings } from '../types';
+import { getAlbumKey } from './library';
+
+export const MAX_CROSSFADE_SECONDS = 12;
+
+export const DEFAULT_CROSSFADE: CrossfadeSettings = { duration: 0, curve: 'equalPower' };
+
+export const CROSSFADE_CURVES: { curve: CrossfadeCurve; label: string }[] = [
+  { curve: 'equalPower', label: 'Equal Power' },
+  { curve: 'linear', label: 'Linear' },
+  { curve: 'exponential', label: 'Exponential' },
+  { curve: 'sCurve', label: 'S-Curve' },
+];
+
+// Fade-in gain at position x (0..1); fade-outs use the mirror image
+const fadeInValue = (curve: CrossfadeCurve, x: number): number => {
+  switch (curve) {
+    case 'linear': return x;
+    case 'exponential': return x * x;
+    case 'sCurve': return (1 - Math.cos(Math.PI * x)) / 2;
+    default: return Math.sin((x * Math.PI) / 2); // Equal power keeps loudness steady mid-fade
+  }
+};
+
+export const getFadeCurve = (curve: CrossfadeCurve, direction: 'in' | 'out', steps = 128): Float32Array => {
+  const values = new Float32Array(steps);
+  for (let i = 0; i < steps; i++) {
+    const x = i / (steps - 1);
+    values[i] = fadeInValue(curve, direction === 'in' ? x : 1 - x);
+  }
+  return values;
+};
+
+/**
+ * Ramp a gain param along a fade curve, replacing anything already scheduled
+ */
+export const scheduleFade = (
+  param: AudioParam,
+  curve: CrossfadeCurve,
+  direction: 'in' | 'out',
+  startTime: number,
+  duration: number
+): void => {
+  param.cancelScheduledValues(startTime);
+  param.setValueCurveAtTime(getFadeCurve(curve, direction), startTime, duration);
+};
+
+/**
+ * True when `next` directly follows `current` on the same release,
+ * where a crossfade would smear a continuous recording (live albums, DJ mixes)
+ */
+export const isAlbumContinuation = (current: Track, next: Track): boolean => {
+  const key = getAlbumKey(current);
+  if (!key || key !== getAlbumKey(next)) return false;
+  if (current.trackNumber === undefined || next.trackNumber === undefined) return true;
+
+  const currentDisc = current.discNumber ?? 1;
+  const nextDisc = next.discNumber ?? 1;
+  if (currentDisc === nextDisc) return next.trackNumber === current.trackNumber + 1;
+  return nextDisc === currentDisc + 1 && next.trackNumber === 1;
+};
+
+/**
+ * Seconds of overlap to use between two tracks
+ */
+export const getCrossfadeDuration = (settings: CrossfadeSettings, current: Track, next: Track): number => {
+  if (settings.duration <= 0 || isAlbumContinuation(current, next)) return 0;
+  return Math.min(settings.duration, MAX_CROSSFADE_SECONDS);
+};
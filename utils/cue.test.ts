@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { Track, ChapterMarker } from '../types';
+import { parseCueSheet, getCueTracksForFile, getCueRanges, splitByCueSheet, getTrackEnd, createCueSheet } from './cue';
+
+const SHEET = [
+  '\uFEFFREM GENRE "Rock"',
+  'REM DATE 1973',
+  'PERFORMER "Pink Floyd"',
+  'TITLE "The Dark Side of the Moon"',
+  'FILE "Dark Side.flac" WAVE',
+  '  TRACK 01 AUDIO',
+  '    TITLE "Speak to Me"',
+  '    INDEX 01 00:00:00',
+  '  TRACK 02 AUDIO',
+  '    TITLE "Breathe"',
+  '    PERFORMER "Roger Waters"',
+  '    INDEX 00 01:05:00',
+  '    INDEX 01 01:07:37',
+  '  TRACK 03 AUDIO',
+  '    TITLE "No Index"',
+  '  TRACK 04 AUDIO',
+  '    INDEX 01 03:50:00'
+].join('\r\n');
+
+const audioFile = (name: string) => new File([new Uint8Array(4)], name);
+
+describe('parseCueSheet', () => {
+  it('reads album fields and tracks with their INDEX 01 start', () => {
+    const sheet = parseCueSheet(SHEET);
+    expect(sheet).toMatchObject({ title: 'The Dark Side of the Moon', performer: 'Pink Floyd', genre: 'Rock', date: '1973' });
+    expect(sheet.tracks.map(t => t.number)).toEqual([1, 2, 4]);
+    expect(sheet.tracks[1]).toMatchObject({ title: 'Breathe', performer: 'Roger Waters', file: 'Dark Side.flac' });
+    expect(sheet.tracks[1].start).toBeCloseTo(67 + 37 / 75, 5);
+  });
+
+  it('reads unquoted file names', () => {
+    const sheet = parseCueSheet('FILE album.wav WAVE\nTRACK 01 AUDIO\nINDEX 01 00:00:00');
+    expect(sheet.tracks[0].file).toBe('album.wav');
+  });
+});
+
+describe('getCueTracksForFile', () => {
+  const sheet = parseCueSheet(SHEET);
+
+  it('matches the FILE name case-insensitively', () => {
+    expect(getCueTracksForFile(sheet, audioFile('dark side.FLAC'))).toHaveLength(3);
+  });
+
+  it('falls back to the name without extension for re-encoded rips', () => {
+    expect(getCueTracksForFile(sheet, audioFile('Dark Side.mp3'))).toHaveLength(3);
+    expect(getCueTracksForFile(sheet, audioFile('Other.flac'))).toHaveLength(0);
+  });
+});
+
+describe('splitByCueSheet', () => {
+  it('ends each track where the next starts and the last at the end of the file', () => {
+    const sheet = parseCueSheet(SHEET);
+    expect(getCueRanges(sheet.tracks).map(r => r.end)).toEqual([sheet.tracks[1].start, 230, undefined]);
+
+    const source = { name: 'Dark Side', artist: 'Tagged Artist', duration: 300, type: 'local' as const };
+    const tracks = splitByCueSheet(source, sheet, sheet.tracks);
+    expect(tracks.map(t => t.name)).toEqual(['Speak to Me', 'Breathe', 'Track 4']);
+    expect(tracks[1]).toMatchObject({ artist: 'Roger Waters', albumArtist: 'Pink Floyd', album: 'The Dark Side of the Moon', year: 1973, trackNumber: 2 });
+    expect(tracks[2]).toMatchObject({ cueStart: 230, cueEnd: undefined, duration: 70 });
+  });
+
+  it('clamps the track end to the loaded file', () => {
+    const track = { id: 't', name: 't', url: '', type: 'local', cueStart: 10, cueEnd: 400 } as Track;
+    expect(getTrackEnd(track, 300)).toBe(300);
+    expect(getTrackEnd(null, 300)).toBe(300);
+  });
+});
+
+describe('createCueSheet', () => {
+  const track: Track = { id: 't', name: 'Mix', url: '', type: 'local', artist: 'DJ "Quoted"', year: 2020, file: audioFile('mix.mp3') };
+  const marker = (timestamp: number, label: string): ChapterMarker => ({ id: label, trackId: 't', timestamp, label });
+
+  it('writes a track per marker, with the first one at the top of the file', () => {
+    const text = createCueSheet(track, [marker(126, 'Second'), marker(30, 'First')]);
+    expect(text).toContain('FILE "mix.mp3" MP3');
+    expect(text).toContain(`PERFORMER "DJ 'Quoted'"`);
+
+    const sheet = parseCueSheet(text);
+    expect(sheet.tracks.map(t => [t.title, t.start])).toEqual([['Mix', 0], ['First', 30], ['Second', 126]]);
+  });
+
+  it('round-trips through the parser', () => {
+    const sheet = parseCueSheet(createCueSheet(track, [marker(0, 'Intro'), marker(61, 'Outro')]));
+    expect(sheet).toMatchObject({ title: 'Mix', date: '2020' });
+    expect(sheet.tracks.map(t => t.title)).toEqual(['Intro', 'Outro']);
+  });
+});
@@ -0,0 +1,221 @@
+// CUE sheets: split single-file album rips into tracks, and write markers back out
+import { Track, ChapterMarker } from '../types';
+
+const FRAMES_PER_SECOND = 75; // CD frames
+
+export interface CueTrack {
+  number: number;
+  title?: string;
+  performer?: string;
+  file: string; // FILE the track belongs to, as written in the sheet
+  start: number; // INDEX 01, in seconds
+}
+
+export interface CueSheet {
+  title?: string;
+  performer?: string;
+  genre?: string;
+  date?: string;
+  tracks: CueTrack[];
+}
+
+// Virtual track from a CUE sheet: the range of the shared file it plays
+export interface CueRange {
+  start: number;
+  end?: number; // Undefined plays to the end of the file
+}
+
+/**
+ * Parse mm:ss:ff (frames are 1/75 s)
+ */
+const parseCueTime = (value: string): number | undefined => {
+  const match = value.match(/^(\d+):(\d{1,2}):(\d{1,2})$/);
+  if (!match) return undefined;
+  return parseInt(match[1]) * 60 + parseInt(match[2]) + parseInt(match[3]) / FRAMES_PER_SECOND;
+};
+
+const formatCueTime = (seconds: number): string => {
+  const totalFrames = Math.max(0, Math.round(seconds * FRAMES_PER_SECOND));
+  const frames = totalFrames % FRAMES_PER_SECOND;
+  const totalSeconds = Math.floor(totalFrames / FRAMES_PER_SECOND);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${pad(Math.floor(totalSeconds / 60))}:${pad(totalSeconds % 60)}:${pad(frames)}`;
+};
+
+// Values are either "quoted" or a bare word
+const unquote = (value: string): string => {
+  const trimmed = value.trim();
+  const match = trimmed.match(/^"(.*)"$/);
+  return match ? match[1] : trimmed;
+};
+
+const quote = (value: string): string => `"${value.replace(/"/g, "'")}"`;
+
+/**
+ * Parse the commands a player needs: FILE, TRACK, INDEX 01, TITLE, PERFORMER, REM GENRE/DATE.
+ * Tracks without an INDEX 01 are dropped.
+ */
+export const parseCueSheet = (text: string): CueSheet => {
+  const sheet: CueSheet = { tracks: [] };
+  let file = '';
+  let track: Partial<CueTrack> | null = null;
+
+  const finishTrack = () => {
+    if (track?.number !== undefined && track.start !== undefined) {
+      sheet.tracks.push(track as CueTrack);
+    }
+    track = null;
+  };
+
+  for (const rawLine of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const space = line.indexOf(' ');
+    if (space < 0) continue;
+    const command = line.slice(0, space).toUpperCase();
+    const rest = line.slice(space + 1);
+
+    switch (command) {
+      case 'FILE': {
+        finishTrack();
+        // FILE "name.flac" WAVE: the type is the last word
+        const typeStart = rest.lastIndexOf(' ');
+        file = unquote(typeStart > 0 && !rest.trim().endsWith('"') ? rest.slice(0, typeStart) : rest);
+        break;
+      }
+      case 'TRACK':
+        finishTrack();
+        track = { number: parseInt(rest), file };
+        break;
+      case 'INDEX': {
+        const [index, time] = rest.trim().split(/\s+/);
+        if (track && parseInt(index) === 1) track.start = parseCueTime(time);
+        break;
+      }
+      case 'TITLE':
+        if (track) track.title = unquote(rest);
+        else sheet.title = unquote(rest);
+        break;
+      case 'PERFORMER':
+        if (track) track.performer = unquote(rest);
+        else sheet.performer = unquote(rest);
+        break;
+      case 'REM': {
+        const remSpace = rest.indexOf(' ');
+        if (remSpace < 0) break;
+        const key = rest.slice(0, remSpace).toUpperCase();
+        if (key === 'GENRE') sheet.genre = unquote(rest.slice(remSpace + 1));
+        if (key === 'DATE') sheet.date = unquote(rest.slice(remSpace + 1));
+        break;
+      }
+    }
+  }
+  finishTrack();
+  return sheet;
+};
+
+/**
+ * Read a .cue file; old rips are often Windows-1252 rather than UTF-8
+ * @returns null if the file can't be read
+ */
+export const readCueFile = async (file: Blob): Promise<CueSheet | null> => {
+  try {
+    const bytes = await file.arrayBuffer();
+    let text = new TextDecoder('utf-8').decode(bytes);
+    if (text.includes('\uFFFD')) text = new TextDecoder('windows-1252').decode(bytes);
+    return parseCueSheet(text);
+  } catch (error) {
+    console.warn('[CUE] Could not read sheet:', error);
+    return null;
+  }
+};
+
+const baseName = (name: string): string => name.replace(/\.[^/.]+$/, '').toLowerCase();
+
+/**
+ * Tracks of the sheet that play from `audioFile`. Matched on the FILE name, or
+ * on the name without extension since rips are often re-encoded after the sheet was written.
+ */
+export const getCueTracksForFile = (sheet: CueSheet, audioFile: File): CueTrack[] => {
+  const name = audioFile.name.toLowerCase();
+  const exact = sheet.tracks.filter(t => t.file.split(/[\\/]/).pop()!.toLowerCase() === name);
+  if (exact.length > 0) return exact;
+  return sheet.tracks.filter(t => baseName(t.file.split(/[\\/]/).pop()!) === baseName(name));
+};
+
+/**
+ * Start/end of each track in the file; a track ends where the next one starts
+ */
+export const getCueRanges = (tracks: CueTrack[]): CueRange[] => {
+  const sorted = [...tracks].sort((a, b) => a.start - b.start);
+  return sorted.map((track, i) => ({ start: track.start, end: sorted[i + 1]?.start }));
+};
+
+/**
+ * Split a file's track into the tracks of its sheet. Sheet values win over the file's
+ * own tags, which usually describe the whole rip.
+ */
+export const splitByCueSheet = <T extends Omit<Track, 'id' | 'url'>>(track: T, sheet: CueSheet, cueTracks: CueTrack[]): T[] => {
+  const sorted = [...cueTracks].sort((a, b) => a.start - b.start);
+  const ranges = getCueRanges(sorted);
+  const year = sheet.date ? parseInt(sheet.date) : NaN;
+
+  return sorted.map((cueTrack, i) => {
+    const { start, end } = ranges[i];
+    const trackEnd = end ?? track.duration;
+    return {
+      ...track,
+      name: cueTrack.title || `Track ${cueTrack.number}`,
+      artist: cueTrack.performer || sheet.performer || track.artist,
+      album: sheet.title || track.album,
+      albumArtist: sheet.performer || track.albumArtist,
+      year: isNaN(year) ? track.year : year,
+      genre: sheet.genre || track.genre,
+      trackNumber: cueTrack.number,
+      duration: trackEnd !== undefined ? Math.max(0, trackEnd - start) : undefined,
+      cueStart: start,
+      cueEnd: end
+    };
+  });
+};
+
+// --- Track offsets ---
+// Positions shown to the user (and stored in markers and loops) are relative to
+// the track; the audio element works in positions of the whole file.
+
+export const getTrackStart = (track: Track | null | undefined): number => track?.cueStart ?? 0;
+
+/**
+ * Where the track ends in its file, given the loaded file's duration
+ */
+export const getTrackEnd = (track: Track | null | undefined, fileDuration: number): number => {
+  return track?.cueEnd !== undefined ? Math.min(track.cueEnd, fileDuration) : fileDuration;
+};
+
+/**
+ * Write a track's markers as a CUE sheet with one track per marker
+ */
+export const createCueSheet = (track: Track, markers: ChapterMarker[]): string => {
+  const fileName = track.file?.name || `${track.name}.wav`;
+  const fileType = /\.mp3$/i.test(fileName) ? 'MP3' : 'WAVE';
+  const offset = getTrackStart(track);
+  const sorted = [...markers].sort((a, b) => a.timestamp - b.timestamp);
+
+  // The first track has to start at the top, or its pre-gap is lost
+  const entries = sorted.length > 0 && sorted[0].timestamp < 1
+    ? sorted.map(m => ({ title: m.label, time: m.timestamp }))
+    : [{ title: track.name, time: 0 }, ...sorted.map(m => ({ title: m.label, time: m.timestamp }))];
+
+  const lines: string[] = [];
+  if (track.genre) lines.push(`REM GENRE ${quote(track.genre)}`);
+  if (track.year) lines.push(`REM DATE ${track.year}`);
+  if (track.artist) lines.push(`PERFORMER ${quote(track.artist)}`);
+  lines.push(`TITLE ${quote(track.album || track.name)}`);
+  lines.push(`FILE ${quote(fileName)} ${fileType}`);
+  entries.forEach((entry, i) => {
+    lines.push(`  TRACK ${(i + 1).toString().padStart(2, '0')} AUDIO`);
+    lines.push(`    TITLE ${quote(entry.title)}`);
+    if (track.artist) lines.push(`    PERFORMER ${quote(track.artist)}`);
+    lines.push(`    INDEX 01 ${formatCueTime(offset + Math.max(0, entry.time))}`);
+  });
+  return lines.join('\r\n') + '\r\n';
+};
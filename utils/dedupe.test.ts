@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { Track, ChapterMarker, Playlist } from '../types';
+import { getContentHash, findDuplicates, mergeDuplicates } from './dedupe';
+
+const encoder = new TextEncoder();
+const syncsafe = (n: number) => [(n >>> 21) & 0x7f, (n >>> 14) & 0x7f, (n >>> 7) & 0x7f, n & 0x7f];
+
+const AUDIO = new Uint8Array(5000).map((_, i) => (i * 7) & 0xff);
+
+const id3Tag = (title: string): Uint8Array => {
+  const text = [0, ...encoder.encode(title)];
+  const frame = [...encoder.encode('TIT2'), 0, 0, 0, text.length, 0, 0, ...text];
+  return new Uint8Array([...encoder.encode('ID3'), 3, 0, 0, ...syncsafe(frame.length), ...frame]);
+};
+
+const id3v1Tag = (title: string): Uint8Array => {
+  const tag = new Uint8Array(128);
+  tag.set(encoder.encode('TAG'));
+  tag.set(encoder.encode(title), 3);
+  return tag;
+};
+
+// One Ogg page with a single packet; checksums are left at 0
+const oggPage = (granule: number, body: number[]) => {
+  const page = new Uint8Array(28 + body.length);
+  page.set(encoder.encode('OggS'));
+  for (let i = 0; i < 8; i++) page[6 + i] = granule < 0 ? 0xff : (granule / 2 ** (8 * i)) & 0xff;
+  page[26] = 1;
+  page[27] = body.length;
+  page.set(body, 28);
+  return page;
+};
+
+const track = (id: string, fields: Partial<Track> = {}): Track => ({ id, name: 'Song', artist: 'Artist', url: '', type: 'local', ...fields });
+
+describe('getContentHash', () => {
+  it('ignores ID3 tags on either end of the audio', async () => {
+    const plain = await getContentHash(new Blob([AUDIO]));
+    expect(await getContentHash(new Blob([id3Tag('One'), AUDIO]))).toBe(plain);
+    expect(await getContentHash(new Blob([id3Tag('A much longer title'), AUDIO, id3v1Tag('Two')]))).toBe(plain);
+  });
+
+  it('changes with the audio itself', async () => {
+    const changed = AUDIO.slice();
+    changed[100] ^= 1;
+    expect(await getContentHash(new Blob([changed]))).not.toBe(await getContentHash(new Blob([AUDIO])));
+  });
+
+  it('ignores Ogg header pages, including comment pages without a granule position', async () => {
+    const ogg = (comment: string) => new Blob([
+      oggPage(0, [1, ...encoder.encode('vorbis')]),
+      oggPage(-1, [...encoder.encode(comment)]),
+      oggPage(0, [...encoder.encode(`${comment} end`)]),
+      oggPage(4096, [9, 8, 7, 6])
+    ]);
+    expect(await getContentHash(ogg('short'))).toBe(await getContentHash(ogg('a different comment')));
+  });
+});
+
+describe('findDuplicates', () => {
+  it('groups identical audio and suggests the oldest local copy', () => {
+    const groups = findDuplicates([
+      track('new', { contentHash: 'h1', addedAt: 2 }),
+      track('old', { contentHash: 'h1', addedAt: 1 }),
+      track('other', { name: 'Different', contentHash: 'h2' })
+    ]);
+    expect(groups).toEqual([expect.objectContaining({ kind: 'exact', trackIds: ['old', 'new'], keepId: 'old' })]);
+  });
+
+  it('keeps CUE tracks of one file apart', () => {
+    const groups = findDuplicates([
+      track('a', { name: 'A', contentHash: 'h', cueStart: 0, cueEnd: 100 }),
+      track('b', { name: 'B', contentHash: 'h', cueStart: 100 })
+    ]);
+    expect(groups).toEqual([]);
+  });
+
+  it('finds the same recording by tags and duration, preferring local over stream', () => {
+    const groups = findDuplicates([
+      track('stream', { name: 'The Song!', type: 'stream', url: 'https://x.example/song', duration: 181 }),
+      track('flac', { name: 'song', artist: 'ARTIST', duration: 180 }),
+      track('live', { name: 'Song', duration: 420 })
+    ]);
+    expect(groups).toEqual([expect.objectContaining({ kind: 'similar', keepId: 'flac', trackIds: ['flac', 'stream'] })]);
+  });
+
+  it('needs matching durations when there is no artist', () => {
+    const groups = findDuplicates([
+      track('a', { artist: 'Local File' }),
+      track('b', { artist: undefined })
+    ]);
+    expect(groups).toEqual([]);
+  });
+});
+
+describe('mergeDuplicates', () => {
+  const marker = (id: string, trackId: string, timestamp: number): ChapterMarker => ({ id, trackId, timestamp, label: 'Drop' });
+  const playlist = (id: string, trackIds: string[]): Playlist => ({ id, name: id, trackIds, createdAt: 0 });
+
+  it('folds stats, tags, playlists and markers into the kept track', () => {
+    const untouched = playlist('untouched', ['x']);
+    const result = mergeDuplicates({
+      tracks: [
+        track('keep', { playCount: 2, rating: 3, lastPlayedAt: 10, addedAt: 5 }),
+        track('dup', { playCount: 4, rating: 5, lastPlayedAt: 20, addedAt: 1, album: 'Album', lyrics: 'plain words' }),
+        track('x')
+      ],
+      playlists: [playlist('both', ['dup', 'x', 'keep']), playlist('dupOnly', ['dup']), untouched],
+      markers: [marker('m1', 'keep', 30), marker('m2', 'dup', 30), marker('m3', 'dup', 60)],
+      loops: []
+    }, 'keep', ['keep', 'dup']);
+
+    expect(result.removed.map(t => t.id)).toEqual(['dup']);
+    expect(result.tracks.map(t => t.id)).toEqual(['keep', 'x']);
+    expect(result.tracks[0]).toMatchObject({ playCount: 6, rating: 5, lastPlayedAt: 20, addedAt: 1, album: 'Album', lyrics: 'plain words' });
+    expect(result.playlists.map(p => p.trackIds)).toEqual([['x', 'keep'], ['keep'], ['x']]);
+    expect(result.playlists[2]).toBe(untouched);
+    expect(result.markers.map(m => [m.id, m.trackId])).toEqual([['m1', 'keep'], ['m3', 'keep']]);
+  });
+
+  it('does not move synced lyrics from a duplicate', () => {
+    const result = mergeDuplicates({
+      tracks: [track('keep'), track('dup', { lyrics: '[00:01.00]timed' })],
+      playlists: [],
+      markers: [],
+      loops: []
+    }, 'keep', ['dup']);
+    expect(result.tracks[0].lyrics).toBeUndefined();
+  });
+});
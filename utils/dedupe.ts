@@ -0,0 +1,368 @@
+// Duplicate detection: content hashes of the audio payload (tags stripped) find exact copies,
+// matching tags and durations find the same recording in another encoding or as a stream
+import { Track, ChapterMarker, SavedLoop } from '../types';
+import { readBytes, ascii, uint32BE, uint32LE, uint24BE, concatBytes, readID3v2Tag } from './metadata';
+import { isSyncedLyrics } from './lyrics';
+import { LibrarySnapshot } from './backup';
+
+const HASH_CHUNK_SIZE = 4 * 1024 * 1024;
+const OGG_WINDOW_SIZE = 1024 * 1024;
+const DURATION_TOLERANCE = 3; // Seconds; encoders pad the start and end differently
+const PLACEHOLDER_ARTISTS = ['local file', 'network stream', 'unknown artist'];
+
+export type DuplicateKind = 'exact' | 'similar';
+
+export interface DuplicateGroup {
+  id: string;
+  kind: DuplicateKind;
+  trackIds: string[];
+  keepId: string; // Suggested copy to keep
+}
+
+export interface MergeResult extends LibrarySnapshot {
+  removed: Track[];
+}
+
+// --- Content Hash ---
+
+type ByteRange = [number, number];
+
+// ID3v1 and APEv2 tags sit after the audio, in either order
+const getTrailingTagStart = async (file: Blob, end: number): Promise<number> => {
+  for (let pass = 0; pass < 2; pass++) {
+    if (end >= 128 && ascii(await readBytes(file, end - 128, 3), 0, 3) === 'TAG') {
+      end -= 128;
+    }
+    if (end >= 32) {
+      const footer = await readBytes(file, end - 32, 32);
+      if (ascii(footer, 0, 8) === 'APETAGEX') {
+        const hasHeader = (uint32LE(footer, 20) & 0x80000000) !== 0;
+        end -= uint32LE(footer, 12) + (hasHeader ? 32 : 0);
+      }
+    }
+  }
+  return Math.max(0, end);
+};
+
+// FLAC metadata blocks (comments, pictures, padding) come before the first audio frame
+const getFlacAudioStart = async (file: Blob, start: number): Promise<number> => {
+  let offset = start + 4;
+  let isLast = false;
+  while (!isLast && offset + 4 <= file.size) {
+    const header = await readBytes(file, offset, 4);
+    isLast = (header[0] & 0x80) !== 0;
+    offset += 4 + uint24BE(header, 1);
+  }
+  return offset;
+};
+
+/**
+ * Ogg page bodies after the header packets. Page headers are left out: rewriting the
+ * comment header repaginates and renumbers every page, which changes their checksums.
+ */
+const getOggAudioRanges = async (file: Blob): Promise<ByteRange[]> => {
+  const ranges: ByteRange[] = [];
+  let window = new Uint8Array(0);
+  let windowStart = 0;
+  // Pages are a few KB; reading them one at a time would take thousands of reads
+  const bytesAt = async (offset: number, length: number) => {
+    if (offset < windowStart || offset + length > windowStart + window.length) {
+      window = await readBytes(file, offset, Math.max(length, OGG_WINDOW_SIZE));
+      windowStart = offset;
+    }
+    return window.subarray(offset - windowStart, offset - windowStart + length);
+  };
+
+  let offset = 0;
+  let inAudio = false;
+  while (offset + 27 <= file.size) {
+    const header = await bytesAt(offset, 27);
+    if (ascii(header, 0, 4) !== 'OggS') break;
+    // Header packets end on a page with granule position 0; audio starts on a fresh page.
+    // A long comment header (cover art) spans pages with granule -1, which are still headers.
+    if (!inAudio) {
+      const granule = header.subarray(6, 14);
+      inAudio = granule.some(byte => byte !== 0) && granule.some(byte => byte !== 0xff);
+    }
+    const segmentCount = header[26];
+    const segments = await bytesAt(offset + 27, segmentCount);
+    const bodyStart = offset + 27 + segmentCount;
+    const bodyEnd = bodyStart + segments.reduce((sum, s) => sum + s, 0);
+    if (inAudio) ranges.push([bodyStart, Math.min(bodyEnd, file.size)]);
+    offset = bodyEnd;
+  }
+  return ranges;
+};
+
+// Tags live in 'moov'; the media data is in 'mdat'
+const getMp4AudioRanges = async (file: Blob): Promise<ByteRange[]> => {
+  const ranges: ByteRange[] = [];
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const header = await readBytes(file, offset, 16);
+    let size = uint32BE(header, 0);
+    let headerSize = 8;
+    if (size === 1) {
+      size = uint32BE(header, 8) * 2 ** 32 + uint32BE(header, 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = file.size - offset;
+    }
+    if (size < headerSize) break;
+    if (ascii(header, 4, 4) === 'mdat') ranges.push([offset + headerSize, Math.min(offset + size, file.size)]);
+    offset += size;
+  }
+  return ranges;
+};
+
+const getAudioRanges = async (file: Blob): Promise<ByteRange[]> => {
+  const head = await readBytes(file, 0, 12);
+  if (ascii(head, 0, 4) === 'OggS') return getOggAudioRanges(file);
+  if (ascii(head, 4, 4) === 'ftyp') return getMp4AudioRanges(file);
+
+  // MP3, WAV, AAC, or FLAC with a leading ID3 tag
+  let start = (await readID3v2Tag(file))?.audioStart ?? 0;
+  if (ascii(await readBytes(file, start, 4), 0, 4) === 'fLaC') {
+    start = await getFlacAudioStart(file, start);
+  }
+  return [[start, await getTrailingTagStart(file, file.size)]];
+};
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Hash of the audio payload with tags stripped, so retagging a file keeps its hash.
+ * Formats without recognisable tag blocks fall back to hashing the whole file.
+ */
+export const getContentHash = async (file: Blob): Promise<string> => {
+  let payload: Blob = file;
+  try {
+    const ranges = (await getAudioRanges(file)).filter(([start, end]) => end > start);
+    if (ranges.length > 0) payload = new Blob(ranges.map(([start, end]) => file.slice(start, end)));
+  } catch (error) {
+    console.warn('[Dedupe] Could not locate audio data, hashing the whole file:', error);
+  }
+
+  // WebCrypto can't hash incrementally: hash fixed-size chunks, then the list of chunk hashes
+  const digests: Uint8Array[] = [];
+  for (let offset = 0; offset < payload.size; offset += HASH_CHUNK_SIZE) {
+    const chunk = await payload.slice(offset, offset + HASH_CHUNK_SIZE).arrayBuffer();
+    digests.push(new Uint8Array(await crypto.subtle.digest('SHA-256', chunk)));
+  }
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', concatBytes(digests)));
+  return toHex(digest.slice(0, 16));
+};
+
+/**
+ * Hash files one after another, so only one chunk is in memory at a time
+ * @returns hashes by file; files that can't be read are left out
+ */
+export const hashFiles = async (
+  files: File[],
+  onProgress?: (done: number, total: number) => void
+): Promise<Map<File, string>> => {
+  const hashes = new Map<File, string>();
+  for (const [index, file] of files.entries()) {
+    onProgress?.(index, files.length);
+    try {
+      hashes.set(file, await getContentHash(file));
+    } catch (error) {
+      console.error(`[Dedupe] Failed to hash ${file.name}:`, error);
+    }
+  }
+  onProgress?.(files.length, files.length);
+  return hashes;
+};
+
+/**
+ * Hash every track that has a file but no hash yet. Tracks split from one file share its hash.
+ * @returns the new hashes by track id
+ */
+export const hashTracks = async (
+  tracks: Track[],
+  onProgress?: (done: number, total: number) => void
+): Promise<Map<string, string>> => {
+  const pending = tracks.filter(t => t.type === 'local' && t.file && !t.contentHash);
+  const hashes = await hashFiles([...new Set(pending.map(t => t.file!))], onProgress);
+  return new Map(pending
+    .filter(t => hashes.has(t.file!))
+    .map(t => [t.id, hashes.get(t.file!)!]));
+};
+
+// --- Finding Duplicates ---
+
+const normalize = (value: string): string => value
+  .toLowerCase()
+  .normalize('NFKD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .replace(/[^\p{L}\p{N}]+/gu, ' ')
+  .trim()
+  .replace(/^the /, '');
+
+const getNormalizedArtist = (track: Track): string => {
+  const artist = normalize(track.artist || track.albumArtist || '');
+  return PLACEHOLDER_ARTISTS.includes(artist) ? '' : artist;
+};
+
+// Identical audio: the same payload (and the same CUE span of it), or the same stream URL
+const getExactKey = (track: Track): string | null => {
+  if (track.type === 'stream') return `url:${track.url.trim().replace(/\/+$/, '').toLowerCase()}`;
+  if (!track.contentHash) return null;
+  return `hash:${track.contentHash}:${track.cueStart ?? ''}:${track.cueEnd ?? ''}`;
+};
+
+// Split a list of tracks with matching tags into runs of close durations
+const clusterByDuration = (tracks: Track[]): Track[][] => {
+  const timed = tracks.filter(t => t.duration).sort((a, b) => a.duration! - b.duration!);
+  const untimed = tracks.filter(t => !t.duration);
+  const clusters: Track[][] = [];
+  for (const track of timed) {
+    const last = clusters[clusters.length - 1];
+    if (last && track.duration! - last[last.length - 1].duration! <= DURATION_TOLERANCE) last.push(track);
+    else clusters.push([track]);
+  }
+  // A track of unknown length (usually a stream) only joins an unambiguous match
+  if (clusters.length === 1) clusters[0].push(...untimed);
+  else if (clusters.length === 0 && untimed.length > 1) clusters.push(untimed);
+  return clusters;
+};
+
+// Local beats stream; the original copy beats later ones; for other encodings, the bigger file
+const compareKeepers = (kind: DuplicateKind) => (a: Track, b: Track): number => {
+  if (a.type !== b.type) return a.type === 'local' ? -1 : 1;
+  if (kind === 'similar' && a.file && b.file && a.file.size !== b.file.size) return b.file.size - a.file.size;
+  return (a.addedAt ?? 0) - (b.addedAt ?? 0);
+};
+
+const createGroup = (kind: DuplicateKind, tracks: Track[]): DuplicateGroup => {
+  const ids = [...tracks].sort(compareKeepers(kind)).map(t => t.id);
+  return { id: `${kind}:${[...ids].sort().join(',')}`, kind, trackIds: ids, keepId: ids[0] };
+};
+
+/**
+ * Exact duplicates, then tracks that look like the same recording: same title and
+ * artist, durations within a few seconds. Tracks without a content hash only take
+ * part in the second kind.
+ */
+export const findDuplicates = (tracks: Track[]): DuplicateGroup[] => {
+  const groups: DuplicateGroup[] = [];
+
+  const byKey = new Map<string, Track[]>();
+  tracks.forEach(track => {
+    const key = getExactKey(track);
+    if (key) byKey.set(key, [...(byKey.get(key) ?? []), track]);
+  });
+  const exactGroupOf = new Map<string, string>();
+  byKey.forEach(group => {
+    if (group.length < 2) return;
+    const duplicate = createGroup('exact', group);
+    groups.push(duplicate);
+    group.forEach(track => exactGroupOf.set(track.id, duplicate.id));
+  });
+
+  const byTags = new Map<string, Track[]>();
+  tracks.forEach(track => {
+    const title = normalize(track.name);
+    if (!title) return;
+    const key = `${getNormalizedArtist(track)}|${title}`;
+    byTags.set(key, [...(byTags.get(key) ?? []), track]);
+  });
+  byTags.forEach((candidates, key) => {
+    if (candidates.length < 2) return;
+    // Without an artist the title alone is too weak; insist on matching lengths
+    const pool = key.startsWith('|') ? candidates.filter(t => t.duration) : candidates;
+    for (const cluster of clusterByDuration(pool)) {
+      // Nothing to add if the copies already form one exact group
+      const exactIds = new Set(cluster.map(t => exactGroupOf.get(t.id) ?? t.id));
+      if (cluster.length < 2 || exactIds.size < 2) continue;
+      groups.push(createGroup('similar', cluster));
+    }
+  });
+
+  return groups;
+};
+
+// --- Merging ---
+
+/**
+ * Fold duplicates into the track being kept. Play counts add up, the best rating and
+ * latest play win, and tags the kept copy lacks are filled in from the others.
+ */
+const mergeTrackDetails = (keep: Track, duplicates: Track[]): Track => {
+  const copies = [keep, ...duplicates];
+  const known = (values: (number | undefined)[]) => values.filter((value): value is number => value !== undefined);
+  const fill = <K extends keyof Track>(key: K): Track[K] => copies.find(t => t[key] !== undefined)?.[key] as Track[K];
+  const playCounts = known(copies.map(t => t.playCount));
+  const ratings = known(copies.map(t => t.rating));
+  const lastPlayed = known(copies.map(t => t.lastPlayedAt));
+  const added = known(copies.map(t => t.addedAt));
+  // Synced lyrics are timed against their own copy; only plain ones are safe to move
+  const plainLyrics = duplicates.find(t => t.lyrics && !isSyncedLyrics(t.lyrics))?.lyrics;
+
+  return {
+    ...keep,
+    album: fill('album'),
+    albumArtist: fill('albumArtist'),
+    year: fill('year'),
+    genre: fill('genre'),
+    coverArtUrl: fill('coverArtUrl'),
+    lyrics: keep.lyrics ?? plainLyrics,
+    playCount: playCounts.length > 0 ? playCounts.reduce((sum, count) => sum + count, 0) : undefined,
+    rating: ratings.length > 0 ? Math.max(...ratings) : undefined,
+    lastPlayedAt: lastPlayed.length > 0 ? Math.max(...lastPlayed) : undefined,
+    addedAt: added.length > 0 ? Math.min(...added) : undefined
+  };
+};
+
+const isSameMark = (a: ChapterMarker | SavedLoop, b: ChapterMarker | SavedLoop): boolean => {
+  if ('kind' in a && 'kind' in b) return a.start === b.start && a.end === b.end;
+  return 'timestamp' in a && 'timestamp' in b && a.timestamp === b.timestamp && a.label === b.label;
+};
+
+// Point marks at the kept track, dropping any it already has
+const moveMarks = <T extends ChapterMarker | SavedLoop>(marks: T[], keepId: string, duplicateIds: Set<string>): T[] => {
+  const result = marks.filter(mark => !duplicateIds.has(mark.trackId));
+  for (const mark of marks.filter(m => duplicateIds.has(m.trackId))) {
+    const moved = { ...mark, trackId: keepId };
+    if (!result.some(existing => existing.trackId === keepId && isSameMark(existing, moved))) result.push(moved);
+  }
+  return result;
+};
+
+/**
+ * Replace duplicates with the kept track everywhere: playlists, markers and saved loops
+ * from every copy end up on it. Records that don't change keep their identity.
+ */
+export const mergeDuplicates = (library: LibrarySnapshot, keepId: string, duplicateIds: string[]): MergeResult => {
+  const removedIds = new Set(duplicateIds.filter(id => id !== keepId));
+  const keep = library.tracks.find(t => t.id === keepId);
+  const removed = library.tracks.filter(t => removedIds.has(t.id));
+  if (!keep || removed.length === 0) return { ...library, removed: [] };
+
+  const merged = mergeTrackDetails(keep, removed);
+  const tracks = library.tracks
+    .filter(t => !removedIds.has(t.id))
+    .map(t => t.id === keepId ? merged : t);
+
+  const playlists = library.playlists.map(playlist => {
+    if (!playlist.trackIds.some(id => removedIds.has(id))) return playlist;
+    // A playlist that held several copies ends up with the kept one once
+    let hasKeep = playlist.trackIds.includes(keepId);
+    const trackIds = playlist.trackIds.flatMap(id => {
+      if (!removedIds.has(id)) return [id];
+      if (hasKeep) return [];
+      hasKeep = true;
+      return [keepId];
+    });
+    return { ...playlist, trackIds };
+  });
+
+  const hasMarks = (marks: (ChapterMarker | SavedLoop)[]) => marks.some(mark => removedIds.has(mark.trackId));
+  return {
+    tracks,
+    playlists,
+    markers: hasMarks(library.markers) ? moveMarks(library.markers, keepId, removedIds) : library.markers,
+    loops: hasMarks(library.loops) ? moveMarks(library.loops, keepId, removedIds) : library.loops,
+    removed
+  };
+};
@@ -0,0 +1,52 @@
+// Helpers for handing generated files back to the user
+
+// The save picker isn't in the DOM lib this project targets
+type SaveFilePickerWindow = typeof window & {
+  showSaveFilePicker: (options: { suggestedName?: string }) => Promise<FileSystemFileHandle>;
+};
+
+/**
+ * Trigger a browser download for a Blob
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Check for the File System Access API save picker
+ */
+export const supportsSaveFilePicker = (): boolean => {
+  return typeof window !== 'undefined' && 'showSaveFilePicker' in window;
+};
+
+/**
+ * Write a Blob to disk through the File System Access API,
+ * falling back to a regular download in browsers without it.
+ * @returns false if the user cancelled the save dialog
+ */
+export const saveBlobToDisk = async (blob: Blob, suggestedName: string): Promise<boolean> => {
+  if (!supportsSaveFilePicker()) {
+    downloadBlob(blob, suggestedName);
+    return true;
+  }
+
+  try {
+    const handle = await (window as SaveFilePickerWindow).showSaveFilePicker({ suggestedName });
+    const writable = await handle.createWritable();
+    await writable.write(blob);
+    await writable.close();
+    return true;
+  } catch (error) {
+    if ((error as DOMException).name === 'AbortError') return false;
+    console.error('[Download] Failed to write file:', error);
+    throw error;
+  }
+};
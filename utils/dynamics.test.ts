@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_DYNAMICS, NIGHT_MODE_COMPRESSOR, getEffectiveDynamics } from './dynamics';
+
+describe('getEffectiveDynamics', () => {
+  it('applies the saved settings as they are outside night mode', () => {
+    expect(getEffectiveDynamics(DEFAULT_DYNAMICS)).toBe(DEFAULT_DYNAMICS);
+    expect(DEFAULT_DYNAMICS).toMatchObject({ compressorEnabled: false, limiterEnabled: false });
+  });
+
+  it('swaps in the night mode compressor and forces the limiter on', () => {
+    const settings = { ...DEFAULT_DYNAMICS, nightMode: true, limiterCeiling: -1 };
+    expect(getEffectiveDynamics(settings)).toEqual({
+      ...settings,
+      compressorEnabled: true,
+      compressor: NIGHT_MODE_COMPRESSOR,
+      limiterEnabled: true
+    });
+  });
+});
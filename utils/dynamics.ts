@@ -0,0 +1,145 @@
+// Dynamics stage: compressor, brickwall limiter and night mode
+import { CompressorSettings, DynamicsSettings } from '../types';
+import { dbToGain } from './loudness';
+
+export const DEFAULT_COMPRESSOR: CompressorSettings = {
+  threshold: -24,
+  ratio: 4,
+  attack: 0.01,
+  release: 0.25,
+  knee: 6,
+  makeupGain: 0
+};
+
+export const DEFAULT_DYNAMICS: DynamicsSettings = {
+  compressorEnabled: false,
+  compressor: DEFAULT_COMPRESSOR,
+  limiterEnabled: false,
+  limiterCeiling: -0.5,
+  nightMode: false
+};
+
+// Heavy, fast compression: quiet passages come up, explosions and drops come down.
+// DynamicsCompressorNode adds its own automatic makeup gain, so no extra is needed.
+export const NIGHT_MODE_COMPRESSOR: CompressorSettings = {
+  threshold: -40,
+  ratio: 8,
+  attack: 0.003,
+  release: 0.3,
+  knee: 10,
+  makeupGain: 0
+};
+
+// Slider ranges, matching what DynamicsCompressorNode accepts
+export const COMPRESSOR_RANGES: Record<keyof CompressorSettings, { min: number; max: number; step: number }> = {
+  threshold: { min: -60, max: 0, step: 1 },
+  ratio: { min: 1, max: 20, step: 0.5 },
+  attack: { min: 0, max: 0.2, step: 0.001 },
+  release: { min: 0.01, max: 1, step: 0.01 },
+  knee: { min: 0, max: 40, step: 1 },
+  makeupGain: { min: -24, max: 12, step: 0.5 } // On top of the node's automatic makeup
+};
+
+const LIMITER_RELEASE = 0.05;
+const CLIPPER_CURVE_SIZE = 4096;
+const BYPASS_RAMP = 0.02;
+
+/**
+ * The settings actually applied: night mode overrides the compressor and forces the limiter on
+ */
+export const getEffectiveDynamics = (settings: DynamicsSettings) => {
+  if (!settings.nightMode) return settings;
+  return { ...settings, compressorEnabled: true, compressor: NIGHT_MODE_COMPRESSOR, limiterEnabled: true };
+};
+
+export interface DynamicsChain {
+  input: GainNode;
+  output: GainNode;
+  apply: (settings: DynamicsSettings) => void;
+}
+
+// Hard clip at the ceiling to catch what the limiter's attack lets through
+const createClipperCurve = (ceilingDb: number): Float32Array => {
+  const ceiling = dbToGain(ceilingDb);
+  const curve = new Float32Array(CLIPPER_CURVE_SIZE);
+  for (let i = 0; i < CLIPPER_CURVE_SIZE; i++) {
+    const x = (i / (CLIPPER_CURVE_SIZE - 1)) * 2 - 1;
+    curve[i] = Math.max(-ceiling, Math.min(ceiling, x));
+  }
+  return curve;
+};
+
+/**
+ * Build the compressor and limiter. Each has a wet and a dry path that are crossfaded
+ * on toggle, so nothing has to be reconnected at runtime:
+ *
+ *   input -> [compressor -> makeup | dry] -> [limiter -> clipper | dry] -> output
+ */
+export const createDynamicsChain = (ctx: BaseAudioContext, settings: DynamicsSettings): DynamicsChain => {
+  const input = ctx.createGain();
+  const middle = ctx.createGain();
+  const output = ctx.createGain();
+
+  const compressor = ctx.createDynamicsCompressor();
+  const makeup = ctx.createGain();
+  const compressorWet = ctx.createGain();
+  const compressorDry = ctx.createGain();
+  input.connect(compressor);
+  compressor.connect(makeup);
+  makeup.connect(compressorWet);
+  compressorWet.connect(middle);
+  input.connect(compressorDry);
+  compressorDry.connect(middle);
+
+  const limiter = ctx.createDynamicsCompressor();
+  limiter.knee.value = 0;
+  limiter.ratio.value = 20;
+  limiter.attack.value = 0;
+  limiter.release.value = LIMITER_RELEASE;
+  const clipper = ctx.createWaveShaper();
+  clipper.oversample = '2x';
+  const limiterWet = ctx.createGain();
+  const limiterDry = ctx.createGain();
+  middle.connect(limiter);
+  limiter.connect(clipper);
+  clipper.connect(limiterWet);
+  limiterWet.connect(output);
+  middle.connect(limiterDry);
+  limiterDry.connect(output);
+
+  let clipperCeiling: number | null = null;
+
+  // Ramp between paths, except on the first call where both still sit at unity
+  let isInitialized = false;
+  const setGain = (node: GainNode, value: number) => {
+    if (isInitialized) node.gain.setTargetAtTime(value, ctx.currentTime, BYPASS_RAMP);
+    else node.gain.value = value;
+  };
+  const setBypass = (wet: GainNode, dry: GainNode, enabled: boolean) => {
+    setGain(wet, enabled ? 1 : 0);
+    setGain(dry, enabled ? 0 : 1);
+  };
+
+  const apply = (settings: DynamicsSettings) => {
+    const effective = getEffectiveDynamics(settings);
+    const { threshold, ratio, attack, release, knee, makeupGain } = effective.compressor;
+    compressor.threshold.value = threshold;
+    compressor.ratio.value = ratio;
+    compressor.attack.value = attack;
+    compressor.release.value = release;
+    compressor.knee.value = knee;
+    setGain(makeup, dbToGain(makeupGain));
+    setBypass(compressorWet, compressorDry, effective.compressorEnabled);
+
+    limiter.threshold.value = effective.limiterCeiling;
+    if (clipperCeiling !== effective.limiterCeiling) {
+      clipper.curve = createClipperCurve(effective.limiterCeiling);
+      clipperCeiling = effective.limiterCeiling;
+    }
+    setBypass(limiterWet, limiterDry, effective.limiterEnabled);
+    isInitialized = true;
+  };
+
+  apply(settings);
+  return { input, output, apply };
+};
@@ -0,0 +1,24 @@
+// Building blocks shared by the effects chain units
+
+/**
+ * A self-contained piece of the chain. Its internal nodes stay wired; the graph
+ * only ever connects to `input` and from `output`.
+ */
+export interface EffectUnit<P> {
+  input: AudioNode;
+  output: AudioNode;
+  apply: (params: P) => void;
+}
+
+const PARAM_RAMP = 0.02;
+
+// Ramp parameter changes so they don't click, except on a unit's first apply
+export const createParamSetter = (ctx: BaseAudioContext) => {
+  let isInitialized = false;
+  const set = (param: AudioParam, value: number) => {
+    if (isInitialized) param.setTargetAtTime(value, ctx.currentTime, PARAM_RAMP);
+    else param.value = value;
+  };
+  const markInitialized = () => { isInitialized = true; };
+  return { set, markInitialized };
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { parseEQProfile, formatEQProfile } from './eqProfiles';
+import { EQ_FREQUENCIES } from './equalizer';
+
+const PARAMETRIC = [
+  'Preamp: -6.2 dB',
+  'Filter 1: ON LSC Fc 105 Hz Gain 5,5 dB Q 0.70',
+  'Filter 2: ON PK Fc 2000 Hz Gain -3.1 dB Q 1.41',
+  'Filter 3: OFF PK Fc 3000 Hz Gain 4.0 dB Q 2.00',
+  'Filter 4: ON PK Fc 6000 Hz Gain 2.0 dB BW Oct 1',
+  'Filter 5: ON XX Fc 8000 Hz Gain 1.0 dB Q 1.00'
+].join('\r\n');
+
+describe('parseEQProfile', () => {
+  it('reads ParametricEQ.txt filters and the pre-amp', () => {
+    const preset = parseEQProfile(PARAMETRIC);
+    expect(preset.preamp).toBe(-6.2);
+    expect(preset.bands.map(({ type, frequency, gain }) => ({ type, frequency, gain }))).toEqual([
+      { type: 'lowshelf', frequency: 105, gain: 5.5 },
+      { type: 'peaking', frequency: 2000, gain: -3.1 },
+      { type: 'peaking', frequency: 6000, gain: 2 }
+    ]);
+    expect(preset.bands[2].q).toBeCloseTo(1.414, 2);
+  });
+
+  it('rejects text without usable filters', () => {
+    expect(() => parseEQProfile('Preamp: -3 dB')).toThrow('No supported filters');
+  });
+
+  it('fits the graphic sliders so overlapping bands add up to a flat curve', () => {
+    const preset = parseEQProfile('GraphicEQ: 20 -6; 1000 -6; 20000 -6');
+    expect(preset.bands.map(band => band.frequency)).toEqual(EQ_FREQUENCIES);
+    // Sampling the curve directly would set every slider to -6 and cut far more than 6 dB
+    expect(Math.min(...preset.bands.map(band => band.gain))).toBeGreaterThan(-6);
+    expect(preset.preamp).toBe(0);
+  });
+
+  it('offsets boosts left in a GraphicEQ curve with the pre-amp', () => {
+    const preset = parseEQProfile('GraphicEQ: 20 0; 500 0; 1000 4; 2000 0; 20000 0');
+    const boost = Math.max(...preset.bands.map(band => band.gain));
+    expect(boost).toBeGreaterThan(0);
+    expect(preset.preamp).toBe(-boost);
+  });
+});
+
+describe('formatEQProfile', () => {
+  it('writes shelves with the Q of the Web Audio shelf slope', () => {
+    const text = formatEQProfile({
+      preamp: -2,
+      bands: [
+        { id: 'a', type: 'lowshelf', frequency: 100, gain: 3, q: 4 },
+        { id: 'b', type: 'peaking', frequency: 1000, gain: -1.5, q: 2 },
+        { id: 'c', type: 'highpass', frequency: 30, gain: 0, q: 0.5 }
+      ]
+    });
+    expect(text).toBe([
+      'Preamp: -2.0 dB',
+      'Filter 1: ON LSC Fc 100 Hz Gain 3.0 dB Q 0.71',
+      'Filter 2: ON PK Fc 1000 Hz Gain -1.5 dB Q 2.00',
+      'Filter 3: ON HPQ Fc 30 Hz Q 0.50',
+      ''
+    ].join('\n'));
+  });
+
+  it('round-trips through the parser', () => {
+    const preset = parseEQProfile(formatEQProfile(parseEQProfile(PARAMETRIC)));
+    expect(preset.bands).toHaveLength(3);
+    expect(preset.preamp).toBe(-6.2);
+  });
+});
@@ -0,0 +1,182 @@
+// Headphone correction profiles in EqualizerAPO text format (ParametricEQ.txt / AutoEQ GraphicEQ)
+import { EQBand, EQFilterType, EQPreset } from '../types';
+import { EQ_FREQUENCIES, DEFAULT_Q, MAX_EQ_BANDS, MAX_EQ_GAIN, createEQBand } from './equalizer';
+
+// APO filter codes. Web Audio shelves have a fixed slope, so LSC/HSC lose their Q on import
+// and are exported with the Q that slope corresponds to.
+const APO_FILTER_TYPES: Record<string, EQFilterType> = {
+  PK: 'peaking',
+  PEQ: 'peaking',
+  MODAL: 'peaking',
+  LS: 'lowshelf',
+  LSC: 'lowshelf',
+  HS: 'highshelf',
+  HSC: 'highshelf',
+  LP: 'lowpass',
+  LPQ: 'lowpass',
+  HP: 'highpass',
+  HPQ: 'highpass',
+  NO: 'notch'
+};
+
+const EXPORT_CODES: Record<EQFilterType, string> = {
+  peaking: 'PK',
+  lowshelf: 'LSC',
+  highshelf: 'HSC',
+  lowpass: 'LPQ',
+  highpass: 'HPQ',
+  notch: 'NO'
+};
+
+// Q of a Butterworth-style 2nd order filter, used when APO omits it. A shelf at this Q
+// has the same slope as a Web Audio shelf (S = 1).
+const BUTTERWORTH_Q = 0.7071;
+
+// Rounds of correction when fitting graphic sliders to a GraphicEQ curve
+const FIT_ITERATIONS = 50;
+const FIT_SAMPLE_RATE = 48000;
+
+const parseNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined) return undefined;
+  const number = parseFloat(value.replace(',', '.'));
+  return isFinite(number) ? number : undefined;
+};
+
+// "BW Oct 1.5" style bandwidth to Q
+const bandwidthToQ = (octaves: number): number => {
+  const ratio = Math.pow(2, octaves);
+  return Math.sqrt(ratio) / (ratio - 1);
+};
+
+const parseFilterLine = (line: string): EQBand | null => {
+  // Filter 1: ON PK Fc 105 Hz Gain 5.5 dB Q 0.70
+  const match = line.match(/^Filter\s*\d*\s*:\s*(ON|OFF)\s+([A-Z]+)\s+(.*)$/i);
+  if (!match || match[1].toUpperCase() === 'OFF') return null;
+
+  const type = APO_FILTER_TYPES[match[2].toUpperCase()];
+  if (!type) {
+    console.warn(`[EQ Profile] Unsupported filter type "${match[2]}", skipping`);
+    return null;
+  }
+
+  const params = match[3];
+  const frequency = parseNumber(params.match(/Fc\s+([-\d.,]+)/i)?.[1]);
+  if (!frequency || frequency <= 0) return null;
+  const gain = parseNumber(params.match(/Gain\s+([-+\d.,]+)/i)?.[1]) ?? 0;
+  const bandwidth = parseNumber(params.match(/BW\s+Oct\s+([\d.,]+)/i)?.[1]);
+  const q = parseNumber(params.match(/\bQ\s+([\d.,]+)/i)?.[1])
+    ?? (bandwidth ? bandwidthToQ(bandwidth) : type === 'peaking' ? DEFAULT_Q : BUTTERWORTH_Q);
+
+  return createEQBand(frequency, gain, type, q);
+};
+
+// Log-frequency interpolation of a GraphicEQ curve
+const interpolateCurve = (points: [number, number][], frequency: number): number => {
+  if (frequency <= points[0][0]) return points[0][1];
+  const last = points[points.length - 1];
+  if (frequency >= last[0]) return last[1];
+  const upper = points.findIndex(([f]) => f >= frequency);
+  const [f0, g0] = points[upper - 1];
+  const [f1, g1] = points[upper];
+  const t = Math.log(frequency / f0) / Math.log(f1 / f0);
+  return g0 + (g1 - g0) * t;
+};
+
+// Magnitude in dB of a peaking biquad, using the same (RBJ cookbook) design as Web Audio
+const peakingResponse = (band: EQBand, frequency: number): number => {
+  const w0 = (2 * Math.PI * band.frequency) / FIT_SAMPLE_RATE;
+  const w = (2 * Math.PI * frequency) / FIT_SAMPLE_RATE;
+  const A = Math.pow(10, band.gain / 40);
+  const alpha = Math.sin(w0) / (2 * band.q);
+  const cos0 = Math.cos(w0);
+  const [b0, b1, b2] = [1 + alpha * A, -2 * cos0, 1 - alpha * A];
+  const [a0, a1, a2] = [1 + alpha / A, -2 * cos0, 1 - alpha / A];
+  // |H(e^jw)|^2 from the real and imaginary parts of numerator and denominator
+  const magnitude = (c0: number, c1: number, c2: number) => {
+    const re = c0 + c1 * Math.cos(w) + c2 * Math.cos(2 * w);
+    const im = -c1 * Math.sin(w) - c2 * Math.sin(2 * w);
+    return re * re + im * im;
+  };
+  return 10 * Math.log10(magnitude(b0, b1, b2) / magnitude(a0, a1, a2));
+};
+
+/**
+ * GraphicEQ curves are fitted onto the 10 graphic sliders. Neighbouring sliders overlap,
+ * so their gains are corrected against the combined response until it matches the curve
+ * at each slider. AutoEQ normalizes curves so they rarely boost, but any boost left is
+ * offset by the pre-amp.
+ */
+const parseGraphicEQ = (line: string): EQPreset => {
+  const points = line
+    .replace(/^GraphicEQ\s*:/i, '')
+    .split(';')
+    .map(pair => pair.trim().split(/\s+/).map(v => parseNumber(v)))
+    .filter((pair): pair is [number, number] => pair.length === 2 && pair[0] !== undefined && pair[1] !== undefined && pair[0] > 0)
+    .sort((a, b) => a[0] - b[0]);
+  if (points.length === 0) throw new Error('GraphicEQ line has no frequency/gain pairs');
+
+  const clampGain = (gain: number) => Math.max(-MAX_EQ_GAIN, Math.min(MAX_EQ_GAIN, gain));
+  const targets = EQ_FREQUENCIES.map(f => interpolateCurve(points, f));
+  const bands = EQ_FREQUENCIES.map((f, i) => createEQBand(f, clampGain(targets[i])));
+  for (let round = 0; round < FIT_ITERATIONS; round++) {
+    const response = EQ_FREQUENCIES.map(f => bands.reduce((sum, band) => sum + peakingResponse(band, f), 0));
+    // Half steps keep the correction from oscillating between overlapping sliders
+    bands.forEach((band, i) => {
+      band.gain = clampGain(band.gain + (targets[i] - response[i]) / 2);
+    });
+  }
+  bands.forEach(band => { band.gain = Math.round(band.gain * 2) / 2 || 0; });
+
+  const maxBoost = Math.max(0, ...bands.map(b => b.gain));
+  return { bands, preamp: maxBoost > 0 ? -maxBoost : 0 };
+};
+
+/**
+ * Parse an EqualizerAPO configuration: `Preamp:` plus `Filter n:` lines (ParametricEQ.txt),
+ * or a single `GraphicEQ:` line. Unknown lines are ignored, like APO does.
+ * @throws when the text contains no usable filters
+ */
+export const parseEQProfile = (text: string): EQPreset => {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+
+  const graphicLine = lines.find(line => /^GraphicEQ\s*:/i.test(line));
+  if (graphicLine) return parseGraphicEQ(graphicLine);
+
+  let preamp = 0;
+  const bands: EQBand[] = [];
+  for (const line of lines) {
+    const preampMatch = line.match(/^Preamp\s*:\s*([-+\d.,]+)\s*dB/i);
+    if (preampMatch) {
+      // Multiple Preamp lines add up in APO
+      preamp += parseNumber(preampMatch[1]) ?? 0;
+      continue;
+    }
+    const band = parseFilterLine(line);
+    if (band) bands.push(band);
+  }
+
+  if (bands.length === 0) throw new Error('No supported filters found. Expected "Filter n: ON PK Fc … Hz Gain … dB Q …" lines.');
+  if (bands.length > MAX_EQ_BANDS) {
+    console.warn(`[EQ Profile] Profile has ${bands.length} filters, keeping the first ${MAX_EQ_BANDS}`);
+  }
+  return { bands: bands.slice(0, MAX_EQ_BANDS), preamp };
+};
+
+const formatValue = (value: number, decimals: number) => value.toFixed(decimals);
+
+/**
+ * Write the EQ as an EqualizerAPO ParametricEQ.txt
+ */
+export const formatEQProfile = (preset: EQPreset): string => {
+  const lines = [`Preamp: ${formatValue(preset.preamp, 1)} dB`];
+  preset.bands.forEach((band, i) => {
+    let line = `Filter ${i + 1}: ON ${EXPORT_CODES[band.type]} Fc ${Math.round(band.frequency)} Hz`;
+    if (band.type === 'peaking' || band.type === 'lowshelf' || band.type === 'highshelf') {
+      line += ` Gain ${formatValue(band.gain, 1)} dB`;
+    }
+    const q = band.type === 'lowshelf' || band.type === 'highshelf' ? BUTTERWORTH_Q : band.q;
+    line += ` Q ${formatValue(q, 2)}`;
+    lines.push(line);
+  });
+  return lines.join('\n') + '\n';
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import {
+  EQ_FREQUENCIES, DEFAULT_Q, MIN_EQ_FREQUENCY, MAX_EQ_FREQUENCY,
+  createEQBand, createGraphicBands, normalizeEQBands, normalizeEQPreset, isGraphicLayout, getResponseFrequencies
+} from './equalizer';
+import { parseEQProfile, formatEQProfile } from './eqProfiles';
+
+describe('normalizeEQPreset', () => {
+  it('upgrades a bare band list from before the pre-amp to peaking bands at the default Q', () => {
+    const preset = normalizeEQPreset([{ frequency: 60, gain: 3 }, { frequency: 170 }, { gain: 1 }]);
+    expect(preset?.preamp).toBe(0);
+    expect(preset?.bands.map(({ type, frequency, gain, q }) => ({ type, frequency, gain, q }))).toEqual([
+      { type: 'peaking', frequency: 60, gain: 3, q: DEFAULT_Q },
+      { type: 'peaking', frequency: 170, gain: 0, q: DEFAULT_Q }
+    ]);
+    expect(typeof preset?.bands[0].id).toBe('string');
+  });
+
+  it('keeps current presets and replaces unknown filter types and invalid Q', () => {
+    const preset = normalizeEQPreset({
+      preamp: -4,
+      bands: [{ id: 'x', type: 'notch', frequency: 50, gain: 0, q: 10 }, { id: 'y', type: 'allpass', frequency: 90, gain: 1, q: -1 }]
+    });
+    expect(preset).toEqual({
+      preamp: -4,
+      bands: [{ id: 'x', type: 'notch', frequency: 50, gain: 0, q: 10 }, { id: 'y', type: 'peaking', frequency: 90, gain: 1, q: DEFAULT_Q }]
+    });
+  });
+
+  it('rejects values that are not presets', () => {
+    expect(normalizeEQPreset(null)).toBeNull();
+    expect(normalizeEQPreset('flat')).toBeNull();
+    expect(normalizeEQBands({ frequency: 60 })).toBeNull();
+  });
+});
+
+describe('isGraphicLayout', () => {
+  it('recognises the ten graphic sliders only', () => {
+    const bands = createGraphicBands();
+    expect(bands.map(band => band.frequency)).toEqual(EQ_FREQUENCIES);
+    expect(isGraphicLayout(bands)).toBe(true);
+    expect(isGraphicLayout(bands.map((band, i) => (i === 2 ? { ...band, type: 'lowshelf' as const } : band)))).toBe(false);
+    expect(isGraphicLayout(bands.slice(1))).toBe(false);
+  });
+});
+
+describe('getResponseFrequencies', () => {
+  it('spaces points logarithmically across the audible range', () => {
+    const frequencies = getResponseFrequencies(4);
+    expect(frequencies[0]).toBeCloseTo(MIN_EQ_FREQUENCY, 3);
+    expect(frequencies[3]).toBeCloseTo(MAX_EQ_FREQUENCY, 0);
+    expect(frequencies[1] / frequencies[0]).toBeCloseTo(frequencies[3] / frequencies[2], 3);
+  });
+});
+
+describe('EqualizerAPO round trip', () => {
+  it('keeps the type, frequency, gain and Q of parametric bands', () => {
+    const bands = [
+      createEQBand(32, 4, 'lowshelf'),
+      createEQBand(250, -2.5, 'peaking', 0.8),
+      createEQBand(4000, 3, 'peaking', 2.5),
+      createEQBand(12000, -6, 'highshelf'),
+      createEQBand(25, 0, 'highpass', 0.7),
+      createEQBand(18000, 0, 'lowpass', 0.5),
+      createEQBand(60, 0, 'notch', 8)
+    ];
+    const preset = parseEQProfile(formatEQProfile({ bands, preamp: -4.5 }));
+
+    expect(preset.preamp).toBe(-4.5);
+    expect(preset.bands.map(({ type, frequency, gain }) => ({ type, frequency, gain })))
+      .toEqual(bands.map(({ type, frequency, gain }) => ({ type, frequency, gain })));
+    // Shelves have no Q in Web Audio; every other filter keeps its own
+    preset.bands.forEach((band, i) => {
+      if (!band.type.endsWith('shelf')) expect(band.q).toBeCloseTo(bands[i].q, 2);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+// Equalizer bands: graphic/parametric layouts, preset migration and response curves
+import { EQBand, EQFilterType, EQPreset } from '../types';
+
+// Standard 10-Band EQ Frequencies
+export const EQ_FREQUENCIES = [60, 170, 310, 600, 1000, 3000, 6000, 12000, 14000, 16000];
+export const DEFAULT_Q = 1.4;
+export const MAX_EQ_BANDS = 32;
+export const MAX_EQ_GAIN = 12;
+export const MIN_EQ_PREAMP = -24;
+export const MAX_EQ_PREAMP = 12;
+export const MIN_EQ_FREQUENCY = 20;
+export const MAX_EQ_FREQUENCY = 20000;
+
+export const EQ_FILTER_TYPES: { type: EQFilterType; label: string; hasGain: boolean; hasQ: boolean }[] = [
+  { type: 'peaking', label: 'Peak', hasGain: true, hasQ: true },
+  { type: 'lowshelf', label: 'Low Shelf', hasGain: true, hasQ: false },
+  { type: 'highshelf', label: 'High Shelf', hasGain: true, hasQ: false },
+  { type: 'lowpass', label: 'Low Pass', hasGain: false, hasQ: true },
+  { type: 'highpass', label: 'High Pass', hasGain: false, hasQ: true },
+  { type: 'notch', label: 'Notch', hasGain: false, hasQ: true },
+];
+
+const generateBandId = () => Math.random().toString(36).substr(2, 9);
+
+const isFilterType = (value: unknown): value is EQFilterType => {
+  return EQ_FILTER_TYPES.some(t => t.type === value);
+};
+
+export const createEQBand = (frequency: number, gain = 0, type: EQFilterType = 'peaking', q = DEFAULT_Q): EQBand => {
+  return { id: generateBandId(), type, frequency, gain, q };
+};
+
+export const createGraphicBands = (): EQBand[] => EQ_FREQUENCIES.map(f => createEQBand(f));
+
+/**
+ * Upgrade stored bands to the current shape. Older settings and presets only
+ * have { frequency, gain }, which were always peaking filters at the default Q.
+ * @returns null when the value isn't a band list
+ */
+export const normalizeEQBands = (raw: unknown): EQBand[] | null => {
+  if (!Array.isArray(raw)) return null;
+  return raw
+    .filter(band => band && typeof band.frequency === 'number')
+    .map(band => ({
+      id: typeof band.id === 'string' ? band.id : generateBandId(),
+      type: isFilterType(band.type) ? band.type : 'peaking',
+      frequency: band.frequency,
+      gain: typeof band.gain === 'number' ? band.gain : 0,
+      q: typeof band.q === 'number' && band.q > 0 ? band.q : DEFAULT_Q
+    }));
+};
+
+/**
+ * Presets and saved settings are either a bare band list (before the EQ had a pre-amp)
+ * or { bands, preamp }
+ */
+export const normalizeEQPreset = (raw: unknown): EQPreset | null => {
+  if (Array.isArray(raw)) {
+    const bands = normalizeEQBands(raw);
+    return bands && { bands, preamp: 0 };
+  }
+  if (!raw || typeof raw !== 'object') return null;
+  const { bands, preamp } = raw as { bands?: unknown; preamp?: unknown };
+  const normalized = normalizeEQBands(bands);
+  return normalized && { bands: normalized, preamp: typeof preamp === 'number' ? preamp : 0 };
+};
+
+/**
+ * True when the bands are the classic 10 peaking sliders, so the graphic view can show them
+ */
+export const isGraphicLayout = (bands: EQBand[]): boolean => {
+  return bands.length === EQ_FREQUENCIES.length && bands.every((band, i) =>
+    band.type === 'peaking' && band.frequency === EQ_FREQUENCIES[i] && band.q === DEFAULT_Q
+  );
+};
+
+export const applyBandToFilter = (filter: BiquadFilterNode, band: EQBand): void => {
+  filter.type = band.type;
+  filter.frequency.value = band.frequency;
+  filter.gain.value = band.gain;
+  filter.Q.value = band.q;
+};
+
+// --- Response Curve ---
+
+// Filters used for plotting only live in a silent offline context, so the curve
+// can be drawn before playback has created the real audio graph
+let responseContext: OfflineAudioContext | null = null;
+
+/**
+ * Log-spaced frequencies across the audible range
+ */
+export const getResponseFrequencies = (points: number): Float32Array => {
+  const frequencies = new Float32Array(points);
+  const ratio = Math.log(MAX_EQ_FREQUENCY / MIN_EQ_FREQUENCY);
+  for (let i = 0; i < points; i++) {
+    frequencies[i] = MIN_EQ_FREQUENCY * Math.exp((ratio * i) / (points - 1));
+  }
+  return frequencies;
+};
+
+/**
+ * Combined magnitude response of all bands in dB, via BiquadFilterNode.getFrequencyResponse
+ */
+export const getCombinedResponse = (bands: EQBand[], frequencies: Float32Array): Float32Array => {
+  if (!responseContext) responseContext = new OfflineAudioContext(1, 1, 48000);
+
+  const total = new Float32Array(frequencies.length);
+  const magnitude = new Float32Array(frequencies.length);
+  const phase = new Float32Array(frequencies.length);
+
+  for (const band of bands) {
+    const filter = responseContext.createBiquadFilter();
+    applyBandToFilter(filter, band);
+    filter.getFrequencyResponse(frequencies, magnitude, phase);
+    for (let i = 0; i < total.length; i++) {
+      total[i] += 20 * Math.log10(Math.max(magnitude[i], 1e-6));
+    }
+  }
+  return total;
+};
+
+/**
+ * Approximate any band setup with the 10 graphic sliders by sampling its response
+ */
+export const toGraphicBands = (bands: EQBand[]): EQBand[] => {
+  const response = getCombinedResponse(bands, Float32Array.from(EQ_FREQUENCIES));
+  return EQ_FREQUENCIES.map((f, i) => {
+    const gain = Math.round(Math.max(-MAX_EQ_GAIN, Math.min(MAX_EQ_GAIN, response[i])) * 2) / 2;
+    return createEQBand(f, gain);
+  });
+};
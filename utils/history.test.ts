@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { Track, PlayEvent } from '../types';
+import {
+  getThresholdSeconds,
+  normalizePlayThreshold,
+  startListeningSession,
+  advanceListeningSession,
+  hasPassedThreshold,
+  createPlayEvent,
+  finishPlayEvent,
+  getListeningStats,
+  ListeningSession
+} from './history';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const THRESHOLD = { percent: 50, maxSeconds: 240 };
+
+const TRACK: Track = { id: 't1', name: 'Song', artist: 'Artist', album: 'Album', url: '', type: 'local' };
+
+// Play from `from` to `to` in one-second timeupdate steps
+const listen = (session: ListeningSession, from: number, to: number, duration: number): ListeningSession => {
+  for (let position = from; position <= to; position++) session = advanceListeningSession(session, position, duration);
+  return session;
+};
+
+const event = (fields: Partial<PlayEvent>): PlayEvent => ({
+  id: Math.random().toString(36).slice(2),
+  trackId: 't1',
+  playedAt: 0,
+  listened: 60,
+  duration: 200,
+  source: 'local',
+  skipped: false,
+  name: 'Song',
+  artist: 'Artist',
+  album: 'Album',
+  ...fields
+});
+
+describe('play threshold', () => {
+  it('is the share of the track or the time limit, whichever comes first', () => {
+    expect(getThresholdSeconds(THRESHOLD, 200)).toBe(100);
+    expect(getThresholdSeconds(THRESHOLD, 1200)).toBe(240);
+    expect(getThresholdSeconds(THRESHOLD, Infinity)).toBe(240);
+  });
+
+  it('falls back to the defaults for unusable settings', () => {
+    expect(normalizePlayThreshold({ percent: 500, maxSeconds: -1 })).toEqual({ percent: 100, maxSeconds: 1 });
+    expect(normalizePlayThreshold(null)).toEqual(THRESHOLD);
+  });
+});
+
+describe('listening sessions', () => {
+  it('only counts small forward steps as listening', () => {
+    let session = listen(startListeningSession(TRACK, 0), 0, 30, 200);
+    session = advanceListeningSession(session, 150, 200); // Seek ahead
+    session = advanceListeningSession(session, 10, 200); // Seek back
+    expect(session.listened).toBe(30);
+  });
+
+  it('becomes a play once past the threshold', () => {
+    const session = listen(startListeningSession(TRACK, 0), 0, 100, 200);
+    expect(hasPassedThreshold(session, THRESHOLD)).toBe(true);
+    expect(createPlayEvent(session)).toMatchObject({ trackId: 't1', listened: 100, duration: 200, source: 'local', skipped: false, name: 'Song' });
+  });
+
+  it('marks a play skipped unless it got near the end', () => {
+    const session = listen(startListeningSession(TRACK, 0), 0, 120, 200);
+    const played = { ...session, event: createPlayEvent(session) };
+    expect(finishPlayEvent(played, false)).toMatchObject({ listened: 120, skipped: true });
+    expect(finishPlayEvent(listen(played, 121, 195, 200), false)).toMatchObject({ skipped: false });
+    expect(finishPlayEvent(played, true)).toMatchObject({ skipped: false });
+  });
+
+  it('records an early skip before the threshold', () => {
+    const session = listen(startListeningSession(TRACK, 0), 0, 20, 200);
+    expect(finishPlayEvent(session, false)).toMatchObject({ listened: 20, skipped: true, earlySkip: true });
+  });
+
+  it('records nothing for a listen that never started', () => {
+    expect(finishPlayEvent(startListeningSession(TRACK, 0), false)).toBeNull();
+  });
+});
+
+describe('getListeningStats', () => {
+  const now = new Date(2026, 5, 15, 12).getTime();
+
+  it('counts plays and skips in the period, with early skips only in the skip rate', () => {
+    const stats = getListeningStats([
+      event({ playedAt: now - DAY_MS, listened: 100 }),
+      event({ playedAt: now - 2 * DAY_MS, skipped: true, listened: 90 }),
+      event({ playedAt: now - 3 * DAY_MS, skipped: true, earlySkip: true, listened: 10 }),
+      event({ playedAt: now - 40 * DAY_MS })
+    ], 'month', 10, now);
+
+    expect(stats).toMatchObject({ plays: 2, listens: 3, skips: 2, seconds: 200 });
+    expect(stats.topTracks).toEqual([expect.objectContaining({ trackId: 't1', plays: 2, seconds: 190 })]);
+  });
+
+  it('ranks artists by name across tracks, and albums by artist and name', () => {
+    const stats = getListeningStats([
+      event({ trackId: 'a', artist: 'Band ' }),
+      event({ trackId: 'b', artist: 'band', album: 'Other' }),
+      event({ trackId: 'c', artist: 'Solo' })
+    ], 'all', 10, now);
+
+    expect(stats.topArtists.map(item => [item.label, item.plays])).toEqual([['Band', 2], ['Solo', 1]]);
+    // Albums of the same name by different artists stay apart
+    expect(stats.topAlbums.map(item => `${item.detail?.trim()} - ${item.label}`)).toEqual(['Band - Album', 'Solo - Album', 'band - Other']);
+  });
+
+  it('spreads listening time across the hours a listen covers', () => {
+    const start = new Date(2026, 5, 14, 22, 40).getTime(); // A Sunday
+    const stats = getListeningStats([event({ playedAt: start, listened: 90 * 60 })], 'all', 10, now);
+
+    expect(stats.heatmap[0][22]).toBe(20 * 60);
+    expect(stats.heatmap[0][23]).toBe(60 * 60);
+    expect(stats.heatmap[1][0]).toBe(10 * 60);
+  });
+});
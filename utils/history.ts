@@ -0,0 +1,201 @@
+// Listening history: when a listen counts as a play, and the stats built from past plays
+import { Track, PlayEvent, PlaySource, PlayThreshold } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Scrobbling convention: half the track or four minutes
+export const DEFAULT_PLAY_THRESHOLD: PlayThreshold = { percent: 50, maxSeconds: 240 };
+
+// A jump in position bigger than a timeupdate tick is a seek, not listening
+const MAX_TICK_SECONDS = 2;
+// Stopping this close to the end still counts as hearing the track out
+const END_TOLERANCE_SECONDS = 10;
+
+const generateEventId = () => Math.random().toString(36).substr(2, 9);
+
+// --- Recording ---
+
+export const normalizePlayThreshold = (threshold: Partial<PlayThreshold> | null): PlayThreshold => ({
+  percent: Math.min(100, Math.max(1, Number(threshold?.percent) || DEFAULT_PLAY_THRESHOLD.percent)),
+  maxSeconds: Math.max(1, Number(threshold?.maxSeconds) || DEFAULT_PLAY_THRESHOLD.maxSeconds)
+});
+
+/**
+ * Seconds of listening after which a track counts as played. Tracks without a known
+ * length (live streams) use the time limit alone.
+ */
+export const getThresholdSeconds = (threshold: PlayThreshold, duration: number): number => {
+  if (!isFinite(duration) || duration <= 0) return threshold.maxSeconds;
+  return Math.min(duration * threshold.percent / 100, threshold.maxSeconds);
+};
+
+export const getPlaySource = (track: Track): PlaySource => {
+  if (track.type === 'stream') return 'stream';
+  return track.link ? 'linked' : 'local';
+};
+
+// One listen of one track, from starting it until moving on
+export interface ListeningSession {
+  track: Track;
+  startedAt: number;
+  listened: number;
+  position: number; // Last position seen, in seconds from the track start
+  duration: number;
+  event: PlayEvent | null; // Set once the listen passed the threshold
+}
+
+export const startListeningSession = (track: Track, position = 0, now = Date.now()): ListeningSession => ({
+  track,
+  startedAt: now,
+  listened: 0,
+  position,
+  duration: 0,
+  event: null
+});
+
+/**
+ * Move a session to the current playback position. Only small forward steps count as listening,
+ * so seeking ahead doesn't make a play and seeking back doesn't take one away.
+ */
+export const advanceListeningSession = (session: ListeningSession, position: number, duration: number): ListeningSession => {
+  const step = position - session.position;
+  return {
+    ...session,
+    position,
+    duration: isFinite(duration) ? duration : 0,
+    listened: step > 0 && step <= MAX_TICK_SECONDS ? session.listened + step : session.listened
+  };
+};
+
+export const hasPassedThreshold = (session: ListeningSession, threshold: PlayThreshold): boolean => {
+  return session.listened >= getThresholdSeconds(threshold, session.duration);
+};
+
+export const createPlayEvent = (session: ListeningSession): PlayEvent => ({
+  id: generateEventId(),
+  trackId: session.track.id,
+  playedAt: session.startedAt,
+  listened: Math.round(session.listened),
+  duration: Math.round(session.duration),
+  source: getPlaySource(session.track),
+  skipped: false,
+  name: session.track.name,
+  artist: session.track.artist,
+  album: session.track.album
+});
+
+/**
+ * The play as it stands when the session ends. Moving on before the threshold records an
+ * early skip; a listen that never got going records nothing.
+ * @param finished - Playback reached the end rather than the listener moving on
+ */
+export const finishPlayEvent = (session: ListeningSession, finished: boolean): PlayEvent | null => {
+  const nearEnd = session.duration > 0 && session.position >= session.duration - END_TOLERANCE_SECONDS;
+  const skipped = !finished && !nearEnd;
+  if (!session.event) {
+    return skipped && session.listened > 0 ? { ...createPlayEvent(session), skipped, earlySkip: true } : null;
+  }
+  return { ...session.event, listened: Math.round(session.listened), skipped };
+};
+
+// --- Stats ---
+
+export type StatsPeriod = 'week' | 'month' | 'year' | 'all';
+
+export const STATS_PERIODS: { period: StatsPeriod; label: string }[] = [
+  { period: 'week', label: '7 Days' },
+  { period: 'month', label: '30 Days' },
+  { period: 'year', label: '12 Months' },
+  { period: 'all', label: 'All Time' },
+];
+
+const PERIOD_DAYS: Record<StatsPeriod, number> = { week: 7, month: 30, year: 365, all: Infinity };
+
+export const getPeriodStart = (period: StatsPeriod, now = Date.now()): number => {
+  const days = PERIOD_DAYS[period];
+  return isFinite(days) ? now - days * DAY_MS : 0;
+};
+
+export interface RankedItem {
+  key: string;
+  label: string;
+  detail?: string; // Artist of an album or track
+  trackId?: string;
+  plays: number;
+  seconds: number;
+}
+
+export interface ListeningStats {
+  plays: number;
+  listens: number; // Plays plus early skips
+  skips: number;
+  seconds: number;
+  topArtists: RankedItem[];
+  topAlbums: RankedItem[];
+  topTracks: RankedItem[];
+  heatmap: number[][]; // Seconds listened by weekday (0 = Sunday) and hour, in local time
+}
+
+const rank = (
+  events: PlayEvent[],
+  getItem: (event: PlayEvent) => Omit<RankedItem, 'plays' | 'seconds'> | null,
+  limit: number
+): RankedItem[] => {
+  const items = new Map<string, RankedItem>();
+  events.forEach(event => {
+    const item = getItem(event);
+    if (!item) return;
+    const existing = items.get(item.key) ?? { ...item, plays: 0, seconds: 0 };
+    existing.plays++;
+    existing.seconds += event.listened;
+    items.set(item.key, existing);
+  });
+  return [...items.values()]
+    .sort((a, b) => b.plays - a.plays || b.seconds - a.seconds || a.label.localeCompare(b.label))
+    .slice(0, limit);
+};
+
+const normalizeName = (name: string): string => name.trim().toLowerCase();
+
+// Credit each hour a listen covers, assuming it ran from its start without pausing
+const addToHeatmap = (heatmap: number[][], event: PlayEvent): void => {
+  let time = event.playedAt;
+  let remaining = event.listened;
+  while (remaining > 0) {
+    const date = new Date(time);
+    const nextHour = new Date(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours() + 1).getTime();
+    const seconds = Math.min(remaining, (nextHour - time) / 1000);
+    heatmap[date.getDay()][date.getHours()] += seconds;
+    remaining -= seconds;
+    time = nextHour;
+  }
+};
+
+/**
+ * Top lists and listening time for the plays in a period. Tracks are grouped by id;
+ * artists and albums by name, as tagged when each play happened. Early skips count
+ * toward skips and listening time, but not toward plays or the top lists.
+ */
+export const getListeningStats = (history: PlayEvent[], period: StatsPeriod, limit = 10, now = Date.now()): ListeningStats => {
+  const since = getPeriodStart(period, now);
+  const listens = history.filter(event => event.playedAt >= since && event.playedAt <= now);
+  const events = listens.filter(event => !event.earlySkip);
+
+  const heatmap = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  listens.forEach(event => addToHeatmap(heatmap, event));
+
+  return {
+    plays: events.length,
+    listens: listens.length,
+    skips: listens.filter(event => event.skipped).length,
+    seconds: listens.reduce((sum, event) => sum + event.listened, 0),
+    topArtists: rank(events, event => event.artist?.trim()
+      ? { key: normalizeName(event.artist), label: event.artist.trim() }
+      : null, limit),
+    topAlbums: rank(events, event => event.album?.trim()
+      ? { key: `${normalizeName(event.artist ?? '')}|${normalizeName(event.album)}`, label: event.album.trim(), detail: event.artist }
+      : null, limit),
+    topTracks: rank(events, event => ({ key: event.trackId, label: event.name, detail: event.artist, trackId: event.trackId }), limit),
+    heatmap
+  };
+};
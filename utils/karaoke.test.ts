@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createKaraokeUnit, DEFAULT_KARAOKE } from './karaoke';
+
+interface FakeNode {
+  kind: 'splitter' | 'merger' | 'gain' | 'filter';
+  type?: BiquadFilterType;
+  gain: { value: number };
+  frequency: { value: number };
+  Q: { value: number };
+  inputs: { from: FakeNode; output: number; input: number }[];
+  connect: (target: FakeNode, output?: number, input?: number) => void;
+  disconnect: () => void;
+}
+
+const setTarget = function (this: { value: number }, value: number) { this.value = value; };
+
+// Just enough of an audio context to record the graph the unit wires up
+const createFakeContext = () => {
+  const nodes: FakeNode[] = [];
+  const createNode = (kind: FakeNode['kind']): FakeNode => {
+    const node: FakeNode = {
+      kind,
+      gain: { value: 1, setTargetAtTime: setTarget } as FakeNode['gain'],
+      frequency: { value: 350, setTargetAtTime: setTarget } as FakeNode['frequency'],
+      Q: { value: 1 },
+      inputs: [],
+      connect: (target, output = 0, input = 0) => { target.inputs.push({ from: node, output, input }); },
+      disconnect: () => nodes.forEach(other => { other.inputs = other.inputs.filter(edge => edge.from !== node); })
+    };
+    nodes.push(node);
+    return node;
+  };
+  const ctx = {
+    currentTime: 0,
+    createChannelSplitter: () => createNode('splitter'),
+    createChannelMerger: () => createNode('merger'),
+    createGain: () => createNode('gain'),
+    createBiquadFilter: () => createNode('filter')
+  };
+  return { ctx: ctx as unknown as BaseAudioContext, nodes };
+};
+
+/**
+ * Steady-state gain from one input channel to one merger lane at a frequency,
+ * treating the filters as ideal brick walls
+ */
+const response = (node: FakeNode, output: number, channel: number, frequency: number): number => {
+  if (node.kind === 'splitter') return output === channel ? 1 : 0;
+  const edges = node.kind === 'merger' ? node.inputs.filter(edge => edge.input === output) : node.inputs;
+  const sum = edges.reduce((total, edge) => total + response(edge.from, edge.output, channel, frequency), 0);
+  if (node.kind === 'filter') {
+    const passes = node.type === 'lowpass' ? frequency < node.frequency.value : frequency > node.frequency.value;
+    return passes ? sum : 0;
+  }
+  return node.kind === 'gain' ? sum * node.gain.value : sum;
+};
+
+const setup = () => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  const { ctx, nodes } = createFakeContext();
+  const unit = createKaraokeUnit(ctx, DEFAULT_KARAOKE);
+  const merger = nodes.find(node => node.kind === 'merger')!;
+  // [[left from L, left from R], [right from L, right from R]]
+  const matrix = (frequency: number) => [0, 1].map(lane => [0, 1].map(channel => response(merger, lane, channel, frequency)));
+  return { unit, matrix };
+};
+
+describe('createKaraokeUnit', () => {
+  it('cancels centred content inside the vocal band and keeps the sides', () => {
+    const { matrix } = setup();
+    expect(matrix(1000)).toEqual([[0.5, -0.5], [-0.5, 0.5]]);
+  });
+
+  it('passes bass and treble outside the band through unchanged', () => {
+    const { matrix } = setup();
+    expect(matrix(60)).toEqual([[1, 0], [0, 1]]);
+    expect(matrix(12000)).toEqual([[1, 0], [0, 1]]);
+  });
+
+  it('blends the dry centre back in as strength drops', () => {
+    const { unit, matrix } = setup();
+    unit.apply({ ...DEFAULT_KARAOKE, strength: 0.5 });
+    expect(matrix(1000)).toEqual([[0.75, -0.25], [-0.25, 0.75]]);
+    unit.apply({ ...DEFAULT_KARAOKE, strength: 0 });
+    expect(matrix(1000)).toEqual([[1, 0], [0, 1]]);
+  });
+
+  it('moves the band edges with the cut-offs', () => {
+    const { unit, matrix } = setup();
+    unit.apply({ ...DEFAULT_KARAOKE, lowCut: 500 });
+    expect(matrix(300)).toEqual([[1, 0], [0, 1]]);
+  });
+});
@@ -0,0 +1,94 @@
+// Vocal remover: band-limited mid/side centre cancellation plus key change
+import { KaraokeSettings } from '../types';
+import { EffectUnit, createParamSetter } from './effectUnit';
+import { createPitchShifter, MAX_PITCH_SEMITONES } from './pitchShift';
+
+export const DEFAULT_KARAOKE: KaraokeSettings = {
+  strength: 1,
+  lowCut: 150,
+  highCut: 7000,
+  pitch: 0
+};
+
+export const KARAOKE_RANGES: Record<keyof KaraokeSettings, { min: number; max: number; step: number }> = {
+  strength: { min: 0, max: 1, step: 0.05 },
+  lowCut: { min: 40, max: 1000, step: 10 },
+  highCut: { min: 2000, max: 16000, step: 100 },
+  pitch: { min: -MAX_PITCH_SEMITONES, max: MAX_PITCH_SEMITONES, step: 1 }
+};
+
+// Two cascaded Butterworth sections give a 24 dB/octave edge
+const createSteepFilter = (ctx: BaseAudioContext, type: BiquadFilterType): BiquadFilterNode[] => {
+  return [0, 1].map(() => {
+    const filter = ctx.createBiquadFilter();
+    filter.type = type;
+    filter.Q.value = Math.SQRT1_2;
+    return filter;
+  });
+};
+
+const connectSeries = (nodes: AudioNode[]) => {
+  nodes.slice(1).forEach((node, i) => nodes[i].connect(node));
+};
+
+/**
+ * Encode to mid = (L+R)/2 and side = (L-R)/2. Vocals sit in the mid, so the mid is replaced by
+ * only its content below `lowCut` and above `highCut`, blended with the dry mid by `strength`.
+ * The side is untouched, so the stereo image survives. Decoded back to L = mid + side,
+ * R = mid - side, then pitch shifted.
+ */
+export const createKaraokeUnit = (ctx: BaseAudioContext, settings: KaraokeSettings): EffectUnit<KaraokeSettings> => {
+  const splitter = ctx.createChannelSplitter(2);
+  const merger = ctx.createChannelMerger(2);
+  const pitchShifter = createPitchShifter(ctx);
+  const params = createParamSetter(ctx);
+
+  // Encode
+  const mid = ctx.createGain();
+  mid.gain.value = 0.5;
+  splitter.connect(mid, 0);
+  splitter.connect(mid, 1);
+
+  const side = ctx.createGain();
+  side.gain.value = 0.5;
+  const invertRight = ctx.createGain();
+  invertRight.gain.value = -1;
+  splitter.connect(side, 0);
+  splitter.connect(invertRight, 1);
+  invertRight.connect(side);
+
+  // Band-limited mid
+  const processedMid = ctx.createGain();
+  const dryMid = ctx.createGain();
+  const keptMid = ctx.createGain();
+  const lowKeep = createSteepFilter(ctx, 'lowpass');
+  const highKeep = createSteepFilter(ctx, 'highpass');
+  mid.connect(dryMid);
+  dryMid.connect(processedMid);
+  connectSeries([mid, ...lowKeep, keptMid]);
+  connectSeries([mid, ...highKeep, keptMid]);
+  keptMid.connect(processedMid);
+
+  // Decode
+  const invertSide = ctx.createGain();
+  invertSide.gain.value = -1;
+  processedMid.connect(merger, 0, 0);
+  processedMid.connect(merger, 0, 1);
+  side.connect(merger, 0, 0);
+  side.connect(invertSide);
+  invertSide.connect(merger, 0, 1);
+
+  merger.connect(pitchShifter.input);
+
+  const apply = ({ strength, lowCut, highCut, pitch }: KaraokeSettings) => {
+    params.set(dryMid.gain, 1 - strength);
+    params.set(keptMid.gain, strength);
+    lowKeep.forEach(filter => params.set(filter.frequency, lowCut));
+    highKeep.forEach(filter => params.set(filter.frequency, highCut));
+    pitchShifter.setPitch(pitch);
+    params.markInitialized();
+  };
+
+  apply(settings);
+  return { input: splitter, output: pitchShifter.output, apply };
+};
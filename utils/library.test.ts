@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { buildLibrary, getAlbumKey, VARIOUS_ARTISTS } from './library';
+import { Track } from '../types';
+
+const track = (id: string, fields: Partial<Track>): Track => ({ id, name: id, url: `blob:${id}`, type: 'local', ...fields });
+
+const linked = (folderId: string, path: string) => ({ folderId, path, size: 1, lastModified: 0, fingerprint: path });
+
+describe('buildLibrary', () => {
+  it('files albums under the album artist', () => {
+    const library = buildLibrary([
+      track('a', { artist: 'Guest', albumArtist: 'Band', album: 'Record', trackNumber: 2 }),
+      track('b', { artist: 'Band', albumArtist: 'Band', album: 'Record', trackNumber: 1 })
+    ]);
+    expect(library.albums).toHaveLength(1);
+    expect(library.albums[0]).toMatchObject({ artist: 'Band' });
+    expect(library.albums[0].tracks.map(t => t.id)).toEqual(['b', 'a']);
+    expect(library.artists.map(a => a.name)).toEqual(['Band']);
+  });
+
+  it('keeps a compilation without album artist tags together per folder', () => {
+    const library = buildLibrary([
+      track('a', { artist: 'One', album: 'Hits 2020', link: linked('f1', 'Hits 2020/01.mp3') }),
+      track('b', { artist: 'Two', album: 'Hits 2020', link: linked('f1', 'Hits 2020/02.mp3') }),
+      track('c', { artist: 'Three', album: 'Hits 2020', folder: 'Music/Hits 2020' }),
+      track('d', { artist: 'Four', album: 'Hits 2020', folder: 'Music/Hits 2020' })
+    ]);
+
+    expect(library.albums).toHaveLength(2);
+    expect(library.albums.every(album => album.artist === VARIOUS_ARTISTS && album.tracks.length === 2)).toBe(true);
+    const various = library.artists.find(a => a.name === VARIOUS_ARTISTS)!;
+    expect(various.albums).toHaveLength(2);
+    expect(various.tracks.map(t => t.id).sort()).toEqual(['a', 'b', 'c', 'd']);
+    // Each track still shows up under the artist who performs it
+    expect(library.artists.find(a => a.name === 'One')?.tracks.map(t => t.id)).toEqual(['a']);
+  });
+
+  it('names a folder album after its artist when all tracks share one', () => {
+    const library = buildLibrary([
+      track('a', { artist: 'Solo', album: 'Debut', folder: 'Solo/Debut' }),
+      track('b', { artist: 'Solo', album: 'Debut', folder: 'Solo/Debut' })
+    ]);
+    expect(library.albums).toHaveLength(1);
+    expect(library.albums[0].artist).toBe('Solo');
+    expect(library.artists.map(a => a.name)).toEqual(['Solo']);
+  });
+
+  it('splits albums of the same title by artist when the folder is unknown', () => {
+    const library = buildLibrary([
+      track('a', { artist: 'One', album: 'Greatest Hits' }),
+      track('b', { artist: 'Two', album: 'Greatest Hits' })
+    ]);
+    expect(library.albums.map(album => album.artist).sort()).toEqual(['One', 'Two']);
+  });
+});
+
+describe('getAlbumKey', () => {
+  it('matches tracks that buildLibrary puts on one album', () => {
+    const a = track('a', { artist: 'One', album: 'Mix', folder: 'Mix' });
+    const b = track('b', { artist: 'Two', album: 'mix', folder: 'Mix' });
+    expect(getAlbumKey(a)).toBe(getAlbumKey(b));
+    expect(getAlbumKey(track('c', { artist: 'One' }))).toBeNull();
+  });
+});
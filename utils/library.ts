@@ -0,0 +1,144 @@
+// Groups the flat track list into artists, albums and genres
+import { Track, LibraryAlbum, LibraryArtist, LibraryGenre } from '../types';
+
+export const UNKNOWN_ARTIST = 'Unknown Artist';
+export const VARIOUS_ARTISTS = 'Various Artists';
+
+export interface Library {
+  artists: LibraryArtist[];
+  albums: LibraryAlbum[];
+  genres: LibraryGenre[];
+}
+
+const normalizeKey = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Artist a track is filed under. Untagged local files carry the
+ * 'Local File' placeholder, which is treated as unknown.
+ */
+export const getTrackArtist = (track: Track): string => {
+  const artist = track.albumArtist || track.artist;
+  if (!artist || artist === 'Local File') return UNKNOWN_ARTIST;
+  return artist;
+};
+
+/**
+ * Folder a track's file sits in: its place in a linked folder, or the folder it was imported from
+ */
+const getTrackFolder = (track: Track): string | undefined => {
+  if (track.link) return `${track.link.folderId}:${track.link.path.slice(0, Math.max(0, track.link.path.lastIndexOf('/')))}`;
+  return track.folder;
+};
+
+/**
+ * Key identifying the release a track belongs to, or null for tracks without an album tag.
+ * Without an album artist, tracks with the same album title in one folder are one release,
+ * so compilations tagged only with each track's artist stay together.
+ */
+export const getAlbumKey = (track: Track): string | null => {
+  if (!track.album) return null;
+  const title = normalizeKey(track.album);
+  if (track.albumArtist) return `${normalizeKey(track.albumArtist)}\u0000${title}`;
+  const folder = getTrackFolder(track);
+  if (folder) return `folder:${folder}\u0000${title}`;
+  return `${normalizeKey(getTrackArtist(track))}\u0000${title}`;
+};
+
+/**
+ * Order tracks the way they appear on the release
+ */
+export const compareAlbumOrder = (a: Track, b: Track): number => {
+  const discDiff = (a.discNumber ?? 1) - (b.discNumber ?? 1);
+  if (discDiff !== 0) return discDiff;
+  const trackDiff = (a.trackNumber ?? Number.MAX_SAFE_INTEGER) - (b.trackNumber ?? Number.MAX_SAFE_INTEGER);
+  if (trackDiff !== 0) return trackDiff;
+  return a.name.localeCompare(b.name);
+};
+
+const byName = <T extends { name: string }>(a: T, b: T) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' });
+
+export const buildLibrary = (tracks: Track[]): Library => {
+  const albumMap = new Map<string, LibraryAlbum>();
+  const artistMap = new Map<string, LibraryArtist>();
+  const genreMap = new Map<string, LibraryGenre>();
+
+  const getArtist = (name: string): LibraryArtist => {
+    const key = normalizeKey(name);
+    let artist = artistMap.get(key);
+    if (!artist) {
+      artist = { id: `artist:${key}`, name, albums: [], tracks: [] };
+      artistMap.set(key, artist);
+    }
+    return artist;
+  };
+
+  for (const track of tracks) {
+    const artistName = getTrackArtist(track);
+    getArtist(artistName).tracks.push(track);
+
+    // Tracks without an album tag only show up under their artist
+    const albumKey = getAlbumKey(track);
+    if (albumKey) {
+      let album = albumMap.get(albumKey);
+      if (!album) {
+        album = { id: `album:${albumKey}`, title: track.album!, artist: artistName, tracks: [] };
+        albumMap.set(albumKey, album);
+      }
+      album.tracks.push(track);
+      if (!album.coverArtUrl && track.coverArtUrl) album.coverArtUrl = track.coverArtUrl;
+      if (!album.year && track.year) album.year = track.year;
+      if (!album.genre && track.genre) album.genre = track.genre;
+    }
+
+    if (track.genre) {
+      const genreKey = normalizeKey(track.genre);
+      let genre = genreMap.get(genreKey);
+      if (!genre) {
+        genre = { id: `genre:${genreKey}`, name: track.genre, albums: [], tracks: [] };
+        genreMap.set(genreKey, genre);
+      }
+      genre.tracks.push(track);
+    }
+  }
+
+  const albums = Array.from(albumMap.values());
+  albums.forEach(album => {
+    album.tracks.sort(compareAlbumOrder);
+    // A folder album by several artists is a compilation; its tracks also stay under their own artists
+    const isCompilation = new Set(album.tracks.map(t => normalizeKey(getTrackArtist(t)))).size > 1;
+    if (isCompilation) album.artist = VARIOUS_ARTISTS;
+    const artist = getArtist(album.artist);
+    artist.albums.push(album);
+    if (isCompilation) artist.tracks.push(...album.tracks);
+  });
+
+  const artists = Array.from(artistMap.values());
+  artists.forEach(artist => {
+    artist.albums.sort((a, b) => (a.year ?? 0) - (b.year ?? 0) || a.title.localeCompare(b.title));
+    artist.coverArtUrl = artist.albums.find(a => a.coverArtUrl)?.coverArtUrl
+      ?? artist.tracks.find(t => t.coverArtUrl)?.coverArtUrl;
+  });
+
+  const genres = Array.from(genreMap.values());
+  genres.forEach(genre => {
+    genre.albums = albums.filter(album => album.tracks.some(t => t.genre && normalizeKey(t.genre) === normalizeKey(genre.name)));
+  });
+
+  return {
+    artists: artists.sort(byName),
+    albums: albums.sort((a, b) => a.title.localeCompare(b.title, undefined, { sensitivity: 'base' })),
+    genres: genres.sort(byName)
+  };
+};
+
+/**
+ * Fisher-Yates shuffle into a new array
+ */
+export const shuffleTracks = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
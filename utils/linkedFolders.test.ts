@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { Track } from '../types';
+import { reconcileFolder, getFingerprint, ScannedFile } from './linkedFolders';
+
+const FOLDER = 'folder';
+
+const audio = (path: string, content: string, lastModified = 1000): ScannedFile => ({
+  path,
+  file: new File([content], path.split('/').pop()!, { lastModified })
+});
+
+// A library track as the previous scan left it
+const linkedTrack = async (id: string, scanned: ScannedFile, folderId = FOLDER): Promise<Track> => ({
+  id,
+  name: id,
+  url: '',
+  type: 'local',
+  link: {
+    folderId,
+    path: scanned.path,
+    size: scanned.file.size,
+    lastModified: scanned.file.lastModified,
+    fingerprint: await getFingerprint(scanned.file)
+  }
+});
+
+describe('getFingerprint', () => {
+  it('depends on content, not on the file name', async () => {
+    const a = await getFingerprint(new File(['same'], 'a.mp3'));
+    expect(await getFingerprint(new File(['same'], 'b.mp3'))).toBe(a);
+    expect(await getFingerprint(new File(['diff'], 'a.mp3'))).not.toBe(a);
+  });
+});
+
+describe('reconcileFolder', () => {
+  it('keeps tracks whose file is still at its path', async () => {
+    const file = audio('Album/01.mp3', 'one');
+    const result = await reconcileFolder(FOLDER, [await linkedTrack('t1', file)], [file]);
+    expect([...result.existing.keys()]).toEqual(['t1']);
+    expect(result).toMatchObject({ added: [], removed: [], moved: 0, renamed: 0, modified: 0 });
+  });
+
+  it('tells renamed files from moved ones by their directory', async () => {
+    const tracks = [await linkedTrack('renamed', audio('Album/01.mp3', 'one')), await linkedTrack('moved', audio('Album/02.mp3', 'two'))];
+    const result = await reconcileFolder(FOLDER, tracks, [audio('Album/01 Intro.mp3', 'one'), audio('Other/02.mp3', 'two')]);
+
+    expect(result).toMatchObject({ renamed: 1, moved: 1, added: [], removed: [] });
+    expect(result.existing.get('renamed')?.link.path).toBe('Album/01 Intro.mp3');
+    expect(result.existing.get('moved')?.link.path).toBe('Other/02.mp3');
+  });
+
+  it('counts changed content at the same path as modified', async () => {
+    const track = await linkedTrack('t1', audio('a.mp3', 'old'));
+    const result = await reconcileFolder(FOLDER, [track], [audio('a.mp3', 'new!', 2000)]);
+    expect(result.modified).toBe(1);
+    expect(result.existing.has('t1')).toBe(true);
+  });
+
+  it('reports new and removed files, and collects sidecars', async () => {
+    const track = await linkedTrack('gone', audio('gone.mp3', 'bye'));
+    const result = await reconcileFolder(FOLDER, [track], [audio('new.flac', 'hi'), audio('new.lrc', '[00:01]x')]);
+
+    expect(result.removed).toEqual(['gone']);
+    expect(result.added.map(linked => linked.link.path)).toEqual(['new.flac']);
+    expect(result.sidecars.map(file => file.name)).toEqual(['new.lrc']);
+  });
+
+  it('moves all tracks of a CUE-split file together', async () => {
+    const file = audio('rip.flac', 'album');
+    const tracks = [await linkedTrack('cue1', file), await linkedTrack('cue2', file)];
+    const result = await reconcileFolder(FOLDER, tracks, [audio('Rips/rip.flac', 'album')]);
+    expect(result.moved).toBe(1);
+    expect([...result.existing.keys()].sort()).toEqual(['cue1', 'cue2']);
+  });
+
+  it('ignores tracks of other folders', async () => {
+    const other = await linkedTrack('other', audio('a.mp3', 'x'), 'another');
+    const result = await reconcileFolder(FOLDER, [other], []);
+    expect(result.removed).toEqual([]);
+  });
+});
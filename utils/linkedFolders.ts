@@ -0,0 +1,216 @@
+// Linked folders: tracks read in place through the File System Access API instead of
+// being copied into IndexedDB. Rescans match files by path, then by content fingerprint.
+import { Track, TrackLink, LinkedFolder } from '../types';
+
+const AUDIO_FILE_PATTERN = /\.(mp3|wav|ogg|flac|m4a|aac|opus)$/i;
+const SIDECAR_FILE_PATTERN = /\.(cue|lrc)$/i;
+const FINGERPRINT_SAMPLE_BYTES = 64 * 1024;
+
+// Iteration and permissions aren't in the DOM lib this project targets
+type DirectoryHandle = FileSystemDirectoryHandle & {
+  values: () => AsyncIterableIterator<FileSystemDirectoryHandle | FileSystemFileHandle>;
+};
+type PermissionHandle = FileSystemHandle & {
+  queryPermission: (descriptor: { mode: 'read' | 'readwrite' }) => Promise<PermissionState>;
+  requestPermission: (descriptor: { mode: 'read' | 'readwrite' }) => Promise<PermissionState>;
+};
+type DirectoryPickerWindow = typeof window & {
+  showDirectoryPicker: (options: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+};
+
+export interface ScannedFile {
+  path: string; // Relative to the folder, '/'-separated
+  file: File;
+}
+
+export interface LinkedFile {
+  file: File;
+  link: TrackLink;
+}
+
+export interface FolderScanResult {
+  existing: Map<string, LinkedFile>; // Track id -> its file now; includes moved, renamed and modified files
+  added: LinkedFile[];
+  removed: string[]; // Ids of tracks whose file is gone
+  sidecars: File[]; // .cue and .lrc files, for the added audio
+  moved: number;
+  renamed: number;
+  modified: number;
+}
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+/**
+ * Check for the File System Access API directory picker
+ */
+export const supportsLinkedFolders = (): boolean => {
+  return typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+};
+
+/**
+ * Ask the user for a folder to link
+ * @returns null if the user cancelled the picker
+ */
+export const pickLinkedFolder = async (): Promise<LinkedFolder | null> => {
+  try {
+    const handle = await (window as DirectoryPickerWindow).showDirectoryPicker({ id: 'penko-tune-library', mode: 'read' });
+    return { id: generateId(), name: handle.name, handle, addedAt: Date.now() };
+  } catch (error) {
+    if ((error as DOMException).name === 'AbortError') return null;
+    console.error('[Folders] Failed to pick folder:', error);
+    throw error;
+  }
+};
+
+/**
+ * Find the linked folder that already covers `handle` (the same folder or one above it)
+ */
+export const findCoveringFolder = async (folders: LinkedFolder[], handle: FileSystemDirectoryHandle): Promise<LinkedFolder | null> => {
+  for (const folder of folders) {
+    if (await folder.handle.isSameEntry(handle) || await folder.handle.resolve(handle)) return folder;
+  }
+  return null;
+};
+
+/**
+ * Check, and optionally ask for, access to a folder. Asking needs a user gesture,
+ * so on startup only the check is possible.
+ */
+export const hasFolderPermission = async (
+  folder: LinkedFolder,
+  request = false,
+  mode: 'read' | 'readwrite' = 'read'
+): Promise<boolean> => {
+  try {
+    const handle = folder.handle as unknown as PermissionHandle;
+    if (await handle.queryPermission({ mode }) === 'granted') return true;
+    return request && await handle.requestPermission({ mode }) === 'granted';
+  } catch (error) {
+    console.warn(`[Folders] Could not get access to ${folder.name}:`, error);
+    return false;
+  }
+};
+
+/**
+ * Every audio file and sidecar in the folder and its subfolders. Hidden folders are skipped.
+ */
+export const scanFolder = async (handle: FileSystemDirectoryHandle): Promise<ScannedFile[]> => {
+  const files: ScannedFile[] = [];
+  const walk = async (directory: DirectoryHandle, prefix: string) => {
+    for await (const entry of directory.values()) {
+      if (entry.name.startsWith('.')) continue;
+      const path = prefix + entry.name;
+      if (entry.kind === 'directory') {
+        await walk(entry as DirectoryHandle, `${path}/`);
+      } else if (AUDIO_FILE_PATTERN.test(entry.name) || SIDECAR_FILE_PATTERN.test(entry.name)) {
+        files.push({ path, file: await (entry as FileSystemFileHandle).getFile() });
+      }
+    }
+  };
+  await walk(handle as DirectoryHandle, '');
+  return files;
+};
+
+/**
+ * Size plus a hash of the first and last 64 KB: cheap enough to run on a whole folder,
+ * and enough to recognise a file that was moved or renamed
+ */
+export const getFingerprint = async (file: File): Promise<string> => {
+  const head = file.slice(0, FINGERPRINT_SAMPLE_BYTES);
+  const tail = file.slice(Math.max(FINGERPRINT_SAMPLE_BYTES, file.size - FINGERPRINT_SAMPLE_BYTES));
+  const sample = await new Blob([`${file.size}:`, head, tail]).arrayBuffer();
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', sample));
+  return Array.from(digest.slice(0, 16), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const getDirectory = (path: string): string => path.slice(0, path.lastIndexOf('/') + 1);
+
+const createLink = async (folderId: string, scanned: ScannedFile, previous?: TrackLink): Promise<TrackLink> => {
+  const { file, path } = scanned;
+  // Unchanged size and date: no need to read the file again
+  const fingerprint = previous && previous.size === file.size && previous.lastModified === file.lastModified
+    ? previous.fingerprint
+    : await getFingerprint(file);
+  return { folderId, path, size: file.size, lastModified: file.lastModified, fingerprint };
+};
+
+/**
+ * Compare a fresh scan with the folder's tracks in the library. Files are matched by path
+ * first; files at a new path are matched to missing tracks by fingerprint (moved or renamed).
+ */
+export const reconcileFolder = async (folderId: string, tracks: Track[], scanned: ScannedFile[]): Promise<FolderScanResult> => {
+  const result: FolderScanResult = { existing: new Map(), added: [], removed: [], sidecars: [], moved: 0, renamed: 0, modified: 0 };
+
+  // Tracks split by a CUE sheet share one file, so paths map to groups of tracks
+  const byPath = new Map<string, Track[]>();
+  tracks.filter(t => t.link?.folderId === folderId).forEach(track => {
+    const group = byPath.get(track.link!.path) ?? [];
+    group.push(track);
+    byPath.set(track.link!.path, group);
+  });
+
+  const claim = (group: Track[], linked: LinkedFile) => {
+    group.forEach(track => result.existing.set(track.id, linked));
+    byPath.delete(group[0].link!.path);
+  };
+
+  const unmatched: LinkedFile[] = [];
+  for (const entry of scanned) {
+    if (!AUDIO_FILE_PATTERN.test(entry.path)) {
+      result.sidecars.push(entry.file);
+      continue;
+    }
+    const group = byPath.get(entry.path);
+    const link = await createLink(folderId, entry, group?.[0].link);
+    if (group) {
+      if (link.fingerprint !== group[0].link!.fingerprint) result.modified++;
+      claim(group, { file: entry.file, link });
+    } else {
+      unmatched.push({ file: entry.file, link });
+    }
+  }
+
+  // Whatever is left in byPath has gone missing from its old path
+  const missingByFingerprint = new Map<string, Track[]>();
+  byPath.forEach(group => missingByFingerprint.set(group[0].link!.fingerprint, group));
+
+  for (const linked of unmatched) {
+    const group = missingByFingerprint.get(linked.link.fingerprint);
+    if (group) {
+      missingByFingerprint.delete(linked.link.fingerprint);
+      if (getDirectory(group[0].link!.path) === getDirectory(linked.link.path)) result.renamed++;
+      else result.moved++;
+      claim(group, linked);
+    } else {
+      result.added.push(linked);
+    }
+  }
+
+  byPath.forEach(group => group.forEach(track => result.removed.push(track.id)));
+  return result;
+};
+
+const getFileHandle = async (folder: LinkedFolder, path: string): Promise<FileSystemFileHandle> => {
+  const parts = path.split('/');
+  let directory = folder.handle;
+  for (const part of parts.slice(0, -1)) {
+    directory = await directory.getDirectoryHandle(part);
+  }
+  return directory.getFileHandle(parts[parts.length - 1]);
+};
+
+/**
+ * Overwrite a linked file on disk (e.g. after editing its tags)
+ * @returns the file as it is now on disk
+ * @throws if write access is refused or the file can't be written
+ */
+export const writeLinkedFile = async (folder: LinkedFolder, path: string, data: Blob): Promise<File> => {
+  if (!await hasFolderPermission(folder, true, 'readwrite')) {
+    throw new Error(`No write access to ${folder.name}`);
+  }
+  const handle = await getFileHandle(folder, path);
+  const writable = await handle.createWritable();
+  await writable.write(data);
+  await writable.close();
+  return handle.getFile();
+};
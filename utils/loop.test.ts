@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { createLoop, getLoopTempo, isLoopFinished, isSavedLoop } from './loop';
+import { MAX_TEMPO } from './practice';
+
+describe('getLoopTempo', () => {
+  const loop = { ...createLoop(10, 20), rampEvery: 2, rampStep: 0.1, rampMax: 1.2 };
+
+  it('speeds up one step after every rampEvery completed passes', () => {
+    expect([0, 1, 2, 3, 4].map(passes => getLoopTempo(loop, 0.8, passes))).toEqual([0.8, 0.8, 0.9, 0.9, 1]);
+  });
+
+  it('stops at rampMax and never goes past the practice tempo limit', () => {
+    expect(getLoopTempo(loop, 0.8, 20)).toBe(1.2);
+    expect(getLoopTempo({ ...loop, rampMax: 3, rampStep: 0.5 }, 1, 20)).toBe(MAX_TEMPO);
+  });
+
+  it('keeps the track tempo without a ramp or when it is already at rampMax', () => {
+    expect(getLoopTempo(createLoop(10, 20), 0.8, 10)).toBe(0.8);
+    expect(getLoopTempo(loop, 1.2, 10)).toBe(1.2);
+    expect(getLoopTempo(loop, 1.3, 10)).toBe(1.3);
+  });
+});
+
+describe('isLoopFinished', () => {
+  it('finishes after the set passes, or never when passes is 0', () => {
+    const loop = { ...createLoop(0, 5), passes: 3 };
+    expect(isLoopFinished(loop, 2)).toBe(false);
+    expect(isLoopFinished(loop, 3)).toBe(true);
+    expect(isLoopFinished(createLoop(0, 5), 1000)).toBe(false);
+  });
+});
+
+describe('isSavedLoop', () => {
+  it('tells saved loops from chapter markers', () => {
+    expect(isSavedLoop({ kind: 'loop' })).toBe(true);
+    expect(isSavedLoop({})).toBe(false);
+  });
+});
@@ -0,0 +1,32 @@
+// A–B loop: pass counting and the optional speed ramp
+import { LoopRegion, SavedLoop } from '../types';
+import { MAX_TEMPO } from './practice';
+
+export const MIN_LOOP_SECONDS = 0.5;
+export const MAX_LOOP_PASSES = 50;
+
+export const createLoop = (start: number, end: number): LoopRegion => ({
+  start,
+  end,
+  passes: 0,
+  rampEvery: 0,
+  rampStep: 0.05,
+  rampMax: 1
+});
+
+// Marker records without a kind are chapter markers
+export const isSavedLoop = (record: { kind?: string }): record is SavedLoop => record.kind === 'loop';
+
+/**
+ * Tempo for the next pass: the track's own tempo, raised by one step after every
+ * `rampEvery` completed passes until `rampMax`
+ */
+export const getLoopTempo = (loop: LoopRegion, baseTempo: number, completedPasses: number): number => {
+  if (loop.rampEvery <= 0 || loop.rampMax <= baseTempo) return baseTempo;
+  const steps = Math.floor(completedPasses / loop.rampEvery);
+  return Math.min(loop.rampMax, MAX_TEMPO, baseTempo + steps * loop.rampStep);
+};
+
+export const isLoopFinished = (loop: LoopRegion, completedPasses: number): boolean => {
+  return loop.passes > 0 && completedPasses >= loop.passes;
+};
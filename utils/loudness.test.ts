@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { integratedLoudness, getNormalizationGain, dbToGain, DEFAULT_LOUDNESS } from './loudness';
+import { Track, TrackLoudness } from '../types';
+
+const SAMPLE_RATE = 48000;
+
+// Only what integratedLoudness reads from an AudioBuffer
+const buffer = (...channels: Float32Array[]): AudioBuffer => ({
+  sampleRate: SAMPLE_RATE,
+  length: channels[0].length,
+  numberOfChannels: channels.length,
+  getChannelData: (channel: number) => channels[channel]
+} as AudioBuffer);
+
+// 1 kHz sine; its mean square is amplitude² / 2
+const sine = (seconds: number, amplitude: number): Float32Array => {
+  return Float32Array.from({ length: Math.round(seconds * SAMPLE_RATE) }, (_, i) => amplitude * Math.sin((2 * Math.PI * 1000 * i) / SAMPLE_RATE));
+};
+
+const sineLoudness = (amplitude: number) => -0.691 + 10 * Math.log10((amplitude * amplitude) / 2);
+
+const concat = (...parts: Float32Array[]) => {
+  const result = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+  parts.reduce((offset, part) => (result.set(part, offset), offset + part.length), 0);
+  return result;
+};
+
+describe('integratedLoudness', () => {
+  it('measures a steady tone from its mean square', () => {
+    expect(integratedLoudness(buffer(sine(2, 1)))).toBeCloseTo(sineLoudness(1), 2);
+    expect(integratedLoudness(buffer(sine(2, 0.5)))).toBeCloseTo(sineLoudness(0.5), 2);
+  });
+
+  it('sums the power of all channels', () => {
+    expect(integratedLoudness(buffer(sine(2, 0.5), sine(2, 0.5)))).toBeCloseTo(sineLoudness(0.5) + 10 * Math.log10(2), 2);
+  });
+
+  it('leaves quiet passages below the relative gate out', () => {
+    const quiet = 10 ** (-50 / 20);
+    const loudness = integratedLoudness(buffer(concat(sine(2, 0.5), sine(2, quiet))))!;
+    // Without the gate the quiet half would pull the result down by about 3 dB
+    expect(loudness).toBeGreaterThan(sineLoudness(0.5) - 0.5);
+    expect(loudness).toBeLessThanOrEqual(sineLoudness(0.5));
+  });
+
+  it('returns null for silence, audio under the absolute gate and clips under one block', () => {
+    expect(integratedLoudness(buffer(new Float32Array(SAMPLE_RATE)))).toBeNull();
+    expect(integratedLoudness(buffer(sine(2, 10 ** (-75 / 20))))).toBeNull();
+    expect(integratedLoudness(buffer(sine(0.3, 1)))).toBeNull();
+  });
+
+  it('ignores the LFE channel of 5.1 audio', () => {
+    const silent = new Float32Array(2 * SAMPLE_RATE);
+    const withLfe = integratedLoudness(buffer(sine(2, 0.5), silent, silent, sine(2, 1), silent, silent));
+    expect(withLfe).toBeCloseTo(sineLoudness(0.5), 2);
+  });
+});
+
+describe('getNormalizationGain', () => {
+  const track = (id: string, loudness?: TrackLoudness, fields: Partial<Track> = {}): Track => ({ id, name: id, url: '', type: 'local', loudness, ...fields });
+
+  it('applies the track gain and pre-amp', () => {
+    const t = track('a', { trackGain: -4, source: 'tags' });
+    expect(getNormalizationGain(t, [t], DEFAULT_LOUDNESS)).toBe(-4);
+    expect(getNormalizationGain(t, [t], { ...DEFAULT_LOUDNESS, preAmp: 2 })).toBe(-2);
+    expect(getNormalizationGain(t, [t], { ...DEFAULT_LOUDNESS, mode: 'off' })).toBe(0);
+  });
+
+  it('keeps the boosted peak at full scale when clipping protection is on', () => {
+    const t = track('a', { trackGain: 6, trackPeak: 0.9, source: 'measured' });
+    const gain = getNormalizationGain(t, [t], DEFAULT_LOUDNESS);
+    expect(0.9 * dbToGain(gain)).toBeCloseTo(1, 6);
+    expect(getNormalizationGain(t, [t], { ...DEFAULT_LOUDNESS, preventClipping: false })).toBe(6);
+    expect(getNormalizationGain(track('b', { trackGain: -3, trackPeak: 0.9, source: 'tags' }), [], DEFAULT_LOUDNESS)).toBe(-3);
+  });
+
+  it('derives album gain from the track gains of the album', () => {
+    const album = { album: 'Record', albumArtist: 'Band', duration: 100 };
+    const loud = track('loud', { trackGain: -8, trackPeak: 1, source: 'measured' }, album);
+    const quiet = track('quiet', { trackGain: -2, trackPeak: 0.5, source: 'measured' }, album);
+    const settings = { ...DEFAULT_LOUDNESS, mode: 'album' as const, preventClipping: false };
+
+    const gain = getNormalizationGain(quiet, [loud, quiet], settings);
+    // Equal-length tracks: the energy average sits between the two, nearer the louder one
+    expect(gain).toBeGreaterThan(-8);
+    expect(gain).toBeLessThan(-5);
+    expect(getNormalizationGain(loud, [loud, quiet], settings)).toBe(gain);
+    expect(getNormalizationGain(quiet, [loud, quiet], { ...settings, preventClipping: true })).toBeLessThanOrEqual(0);
+  });
+});
@@ -0,0 +1,189 @@
+// ReplayGain / EBU R128 loudness normalization: BS.1770 measurement and gain selection
+import { Track, TrackLoudness, LoudnessSettings } from '../types';
+import { getAlbumKey } from './library';
+
+export const REPLAYGAIN_REFERENCE_LUFS = -18;
+export const MAX_PREAMP_DB = 12;
+
+export const DEFAULT_LOUDNESS: LoudnessSettings = { mode: 'track', preAmp: 0, preventClipping: true };
+
+// BS.1770 runs at 48 kHz; decoding resamples everything to it
+const ANALYSIS_SAMPLE_RATE = 48000;
+const BLOCK_SECONDS = 0.4;
+const SEGMENTS_PER_BLOCK = 4; // 400ms blocks with 75% overlap
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+export const dbToGain = (db: number): number => Math.pow(10, db / 20);
+
+// --- K-weighting ---
+
+/**
+ * BS.1770 pre-filter (high shelf) and RLB high-pass, with coefficients
+ * derived for any sample rate rather than the 48 kHz table in the spec
+ */
+const getKWeightingFilters = (sampleRate: number) => {
+  let f0 = 1681.974450955533;
+  let Q = 0.7071752369554196;
+  let K = Math.tan((Math.PI * f0) / sampleRate);
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf = {
+    feedforward: [(Vh + (Vb * K) / Q + K * K) / a0, (2 * (K * K - Vh)) / a0, (Vh - (Vb * K) / Q + K * K) / a0],
+    feedback: [1, (2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0]
+  };
+
+  f0 = 38.13547087602444;
+  Q = 0.5003270373238773;
+  K = Math.tan((Math.PI * f0) / sampleRate);
+  a0 = 1 + K / Q + K * K;
+  const highPass = {
+    feedforward: [1, -2, 1],
+    feedback: [1, (2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0]
+  };
+
+  return [shelf, highPass];
+};
+
+// Surround channels of a 5.1 layout are weighted +1.5 dB, LFE is ignored
+const channelWeight = (channel: number, channelCount: number): number => {
+  if (channelCount !== 6) return 1;
+  if (channel === 3) return 0;
+  return channel >= 4 ? 1.41 : 1;
+};
+
+/**
+ * Gated integrated loudness (LUFS) of a K-weighted buffer.
+ * Returns null when nothing passes the absolute gate (silence or < 400ms).
+ */
+export const integratedLoudness = (weighted: AudioBuffer): number | null => {
+  const segmentLength = Math.round((weighted.sampleRate * BLOCK_SECONDS) / SEGMENTS_PER_BLOCK);
+  const segmentCount = Math.floor(weighted.length / segmentLength);
+
+  // Weighted sum of squares per 100ms segment, so each block is just four segments added up
+  const segments = new Float64Array(segmentCount);
+  for (let c = 0; c < weighted.numberOfChannels; c++) {
+    const weight = channelWeight(c, weighted.numberOfChannels);
+    if (weight === 0) continue;
+    const data = weighted.getChannelData(c);
+    for (let s = 0; s < segmentCount; s++) {
+      let sum = 0;
+      for (let i = s * segmentLength, end = i + segmentLength; i < end; i++) sum += data[i] * data[i];
+      segments[s] += sum * weight;
+    }
+  }
+
+  const blockPowers: number[] = [];
+  for (let s = 0; s + SEGMENTS_PER_BLOCK <= segmentCount; s++) {
+    let sum = 0;
+    for (let j = 0; j < SEGMENTS_PER_BLOCK; j++) sum += segments[s + j];
+    blockPowers.push(sum / (segmentLength * SEGMENTS_PER_BLOCK));
+  }
+
+  const toLufs = (power: number) => -0.691 + 10 * Math.log10(power);
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+  const aboveAbsolute = blockPowers.filter(p => p > 0 && toLufs(p) > ABSOLUTE_GATE_LUFS);
+  if (aboveAbsolute.length === 0) return null;
+
+  const relativeGate = toLufs(mean(aboveAbsolute)) + RELATIVE_GATE_LU;
+  const gated = aboveAbsolute.filter(p => toLufs(p) > relativeGate);
+  return toLufs(mean(gated));
+};
+
+const samplePeak = (buffer: AudioBuffer): number => {
+  let peak = 0;
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) {
+      const value = Math.abs(data[i]);
+      if (value > peak) peak = value;
+    }
+  }
+  return peak;
+};
+
+/**
+ * Measure a file's integrated loudness (ITU-R BS.1770) and sample peak by rendering it
+ * through K-weighting filters in an OfflineAudioContext.
+ * @returns null if the file can't be decoded
+ */
+export const measureLoudness = async (file: Blob): Promise<TrackLoudness | null> => {
+  try {
+    const decoder = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+    const buffer = await decoder.decodeAudioData(await file.arrayBuffer());
+
+    const ctx = new OfflineAudioContext(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    let previous: AudioNode = source;
+    for (const { feedforward, feedback } of getKWeightingFilters(buffer.sampleRate)) {
+      const filter = ctx.createIIRFilter(feedforward, feedback);
+      previous.connect(filter);
+      previous = filter;
+    }
+    previous.connect(ctx.destination);
+    source.start();
+
+    const loudness = integratedLoudness(await ctx.startRendering());
+    return {
+      trackGain: loudness === null ? undefined : REPLAYGAIN_REFERENCE_LUFS - loudness,
+      trackPeak: samplePeak(buffer),
+      source: 'measured'
+    };
+  } catch (error) {
+    console.warn('[Loudness] Measurement failed:', error);
+    return null;
+  }
+};
+
+// --- Gain Selection ---
+
+/**
+ * Album gain for tracks without an album tag, approximated from the track gains
+ * of everything in the library on the same album (duration-weighted energy average)
+ */
+const deriveAlbumLoudness = (track: Track, library: Track[]): { gain: number; peak?: number } | null => {
+  const key = getAlbumKey(track);
+  if (!key) return null;
+
+  let energy = 0;
+  let weight = 0;
+  let peak: number | undefined;
+  for (const t of library) {
+    if (t.loudness?.trackGain === undefined || getAlbumKey(t) !== key) continue;
+    const duration = t.duration || 1;
+    energy += duration * Math.pow(10, (REPLAYGAIN_REFERENCE_LUFS - t.loudness.trackGain) / 10);
+    weight += duration;
+    if (t.loudness.trackPeak !== undefined) peak = Math.max(peak ?? 0, t.loudness.trackPeak);
+  }
+  if (weight === 0) return null;
+  return { gain: REPLAYGAIN_REFERENCE_LUFS - 10 * Math.log10(energy / weight), peak };
+};
+
+/**
+ * Normalization gain in dB for a track, including pre-amp and clipping protection.
+ * Tracks without loudness info only get the pre-amp.
+ */
+export const getNormalizationGain = (track: Track, library: Track[], settings: LoudnessSettings): number => {
+  if (settings.mode === 'off') return 0;
+  const loudness = track.loudness;
+
+  let gain: number | undefined;
+  let peak: number | undefined;
+  if (settings.mode === 'album') {
+    const derived = loudness?.albumGain === undefined ? deriveAlbumLoudness(track, library) : null;
+    gain = loudness?.albumGain ?? derived?.gain ?? loudness?.trackGain;
+    peak = loudness?.albumPeak ?? derived?.peak ?? loudness?.trackPeak;
+  } else {
+    gain = loudness?.trackGain ?? loudness?.albumGain;
+    peak = loudness?.trackPeak ?? loudness?.albumPeak;
+  }
+
+  let total = (gain ?? 0) + settings.preAmp;
+  if (settings.preventClipping && peak && peak > 0) {
+    total = Math.min(total, -20 * Math.log10(peak));
+  }
+  return total;
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { parseLyrics, isSyncedLyrics, findLyricLine, findLyricWord, formatLrcTime, timedTextToLrc, readLyricsFile } from './lyrics';
+
+describe('parseLyrics', () => {
+  it('parses LRC lines in time order, including repeated timestamps', () => {
+    const lyrics = parseLyrics('[ar:Artist]\n[00:12.50]First\n[00:05.00][01:00.00]Chorus\n');
+    expect(lyrics.synced).toBe(true);
+    expect(lyrics.lines.map(line => [line.time, line.text])).toEqual([[5, 'Chorus'], [12.5, 'First'], [60, 'Chorus']]);
+  });
+
+  it('reads the offset tag in milliseconds', () => {
+    expect(parseLyrics('[offset:+250]\n[00:01.00]Line').offset).toBe(0.25);
+  });
+
+  it('splits enhanced LRC lines into timed words', () => {
+    const [line] = parseLyrics('[00:10.00]<00:10.00>Hello <00:10.80>world').lines;
+    expect(line.text).toBe('Hello world');
+    expect(line.words).toEqual([{ time: 10, text: 'Hello ' }, { time: 10.8, text: 'world' }]);
+  });
+
+  it('keeps plain text unsynced, without leading or trailing blank lines', () => {
+    const lyrics = parseLyrics('\n\nVerse one\n\nVerse two\n\n');
+    expect(lyrics.synced).toBe(false);
+    expect(lyrics.lines.map(line => line.text)).toEqual(['Verse one', '', 'Verse two']);
+  });
+});
+
+describe('lookup by time', () => {
+  const lyrics = parseLyrics('[00:01.00]<00:01.00>a <00:02.00>b\n[00:05.00]c');
+
+  it('finds the line being sung', () => {
+    expect(findLyricLine(lyrics, 0.5)).toBe(-1);
+    expect(findLyricLine(lyrics, 1)).toBe(0);
+    expect(findLyricLine(lyrics, 4.9)).toBe(0);
+    expect(findLyricLine(lyrics, 100)).toBe(1);
+  });
+
+  it('finds the word being sung', () => {
+    expect(findLyricWord(lyrics.lines[0], 1.5)).toBe(0);
+    expect(findLyricWord(lyrics.lines[0], 2)).toBe(1);
+    expect(findLyricWord(lyrics.lines[1], 6)).toBe(-1);
+  });
+
+  it('never highlights unsynced lyrics', () => {
+    expect(findLyricLine(parseLyrics('just text'), 10)).toBe(-1);
+  });
+});
+
+describe('LRC output', () => {
+  it('formats times as mm:ss.xx', () => {
+    expect(formatLrcTime(65.456)).toBe('01:05.46');
+    expect(formatLrcTime(-1)).toBe('00:00.00');
+  });
+
+  it('turns timed text into lines with word tags', () => {
+    const lrc = timedTextToLrc([
+      { time: 1, text: 'Hello ' },
+      { time: 1.5, text: 'there' },
+      { time: 3, text: '\nNext line' }
+    ]);
+    expect(lrc).toBe('[00:01.00]<00:01.00>Hello <00:01.50>there\n[00:03.00]Next line');
+    expect(isSyncedLyrics(lrc)).toBe(true);
+    expect(parseLyrics(lrc).lines.map(line => line.text)).toEqual(['Hello there', 'Next line']);
+  });
+
+  it('tells synced from plain lyrics', () => {
+    expect(isSyncedLyrics('Plain words [not a tag]')).toBe(false);
+  });
+});
+
+describe('readLyricsFile', () => {
+  it('falls back to Windows-1252 for files that are not UTF-8', async () => {
+    const text = await readLyricsFile(new Blob([new Uint8Array([0x5b, 0x30, 0x30, 0x3a, 0x30, 0x31, 0x5d, 0x43, 0x61, 0x66, 0xe9])]));
+    expect(text).toBe('[00:01]Café');
+  });
+});
@@ -0,0 +1,143 @@
+// Lyrics: LRC parsing (including enhanced LRC word timings) and lookup by playback time
+import { Lyrics, LyricLine, LyricWord } from '../types';
+
+const LINE_TIME_TAG = /^\[(\d+):(\d{1,2}(?:[.:]\d{1,3})?)\]/;
+const WORD_TIME_TAG = /<(\d+):(\d{1,2}(?:[.:]\d{1,3})?)>/;
+const ID_TAG = /^\[([a-z]+):(.*)\]$/i;
+
+const parseLrcTime = (minutes: string, seconds: string): number => {
+  return parseInt(minutes, 10) * 60 + parseFloat(seconds.replace(':', '.'));
+};
+
+export const formatLrcTime = (seconds: number): string => {
+  const total = Math.max(0, Math.round(seconds * 100));
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${pad(Math.floor(total / 6000))}:${pad(Math.floor(total / 100) % 60)}.${pad(total % 100)}`;
+};
+
+/**
+ * Check whether lyrics text carries LRC timestamps
+ */
+export const isSyncedLyrics = (text: string): boolean => /^\s*\[\d+:\d{1,2}(?:[.:]\d{1,3})?\]/m.test(text);
+
+// "<00:12.00>Some <00:12.40>words" -> timed words; text before the first tag starts at `lineTime`
+const parseWords = (text: string, lineTime: number): LyricWord[] | undefined => {
+  if (!WORD_TIME_TAG.test(text)) return undefined;
+  const parts = text.split(new RegExp(WORD_TIME_TAG.source, 'g'));
+  const words: LyricWord[] = [];
+  if (parts[0]) words.push({ time: lineTime, text: parts[0] });
+  // split() with two capture groups yields [text, min, sec, text, min, sec, text, ...]
+  for (let i = 1; i + 2 < parts.length; i += 3) {
+    if (parts[i + 2]) words.push({ time: parseLrcTime(parts[i], parts[i + 1]), text: parts[i + 2] });
+  }
+  return words.length > 0 ? words : undefined;
+};
+
+/**
+ * Parse LRC (one or more [mm:ss.xx] tags per line, optional <mm:ss.xx> word tags)
+ * or plain text. Text without any timestamps comes back unsynced, line by line.
+ */
+export const parseLyrics = (text: string): Lyrics => {
+  const timed: LyricLine[] = [];
+  const plain: LyricLine[] = [];
+  let offset = 0;
+
+  for (const rawLine of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    let rest = rawLine.trim();
+    const times: number[] = [];
+    let match: RegExpMatchArray | null;
+    while ((match = rest.match(LINE_TIME_TAG))) {
+      times.push(parseLrcTime(match[1], match[2]));
+      rest = rest.slice(match[0].length);
+    }
+
+    if (times.length === 0) {
+      const idTag = rest.match(ID_TAG);
+      if (idTag) {
+        if (idTag[1].toLowerCase() === 'offset') offset = (parseInt(idTag[2], 10) || 0) / 1000;
+        continue;
+      }
+      plain.push({ text: rest });
+      continue;
+    }
+
+    for (const time of times) {
+      const words = parseWords(rest, time);
+      timed.push({ time, text: words ? words.map(w => w.text).join('').trim() : rest.trim(), words });
+    }
+  }
+
+  if (timed.length > 0) {
+    return { lines: timed.sort((a, b) => a.time! - b.time!), synced: true, offset };
+  }
+
+  // Trim leading/trailing blank lines, keep the blank lines between verses
+  while (plain.length > 0 && !plain[0].text) plain.shift();
+  while (plain.length > 0 && !plain[plain.length - 1].text) plain.pop();
+  return { lines: plain, synced: false, offset: 0 };
+};
+
+/**
+ * Index of the last item whose time has been reached, or -1 before the first one
+ */
+const findTimedIndex = (items: { time?: number }[], time: number): number => {
+  let low = 0;
+  let high = items.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if ((items[mid].time ?? 0) <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+};
+
+export const findLyricLine = (lyrics: Lyrics, time: number): number => {
+  return lyrics.synced ? findTimedIndex(lyrics.lines, time) : -1;
+};
+
+export const findLyricWord = (line: LyricLine, time: number): number => {
+  return line.words ? findTimedIndex(line.words, time) : -1;
+};
+
+/**
+ * Write timed text (e.g. an ID3 SYLT frame) as LRC. Entries starting with a line
+ * break open a new line; the others are words of the current one.
+ */
+export const timedTextToLrc = (entries: { time: number; text: string }[]): string => {
+  const lines: { time: number; words: LyricWord[] }[] = [];
+  for (const entry of entries) {
+    const text = entry.text.replace(/^[\r\n]+/, '');
+    if (lines.length === 0 || text !== entry.text) {
+      lines.push({ time: entry.time, words: [] });
+    }
+    lines[lines.length - 1].words.push({ time: entry.time, text });
+  }
+
+  return lines.map(line => {
+    const body = line.words.length === 1
+      ? line.words[0].text
+      : line.words.map(w => `<${formatLrcTime(w.time)}>${w.text}`).join('');
+    return `[${formatLrcTime(line.time)}]${body}`;
+  }).join('\n');
+};
+
+/**
+ * Read a sidecar .lrc file; older ones are often Windows-1252 rather than UTF-8
+ * @returns null if the file can't be read
+ */
+export const readLyricsFile = async (file: Blob): Promise<string | null> => {
+  try {
+    const bytes = await file.arrayBuffer();
+    let text = new TextDecoder('utf-8').decode(bytes);
+    if (text.includes('\uFFFD')) text = new TextDecoder('windows-1252').decode(bytes);
+    return text;
+  } catch (error) {
+    console.warn('[Lyrics] Could not read file:', error);
+    return null;
+  }
+};
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { readMetadata, readID3v2Tag, readVorbisComments, parseMpegFrameHeader, findMpegFrame } from './metadata';
+
+const encoder = new TextEncoder();
+
+// MPEG-1 Layer III, 128 kbps, 44.1 kHz: 417-byte frames of 1152 samples
+const MPEG_HEADER = [0xff, 0xfb, 0x90, 0x00];
+const MPEG_FRAME_LENGTH = 417;
+
+const mpegFrames = (count: number): Uint8Array => {
+  const bytes = new Uint8Array(MPEG_FRAME_LENGTH * count);
+  for (let i = 0; i < count; i++) bytes.set(MPEG_HEADER, i * MPEG_FRAME_LENGTH);
+  return bytes;
+};
+
+const syncsafe = (n: number) => [(n >>> 21) & 0x7f, (n >>> 14) & 0x7f, (n >>> 7) & 0x7f, n & 0x7f];
+const be32 = (n: number) => [(n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+const le32 = (n: number) => [n & 0xff, (n >>> 8) & 0xff, (n >>> 16) & 0xff, (n >>> 24) & 0xff];
+
+// Text frame in ISO-8859-1
+const textFrame = (id: string, text: string, version = 3, flags = 0): number[] => {
+  const data = [0, ...Array.from(text, char => char.charCodeAt(0))];
+  return [...encoder.encode(id), ...(version === 4 ? syncsafe(data.length) : be32(data.length)), 0, flags, ...data];
+};
+
+const id3Tag = (frames: number[][], version = 3, flags = 0): Uint8Array => {
+  const body = frames.flat();
+  return new Uint8Array([...encoder.encode('ID3'), version, 0, flags, ...syncsafe(body.length), ...body]);
+};
+
+const vorbisComment = (comments: string[]): number[] => {
+  const vendor = encoder.encode('test');
+  const entries = comments.flatMap(comment => {
+    const bytes = encoder.encode(comment);
+    return [...le32(bytes.length), ...bytes];
+  });
+  return [...le32(vendor.length), ...vendor, ...le32(comments.length), ...entries];
+};
+
+describe('readMetadata', () => {
+  it('reads ID3v2.3 text frames and estimates the MP3 duration', async () => {
+    const tag = id3Tag([
+      textFrame('TIT2', 'Song'),
+      textFrame('TPE1', 'Artist'),
+      textFrame('TALB', 'Album'),
+      textFrame('TRCK', '3/12')
+    ]);
+    const meta = await readMetadata(new Blob([tag, mpegFrames(100)]));
+
+    expect(meta).toMatchObject({ title: 'Song', artist: 'Artist', album: 'Album', trackNumber: 3, trackTotal: 12 });
+    expect(meta.duration).toBeCloseTo((100 * 1152) / 44100, 1);
+  });
+
+  it('removes unsynchronisation from flagged ID3v2.4 frames', async () => {
+    // "ÿ" followed by a zero is how an unsynchronised 0xFF 0x00 byte pair is stored
+    const frame = textFrame('TIT2', 'aÿ\u0000b', 4, 0x02);
+    const meta = await readMetadata(new Blob([id3Tag([frame], 4), mpegFrames(4)]));
+    expect(meta.title).toBe('aÿb');
+  });
+
+  it('reads the ID3v1 tag at the end of the file', async () => {
+    const v1 = new Uint8Array(128);
+    v1.set(encoder.encode('TAG'));
+    v1.set(encoder.encode('Old Title'), 3);
+    v1.set(encoder.encode('Old Artist'), 33);
+    v1[127] = 255;
+    const meta = await readMetadata(new Blob([mpegFrames(4), v1]));
+    expect(meta).toMatchObject({ title: 'Old Title', artist: 'Old Artist' });
+  });
+
+  it('leaves the duration unknown for audio that is not MPEG', async () => {
+    const wav = new Uint8Array(4096);
+    wav.set(encoder.encode('RIFF'));
+    wav.set(encoder.encode('WAVE'), 8);
+    wav.set(MPEG_HEADER, 100); // A stray sync word is not a frame
+    const meta = await readMetadata(new Blob([wav]));
+    expect(meta.duration).toBeUndefined();
+  });
+
+  it('reads FLAC stream info and Vorbis comments', async () => {
+    const streamInfo = new Uint8Array(34);
+    // 44100 Hz, 2 channels, 16 bits, 441000 samples
+    streamInfo.set([0x0a, 0xc4, 0x42, 0xf0, 0x00, 0x06, 0xba, 0xa8], 10);
+    const comment = vorbisComment(['TITLE=Flac Song', 'ARTIST=Flac Artist', 'TRACKNUMBER=7']);
+    const flac = new Uint8Array([
+      ...encoder.encode('fLaC'),
+      0x00, 0, 0, 34, ...streamInfo,
+      0x84, ...be32(comment.length).slice(1), ...comment
+    ]);
+    const meta = await readMetadata(new Blob([flac]));
+    expect(meta).toMatchObject({ title: 'Flac Song', artist: 'Flac Artist', trackNumber: 7 });
+    expect(meta.duration).toBeCloseTo(10, 5);
+  });
+
+  it('resolves to an empty object for unreadable files', async () => {
+    expect(await readMetadata(new Blob([new Uint8Array([1, 2, 3])]))).toEqual({});
+  });
+});
+
+describe('readVorbisComments', () => {
+  it('splits the vendor string from the comment list', () => {
+    const result = readVorbisComments(new Uint8Array(vorbisComment(['TITLE=A', 'GENRE=Jazz'])));
+    expect(result).toEqual({ vendor: 'test', comments: ['TITLE=A', 'GENRE=Jazz'] });
+  });
+});
+
+describe('readID3v2Tag', () => {
+  it('returns null without an ID3 header', async () => {
+    expect(await readID3v2Tag(new Blob([mpegFrames(1)]))).toBeNull();
+  });
+
+  it('reports where the audio starts', async () => {
+    const tag = id3Tag([textFrame('TIT2', 'x')]);
+    const result = await readID3v2Tag(new Blob([tag, mpegFrames(1)]));
+    expect(result?.audioStart).toBe(tag.length);
+    expect(result?.frames.map(frame => frame.id)).toEqual(['TIT2']);
+  });
+});
+
+describe('MPEG frames', () => {
+  it('parses a Layer III frame header', () => {
+    expect(parseMpegFrameHeader(new Uint8Array(MPEG_HEADER), 0)).toMatchObject({
+      layer: 3,
+      sampleRate: 44100,
+      bitrate: 128000,
+      samplesPerFrame: 1152,
+      frameLength: MPEG_FRAME_LENGTH
+    });
+  });
+
+  it('needs a second frame where the first one ends', () => {
+    const probe = new Uint8Array(2048);
+    probe.set(MPEG_HEADER, 10);
+    expect(findMpegFrame(probe)).toBe(-1);
+    probe.set(MPEG_HEADER, 10 + MPEG_FRAME_LENGTH);
+    expect(findMpegFrame(probe)).toBe(10);
+  });
+});
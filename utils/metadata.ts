@@ -0,0 +1,992 @@
+// Embedded tag parsing for local audio files (ID3v1/v2, FLAC, Ogg Vorbis/Opus, MP4)
+import { TrackLoudness } from '../types';
+import { isSyncedLyrics, timedTextToLrc } from './lyrics';
+
+export interface EmbeddedPicture {
+  mimeType: string;
+  type: number; // ID3/FLAC picture type (3 = front cover)
+  data: Uint8Array;
+}
+
+export interface AudioMetadata {
+  title?: string;
+  artist?: string;
+  albumArtist?: string;
+  album?: string;
+  year?: number;
+  genre?: string;
+  trackNumber?: number;
+  trackTotal?: number;
+  discNumber?: number;
+  discTotal?: number;
+  duration?: number; // In seconds
+  picture?: EmbeddedPicture;
+  replayGain?: Omit<TrackLoudness, 'source'>;
+  lyrics?: string; // LRC when synced
+}
+
+type ReplayGainField = keyof NonNullable<AudioMetadata['replayGain']>;
+
+const REPLAYGAIN_FIELDS: Record<string, ReplayGainField> = {
+  REPLAYGAIN_TRACK_GAIN: 'trackGain',
+  REPLAYGAIN_TRACK_PEAK: 'trackPeak',
+  REPLAYGAIN_ALBUM_GAIN: 'albumGain',
+  REPLAYGAIN_ALBUM_PEAK: 'albumPeak',
+  R128_TRACK_GAIN: 'trackGain',
+  R128_ALBUM_GAIN: 'albumGain'
+};
+
+// R128 gains are relative to -23 LUFS, ReplayGain 2.0 to -18 LUFS
+const R128_TO_REPLAYGAIN_DB = 5;
+
+// ID3v1 genre list (including Winamp extensions)
+const ID3_GENRES = [
+  'Blues', 'Classic Rock', 'Country', 'Dance', 'Disco', 'Funk', 'Grunge', 'Hip-Hop', 'Jazz', 'Metal',
+  'New Age', 'Oldies', 'Other', 'Pop', 'R&B', 'Rap', 'Reggae', 'Rock', 'Techno', 'Industrial',
+  'Alternative', 'Ska', 'Death Metal', 'Pranks', 'Soundtrack', 'Euro-Techno', 'Ambient', 'Trip-Hop', 'Vocal', 'Jazz+Funk',
+  'Fusion', 'Trance', 'Classical', 'Instrumental', 'Acid', 'House', 'Game', 'Sound Clip', 'Gospel', 'Noise',
+  'Alternative Rock', 'Bass', 'Soul', 'Punk', 'Space', 'Meditative', 'Instrumental Pop', 'Instrumental Rock', 'Ethnic', 'Gothic',
+  'Darkwave', 'Techno-Industrial', 'Electronic', 'Pop-Folk', 'Eurodance', 'Dream', 'Southern Rock', 'Comedy', 'Cult', 'Gangsta',
+  'Top 40', 'Christian Rap', 'Pop/Funk', 'Jungle', 'Native American', 'Cabaret', 'New Wave', 'Psychedelic', 'Rave', 'Showtunes',
+  'Trailer', 'Lo-Fi', 'Tribal', 'Acid Punk', 'Acid Jazz', 'Polka', 'Retro', 'Musical', 'Rock & Roll', 'Hard Rock',
+  'Folk', 'Folk-Rock', 'National Folk', 'Swing', 'Fast Fusion', 'Bebop', 'Latin', 'Revival', 'Celtic', 'Bluegrass',
+  'Avantgarde', 'Gothic Rock', 'Progressive Rock', 'Psychedelic Rock', 'Symphonic Rock', 'Slow Rock', 'Big Band', 'Chorus', 'Easy Listening', 'Acoustic',
+  'Humour', 'Speech', 'Chanson', 'Opera', 'Chamber Music', 'Sonata', 'Symphony', 'Booty Bass', 'Primus', 'Porn Groove',
+  'Satire', 'Slow Jam', 'Club', 'Tango', 'Samba', 'Folklore', 'Ballad', 'Power Ballad', 'Rhythmic Soul', 'Freestyle',
+  'Duet', 'Punk Rock', 'Drum Solo', 'A Cappella', 'Euro-House', 'Dance Hall', 'Goa', 'Drum & Bass', 'Club-House', 'Hardcore',
+  'Terror', 'Indie', 'BritPop', 'Negerpunk', 'Polsk Punk', 'Beat', 'Christian Gangsta Rap', 'Heavy Metal', 'Black Metal', 'Crossover',
+  'Contemporary Christian', 'Christian Rock', 'Merengue', 'Salsa', 'Thrash Metal', 'Anime', 'JPop', 'Synthpop'
+];
+
+// Normalized (Vorbis-style) field names for the tag frames we care about
+const ID3_FRAME_FIELDS: Record<string, string> = {
+  TIT2: 'TITLE', TT2: 'TITLE',
+  TPE1: 'ARTIST', TP1: 'ARTIST',
+  TPE2: 'ALBUMARTIST', TP2: 'ALBUMARTIST',
+  TALB: 'ALBUM', TAL: 'ALBUM',
+  TYER: 'DATE', TYE: 'DATE', TDRC: 'DATE',
+  TCON: 'GENRE', TCO: 'GENRE',
+  TRCK: 'TRACKNUMBER', TRK: 'TRACKNUMBER',
+  TPOS: 'DISCNUMBER', TPA: 'DISCNUMBER',
+  TLEN: 'LENGTH', TLE: 'LENGTH'
+};
+
+const MP4_ATOM_FIELDS: Record<string, string> = {
+  '©nam': 'TITLE',
+  '©ART': 'ARTIST',
+  'aART': 'ALBUMARTIST',
+  '©alb': 'ALBUM',
+  '©day': 'DATE',
+  '©gen': 'GENRE',
+  '©lyr': 'LYRICS'
+};
+
+// --- Byte helpers (shared with the tag writer) ---
+
+export const readBytes = async (file: Blob, offset: number, length: number): Promise<Uint8Array> => {
+  const buffer = await file.slice(offset, offset + length).arrayBuffer();
+  return new Uint8Array(buffer);
+};
+
+export const ascii = (bytes: Uint8Array, start: number, length: number): string => {
+  let out = '';
+  for (let i = start; i < start + length && i < bytes.length; i++) {
+    out += String.fromCharCode(bytes[i]);
+  }
+  return out;
+};
+
+export const uint32BE = (b: Uint8Array, o: number) => ((b[o] << 24) >>> 0) + (b[o + 1] << 16) + (b[o + 2] << 8) + b[o + 3];
+export const uint32LE = (b: Uint8Array, o: number) => ((b[o + 3] << 24) >>> 0) + (b[o + 2] << 16) + (b[o + 1] << 8) + b[o];
+export const uint24BE = (b: Uint8Array, o: number) => (b[o] << 16) + (b[o + 1] << 8) + b[o + 2];
+export const syncsafe32 = (b: Uint8Array, o: number) => ((b[o] & 0x7f) << 21) | ((b[o + 1] & 0x7f) << 14) | ((b[o + 2] & 0x7f) << 7) | (b[o + 3] & 0x7f);
+
+const decodeText = (bytes: Uint8Array, encoding: 'latin1' | 'utf-8' | 'utf-16le' | 'utf-16be' | 'utf-16' = 'utf-8'): string => {
+  if (encoding === 'utf-16') {
+    // BOM-prefixed UTF-16, default to little endian when the BOM is missing
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes.subarray(2));
+    return new TextDecoder('utf-16le').decode(bytes);
+  }
+  return new TextDecoder(encoding).decode(bytes);
+};
+
+const cleanText = (text: string): string => text.replace(/\0+$/, '').trim();
+
+// Parses "3" or "3/12" style number pairs
+const parseNumberPair = (value: string): [number | undefined, number | undefined] => {
+  const [num, total] = value.split('/').map(part => parseInt(part, 10));
+  return [isNaN(num) ? undefined : num, total === undefined || isNaN(total) ? undefined : total];
+};
+
+// Resolves ID3 genre references like "(17)", "17" or "(17)Rock"
+const resolveGenre = (value: string): string => {
+  const match = value.match(/^\((\d+)\)(.*)$/);
+  if (match) {
+    return match[2].trim() || ID3_GENRES[parseInt(match[1], 10)] || value;
+  }
+  if (/^\d+$/.test(value)) {
+    return ID3_GENRES[parseInt(value, 10)] || value;
+  }
+  return value;
+};
+
+/**
+ * Apply a normalized (Vorbis comment style) field to the metadata object.
+ * All container parsers funnel their fields through here.
+ */
+const applyField = (meta: AudioMetadata, key: string, rawValue: string) => {
+  const value = cleanText(rawValue);
+  if (!value) return;
+
+  switch (key.toUpperCase()) {
+    case 'TITLE':
+      meta.title = value;
+      break;
+    case 'ARTIST':
+      meta.artist = value;
+      break;
+    case 'ALBUMARTIST':
+    case 'ALBUM ARTIST':
+      meta.albumArtist = value;
+      break;
+    case 'ALBUM':
+      meta.album = value;
+      break;
+    case 'DATE':
+    case 'YEAR': {
+      const year = parseInt(value.substring(0, 4), 10);
+      if (!isNaN(year)) meta.year = year;
+      break;
+    }
+    case 'GENRE':
+      meta.genre = resolveGenre(value);
+      break;
+    case 'TRACKNUMBER': {
+      const [num, total] = parseNumberPair(value);
+      if (num !== undefined) meta.trackNumber = num;
+      if (total !== undefined) meta.trackTotal = total;
+      break;
+    }
+    case 'TRACKTOTAL':
+    case 'TOTALTRACKS': {
+      const total = parseInt(value, 10);
+      if (!isNaN(total)) meta.trackTotal = total;
+      break;
+    }
+    case 'DISCNUMBER': {
+      const [num, total] = parseNumberPair(value);
+      if (num !== undefined) meta.discNumber = num;
+      if (total !== undefined) meta.discTotal = total;
+      break;
+    }
+    case 'DISCTOTAL':
+    case 'TOTALDISCS': {
+      const total = parseInt(value, 10);
+      if (!isNaN(total)) meta.discTotal = total;
+      break;
+    }
+    case 'LENGTH': {
+      // ID3 TLEN is in milliseconds
+      const ms = parseInt(value, 10);
+      if (!isNaN(ms) && ms > 0 && !meta.duration) meta.duration = ms / 1000;
+      break;
+    }
+    case 'LYRICS':
+    case 'UNSYNCEDLYRICS':
+    case 'SYNCEDLYRICS':
+      applyLyrics(meta, value);
+      break;
+    case 'REPLAYGAIN_TRACK_GAIN':
+    case 'REPLAYGAIN_TRACK_PEAK':
+    case 'REPLAYGAIN_ALBUM_GAIN':
+    case 'REPLAYGAIN_ALBUM_PEAK': {
+      // "-6.48 dB" / "0.988525"
+      const number = parseFloat(value);
+      if (!isFinite(number)) break;
+      meta.replayGain = { ...meta.replayGain, [REPLAYGAIN_FIELDS[key.toUpperCase()]]: number };
+      break;
+    }
+    case 'R128_TRACK_GAIN':
+    case 'R128_ALBUM_GAIN': {
+      // Opus: Q7.8 fixed point integer, only used when no ReplayGain tag is present
+      const q78 = parseInt(value, 10);
+      const field = REPLAYGAIN_FIELDS[key.toUpperCase()];
+      if (isNaN(q78) || meta.replayGain?.[field] !== undefined) break;
+      meta.replayGain = { ...meta.replayGain, [field]: q78 / 256 + R128_TO_REPLAYGAIN_DB };
+      break;
+    }
+  }
+};
+
+// Synced lyrics win over plain ones, whichever tag comes first
+const applyLyrics = (meta: AudioMetadata, lyrics: string) => {
+  if (!meta.lyrics || (!isSyncedLyrics(meta.lyrics) && isSyncedLyrics(lyrics))) {
+    meta.lyrics = lyrics;
+  }
+};
+
+// Keep the front cover if there is one, otherwise the first picture found
+const applyPicture = (meta: AudioMetadata, picture: EmbeddedPicture) => {
+  if (picture.data.length === 0) return;
+  if (!meta.picture || (meta.picture.type !== 3 && picture.type === 3)) {
+    meta.picture = picture;
+  }
+};
+
+const sniffImageMime = (data: Uint8Array, fallback = 'image/jpeg'): string => {
+  if (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) return 'image/png';
+  if (data[0] === 0xff && data[1] === 0xd8) return 'image/jpeg';
+  if (data[0] === 0x47 && data[1] === 0x49 && data[2] === 0x46) return 'image/gif';
+  return fallback;
+};
+
+// --- ID3v2 ---
+
+const removeUnsynchronisation = (data: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(data.length);
+  let j = 0;
+  for (let i = 0; i < data.length; i++) {
+    out[j++] = data[i];
+    if (data[i] === 0xff && data[i + 1] === 0x00) i++;
+  }
+  return out.subarray(0, j);
+};
+
+const ID3_TEXT_ENCODINGS = ['latin1', 'utf-16', 'utf-16be', 'utf-8'] as const;
+
+// Find the end of a null-terminated string, respecting 2-byte terminators for UTF-16
+const findTerminator = (data: Uint8Array, start: number, encoding: number): number => {
+  if (encoding === 1 || encoding === 2) {
+    for (let i = start; i + 1 < data.length; i += 2) {
+      if (data[i] === 0 && data[i + 1] === 0) return i;
+    }
+    return data.length;
+  }
+  const idx = data.indexOf(0, start);
+  return idx === -1 ? data.length : idx;
+};
+
+const decodeID3Text = (data: Uint8Array, encoding: number): string => {
+  return decodeText(data, ID3_TEXT_ENCODINGS[encoding] || 'latin1');
+};
+
+const parseID3Picture = (frameId: string, data: Uint8Array): EmbeddedPicture | null => {
+  const encoding = data[0];
+  let offset = 1;
+  let mimeType: string;
+
+  if (frameId === 'PIC') {
+    // ID3v2.2: 3-character image format
+    const format = ascii(data, offset, 3).toUpperCase();
+    mimeType = format === 'PNG' ? 'image/png' : 'image/jpeg';
+    offset += 3;
+  } else {
+    const mimeEnd = findTerminator(data, offset, 0);
+    mimeType = ascii(data, offset, mimeEnd - offset) || 'image/jpeg';
+    if (!mimeType.includes('/')) mimeType = `image/${mimeType.toLowerCase()}`;
+    offset = mimeEnd + 1;
+  }
+
+  const pictureType = data[offset];
+  offset += 1;
+
+  const descEnd = findTerminator(data, offset, encoding);
+  offset = descEnd + (encoding === 1 || encoding === 2 ? 2 : 1);
+  if (offset >= data.length) return null;
+
+  const pictureData = data.slice(offset);
+  return { mimeType: sniffImageMime(pictureData, mimeType), type: pictureType, data: pictureData };
+};
+
+// USLT: encoding, language, description, text
+const parseID3UnsyncedLyrics = (data: Uint8Array): string | null => {
+  const encoding = data[0];
+  const descEnd = findTerminator(data, 4, encoding);
+  const textStart = descEnd + (encoding === 1 || encoding === 2 ? 2 : 1);
+  if (textStart >= data.length) return null;
+  return cleanText(decodeID3Text(data.subarray(textStart), encoding)) || null;
+};
+
+// SYLT: encoding, language, timestamp format, content type, description, then
+// (text, 32-bit timestamp) pairs. Only millisecond timestamps can be used without
+// knowing the MPEG frame rate.
+const parseID3SyncedLyrics = (data: Uint8Array): string | null => {
+  const encoding = data[0];
+  const timestampFormat = data[4];
+  if (timestampFormat !== 2) return null;
+
+  const terminatorLength = encoding === 1 || encoding === 2 ? 2 : 1;
+  let offset = findTerminator(data, 6, encoding) + terminatorLength;
+  const entries: { time: number; text: string }[] = [];
+  while (offset < data.length) {
+    const textEnd = findTerminator(data, offset, encoding);
+    if (textEnd + terminatorLength + 4 > data.length) break;
+    const text = decodeID3Text(data.subarray(offset, textEnd), encoding);
+    entries.push({ time: uint32BE(data, textEnd + terminatorLength) / 1000, text });
+    offset = textEnd + terminatorLength + 4;
+  }
+  return entries.length > 0 ? timedTextToLrc(entries) : null;
+};
+
+export interface ID3v2Frame {
+  id: string;
+  data: Uint8Array; // Frame payload with grouping/unsync/length flags already resolved
+}
+
+export interface ID3v2Tag {
+  majorVersion: number;
+  audioStart: number; // Offset of the first byte after the tag
+  frames: ID3v2Frame[];
+}
+
+const splitID3v2Frames = (tag: Uint8Array, majorVersion: number, tagUnsynchronised: boolean): ID3v2Frame[] => {
+  const frames: ID3v2Frame[] = [];
+  const idLength = majorVersion === 2 ? 3 : 4;
+  const headerLength = majorVersion === 2 ? 6 : 10;
+  let offset = 0;
+
+  while (offset + headerLength <= tag.length) {
+    const frameId = ascii(tag, offset, idLength);
+    if (!/^[A-Z0-9]+$/.test(frameId)) break; // Padding reached
+
+    let frameSize: number;
+    let formatFlags = 0;
+    if (majorVersion === 2) {
+      frameSize = uint24BE(tag, offset + 3);
+    } else if (majorVersion === 4) {
+      frameSize = syncsafe32(tag, offset + 4);
+      formatFlags = tag[offset + 9];
+    } else {
+      frameSize = uint32BE(tag, offset + 4);
+      formatFlags = tag[offset + 9];
+    }
+
+    const frameStart = offset + headerLength;
+    offset = frameStart + frameSize;
+    if (frameSize <= 0 || offset > tag.length) break;
+
+    let data = tag.subarray(frameStart, frameStart + frameSize);
+
+    if (majorVersion === 4) {
+      if (formatFlags & 0x0c) continue; // Compressed or encrypted
+      if (formatFlags & 0x40) data = data.subarray(1); // Grouping identity
+      if (formatFlags & 0x01) data = data.subarray(4); // Data length indicator
+      // v2.4 unsynchronises frame by frame; the header flag only says every frame is
+      if ((formatFlags & 0x02) || tagUnsynchronised) data = removeUnsynchronisation(data);
+    } else if (majorVersion === 3) {
+      if (formatFlags & 0xc0) continue; // Compressed or encrypted
+      if (formatFlags & 0x20) data = data.subarray(1); // Grouping identity
+    }
+
+    frames.push({ id: frameId, data });
+  }
+
+  return frames;
+};
+
+/**
+ * Read the ID3v2 tag at the start of the file, if any.
+ * Returns null when the file doesn't start with an ID3v2 header.
+ */
+export const readID3v2Tag = async (file: Blob): Promise<ID3v2Tag | null> => {
+  const header = await readBytes(file, 0, 10);
+  if (ascii(header, 0, 3) !== 'ID3') return null;
+
+  const majorVersion = header[3];
+  const flags = header[5];
+  const tagSize = syncsafe32(header, 6);
+  const hasFooter = (flags & 0x10) !== 0;
+  const audioStart = 10 + tagSize + (hasFooter ? 10 : 0);
+
+  if (majorVersion < 2 || majorVersion > 4) {
+    return { majorVersion, audioStart, frames: [] };
+  }
+
+  let tag = await readBytes(file, 10, tagSize);
+  const unsynchronised = (flags & 0x80) !== 0;
+  if (unsynchronised && majorVersion < 4) {
+    tag = removeUnsynchronisation(tag);
+  }
+
+  // Skip the extended header
+  if (flags & 0x40) {
+    if (majorVersion === 3) {
+      tag = tag.subarray(4 + uint32BE(tag, 0));
+    } else if (majorVersion === 4) {
+      tag = tag.subarray(syncsafe32(tag, 0));
+    }
+  }
+
+  return { majorVersion, audioStart, frames: splitID3v2Frames(tag, majorVersion, unsynchronised) };
+};
+
+/**
+ * Parse an ID3v2 tag at the start of the file.
+ * Returns the byte offset where audio data begins (0 if there is no tag).
+ */
+const parseID3v2 = async (file: Blob, meta: AudioMetadata): Promise<number> => {
+  const tag = await readID3v2Tag(file);
+  if (!tag) return 0;
+
+  for (const { id, data } of tag.frames) {
+    if (id === 'APIC' || id === 'PIC') {
+      const picture = parseID3Picture(id, data);
+      if (picture) applyPicture(meta, picture);
+      continue;
+    }
+
+    if (id === 'USLT' || id === 'ULT' || id === 'SYLT' || id === 'SLT') {
+      const lyrics = id === 'USLT' || id === 'ULT' ? parseID3UnsyncedLyrics(data) : parseID3SyncedLyrics(data);
+      if (lyrics) applyLyrics(meta, lyrics);
+      continue;
+    }
+
+    if ((id === 'TXXX' || id === 'TXX') && data.length > 1) {
+      // User-defined text: description, then value. ReplayGain is stored this way.
+      const [description, value = ''] = decodeID3Text(data.subarray(1), data[0]).split('\0');
+      if (/^REPLAYGAIN_/i.test(description)) applyField(meta, description, value);
+      continue;
+    }
+
+    const field = ID3_FRAME_FIELDS[id];
+    if (field && data.length > 1) {
+      // v2.4 allows multiple null-separated values; keep the first
+      const text = decodeID3Text(data.subarray(1), data[0]).split('\0')[0];
+      applyField(meta, field, text);
+    }
+  }
+
+  return tag.audioStart;
+};
+
+// --- ID3v1 ---
+
+const parseID3v1 = async (file: Blob, meta: AudioMetadata): Promise<boolean> => {
+  if (file.size < 128) return false;
+  const tag = await readBytes(file, file.size - 128, 128);
+  if (ascii(tag, 0, 3) !== 'TAG') return false;
+
+  const field = (start: number, length: number) => cleanText(decodeText(tag.subarray(start, start + length), 'latin1'));
+
+  // ID3v1 only fills what ID3v2 didn't
+  if (!meta.title) applyField(meta, 'TITLE', field(3, 30));
+  if (!meta.artist) applyField(meta, 'ARTIST', field(33, 30));
+  if (!meta.album) applyField(meta, 'ALBUM', field(63, 30));
+  if (!meta.year) applyField(meta, 'DATE', field(93, 4));
+
+  // ID3v1.1 stores the track number in the last comment byte
+  if (!meta.trackNumber && tag[125] === 0 && tag[126] !== 0) {
+    meta.trackNumber = tag[126];
+  }
+  if (!meta.genre && tag[127] < ID3_GENRES.length) {
+    meta.genre = ID3_GENRES[tag[127]];
+  }
+  return true;
+};
+
+// --- MPEG audio duration ---
+
+const MPEG_BITRATES: Record<string, number[]> = {
+  'V1L1': [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  'V1L2': [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  'V1L3': [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  'V2L1': [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  'V2L2': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+MPEG_BITRATES['V2L3'] = MPEG_BITRATES['V2L2'];
+
+const MPEG_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG 1
+  2: [22050, 24000, 16000], // MPEG 2
+  0: [11025, 12000, 8000],  // MPEG 2.5
+};
+
+export interface MpegFrameHeader {
+  versionBits: number;
+  layer: number;
+  sampleRate: number;
+  bitrate: number; // Bits per second
+  samplesPerFrame: number;
+  channelMode: number;
+  frameLength: number; // Bytes, header included
+}
+
+/**
+ * Decode the 4-byte MPEG audio frame header at an offset
+ * @returns null if the bytes there aren't a valid header
+ */
+export const parseMpegFrameHeader = (bytes: Uint8Array, offset: number): MpegFrameHeader | null => {
+  if (offset + 4 > bytes.length) return null;
+  if (bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) return null;
+
+  const versionBits = (bytes[offset + 1] >> 3) & 0x03;
+  const layerBits = (bytes[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = (bytes[offset + 2] >> 4) & 0x0f;
+  const sampleRateIndex = (bytes[offset + 2] >> 2) & 0x03;
+  const padding = (bytes[offset + 2] >> 1) & 0x01;
+  const channelMode = (bytes[offset + 3] >> 6) & 0x03;
+
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) return null;
+
+  const layer = 4 - layerBits;
+  const isV1 = versionBits === 3;
+  const sampleRate = MPEG_SAMPLE_RATES[versionBits][sampleRateIndex];
+  const bitrate = MPEG_BITRATES[`${isV1 ? 'V1' : 'V2'}L${layer}`][bitrateIndex] * 1000;
+  const samplesPerFrame = layer === 1 ? 384 : layer === 2 || isV1 ? 1152 : 576;
+  const frameLength = layer === 1
+    ? (Math.floor((12 * bitrate) / sampleRate) + padding) * 4
+    : Math.floor(((samplesPerFrame / 8) * bitrate) / sampleRate) + padding;
+
+  return { versionBits, layer, sampleRate, bitrate, samplesPerFrame, channelMode, frameLength };
+};
+
+/**
+ * Offset of the first MPEG frame in a probe, confirmed by a matching frame right after it
+ * so that stray sync bytes in other formats (WAV, AAC, ...) aren't mistaken for MP3.
+ * @returns -1 if there is none
+ */
+export const findMpegFrame = (probe: Uint8Array): number => {
+  for (let i = 0; i + 4 <= probe.length; i++) {
+    const frame = parseMpegFrameHeader(probe, i);
+    if (!frame) continue;
+    const next = parseMpegFrameHeader(probe, i + frame.frameLength);
+    if (next && next.versionBits === frame.versionBits && next.layer === frame.layer && next.sampleRate === frame.sampleRate) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Estimate MP3 duration from the first frame: Xing/Info or VBRI headers
+ * give an exact frame count, otherwise assume constant bitrate.
+ * Returns undefined when the data isn't MPEG audio.
+ */
+const estimateMpegDuration = async (file: Blob, audioStart: number, audioEnd: number): Promise<number | undefined> => {
+  const probe = await readBytes(file, audioStart, Math.min(64 * 1024, audioEnd - audioStart));
+  const i = findMpegFrame(probe);
+  if (i === -1) return undefined;
+
+  const { versionBits, sampleRate, bitrate, samplesPerFrame, channelMode } = parseMpegFrameHeader(probe, i)!;
+  const isV1 = versionBits === 3;
+
+  // Xing/Info header sits after the side information
+  const sideInfo = isV1 ? (channelMode === 3 ? 17 : 32) : (channelMode === 3 ? 9 : 17);
+  const xing = i + 4 + sideInfo;
+  const xingId = ascii(probe, xing, 4);
+  if ((xingId === 'Xing' || xingId === 'Info') && (probe[xing + 7] & 0x01)) {
+    const frames = uint32BE(probe, xing + 8);
+    if (frames > 0) return (frames * samplesPerFrame) / sampleRate;
+  }
+
+  const vbri = i + 4 + 32;
+  if (ascii(probe, vbri, 4) === 'VBRI') {
+    const frames = uint32BE(probe, vbri + 14);
+    if (frames > 0) return (frames * samplesPerFrame) / sampleRate;
+  }
+
+  return ((audioEnd - audioStart - i) * 8) / bitrate;
+};
+
+// --- Vorbis comments & FLAC ---
+
+export interface VorbisComments {
+  vendor: string;
+  comments: string[]; // Raw "KEY=value" entries
+}
+
+export const readVorbisComments = (data: Uint8Array): VorbisComments => {
+  let offset = 0;
+  const vendorLength = uint32LE(data, offset);
+  const vendor = decodeText(data.subarray(4, 4 + vendorLength));
+  offset += 4 + vendorLength;
+  const comments: string[] = [];
+  if (offset + 4 > data.length) return { vendor, comments };
+
+  const count = uint32LE(data, offset);
+  offset += 4;
+
+  for (let i = 0; i < count && offset + 4 <= data.length; i++) {
+    const length = uint32LE(data, offset);
+    offset += 4;
+    comments.push(decodeText(data.subarray(offset, offset + length)));
+    offset += length;
+  }
+
+  return { vendor, comments };
+};
+
+const parseVorbisComment = (meta: AudioMetadata, data: Uint8Array) => {
+  for (const comment of readVorbisComments(data).comments) {
+    const separator = comment.indexOf('=');
+    if (separator <= 0) continue;
+    const key = comment.substring(0, separator).toUpperCase();
+    const value = comment.substring(separator + 1);
+
+    if (key === 'METADATA_BLOCK_PICTURE') {
+      try {
+        const binary = atob(value);
+        const bytes = new Uint8Array(binary.length);
+        for (let j = 0; j < binary.length; j++) bytes[j] = binary.charCodeAt(j);
+        const picture = parseFlacPicture(bytes);
+        if (picture) applyPicture(meta, picture);
+      } catch (error) {
+        console.warn('[Metadata] Invalid METADATA_BLOCK_PICTURE', error);
+      }
+    } else {
+      applyField(meta, key, value);
+    }
+  }
+};
+
+const parseFlacPicture = (data: Uint8Array): EmbeddedPicture | null => {
+  let offset = 0;
+  const type = uint32BE(data, offset);
+  offset += 4;
+  const mimeLength = uint32BE(data, offset);
+  offset += 4;
+  const mimeType = ascii(data, offset, mimeLength);
+  offset += mimeLength;
+  const descLength = uint32BE(data, offset);
+  offset += 4 + descLength;
+  offset += 16; // Width, height, color depth, indexed colors
+  const dataLength = uint32BE(data, offset);
+  offset += 4;
+  if (offset + dataLength > data.length) return null;
+
+  const pictureData = data.slice(offset, offset + dataLength);
+  return { mimeType: sniffImageMime(pictureData, mimeType || 'image/jpeg'), type, data: pictureData };
+};
+
+const parseFlacStreamInfo = (meta: AudioMetadata, data: Uint8Array) => {
+  // 20-bit sample rate and 36-bit total sample count
+  const sampleRate = (data[10] << 12) | (data[11] << 4) | (data[12] >> 4);
+  const totalSamples = (data[13] & 0x0f) * 2 ** 32 + uint32BE(data, 14);
+  if (sampleRate > 0 && totalSamples > 0) {
+    meta.duration = totalSamples / sampleRate;
+  }
+};
+
+const parseFlacBlock = (meta: AudioMetadata, type: number, data: Uint8Array) => {
+  if (type === 0) {
+    parseFlacStreamInfo(meta, data);
+  } else if (type === 4) {
+    parseVorbisComment(meta, data);
+  } else if (type === 6) {
+    const picture = parseFlacPicture(data);
+    if (picture) applyPicture(meta, picture);
+  }
+};
+
+const parseFlac = async (file: Blob, meta: AudioMetadata, start: number) => {
+  let offset = start + 4; // Skip "fLaC"
+  let isLast = false;
+
+  while (!isLast && offset + 4 <= file.size) {
+    const header = await readBytes(file, offset, 4);
+    isLast = (header[0] & 0x80) !== 0;
+    const type = header[0] & 0x7f;
+    const length = uint24BE(header, 1);
+    offset += 4;
+
+    // Only read the blocks we understand, skip padding/seektables
+    if (type === 0 || type === 4 || type === 6) {
+      parseFlacBlock(meta, type, await readBytes(file, offset, length));
+    }
+    offset += length;
+  }
+};
+
+// --- Ogg (Vorbis, Opus, FLAC) ---
+
+/**
+ * Read the first `count` packets of the first logical bitstream,
+ * reassembling packets that span multiple pages.
+ */
+const readOggPackets = async (file: Blob, count: number): Promise<Uint8Array[]> => {
+  const packets: Uint8Array[] = [];
+  let pending: Uint8Array[] = [];
+  let offset = 0;
+  let serial: number | null = null;
+
+  while (packets.length < count && offset + 27 <= file.size) {
+    const header = await readBytes(file, offset, 27);
+    if (ascii(header, 0, 4) !== 'OggS') break;
+
+    const pageSerial = uint32LE(header, 14);
+    const segmentCount = header[26];
+    const segments = await readBytes(file, offset + 27, segmentCount);
+    const bodyLength = segments.reduce((sum, s) => sum + s, 0);
+    const bodyStart = offset + 27 + segmentCount;
+    offset = bodyStart + bodyLength;
+
+    if (serial === null) serial = pageSerial;
+    if (pageSerial !== serial) continue;
+
+    const body = await readBytes(file, bodyStart, bodyLength);
+    let segmentOffset = 0;
+    let packetStart = 0;
+    for (let i = 0; i < segmentCount; i++) {
+      segmentOffset += segments[i];
+      // A lacing value below 255 terminates the packet
+      if (segments[i] < 255) {
+        pending.push(body.subarray(packetStart, segmentOffset));
+        packets.push(concatBytes(pending));
+        pending = [];
+        packetStart = segmentOffset;
+        if (packets.length >= count) break;
+      }
+    }
+    if (packetStart < segmentOffset) {
+      pending.push(body.subarray(packetStart, segmentOffset));
+    }
+  }
+
+  return packets;
+};
+
+export const concatBytes = (chunks: Uint8Array[]): Uint8Array => {
+  if (chunks.length === 1) return chunks[0];
+  const total = chunks.reduce((sum, c) => sum + c.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+};
+
+// Granule position of the last page gives the total sample count
+const readOggLastGranule = async (file: Blob): Promise<number | undefined> => {
+  const tailLength = Math.min(file.size, 64 * 1024);
+  const tail = await readBytes(file, file.size - tailLength, tailLength);
+  for (let i = tail.length - 27; i >= 0; i--) {
+    if (tail[i] === 0x4f && ascii(tail, i, 4) === 'OggS') {
+      return uint32LE(tail, i + 6) + uint32LE(tail, i + 10) * 2 ** 32;
+    }
+  }
+  return undefined;
+};
+
+const parseOgg = async (file: Blob, meta: AudioMetadata) => {
+  const [identification] = await readOggPackets(file, 1);
+  if (!identification) return;
+
+  let sampleRate = 0;
+  let preSkip = 0;
+
+  if (ascii(identification, 1, 6) === 'vorbis') {
+    sampleRate = uint32LE(identification, 12);
+    const [, comments] = await readOggPackets(file, 2);
+    if (comments && ascii(comments, 1, 6) === 'vorbis') {
+      parseVorbisComment(meta, comments.subarray(7));
+    }
+  } else if (ascii(identification, 0, 8) === 'OpusHead') {
+    // Opus granule positions are always at 48 kHz
+    sampleRate = 48000;
+    preSkip = identification[10] | (identification[11] << 8);
+    const [, comments] = await readOggPackets(file, 2);
+    if (comments && ascii(comments, 0, 8) === 'OpusTags') {
+      parseVorbisComment(meta, comments.subarray(8));
+    }
+  } else if (ascii(identification, 1, 4) === 'FLAC') {
+    // Ogg FLAC: mapping header + STREAMINFO, then one metadata block per packet
+    const headerPackets = identification[7] * 256 + identification[8];
+    parseFlacBlock(meta, 0, identification.subarray(17));
+    const packets = await readOggPackets(file, 1 + headerPackets);
+    for (const packet of packets.slice(1)) {
+      parseFlacBlock(meta, packet[0] & 0x7f, packet.subarray(4));
+    }
+    return;
+  }
+
+  if (sampleRate > 0) {
+    const granule = await readOggLastGranule(file);
+    if (granule && granule > preSkip) {
+      meta.duration = (granule - preSkip) / sampleRate;
+    }
+  }
+};
+
+// --- MP4 / M4A ---
+
+interface Mp4Atom {
+  type: string;
+  start: number; // Offset of the payload
+  end: number;
+}
+
+const listAtoms = (data: Uint8Array, start: number, end: number): Mp4Atom[] => {
+  const atoms: Mp4Atom[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = uint32BE(data, offset);
+    const type = ascii(data, offset + 4, 4);
+    let headerSize = 8;
+    if (size === 1) {
+      size = uint32BE(data, offset + 8) * 2 ** 32 + uint32BE(data, offset + 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) break;
+    atoms.push({ type, start: offset + headerSize, end: offset + size });
+    offset += size;
+  }
+  return atoms;
+};
+
+const findAtom = (data: Uint8Array, start: number, end: number, path: string[]): Mp4Atom | undefined => {
+  let atom: Mp4Atom | undefined;
+  let [from, to] = [start, end];
+  for (const type of path) {
+    atom = listAtoms(data, from, to).find(a => a.type === type);
+    if (!atom) return undefined;
+    from = atom.start;
+    to = atom.end;
+    // 'meta' is a full atom (version + flags) in ISO files, but not in some QuickTime files
+    if (type === 'meta' && ascii(data, from + 4, 4) !== 'hdlr') from += 4;
+  }
+  return atom;
+};
+
+const parseIlstItem = (meta: AudioMetadata, moov: Uint8Array, item: Mp4Atom) => {
+  const dataAtom = listAtoms(moov, item.start, item.end).find(a => a.type === 'data');
+  if (!dataAtom || dataAtom.end - dataAtom.start < 8) return;
+
+  const dataType = uint32BE(moov, dataAtom.start) & 0x00ffffff;
+  const value = moov.subarray(dataAtom.start + 8, dataAtom.end);
+
+  switch (item.type) {
+    case 'trkn':
+    case 'disk': {
+      if (value.length < 6) return;
+      const num = (value[2] << 8) | value[3];
+      const total = (value[4] << 8) | value[5];
+      if (item.type === 'trkn') {
+        if (num) meta.trackNumber = num;
+        if (total) meta.trackTotal = total;
+      } else {
+        if (num) meta.discNumber = num;
+        if (total) meta.discTotal = total;
+      }
+      return;
+    }
+    case 'gnre': {
+      // ID3v1 genre index plus one
+      const index = ((value[0] << 8) | value[1]) - 1;
+      if (!meta.genre && ID3_GENRES[index]) meta.genre = ID3_GENRES[index];
+      return;
+    }
+    case 'covr': {
+      const mimeType = dataType === 14 ? 'image/png' : 'image/jpeg';
+      applyPicture(meta, { mimeType: sniffImageMime(value, mimeType), type: 3, data: value.slice() });
+      return;
+    }
+    case '----': {
+      // Freeform iTunes item (mean/name/data), e.g. com.apple.iTunes:replaygain_track_gain
+      const nameAtom = listAtoms(moov, item.start, item.end).find(a => a.type === 'name');
+      if (!nameAtom) return;
+      const name = decodeText(moov.subarray(nameAtom.start + 4, nameAtom.end));
+      if (/^REPLAYGAIN_/i.test(name)) applyField(meta, name, decodeText(value));
+      return;
+    }
+  }
+
+  const field = MP4_ATOM_FIELDS[item.type];
+  if (field && dataType === 1) {
+    applyField(meta, field, decodeText(value));
+  }
+};
+
+const parseMp4 = async (file: Blob, meta: AudioMetadata) => {
+  // Walk top-level atoms without loading the media data ('mdat')
+  let offset = 0;
+  let moov: Uint8Array | null = null;
+  while (offset + 8 <= file.size) {
+    const header = await readBytes(file, offset, 16);
+    let size = uint32BE(header, 0);
+    const type = ascii(header, 4, 4);
+    if (size === 1) size = uint32BE(header, 8) * 2 ** 32 + uint32BE(header, 12);
+    else if (size === 0) size = file.size - offset;
+    if (size < 8) break;
+
+    if (type === 'moov') {
+      moov = await readBytes(file, offset, size);
+      break;
+    }
+    offset += size;
+  }
+  if (!moov) return;
+
+  const mvhd = findAtom(moov, 8, moov.length, ['mvhd']);
+  if (mvhd) {
+    const version = moov[mvhd.start];
+    const timescale = uint32BE(moov, mvhd.start + (version === 1 ? 20 : 12));
+    const duration = version === 1
+      ? uint32BE(moov, mvhd.start + 24) * 2 ** 32 + uint32BE(moov, mvhd.start + 28)
+      : uint32BE(moov, mvhd.start + 16);
+    if (timescale > 0 && duration > 0) meta.duration = duration / timescale;
+  }
+
+  const ilst = findAtom(moov, 8, moov.length, ['udta', 'meta', 'ilst']);
+  if (ilst) {
+    for (const item of listAtoms(moov, ilst.start, ilst.end)) {
+      parseIlstItem(meta, moov, item);
+    }
+  }
+};
+
+// --- Public API ---
+
+/**
+ * Read embedded tags from an audio file.
+ * Never throws: unreadable or untagged files resolve to an empty object.
+ */
+export const readMetadata = async (file: Blob): Promise<AudioMetadata> => {
+  const meta: AudioMetadata = {};
+
+  try {
+    const head = await readBytes(file, 0, 12);
+    const magic = ascii(head, 0, 4);
+
+    if (magic === 'fLaC') {
+      await parseFlac(file, meta, 0);
+    } else if (magic === 'OggS') {
+      await parseOgg(file, meta);
+    } else if (ascii(head, 4, 4) === 'ftyp') {
+      await parseMp4(file, meta);
+    } else {
+      // MP3 (or FLAC with a leading ID3 tag)
+      const audioStart = await parseID3v2(file, meta);
+      const afterTag = await readBytes(file, audioStart, 4);
+      if (ascii(afterTag, 0, 4) === 'fLaC') {
+        await parseFlac(file, meta, audioStart);
+      } else {
+        const hasV1 = await parseID3v1(file, meta);
+        if (!meta.duration) {
+          meta.duration = await estimateMpegDuration(file, audioStart, file.size - (hasV1 ? 128 : 0));
+        }
+      }
+    }
+  } catch (error) {
+    console.warn('[Metadata] Failed to read tags:', error);
+  }
+
+  return meta;
+};
+
+/**
+ * Convert an embedded picture to a data URL so it survives persistence
+ * the same way user-uploaded covers do.
+ */
+export const pictureToDataUrl = (picture: EmbeddedPicture): string => {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < picture.data.length; i += chunkSize) {
+    binary += String.fromCharCode(...picture.data.subarray(i, i + chunkSize));
+  }
+  return `data:${picture.mimeType};base64,${btoa(binary)}`;
+};
@@ -0,0 +1,134 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Track } from '../types';
+
+type Persistence = typeof import('./persistence');
+
+const DB_NAME = 'penko-tune-library';
+
+let persistence: Persistence;
+
+// Each test gets an empty database and a fresh module, so no connection or sync state carries over
+beforeEach(async () => {
+  globalThis.indexedDB = new IDBFactory();
+  vi.resetModules();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  persistence = await import('./persistence');
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const openRaw = (version?: number, upgrade?: (db: IDBDatabase) => void): Promise<IDBDatabase> => {
+  const request = indexedDB.open(DB_NAME, version);
+  if (upgrade) request.onupgradeneeded = () => upgrade(request.result);
+  return requestResult(request);
+};
+
+const countAudio = async (): Promise<number> => {
+  const db = await openRaw();
+  const count = await requestResult(db.transaction('audio', 'readonly').objectStore('audio').count());
+  db.close();
+  return count;
+};
+
+const localTrack = (id: string, file: File, fields: Partial<Track> = {}): Track => ({ id, name: id, artist: 'Artist', url: '', type: 'local', file, ...fields });
+
+const readText = (blob: Blob | undefined) => blob?.text();
+
+// Aborts the next readwrite transaction once its requests are queued
+const failNextWrite = () => {
+  const transaction = IDBDatabase.prototype.transaction;
+  const spy = vi.spyOn(IDBDatabase.prototype, 'transaction').mockImplementation(function (this: IDBDatabase, ...args: Parameters<IDBDatabase['transaction']>) {
+    const tx = transaction.apply(this, args);
+    if (args[1] === 'readwrite') {
+      spy.mockRestore();
+      queueMicrotask(() => tx.abort());
+    }
+    return tx;
+  });
+};
+
+describe('migrations', () => {
+  it('moves audio stored inline in version 3 into the audio store', async () => {
+    const db = await openRaw(3, upgraded => {
+      ['tracks', 'playlists', 'markers'].forEach(name => upgraded.createObjectStore(name, { keyPath: 'id' }));
+    });
+    const tx = db.transaction('tracks', 'readwrite');
+    tx.objectStore('tracks').put({ id: 'old', name: 'Old Song.mp3', type: 'local', fileBlob: new Blob(['old audio']) });
+    tx.objectStore('tracks').put({ id: 'radio', name: 'Radio', type: 'stream', streamUrl: 'https://radio.example/live' });
+    await new Promise(resolve => { tx.oncomplete = resolve; });
+    db.close();
+
+    const tracks = await persistence.loadTracksFromIndexedDB();
+
+    expect(tracks.map(t => t.id).sort()).toEqual(['old', 'radio']);
+    const old = tracks.find(t => t.id === 'old')!;
+    expect(await readText(old.file)).toBe('old audio');
+    expect(old.file?.type).toBe('audio/mpeg');
+    expect(tracks.find(t => t.id === 'radio')?.url).toBe('https://radio.example/live');
+    expect(await countAudio()).toBe(1);
+
+    const upgraded = await openRaw();
+    const stored = await requestResult(upgraded.transaction('tracks', 'readonly').objectStore('tracks').get('old'));
+    expect(stored).toMatchObject({ audioId: 'old' });
+    expect(stored.fileBlob).toBeUndefined();
+    expect(Array.from(upgraded.objectStoreNames).sort()).toEqual(['audio', 'folders', 'history', 'markers', 'playlists', 'tracks', 'waveforms']);
+    upgraded.close();
+  });
+});
+
+describe('saveTracksToIndexedDB', () => {
+  it('keeps audio shared by CUE tracks until the last of them is deleted', async () => {
+    const file = new File(['whole album'], 'album.flac', { type: 'audio/flac' });
+    const first = localTrack('one', file, { cueStart: 0, cueEnd: 60 });
+    const second = localTrack('two', file, { cueStart: 60 });
+
+    await persistence.saveTracksToIndexedDB([first, second]);
+    expect(await countAudio()).toBe(1);
+
+    await persistence.saveTracksToIndexedDB([second]);
+    expect(await countAudio()).toBe(1);
+    const [reloaded] = await persistence.loadTracksFromIndexedDB();
+    expect(reloaded.id).toBe('two');
+    expect(await readText(reloaded.file)).toBe('whole album');
+
+    await persistence.saveTracksToIndexedDB([]);
+    expect(await countAudio()).toBe(0);
+  });
+
+  it('writes a save that arrived while the previous write failed', async () => {
+    const track = localTrack('one', new File(['audio'], 'one.mp3', { type: 'audio/mpeg' }));
+    failNextWrite();
+    const failed = persistence.saveTracksToIndexedDB([track]);
+    const next = persistence.saveTracksToIndexedDB([track, { ...track, id: 'two', file: new File(['more'], 'two.mp3') }]);
+
+    await expect(Promise.all([failed, next])).resolves.toBeDefined();
+    const tracks = await persistence.loadTracksFromIndexedDB();
+    expect(tracks.map(t => t.id).sort()).toEqual(['one', 'two']);
+    expect(await readText(tracks.find(t => t.id === 'one')?.file)).toBe('audio');
+  });
+
+  it('retries a failed write without waiting for another save', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const track = localTrack('one', new File(['audio'], 'one.mp3', { type: 'audio/mpeg' }));
+
+    failNextWrite();
+    await expect(persistence.saveTracksToIndexedDB([track])).rejects.toThrow();
+    expect(await countAudio()).toBe(0);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    const tracks = await persistence.loadTracksFromIndexedDB();
+    expect(tracks.map(t => t.id)).toEqual(['one']);
+    expect(await countAudio()).toBe(1);
+  });
+});
@@ -1,161 +1,352 @@
 // IndexedDB utilities for optional music library persistence
+import { Track, Playlist, ChapterMarker, PlayQueue, CrossfadeSettings, LoudnessSettings, EQPreset, DynamicsSettings, EffectsSettings, SoundProfile, SavedLoop, LinkedFolder, PlayEvent, PlayThreshold } from '../types';
+import { normalizeEQBands, normalizeEQPreset } from './equalizer';
+import { normalizeEffectsSettings, normalizeSoundProfile } from './audioGraph';
+import { isSavedLoop } from './loop';
 
 const DB_NAME = 'penko-tune-library';
 const TRACK_STORE_NAME = 'tracks';
 const PLAYLIST_STORE_NAME = 'playlists';
 const MARKER_STORE_NAME = 'markers';
-const DB_VERSION = 3;
+const WAVEFORM_STORE_NAME = 'waveforms';
+const FOLDER_STORE_NAME = 'folders';
+const AUDIO_STORE_NAME = 'audio';
+const AUDIO_ID_INDEX = 'audioId';
+const HISTORY_STORE_NAME = 'history';
+const PLAYED_AT_INDEX = 'playedAt';
+const DB_VERSION = 7;
+
+// Track metadata; the audio lives in its own store so metadata edits never rewrite it
+interface StoredTrack extends Omit<Track, 'file' | 'url'> {
+  audioId?: string; // Key in the audio store, shared by tracks split from one file
+  streamUrl?: string;
+  fileBlob?: Blob; // Before version 6 the audio was stored inline
+}
 
-interface StoredTrack {
+interface StoredAudio {
   id: string;
-  name: string;
-  artist?: string;
-  album?: string;
-  duration?: number;
-  type: 'local' | 'stream';
-  coverArtUrl?: string;
-  fileBlob?: Blob;
-  streamUrl?: string;
+  blob: Blob; // Usually a File, which keeps its name and date
 }
 
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+// --- Schema ---
+
+const createStore = (db: IDBDatabase, name: string): void => {
+  if (!db.objectStoreNames.contains(name)) {
+    db.createObjectStore(name, { keyPath: 'id' });
+  }
+};
+
+/**
+ * Upgrade steps, keyed by the version they upgrade to. A database several versions
+ * behind runs every step after its own version, in order, in one upgrade transaction.
+ * Early versions created stores as they were needed, so those steps tolerate existing stores.
+ */
+const MIGRATIONS: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: db => createStore(db, TRACK_STORE_NAME),
+  2: db => createStore(db, PLAYLIST_STORE_NAME),
+  3: db => createStore(db, MARKER_STORE_NAME),
+  4: db => createStore(db, WAVEFORM_STORE_NAME),
+  5: db => createStore(db, FOLDER_STORE_NAME),
+  6: (db, tx) => {
+    // Move audio out of the track records
+    createStore(db, AUDIO_STORE_NAME);
+    const tracks = tx.objectStore(TRACK_STORE_NAME);
+    tracks.createIndex(AUDIO_ID_INDEX, AUDIO_ID_INDEX);
+    const audio = tx.objectStore(AUDIO_STORE_NAME);
+    tracks.openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      const { fileBlob, ...track } = cursor.value as StoredTrack;
+      if (fileBlob) {
+        audio.put({ id: track.id, blob: fileBlob } satisfies StoredAudio);
+        cursor.update({ ...track, audioId: track.id });
+      }
+      cursor.continue();
+    };
+  },
+  7: (db, tx) => {
+    createStore(db, HISTORY_STORE_NAME);
+    tx.objectStore(HISTORY_STORE_NAME).createIndex(PLAYED_AT_INDEX, PLAYED_AT_INDEX);
+  }
+};
+
+// --- Connection ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// One connection for the whole session, reopened if another tab upgrades the database
 const openDB = (): Promise<IDBDatabase> => {
-  return new Promise((resolve, reject) => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
 
     request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
+    request.onblocked = () => console.warn('[Persistence] Upgrade waiting for other tabs to close');
+    request.onsuccess = () => {
+      const db = request.result;
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
 
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(TRACK_STORE_NAME)) {
-        db.createObjectStore(TRACK_STORE_NAME, { keyPath: 'id' });
-      }
-      if (!db.objectStoreNames.contains(PLAYLIST_STORE_NAME)) {
-        db.createObjectStore(PLAYLIST_STORE_NAME, { keyPath: 'id' });
-      }
-      if (!db.objectStoreNames.contains(MARKER_STORE_NAME)) {
-        db.createObjectStore(MARKER_STORE_NAME, { keyPath: 'id' });
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+        console.log(`[Persistence] Migrating database to version ${version}`);
+        MIGRATIONS[version]?.(db, tx);
       }
     };
   });
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
 };
 
-export const saveTracksToIndexedDB = async (tracks: any[]): Promise<void> => {
-  try {
-    const db = await openDB();
-    const tx = db.transaction(TRACK_STORE_NAME, 'readwrite');
-    const store = tx.objectStore(TRACK_STORE_NAME);
-
-    // Clear old tracks
-    await store.clear();
-
-    // Save new tracks
-    for (const track of tracks) {
-      const storedTrack: StoredTrack = {
-        id: track.id,
-        name: track.name,
-        artist: track.artist,
-        album: track.album,
-        duration: track.duration,
-        type: track.type,
-        coverArtUrl: track.coverArtUrl,
-        fileBlob: track.file, // Store the File/Blob object
-        streamUrl: track.type === 'stream' ? track.url : undefined
-      };
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
 
-      await store.add(storedTrack);
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+};
+
+const getAllRecords = async <T>(storeName: string): Promise<T[]> => {
+  const db = await openDB();
+  return requestResult(db.transaction(storeName, 'readonly').objectStore(storeName).getAll());
+};
+
+// --- Quota ---
+// Writes that fail for lack of space are reported here as well as rejected, so the UI can say so
+
+const quotaListeners = new Set<() => void>();
+
+export const onQuotaExceeded = (listener: () => void): (() => void) => {
+  quotaListeners.add(listener);
+  return () => quotaListeners.delete(listener);
+};
+
+const reportQuotaError = (error: unknown): void => {
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    console.warn('[Persistence] Storage quota exceeded');
+    quotaListeners.forEach(listener => listener());
+  }
+};
+
+// --- Incremental Writes ---
+// State is immutable, so a record whose object is the one we last wrote hasn't changed.
+// Each store keeps the records it last wrote and only puts or deletes the difference.
+// Saves that arrive while a write is running are folded into one follow-up write.
+// A failed write is kept and retried a few times, backing off, so it isn't lost without another save.
+
+const WRITE_RETRY_DELAY_MS = 2000;
+const MAX_WRITE_RETRIES = 5;
+
+interface ChangedRecord<T> {
+  record: T;
+  previous?: T;
+}
+
+const createStoreSync = <T extends { id: string }>(
+  storeNames: string[],
+  write: (tx: IDBTransaction, changed: ChangedRecord<T>[], deleted: T[]) => (() => void) | void // Returns an undo for in-memory state if the write fails
+) => {
+  let written = new Map<string, T>();
+  let pending: T[] | null = null;
+  let flushing: Promise<void> | null = null;
+  let retries = 0;
+
+  const flush = async () => {
+    while (pending) {
+      const records = pending;
+      pending = null;
+      const next = new Map(records.map(record => [record.id, record]));
+      const changed = records
+        .filter(record => written.get(record.id) !== record)
+        .map(record => ({ record, previous: written.get(record.id) }));
+      const deleted = [...written.values()].filter(record => !next.has(record.id));
+
+      if (changed.length > 0 || deleted.length > 0) {
+        const db = await openDB();
+        const tx = db.transaction(storeNames, 'readwrite');
+        const undo = write(tx, changed, deleted);
+        try {
+          await transactionDone(tx);
+        } catch (error) {
+          if (undo) undo();
+          reportQuotaError(error);
+          // A newer save is diffed against the last successful write, so it carries these changes too
+          if (pending) continue;
+          pending = records;
+          scheduleRetry();
+          throw error;
+        }
+      }
+      written = next;
+      retries = 0;
+    }
+  };
+
+  const start = (): Promise<void> => {
+    if (!flushing) flushing = flush().finally(() => { flushing = null; });
+    return flushing;
+  };
+
+  const scheduleRetry = () => {
+    if (retries >= MAX_WRITE_RETRIES) return; // Left pending for the next save
+    setTimeout(() => {
+      start().catch(error => console.warn('[Persistence] Retried write failed:', error));
+    }, WRITE_RETRY_DELAY_MS * 2 ** retries++);
+  };
+
+  return {
+    // Resolves once these records (or newer ones) are on disk
+    save: (records: T[]): Promise<void> => {
+      pending = records;
+      return start();
+    },
+    // Records just loaded from the store don't need writing back
+    remember: (records: T[]): void => {
+      written = new Map(records.map(record => [record.id, record]));
     }
+  };
+};
 
-    await tx.complete;
-    db.close();
+const createRecordSync = <T extends { id: string }>(storeName: string) => {
+  return createStoreSync<T>([storeName], (tx, changed, deleted) => {
+    const store = tx.objectStore(storeName);
+    changed.forEach(({ record }) => store.put(record));
+    deleted.forEach(record => store.delete(record.id));
+  });
+};
+
+// --- Tracks ---
+
+// Audio already in the audio store. Tracks split by a CUE sheet share one File, and so one record.
+const audioIds = new WeakMap<Blob, string>();
+
+const getAudioId = (track: Track): string | undefined => {
+  return track.type === 'local' && track.file && !track.link ? audioIds.get(track.file) : undefined;
+};
+
+const trackSync = createStoreSync<Track>([TRACK_STORE_NAME, AUDIO_STORE_NAME], (tx, changed, deleted) => {
+  const tracks = tx.objectStore(TRACK_STORE_NAME);
+  const audio = tx.objectStore(AUDIO_STORE_NAME);
+  const storedAudio: Blob[] = [];
+  const released = new Set<string>(); // Audio that may have lost its last track
+
+  for (const { record: track, previous } of changed) {
+    let audioId = getAudioId(track);
+    // Linked tracks are read from their folder, never copied
+    if (!audioId && track.type === 'local' && track.file && !track.link) {
+      audioId = generateId();
+      audio.put({ id: audioId, blob: track.file } satisfies StoredAudio);
+      audioIds.set(track.file, audioId);
+      storedAudio.push(track.file);
+    }
+    const previousAudioId = previous && getAudioId(previous);
+    if (previousAudioId && previousAudioId !== audioId) released.add(previousAudioId);
+
+    const { file, url, ...metadata } = track;
+    tracks.put({ ...metadata, audioId, streamUrl: track.type === 'stream' ? url : undefined } satisfies StoredTrack);
+  }
+
+  for (const track of deleted) {
+    const audioId = getAudioId(track);
+    if (audioId) released.add(audioId);
+    tracks.delete(track.id);
+  }
+
+  // Requests run in order, so these counts see the puts and deletes above
+  released.forEach(audioId => {
+    const count = tracks.index(AUDIO_ID_INDEX).count(audioId);
+    count.onsuccess = () => {
+      if (count.result === 0) audio.delete(audioId);
+    };
+  });
+
+  return () => storedAudio.forEach(blob => audioIds.delete(blob));
+});
+
+// Files from older versions were stored without a usable type
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  'mp3': 'audio/mpeg',
+  'wav': 'audio/wav',
+  'ogg': 'audio/ogg',
+  'flac': 'audio/flac',
+  'm4a': 'audio/mp4',
+  'aac': 'audio/aac',
+  'webm': 'audio/webm'
+};
+
+const toAudioFile = (blob: Blob, fallbackName: string): File => {
+  const name = blob instanceof File ? blob.name : fallbackName;
+  const mimeType = blob.type || AUDIO_MIME_TYPES[name.split('.').pop()?.toLowerCase() || 'mp3'] || 'audio/mpeg';
+  if (blob instanceof File && blob.type) return blob;
+  return new File([blob], name, {
+    type: mimeType,
+    lastModified: blob instanceof File ? blob.lastModified : Date.now()
+  });
+};
+
+/**
+ * Save the library. Only tracks that changed since the last save are written,
+ * and audio is only written for files not stored yet.
+ */
+export const saveTracksToIndexedDB = async (tracks: Track[]): Promise<void> => {
+  try {
+    await trackSync.save(tracks);
   } catch (error) {
     console.error('Failed to save tracks to IndexedDB:', error);
     throw error;
   }
 };
 
-export const loadTracksFromIndexedDB = async (): Promise<any[]> => {
+export const loadTracksFromIndexedDB = async (): Promise<Track[]> => {
   try {
     const db = await openDB();
-    const tx = db.transaction(TRACK_STORE_NAME, 'readonly');
-    const store = tx.objectStore(TRACK_STORE_NAME);
+    const tx = db.transaction([TRACK_STORE_NAME, AUDIO_STORE_NAME], 'readonly');
+    const [storedTracks, storedAudio] = await Promise.all([
+      requestResult<StoredTrack[]>(tx.objectStore(TRACK_STORE_NAME).getAll()),
+      requestResult<StoredAudio[]>(tx.objectStore(AUDIO_STORE_NAME).getAll())
+    ]);
 
-    const storedTracks = await new Promise<StoredTrack[]>((resolve, reject) => {
-      const request = store.getAll();
-      request.onsuccess = () => resolve(request.result);
-      request.onerror = () => reject(request.error);
-    });
+    console.log(`[Persistence] Loading ${storedTracks.length} tracks from IndexedDB...`);
 
-    db.close();
+    const audioById = new Map(storedAudio.map(record => [record.id, record.blob]));
+    const files = new Map<string, File>();
 
-    console.log(`[Persistence] Loading ${storedTracks.length} tracks from IndexedDB...`);
+    const tracks = storedTracks.map((stored): Track | null => {
+      const { audioId, streamUrl, fileBlob, ...metadata } = stored;
 
-    // Reconstruct Track objects with fresh blob URLs
-    const tracks = storedTracks.map((stored, index) => {
-      // Use the stored ID to maintain playlist references
-      const trackId = stored.id;
-
-      if (stored.type === 'local' && stored.fileBlob) {
-        const blob = stored.fileBlob;
-
-        // Determine MIME type
-        let mimeType = blob.type;
-        if (!mimeType || mimeType === '') {
-          const ext = stored.name.split('.').pop()?.toLowerCase();
-          const mimeTypes: Record<string, string> = {
-            'mp3': 'audio/mpeg',
-            'wav': 'audio/wav',
-            'ogg': 'audio/ogg',
-            'flac': 'audio/flac',
-            'm4a': 'audio/mp4',
-            'aac': 'audio/aac',
-            'webm': 'audio/webm'
-          };
-          mimeType = mimeTypes[ext || 'mp3'] || 'audio/mpeg';
+      if (stored.type === 'local' && audioId && audioById.has(audioId)) {
+        let file = files.get(audioId);
+        if (!file) {
+          file = toAudioFile(audioById.get(audioId)!, stored.name);
+          files.set(audioId, file);
+          audioIds.set(file, audioId);
         }
-
-        // Create a fresh Blob with correct MIME type
-        const freshBlob = new Blob([blob], { type: mimeType });
-
-        // Create File from Blob
-        const file = new File([freshBlob], stored.name, {
-          type: mimeType,
-          lastModified: Date.now()
-        });
-
-        // Create blob URL immediately - same as when first adding files
-        const blobUrl = URL.createObjectURL(file);
-
-        console.log(`[Persistence] Loaded: ${stored.name} | Type: ${mimeType} | Size: ${blob.size} bytes`);
-        console.log(`[Persistence] -> Created blob URL: ${blobUrl}`);
-
-        return {
-          id: trackId,
-          name: stored.name,
-          artist: stored.artist || 'Local File',
-          album: stored.album,
-          duration: stored.duration,
-          type: 'local' as const,
-          file: file,
-          url: blobUrl, // Same as when adding files - create blob URL from File
-          coverArtUrl: stored.coverArtUrl
-        };
-      } else if (stored.type === 'stream' && stored.streamUrl) {
-        console.log(`[Persistence] Loaded stream: ${stored.name}`);
-        return {
-          id: trackId,
-          name: stored.name,
-          artist: stored.artist,
-          album: stored.album,
-          duration: stored.duration,
-          type: 'stream' as const,
-          url: stored.streamUrl,
-          coverArtUrl: stored.coverArtUrl
-        };
+        return { ...metadata, artist: stored.artist || 'Local File', file, url: URL.createObjectURL(file) };
+      } else if (stored.type === 'local' && (stored.link || stored.evictedAt)) {
+        // No file or URL until the folder is rescanned, or the evicted file is added again
+        return { ...metadata, artist: stored.artist || 'Local File', url: '' };
+      } else if (stored.type === 'stream' && streamUrl) {
+        return { ...metadata, url: streamUrl };
       }
       return null;
-    }).filter(Boolean);
+    }).filter((track): track is Track => track !== null);
 
+    trackSync.remember(tracks);
     console.log(`[Persistence] Successfully loaded ${tracks.length} tracks`);
     return tracks;
   } catch (error) {
@@ -166,11 +357,7 @@ export const loadTracksFromIndexedDB = async (): Promise<any[]> => {
 
 export const clearLibrary = async (): Promise<void> => {
   try {
-    const db = await openDB();
-    const tx = db.transaction(TRACK_STORE_NAME, 'readwrite');
-    await tx.objectStore(TRACK_STORE_NAME).clear();
-    await tx.complete;
-    db.close();
+    await trackSync.save([]);
   } catch (error) {
     console.error('Failed to clear library:', error);
     throw error;
@@ -198,44 +385,203 @@ export const setPersistenceEnabled = (enabled: boolean): void => {
 };
 
 // EQ Persistence
-export const saveEQSettings = (bands: any[]): void => {
+// Audio nodes never get serialized, only the band parameters
+const serializePreset = ({ bands, preamp }: EQPreset): EQPreset => ({
+  bands: bands.map(({ node, ...band }) => band),
+  preamp
+});
+
+export const saveEQSettings = (settings: EQPreset): void => {
   try {
-    localStorage.setItem('eq-settings', JSON.stringify(bands));
+    localStorage.setItem('eq-settings', JSON.stringify(serializePreset(settings)));
   } catch (error) {
     console.error('Failed to save EQ settings:', error);
   }
 };
 
-export const loadEQSettings = (): any[] | null => {
+export const loadEQSettings = (): EQPreset | null => {
   try {
     const saved = localStorage.getItem('eq-settings');
-    return saved ? JSON.parse(saved) : null;
+    return saved ? normalizeEQPreset(JSON.parse(saved)) : null;
   } catch (error) {
     console.error('Failed to load EQ settings:', error);
     return null;
   }
 };
 
-// EQ Presets
-interface EQPreset {
-  name: string;
-  bands: any[];
-}
+// Dynamics (compressor / limiter) Persistence
+export const saveDynamicsSettings = (settings: DynamicsSettings): void => {
+  try {
+    localStorage.setItem('dynamics-settings', JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save dynamics settings:', error);
+  }
+};
+
+export const loadDynamicsSettings = (): DynamicsSettings | null => {
+  try {
+    const saved = localStorage.getItem('dynamics-settings');
+    return saved ? JSON.parse(saved) : null;
+  } catch (error) {
+    console.error('Failed to load dynamics settings:', error);
+    return null;
+  }
+};
+
+// Effects Chain Persistence
+export const saveEffectsSettings = (settings: EffectsSettings): void => {
+  try {
+    localStorage.setItem('effects-settings', JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save effects settings:', error);
+  }
+};
+
+export const loadEffectsSettings = (): EffectsSettings | null => {
+  try {
+    const saved = localStorage.getItem('effects-settings');
+    return saved ? normalizeEffectsSettings(JSON.parse(saved)) : null;
+  } catch (error) {
+    console.error('Failed to load effects settings:', error);
+    return null;
+  }
+};
+
+// Sound Profiles
+export const saveSoundProfile = (name: string, profile: SoundProfile): void => {
+  try {
+    const profiles = loadSoundProfiles();
+    profiles[name] = { ...profile, eq: serializePreset(profile.eq) };
+    localStorage.setItem('sound-profiles', JSON.stringify(profiles));
+  } catch (error) {
+    console.error('Failed to save sound profile:', error);
+  }
+};
+
+export const loadSoundProfiles = (): Record<string, SoundProfile> => {
+  try {
+    const saved = localStorage.getItem('sound-profiles');
+    if (!saved) return {};
+    const profiles: Record<string, SoundProfile> = {};
+    for (const [name, profile] of Object.entries(JSON.parse(saved))) {
+      const normalized = normalizeSoundProfile(profile);
+      if (normalized) profiles[name] = normalized;
+    }
+    return profiles;
+  } catch (error) {
+    console.error('Failed to load sound profiles:', error);
+    return {};
+  }
+};
+
+export const deleteSoundProfile = (name: string): void => {
+  try {
+    const profiles = loadSoundProfiles();
+    delete profiles[name];
+    localStorage.setItem('sound-profiles', JSON.stringify(profiles));
+  } catch (error) {
+    console.error('Failed to delete sound profile:', error);
+  }
+};
+
+// Play Queue
+export const saveQueue = (queue: PlayQueue): void => {
+  try {
+    localStorage.setItem('play-queue', JSON.stringify(queue));
+  } catch (error) {
+    console.error('Failed to save play queue:', error);
+  }
+};
 
-export const saveEQPreset = (name: string, bands: any[]): void => {
+export const loadQueue = (): PlayQueue | null => {
+  try {
+    const saved = localStorage.getItem('play-queue');
+    return saved ? JSON.parse(saved) : null;
+  } catch (error) {
+    console.error('Failed to load play queue:', error);
+    return null;
+  }
+};
+
+// Crossfade Settings
+export const saveCrossfadeSettings = (settings: CrossfadeSettings): void => {
+  try {
+    localStorage.setItem('crossfade-settings', JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save crossfade settings:', error);
+  }
+};
+
+export const loadCrossfadeSettings = (): CrossfadeSettings | null => {
+  try {
+    const saved = localStorage.getItem('crossfade-settings');
+    return saved ? JSON.parse(saved) : null;
+  } catch (error) {
+    console.error('Failed to load crossfade settings:', error);
+    return null;
+  }
+};
+
+// Play Threshold
+export const savePlayThreshold = (threshold: PlayThreshold): void => {
+  try {
+    localStorage.setItem('play-threshold', JSON.stringify(threshold));
+  } catch (error) {
+    console.error('Failed to save play threshold:', error);
+  }
+};
+
+export const loadPlayThreshold = (): PlayThreshold | null => {
+  try {
+    const saved = localStorage.getItem('play-threshold');
+    return saved ? JSON.parse(saved) : null;
+  } catch (error) {
+    console.error('Failed to load play threshold:', error);
+    return null;
+  }
+};
+
+// Loudness Normalization Settings
+export const saveLoudnessSettings = (settings: LoudnessSettings): void => {
+  try {
+    localStorage.setItem('loudness-settings', JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save loudness settings:', error);
+  }
+};
+
+export const loadLoudnessSettings = (): LoudnessSettings | null => {
+  try {
+    const saved = localStorage.getItem('loudness-settings');
+    return saved ? JSON.parse(saved) : null;
+  } catch (error) {
+    console.error('Failed to load loudness settings:', error);
+    return null;
+  }
+};
+
+// EQ Presets
+export const saveEQPreset = (name: string, preset: EQPreset): void => {
   try {
     const presets = loadEQPresets();
-    presets[name] = bands;
+    presets[name] = serializePreset(preset);
     localStorage.setItem('eq-presets', JSON.stringify(presets));
   } catch (error) {
     console.error('Failed to save EQ preset:', error);
   }
 };
 
-export const loadEQPresets = (): Record<string, any[]> => {
+// Old 10-band presets are a bare list of { frequency, gain } and are upgraded on load
+export const loadEQPresets = (): Record<string, EQPreset> => {
   try {
     const saved = localStorage.getItem('eq-presets');
-    return saved ? JSON.parse(saved) : {};
+    if (!saved) return {};
+    const presets: Record<string, EQPreset> = {};
+    for (const [name, preset] of Object.entries(JSON.parse(saved))) {
+      const normalized = normalizeEQPreset(preset);
+      if (normalized) presets[name] = normalized;
+    }
+    return presets;
   } catch (error) {
     console.error('Failed to load EQ presets:', error);
     return {};
@@ -253,8 +599,8 @@ export const deleteEQPreset = (name: string): void => {
 };
 
 // Built-in EQ presets
-export const getBuiltInPresets = (): Record<string, any[]> => {
-  return {
+export const getBuiltInPresets = (): Record<string, EQPreset> => {
+  const presets: Record<string, { frequency: number; gain: number }[]> = {
     'Flat': [
       { frequency: 60, gain: 0 },
       { frequency: 170, gain: 0 },
@@ -328,36 +674,24 @@ export const getBuiltInPresets = (): Record<string, any[]> => {
       { frequency: 16000, gain: 7 }
     ]
   };
+  return Object.fromEntries(Object.entries(presets).map(([name, bands]) => [name, { bands: normalizeEQBands(bands)!, preamp: 0 }]));
 };
 
 // Playlist Persistence
-export const savePlaylists = async (playlists: any[]): Promise<void> => {
+const playlistSync = createRecordSync<Playlist>(PLAYLIST_STORE_NAME);
+
+export const savePlaylists = async (playlists: Playlist[]): Promise<void> => {
   try {
-    const db = await openDB();
-    const tx = db.transaction(PLAYLIST_STORE_NAME, 'readwrite');
-    const store = tx.objectStore(PLAYLIST_STORE_NAME);
-    await store.clear();
-    for (const playlist of playlists) {
-      await store.add(playlist);
-    }
-    await tx.complete;
-    db.close();
+    await playlistSync.save(playlists);
   } catch (error) {
     console.error('Failed to save playlists to IndexedDB:', error);
   }
 };
 
-export const loadPlaylists = async (): Promise<any[]> => {
+export const loadPlaylists = async (): Promise<Playlist[]> => {
   try {
-    const db = await openDB();
-    const tx = db.transaction(PLAYLIST_STORE_NAME, 'readonly');
-    const store = tx.objectStore(PLAYLIST_STORE_NAME);
-    const playlists = await new Promise<any[]>((resolve, reject) => {
-      const request = store.getAll();
-      request.onsuccess = () => resolve(request.result);
-      request.onerror = () => reject(request.error);
-    });
-    db.close();
+    const playlists = await getAllRecords<Playlist>(PLAYLIST_STORE_NAME);
+    playlistSync.remember(playlists);
     return playlists;
   } catch (error) {
     console.error('Failed to load playlists from IndexedDB:', error);
@@ -366,36 +700,147 @@ export const loadPlaylists = async (): Promise<any[]> => {
 };
 
 // Chapter Marker Persistence
-export const saveMarkers = async (markers: any[]): Promise<void> => {
+// Saved A–B loops live in the markers store too, so both are written together
+type MarkerRecord = (ChapterMarker & { kind?: undefined }) | SavedLoop;
+
+const markerSync = createRecordSync<MarkerRecord>(MARKER_STORE_NAME);
+let markerRecords: Promise<MarkerRecord[]> | null = null;
+
+export const saveMarkers = async (markers: ChapterMarker[], loops: SavedLoop[] = []): Promise<void> => {
   try {
-    const db = await openDB();
-    const tx = db.transaction(MARKER_STORE_NAME, 'readwrite');
-    const store = tx.objectStore(MARKER_STORE_NAME);
-    await store.clear();
-    for (const marker of markers) {
-      await store.add(marker);
-    }
-    await tx.complete;
-    db.close();
+    await markerSync.save([...markers, ...loops]);
   } catch (error) {
     console.error('Failed to save markers to IndexedDB:', error);
   }
 };
 
-export const loadMarkers = async (): Promise<any[]> => {
+// Markers and loops are loaded side by side on startup; read the store once for both
+const loadMarkerRecords = async (): Promise<MarkerRecord[]> => {
+  markerRecords ??= getAllRecords<MarkerRecord>(MARKER_STORE_NAME)
+    .then(records => {
+      markerSync.remember(records);
+      return records;
+    })
+    .catch(error => {
+      console.error('Failed to load markers from IndexedDB:', error);
+      return [];
+    })
+    .finally(() => { markerRecords = null; });
+  return markerRecords;
+};
+
+export const loadMarkers = async (): Promise<ChapterMarker[]> => {
+  const records = await loadMarkerRecords();
+  return records.filter((record): record is ChapterMarker => !isSavedLoop(record));
+};
+
+export const loadLoops = async (): Promise<SavedLoop[]> => {
+  const records = await loadMarkerRecords();
+  return records.filter(isSavedLoop);
+};
+
+// Waveform Peak Cache
+// Keyed by track id, so a track is only decoded for its waveform once
+export const saveWaveform = async (trackId: string, peaks: Float32Array): Promise<void> => {
+  try {
+    const db = await openDB();
+    const tx = db.transaction(WAVEFORM_STORE_NAME, 'readwrite');
+    tx.objectStore(WAVEFORM_STORE_NAME).put({ id: trackId, peaks });
+    await transactionDone(tx);
+  } catch (error) {
+    reportQuotaError(error);
+    console.error('Failed to save waveform to IndexedDB:', error);
+  }
+};
+
+export const loadWaveform = async (trackId: string): Promise<Float32Array | null> => {
+  try {
+    const db = await openDB();
+    const tx = db.transaction(WAVEFORM_STORE_NAME, 'readonly');
+    const record = await requestResult<{ id: string; peaks: Float32Array } | undefined>(tx.objectStore(WAVEFORM_STORE_NAME).get(trackId));
+    return record?.peaks instanceof Float32Array ? record.peaks : null;
+  } catch (error) {
+    console.error('Failed to load waveform from IndexedDB:', error);
+    return null;
+  }
+};
+
+/**
+ * Bytes of stored peaks per track id
+ */
+export const getWaveformSizes = async (): Promise<Map<string, number>> => {
+  try {
+    const records = await getAllRecords<{ id: string; peaks: Float32Array }>(WAVEFORM_STORE_NAME);
+    return new Map(records.map(record => [record.id, record.peaks?.byteLength ?? 0]));
+  } catch (error) {
+    console.error('Failed to read waveform sizes from IndexedDB:', error);
+    return new Map();
+  }
+};
+
+// Peaks are rebuilt the next time a track's waveform is shown
+export const deleteWaveforms = async (trackIds: string[]): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(WAVEFORM_STORE_NAME, 'readwrite');
+  const store = tx.objectStore(WAVEFORM_STORE_NAME);
+  trackIds.forEach(id => store.delete(id));
+  await transactionDone(tx);
+};
+
+// Linked Folders
+// Directory handles survive in IndexedDB; read access has to be granted again per session
+const folderSync = createRecordSync<LinkedFolder>(FOLDER_STORE_NAME);
+
+export const saveLinkedFolders = async (folders: LinkedFolder[]): Promise<void> => {
+  try {
+    await folderSync.save(folders);
+  } catch (error) {
+    console.error('Failed to save linked folders to IndexedDB:', error);
+  }
+};
+
+export const loadLinkedFolders = async (): Promise<LinkedFolder[]> => {
+  try {
+    const folders = await getAllRecords<LinkedFolder>(FOLDER_STORE_NAME);
+    folderSync.remember(folders);
+    return folders;
+  } catch (error) {
+    console.error('Failed to load linked folders from IndexedDB:', error);
+    return [];
+  }
+};
+
+// Listening History
+// One record per play, written when it passes the threshold and again when the track ends or is skipped
+export const savePlayEvent = async (event: PlayEvent): Promise<void> => {
+  try {
+    const db = await openDB();
+    const tx = db.transaction(HISTORY_STORE_NAME, 'readwrite');
+    tx.objectStore(HISTORY_STORE_NAME).put(event);
+    await transactionDone(tx);
+  } catch (error) {
+    reportQuotaError(error);
+    console.error('Failed to save play event to IndexedDB:', error);
+  }
+};
+
+/**
+ * Plays since a timestamp, oldest first
+ */
+export const loadPlayHistory = async (since = 0): Promise<PlayEvent[]> => {
   try {
     const db = await openDB();
-    const tx = db.transaction(MARKER_STORE_NAME, 'readonly');
-    const store = tx.objectStore(MARKER_STORE_NAME);
-    const markers = await new Promise<any[]>((resolve, reject) => {
-      const request = store.getAll();
-      request.onsuccess = () => resolve(request.result);
-      request.onerror = () => reject(request.error);
-    });
-    db.close();
-    return markers;
-  } catch (error) {
-    console.error('Failed to load markers from IndexedDB:', error);
+    const index = db.transaction(HISTORY_STORE_NAME, 'readonly').objectStore(HISTORY_STORE_NAME).index(PLAYED_AT_INDEX);
+    return await requestResult<PlayEvent[]>(index.getAll(IDBKeyRange.lowerBound(since)));
+  } catch (error) {
+    console.error('Failed to load play history from IndexedDB:', error);
     return [];
   }
-};
\ No newline at end of file
+};
+
+export const clearPlayHistory = async (): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(HISTORY_STORE_NAME, 'readwrite');
+  tx.objectStore(HISTORY_STORE_NAME).clear();
+  await transactionDone(tx);
+};
@@ -0,0 +1,66 @@
+// Real-time pitch shifting through an AudioWorklet (see pitchShifterWorklet.js)
+
+const WORKLET_URL = new URL('./pitchShifterWorklet.js', import.meta.url);
+const PROCESSOR_NAME = 'pitch-shifter';
+
+export const MAX_PITCH_SEMITONES = 12;
+
+// addModule only needs to run once per context
+const workletModules = new WeakMap<BaseAudioContext, Promise<void>>();
+
+const loadWorklet = (ctx: BaseAudioContext): Promise<void> => {
+  let loading = workletModules.get(ctx);
+  if (!loading) {
+    loading = ctx.audioWorklet
+      ? ctx.audioWorklet.addModule(WORKLET_URL.href)
+      : Promise.reject(new Error('AudioWorklet is not supported in this browser'));
+    workletModules.set(ctx, loading);
+  }
+  return loading;
+};
+
+export const semitonesToRatio = (semitones: number): number => Math.pow(2, semitones / 12);
+
+export interface PitchShifter {
+  input: GainNode;
+  output: GainNode;
+  setPitch: (semitones: number) => void;
+}
+
+/**
+ * Audio passes straight through until the worklet has loaded, and whenever the
+ * shift is 0, so the shifter's grain artefacts are only there when asked for.
+ */
+export const createPitchShifter = (ctx: BaseAudioContext): PitchShifter => {
+  const input = ctx.createGain();
+  const output = ctx.createGain();
+  input.connect(output);
+
+  let shifter: AudioWorkletNode | null = null;
+  let semitones = 0;
+  let isShifting = false;
+
+  const route = () => {
+    const shouldShift = shifter !== null && semitones !== 0;
+    if (shouldShift === isShifting) return;
+    input.disconnect();
+    input.connect(shouldShift ? shifter! : output);
+    isShifting = shouldShift;
+  };
+
+  const setPitch = (value: number) => {
+    semitones = value;
+    shifter?.parameters.get('pitch')?.setValueAtTime(semitonesToRatio(value), ctx.currentTime);
+    route();
+  };
+
+  loadWorklet(ctx)
+    .then(() => {
+      shifter = new AudioWorkletNode(ctx, PROCESSOR_NAME);
+      shifter.connect(output);
+      setPitch(semitones);
+    })
+    .catch(error => console.warn('[Pitch] Pitch shifting unavailable:', error));
+
+  return { input, output, setPitch };
+};
@@ -0,0 +1,78 @@
+// AudioWorklet processor: granular pitch shifter.
+// Runs in the AudioWorkletGlobalScope, so it's plain JS loaded with audioWorklet.addModule().
+//
+// Two read taps sweep through a short delay line at `pitch` times the write speed,
+// half a window apart. Each tap fades in and out with a Hann window, so the jump
+// when a tap wraps around is never heard.
+
+const WINDOW_SECONDS = 0.05;
+
+class PitchShifterProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [{ name: 'pitch', defaultValue: 1, minValue: 0.25, maxValue: 4, automationRate: 'k-rate' }];
+  }
+
+  constructor() {
+    super();
+    this.windowSize = Math.round(sampleRate * WINDOW_SECONDS);
+    let length = 1;
+    while (length < this.windowSize + 2) length *= 2;
+    this.bufferLength = length;
+    this.mask = length - 1;
+    this.buffers = [];
+    this.writeIndex = 0;
+    this.phase = 0;
+  }
+
+  read(buffer, delay) {
+    const position = this.writeIndex - delay;
+    const index = Math.floor(position);
+    const fraction = position - index;
+    const a = buffer[index & this.mask];
+    const b = buffer[(index + 1) & this.mask];
+    return a + (b - a) * fraction;
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    const output = outputs[0];
+    const ratio = parameters.pitch[0];
+    const size = this.windowSize;
+    const phaseStep = (1 - ratio) / size;
+
+    while (this.buffers.length < input.length) this.buffers.push(new Float32Array(this.bufferLength));
+
+    const frames = output[0] ? output[0].length : 0;
+    const startIndex = this.writeIndex;
+    const startPhase = this.phase;
+
+    for (let c = 0; c < output.length; c++) {
+      const source = input[c];
+      const target = output[c];
+      if (!source) {
+        target.fill(0);
+        continue;
+      }
+
+      const buffer = this.buffers[c];
+      this.writeIndex = startIndex;
+      this.phase = startPhase;
+      for (let i = 0; i < frames; i++) {
+        buffer[this.writeIndex & this.mask] = source[i];
+
+        const phaseB = (this.phase + 0.5) % 1;
+        const gainA = 0.5 - 0.5 * Math.cos(2 * Math.PI * this.phase);
+        const gainB = 0.5 - 0.5 * Math.cos(2 * Math.PI * phaseB);
+        target[i] = gainA * this.read(buffer, this.phase * size) + gainB * this.read(buffer, phaseB * size);
+
+        this.writeIndex = (this.writeIndex + 1) & this.mask;
+        this.phase += phaseStep;
+        if (this.phase >= 1) this.phase -= 1;
+        else if (this.phase < 0) this.phase += 1;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('pitch-shifter', PitchShifterProcessor);
@@ -0,0 +1,106 @@
+// @vitest-environment happy-dom
+import { describe, expect, it, vi } from 'vitest';
+import { Track } from '../types';
+import { writePlaylist, readPlaylistFile, resolvePlaylist, PlaylistFormat } from './playlistFiles';
+
+const localFile = (name: string, relativePath = ''): File => {
+  const file = new File([new Uint8Array(1)], name);
+  Object.defineProperty(file, 'webkitRelativePath', { value: relativePath });
+  return file;
+};
+
+const localTrack = (id: string, fields: Partial<Track>, file: File): Track => ({ id, url: '', type: 'local', file, ...fields } as Track);
+
+const TRACKS: Track[] = [
+  localTrack('song', { name: 'Song & Dance', artist: 'Band', album: 'Album', duration: 185.4 }, localFile('01 Song.flac', 'Music/Band/01 Song.flac')),
+  { id: 'radio', name: 'Radio', url: 'https://radio.example/stream', type: 'stream' }
+];
+
+const readText = (name: string, text: string) => readPlaylistFile(new File([text], name));
+
+describe('readPlaylistFile', () => {
+  it('parses extended M3U with titles and durations', async () => {
+    const playlist = await readText('mix.m3u8', '#EXTM3U\n#PLAYLIST:Road Trip\n#EXTINF:200,Artist - Title\nmusic/a.mp3\n\nhttps://x.example/b.mp3\n');
+    expect(playlist).toEqual({
+      name: 'Road Trip',
+      entries: [
+        { artist: 'Artist', title: 'Title', duration: 200, location: 'music/a.mp3' },
+        { location: 'https://x.example/b.mp3' }
+      ]
+    });
+  });
+
+  it('parses PLS entries by number and names the playlist after the file', async () => {
+    const playlist = await readText('radio.pls', '[playlist]\nFile2=b.mp3\nFile1=a.mp3\nTitle1=First\nLength1=-1\nNumberOfEntries=2\n');
+    expect(playlist).toEqual({ name: 'radio', entries: [{ location: 'a.mp3', title: 'First', duration: undefined }, { location: 'b.mp3' }] });
+  });
+
+  it('parses XSPF, with durations in milliseconds', async () => {
+    const xml = '<?xml version="1.0"?><playlist version="1" xmlns="http://xspf.org/ns/0/"><title>List</title><trackList>'
+      + '<track><location>a%20b.ogg</location><title>T</title><creator>C</creator><duration>90500</duration></track>'
+      + '</trackList></playlist>';
+    const playlist = await readText('list.xspf', xml);
+    expect(playlist).toEqual({ name: 'List', entries: [{ location: 'a%20b.ogg', title: 'T', artist: 'C', duration: 90.5 }] });
+  });
+
+  it('returns null for broken XSPF', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await readText('bad.xspf', '<playlist><trackList>')).toBeNull();
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
+
+describe('writePlaylist', () => {
+  it.each<PlaylistFormat>(['m3u8', 'pls', 'xspf'])('round-trips %s through the reader', async format => {
+    const blob = writePlaylist('My Mix', TRACKS, format);
+    const playlist = await readPlaylistFile(new File([await blob.text()], `My Mix.${format}`));
+    expect(playlist?.name).toBe('My Mix');
+    expect(playlist?.entries[1].location).toBe('https://radio.example/stream');
+
+    const result = resolvePlaylist(playlist!, TRACKS);
+    expect(result.trackIds).toEqual(['song', 'radio']);
+    expect(result.unresolved).toEqual([]);
+  });
+
+  it('escapes XML and encodes XSPF locations', async () => {
+    const text = await writePlaylist('A & B', TRACKS, 'xspf').text();
+    expect(text).toContain('<title>A &amp; B</title>');
+    expect(text).toContain('<location>Music/Band/01%20Song.flac</location>');
+  });
+});
+
+describe('resolvePlaylist', () => {
+  const tracks = [
+    localTrack('rock', { name: 'Intro' }, localFile('intro.mp3', 'Rock/intro.mp3')),
+    localTrack('hard', { name: 'Intro' }, localFile('intro.mp3', 'HardRock/intro.mp3')),
+    localTrack('named', { name: 'Named', artist: 'Someone' }, localFile('named.mp3'))
+  ];
+
+  it('matches folder paths on whole path segments', () => {
+    const result = resolvePlaylist({ entries: [{ location: 'file:///C:/Music/HardRock/intro.mp3' }, { location: 'D:\\Music\\Rock\\intro.mp3' }] }, tracks);
+    expect(result.trackIds).toEqual(['hard', 'rock']);
+  });
+
+  it('falls back to the file name, then to artist and title', () => {
+    const result = resolvePlaylist({
+      entries: [
+        { location: '/elsewhere/named.mp3' },
+        { location: 'missing.mp3', title: 'named', artist: 'SOMEONE' },
+        { location: 'gone.mp3' }
+      ]
+    }, tracks);
+    expect(result.trackIds).toEqual(['named', 'named']);
+    expect(result.matched).toBe(2);
+    expect(result.unresolved).toEqual([{ location: 'gone.mp3' }]);
+  });
+
+  it('turns unknown URLs into one stream track each', () => {
+    const url = 'https://new.example/live';
+    const result = resolvePlaylist({ entries: [{ location: url, title: 'Live' }, { location: url }] }, tracks);
+    expect(result.newTracks).toHaveLength(1);
+    expect(result.newTracks[0]).toMatchObject({ name: 'Live', url, type: 'stream' });
+    expect(result.trackIds).toEqual([result.newTracks[0].id, result.newTracks[0].id]);
+    expect(result.matched).toBe(0);
+  });
+});
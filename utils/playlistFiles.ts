@@ -0,0 +1,283 @@
+// Playlist files: M3U8, PLS and XSPF export, and import resolved against the library
+import { Track } from '../types';
+
+export type PlaylistFormat = 'm3u8' | 'pls' | 'xspf';
+
+export const PLAYLIST_FORMATS: Record<PlaylistFormat, { label: string; extension: string; mimeType: string }> = {
+  m3u8: { label: 'M3U8', extension: 'm3u8', mimeType: 'audio/x-mpegurl' },
+  pls: { label: 'PLS', extension: 'pls', mimeType: 'audio/x-scpls' },
+  xspf: { label: 'XSPF', extension: 'xspf', mimeType: 'application/xspf+xml' }
+};
+
+export const PLAYLIST_FILE_ACCEPT = '.m3u,.m3u8,.pls,.xspf';
+
+// One entry of an imported playlist, as much as the file tells us
+export interface PlaylistEntry {
+  location?: string;
+  title?: string;
+  artist?: string;
+  duration?: number; // In seconds
+}
+
+export interface ParsedPlaylist {
+  name?: string;
+  entries: PlaylistEntry[];
+}
+
+export interface PlaylistImportResult {
+  name: string;
+  trackIds: string[]; // In playlist order, including the new stream tracks
+  newTracks: Track[]; // Stream tracks created for URLs not in the library
+  matched: number; // Entries found in the library
+  unresolved: PlaylistEntry[];
+}
+
+const generateTrackId = () => Math.random().toString(36).substr(2, 9);
+
+const isUrl = (location: string): boolean => /^https?:\/\//i.test(location);
+
+// --- Export ---
+
+/**
+ * Where a track lives, as written into a playlist: the URL for streams, otherwise the
+ * path inside the imported folder (or just the file name)
+ */
+const getTrackLocation = (track: Track): string => {
+  if (track.type === 'stream') return track.url;
+  return track.file?.webkitRelativePath || track.file?.name || track.name;
+};
+
+const getDisplayTitle = (track: Track): string => {
+  return track.artist ? `${track.artist} - ${track.name}` : track.name;
+};
+
+const escapeXml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Relative locations in XSPF are URI references, so each path segment is encoded
+const toXspfLocation = (location: string): string => {
+  return isUrl(location) ? location : location.split('/').map(encodeURIComponent).join('/');
+};
+
+const writeM3U8 = (name: string, tracks: Track[]): string => {
+  const lines = ['#EXTM3U', `#PLAYLIST:${name}`];
+  for (const track of tracks) {
+    lines.push(`#EXTINF:${Math.round(track.duration ?? -1)},${getDisplayTitle(track)}`);
+    lines.push(getTrackLocation(track));
+  }
+  return lines.join('\n') + '\n';
+};
+
+const writePLS = (tracks: Track[]): string => {
+  const lines = ['[playlist]'];
+  tracks.forEach((track, i) => {
+    lines.push(`File${i + 1}=${getTrackLocation(track)}`);
+    lines.push(`Title${i + 1}=${getDisplayTitle(track)}`);
+    lines.push(`Length${i + 1}=${Math.round(track.duration ?? -1)}`);
+  });
+  lines.push(`NumberOfEntries=${tracks.length}`, 'Version=2');
+  return lines.join('\n') + '\n';
+};
+
+const writeXSPF = (name: string, tracks: Track[]): string => {
+  const items = tracks.map(track => {
+    const fields = [
+      `      <location>${escapeXml(toXspfLocation(getTrackLocation(track)))}</location>`,
+      `      <title>${escapeXml(track.name)}</title>`
+    ];
+    if (track.artist) fields.push(`      <creator>${escapeXml(track.artist)}</creator>`);
+    if (track.album) fields.push(`      <album>${escapeXml(track.album)}</album>`);
+    if (track.duration) fields.push(`      <duration>${Math.round(track.duration * 1000)}</duration>`);
+    return `    <track>\n${fields.join('\n')}\n    </track>`;
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+    `  <title>${escapeXml(name)}</title>`,
+    '  <trackList>',
+    ...items,
+    '  </trackList>',
+    '</playlist>',
+    ''
+  ].join('\n');
+};
+
+export const writePlaylist = (name: string, tracks: Track[], format: PlaylistFormat): Blob => {
+  const text = format === 'pls' ? writePLS(tracks) : format === 'xspf' ? writeXSPF(name, tracks) : writeM3U8(name, tracks);
+  return new Blob([text], { type: PLAYLIST_FORMATS[format].mimeType });
+};
+
+// --- Import ---
+
+// "#EXTINF:123,Artist - Title" and PLS titles both use "Artist - Title"
+const splitDisplayTitle = (value: string): Pick<PlaylistEntry, 'title' | 'artist'> => {
+  const separator = value.indexOf(' - ');
+  if (separator < 0) return { title: value.trim() || undefined };
+  return { artist: value.slice(0, separator).trim(), title: value.slice(separator + 3).trim() };
+};
+
+const parseDuration = (value: string | undefined): number | undefined => {
+  const seconds = parseInt(value ?? '', 10);
+  return seconds > 0 ? seconds : undefined;
+};
+
+const parseM3U = (text: string): ParsedPlaylist => {
+  const playlist: ParsedPlaylist = { entries: [] };
+  let pending: PlaylistEntry = {};
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    if (line.startsWith('#EXTINF:')) {
+      const comma = line.indexOf(',');
+      const info = comma >= 0 ? splitDisplayTitle(line.slice(comma + 1)) : {};
+      pending = { ...info, duration: parseDuration(line.slice(8, comma >= 0 ? comma : undefined)) };
+    } else if (line.startsWith('#PLAYLIST:')) {
+      playlist.name = line.slice(10).trim();
+    } else if (!line.startsWith('#')) {
+      playlist.entries.push({ ...pending, location: line });
+      pending = {};
+    }
+  }
+  return playlist;
+};
+
+const parsePLS = (text: string): ParsedPlaylist => {
+  const entries = new Map<number, PlaylistEntry>();
+  for (const rawLine of text.split(/\r?\n/)) {
+    const match = rawLine.trim().match(/^(File|Title|Length)(\d+)=(.*)$/i);
+    if (!match) continue;
+    const index = parseInt(match[2], 10);
+    const entry = entries.get(index) ?? {};
+    const key = match[1].toLowerCase();
+    if (key === 'file') entry.location = match[3].trim();
+    else if (key === 'title') Object.assign(entry, splitDisplayTitle(match[3]));
+    else entry.duration = parseDuration(match[3]);
+    entries.set(index, entry);
+  }
+  return { entries: [...entries.entries()].sort(([a], [b]) => a - b).map(([, entry]) => entry) };
+};
+
+const parseXSPF = (text: string): ParsedPlaylist => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid XSPF document');
+  }
+  const childText = (parent: Element, tag: string) => parent.getElementsByTagName(tag)[0]?.textContent?.trim() || undefined;
+  const trackList = doc.getElementsByTagName('trackList')[0];
+  const tracks = trackList ? Array.from(trackList.getElementsByTagName('track')) : [];
+  const playlistTitle = Array.from(doc.documentElement.children).find(el => el.tagName === 'title');
+
+  return {
+    name: playlistTitle?.textContent?.trim() || undefined,
+    entries: tracks.map(track => {
+      const duration = parseInt(childText(track, 'duration') ?? '', 10);
+      return {
+        location: childText(track, 'location'),
+        title: childText(track, 'title'),
+        artist: childText(track, 'creator'),
+        duration: duration > 0 ? duration / 1000 : undefined
+      };
+    })
+  };
+};
+
+/**
+ * Parse a playlist file, picking the format from the extension or the content
+ * @returns null if the file can't be read or parsed
+ */
+export const readPlaylistFile = async (file: File): Promise<ParsedPlaylist | null> => {
+  try {
+    const bytes = await file.arrayBuffer();
+    let text = new TextDecoder('utf-8').decode(bytes);
+    // Plain .m3u predates UTF-8 playlists and is usually Windows-1252
+    if (text.includes('\uFFFD')) text = new TextDecoder('windows-1252').decode(bytes);
+    text = text.replace(/^\uFEFF/, '');
+
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    const trimmed = text.trimStart();
+    let playlist: ParsedPlaylist;
+    if (extension === 'xspf' || trimmed.startsWith('<')) playlist = parseXSPF(text);
+    else if (extension === 'pls' || /^\[playlist\]/i.test(trimmed)) playlist = parsePLS(text);
+    else playlist = parseM3U(text);
+
+    return { ...playlist, name: playlist.name || file.name.replace(/\.[^/.]+$/, '') };
+  } catch (error) {
+    console.error('[Playlist] Failed to read playlist file:', error);
+    return null;
+  }
+};
+
+const normalize = (value: string): string => value.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// file:// URIs, Windows separators and percent-encoding all reduce to a plain lowercase path
+const normalizePath = (location: string): string => {
+  let path = location.replace(/^file:\/\/\/?/i, '');
+  try {
+    path = decodeURIComponent(path);
+  } catch {
+    // Not percent-encoded
+  }
+  return path.replace(/\\/g, '/').toLowerCase();
+};
+
+/**
+ * Match playlist entries to library tracks by URL, path, file name, then artist/title.
+ * URLs not in the library become new stream tracks; nothing is dropped silently.
+ */
+export const resolvePlaylist = (playlist: ParsedPlaylist, tracks: Track[]): PlaylistImportResult => {
+  const result: PlaylistImportResult = { name: playlist.name || 'Imported Playlist', trackIds: [], newTracks: [], matched: 0, unresolved: [] };
+  const localTracks = tracks.filter(t => t.type === 'local' && t.file);
+
+  const findTrack = (entry: PlaylistEntry): Track | undefined => {
+    const location = entry.location;
+    if (location && isUrl(location)) {
+      return [...tracks, ...result.newTracks].find(t => t.type === 'stream' && t.url === location);
+    }
+    if (location) {
+      const path = normalizePath(location);
+      const fileName = path.split('/').pop()!;
+      // Tracks imported as a folder know their path inside it, which must match whole folder names
+      const byPath = localTracks.find(t => {
+        const relativePath = t.file!.webkitRelativePath.toLowerCase();
+        return relativePath && (path === relativePath || path.endsWith(`/${relativePath}`));
+      });
+      if (byPath) return byPath;
+      const byName = localTracks.find(t => t.file!.name.toLowerCase() === fileName);
+      if (byName) return byName;
+    }
+    if (entry.title) {
+      const title = normalize(entry.title);
+      const artist = entry.artist ? normalize(entry.artist) : undefined;
+      return tracks.find(t => normalize(t.name) === title && (!artist || normalize(t.artist ?? '') === artist));
+    }
+    return undefined;
+  };
+
+  for (const entry of playlist.entries) {
+    const track = findTrack(entry);
+    if (track) {
+      result.trackIds.push(track.id);
+      if (!result.newTracks.includes(track)) result.matched++;
+    } else if (entry.location && isUrl(entry.location)) {
+      const stream: Track = {
+        id: generateTrackId(),
+        name: entry.title || entry.location,
+        artist: entry.artist || 'Network Stream',
+        duration: entry.duration,
+        url: entry.location,
+        type: 'stream',
+        addedAt: Date.now()
+      };
+      result.newTracks.push(stream);
+      result.trackIds.push(stream.id);
+    } else {
+      result.unresolved.push(entry);
+    }
+  }
+
+  return result;
+};
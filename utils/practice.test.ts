@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PRACTICE, getPitchShift, isDefaultPractice } from './practice';
+import { semitonesToRatio } from './pitchShift';
+
+describe('practice settings', () => {
+  it('combines semitones and cents into one shift', () => {
+    expect(getPitchShift({ ...DEFAULT_PRACTICE, semitones: -2, cents: 25 })).toBeCloseTo(-1.75);
+    expect(semitonesToRatio(12)).toBe(2);
+    expect(semitonesToRatio(-12)).toBe(0.5);
+  });
+
+  it('is default only at normal tempo with pitch preserved and no net shift', () => {
+    expect(isDefaultPractice(DEFAULT_PRACTICE)).toBe(true);
+    expect(isDefaultPractice({ ...DEFAULT_PRACTICE, tempo: 0.9 })).toBe(false);
+    expect(isDefaultPractice({ ...DEFAULT_PRACTICE, preservePitch: false })).toBe(false);
+    expect(isDefaultPractice({ ...DEFAULT_PRACTICE, cents: 10 })).toBe(false);
+  });
+});
@@ -0,0 +1,27 @@
+// Practice mode: per-track tempo and key
+import { PracticeSettings } from '../types';
+
+export const MIN_TEMPO = 0.5;
+export const MAX_TEMPO = 1.5;
+export const MAX_PRACTICE_SEMITONES = 12;
+export const MAX_PRACTICE_CENTS = 50;
+
+export const DEFAULT_PRACTICE: PracticeSettings = {
+  tempo: 1,
+  preservePitch: true,
+  semitones: 0,
+  cents: 0
+};
+
+/**
+ * Total pitch shift in (fractional) semitones
+ */
+export const getPitchShift = (practice: PracticeSettings): number => {
+  return practice.semitones + practice.cents / 100;
+};
+
+export const isDefaultPractice = (practice: PracticeSettings): boolean => {
+  return practice.tempo === DEFAULT_PRACTICE.tempo
+    && practice.preservePitch === DEFAULT_PRACTICE.preservePitch
+    && getPitchShift(practice) === 0;
+};
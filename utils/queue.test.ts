@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createQueue,
+  peekNextId,
+  advanceQueue,
+  retreatQueue,
+  jumpToQueueItem,
+  playNextInQueue,
+  addToQueue,
+  removeFromQueue,
+  moveQueueItem,
+  setQueueShuffle,
+  pruneQueue,
+  getQueueTrackIds
+} from './queue';
+
+const IDS = ['a', 'b', 'c', 'd'];
+
+describe('createQueue', () => {
+  it('starts at the chosen track', () => {
+    const queue = createQueue('Album', IDS, 'b', false);
+    expect(queue).toMatchObject({ order: IDS, position: 1, currentId: 'b', history: [], upNext: [] });
+  });
+
+  it('puts the chosen track first when shuffled', () => {
+    const queue = createQueue('Album', IDS, 'c', true);
+    expect(queue.order[0]).toBe('c');
+    expect([...queue.order].sort()).toEqual(IDS);
+    expect(queue.position).toBe(0);
+  });
+
+  it('keeps history and queued tracks from the previous queue', () => {
+    const previous = addToQueue(createQueue('Album', IDS, 'a', false), ['x']);
+    const queue = createQueue('Playlist', ['p', 'q'], 'p', false, previous);
+    expect(queue.history).toEqual(['a']);
+    expect(queue.upNext).toEqual(['x']);
+  });
+});
+
+describe('advanceQueue', () => {
+  it('plays queued tracks before continuing the order', () => {
+    let queue = playNextInQueue(createQueue('Album', IDS, 'a', false), ['x', 'y']);
+    expect(peekNextId(queue, false)).toBe('x');
+    queue = advanceQueue(queue, false)!;
+    expect(queue).toMatchObject({ currentId: 'x', upNext: ['y'], position: 0, history: ['a'] });
+    queue = advanceQueue(advanceQueue(queue, false)!, false)!;
+    expect(queue).toMatchObject({ currentId: 'b', position: 1 });
+  });
+
+  it('stops at the end unless repeating', () => {
+    const queue = createQueue('Album', IDS, 'd', false);
+    expect(advanceQueue(queue, false)).toBeNull();
+    expect(peekNextId(queue, true)).toBe('a');
+    expect(advanceQueue(queue, true)).toMatchObject({ currentId: 'a', position: 0 });
+  });
+
+  it('leaves the input queue untouched', () => {
+    const queue = createQueue('Album', IDS, 'a', false);
+    const snapshot = JSON.stringify(queue);
+    advanceQueue(queue, false);
+    expect(JSON.stringify(queue)).toBe(snapshot);
+  });
+});
+
+describe('retreatQueue', () => {
+  it('steps back so that next returns to the track we left', () => {
+    const queue = advanceQueue(createQueue('Album', IDS, 'a', false), false)!;
+    const back = retreatQueue(queue)!;
+    expect(back).toMatchObject({ currentId: 'a', position: 0, history: [] });
+    expect(peekNextId(back, false)).toBe('b');
+  });
+
+  it('puts a queued track back in front of up next', () => {
+    const queue = advanceQueue(addToQueue(createQueue('Album', IDS, 'a', false), ['x']), false)!;
+    const back = retreatQueue(queue)!;
+    expect(back).toMatchObject({ currentId: 'a', upNext: ['x'] });
+  });
+
+  it('returns null without history', () => {
+    expect(retreatQueue(createQueue('Album', IDS, 'a', false))).toBeNull();
+  });
+});
+
+describe('editing the queue', () => {
+  it('jumps to an up next item and removes it from the list', () => {
+    const queue = jumpToQueueItem(addToQueue(createQueue('Album', IDS, 'a', false), ['x', 'y']), 'upNext', 1);
+    expect(queue).toMatchObject({ currentId: 'y', upNext: ['x'], history: ['a'] });
+  });
+
+  it('only removes or moves tracks that are still to come', () => {
+    const queue = createQueue('Album', IDS, 'b', false);
+    expect(removeFromQueue(queue, 'order', 0)).toBe(queue);
+    expect(removeFromQueue(queue, 'order', 2).order).toEqual(['a', 'b', 'd']);
+    expect(moveQueueItem(queue, 'order', 0, 3)).toBe(queue);
+    expect(moveQueueItem(queue, 'order', 3, 2).order).toEqual(['a', 'b', 'd', 'c']);
+  });
+
+  it('puts an item dragged down below the target and one dragged up above it', () => {
+    const queue = addToQueue(createQueue('Album', IDS, 'a', false), ['w', 'x', 'y', 'z']);
+    expect(moveQueueItem(queue, 'upNext', 1, 3).upNext).toEqual(['w', 'y', 'z', 'x']);
+    expect(moveQueueItem(queue, 'upNext', 3, 1).upNext).toEqual(['w', 'z', 'x', 'y']);
+  });
+
+  it('restores the original order when shuffle is turned off', () => {
+    const shuffled = createQueue('Album', IDS, 'c', true);
+    const queue = setQueueShuffle(shuffled, false);
+    expect(queue).toMatchObject({ order: IDS, position: 2, currentId: 'c', shuffled: false });
+  });
+
+  it('drops tracks that left the library and keeps the position', () => {
+    const queue = pruneQueue(addToQueue(createQueue('Album', IDS, 'c', false), ['a', 'b']), new Set(['a', 'c', 'd']));
+    expect(queue).toMatchObject({ order: ['a', 'c', 'd'], position: 1, upNext: ['a'], currentId: 'c' });
+  });
+
+  it('lists the current track and everything still to play', () => {
+    const queue = addToQueue(createQueue('Album', IDS, 'b', false), ['x']);
+    expect(getQueueTrackIds(queue)).toEqual(['b', 'x', 'c', 'd']);
+  });
+});
@@ -0,0 +1,195 @@
+// Play queue operations. Every function returns a new queue and leaves its input untouched.
+import { PlayQueue } from '../types';
+import { shuffleTracks } from './library';
+
+const HISTORY_LIMIT = 200;
+
+export type QueueSection = 'upNext' | 'order';
+
+const pushHistory = (history: string[], id: string | null): string[] => {
+  if (!id) return history;
+  return [...history, id].slice(-HISTORY_LIMIT);
+};
+
+// Shuffled order that starts with the given track, if it is part of the list
+const shuffledOrder = (ids: string[], firstId: string | null): string[] => {
+  if (firstId && ids.includes(firstId)) {
+    return [firstId, ...shuffleTracks(ids.filter(id => id !== firstId))];
+  }
+  return shuffleTracks(ids);
+};
+
+/**
+ * Start a queue from a list of tracks. History carries over from the previous queue
+ * so "previous" can step back into whatever was playing before.
+ */
+export const createQueue = (
+  source: string,
+  ids: string[],
+  startId: string | null,
+  shuffled: boolean,
+  previous: PlayQueue | null = null
+): PlayQueue => {
+  const order = shuffled ? shuffledOrder(ids, startId) : [...ids];
+  const history = previous && previous.currentId !== startId
+    ? pushHistory(previous.history, previous.currentId)
+    : previous?.history ?? [];
+
+  return {
+    source,
+    sourceIds: [...ids],
+    order,
+    shuffled,
+    position: startId ? order.indexOf(startId) : -1,
+    upNext: previous?.upNext ?? [],
+    history,
+    currentId: startId
+  };
+};
+
+// The current track came from order (as opposed to upNext or outside the queue)
+const isPlayingFromOrder = (queue: PlayQueue): boolean => {
+  return queue.position >= 0 && queue.order[queue.position] === queue.currentId;
+};
+
+/**
+ * Track that would play after the current one, without moving the queue
+ */
+export const peekNextId = (queue: PlayQueue, repeatAll: boolean): string | null => {
+  if (queue.upNext.length > 0) return queue.upNext[0];
+  if (queue.position + 1 < queue.order.length) return queue.order[queue.position + 1];
+  if (repeatAll && queue.order.length > 0) return queue.order[0];
+  return null;
+};
+
+/**
+ * Move to the next track: manually queued tracks first, then the play order.
+ * @returns null at the end of the queue
+ */
+export const advanceQueue = (queue: PlayQueue, repeatAll: boolean): PlayQueue | null => {
+  const history = pushHistory(queue.history, queue.currentId);
+
+  if (queue.upNext.length > 0) {
+    const [nextId, ...upNext] = queue.upNext;
+    return { ...queue, upNext, history, currentId: nextId };
+  }
+
+  let order = queue.order;
+  let position = queue.position + 1;
+  if (position >= order.length) {
+    if (!repeatAll || order.length === 0) return null;
+    // Each pass through a shuffled list gets a fresh order
+    order = queue.shuffled ? shuffleTracks(queue.sourceIds) : order;
+    position = 0;
+  }
+
+  return { ...queue, order, position, history, currentId: order[position] };
+};
+
+/**
+ * Step back to the most recently played track
+ * @returns null when there is no history
+ */
+export const retreatQueue = (queue: PlayQueue): PlayQueue | null => {
+  if (queue.history.length === 0) return null;
+
+  const previousId = queue.history[queue.history.length - 1];
+  const history = queue.history.slice(0, -1);
+
+  // Make sure "next" comes back to the track we are leaving
+  if (isPlayingFromOrder(queue)) {
+    return { ...queue, history, position: queue.position - 1, currentId: previousId };
+  }
+  const upNext = queue.currentId ? [queue.currentId, ...queue.upNext] : queue.upNext;
+  return { ...queue, history, upNext, currentId: previousId };
+};
+
+/**
+ * Play a track outside the normal flow (e.g. a stream) without losing the queue
+ */
+export const setQueueCurrent = (queue: PlayQueue, id: string): PlayQueue => {
+  if (queue.currentId === id) return queue;
+  return { ...queue, history: pushHistory(queue.history, queue.currentId), currentId: id };
+};
+
+/**
+ * Jump straight to an item shown in the up-next list
+ */
+export const jumpToQueueItem = (queue: PlayQueue, section: QueueSection, index: number): PlayQueue => {
+  const history = pushHistory(queue.history, queue.currentId);
+  if (section === 'upNext') {
+    const id = queue.upNext[index];
+    return { ...queue, history, upNext: queue.upNext.filter((_, i) => i !== index), currentId: id };
+  }
+  return { ...queue, history, position: index, currentId: queue.order[index] };
+};
+
+export const playNextInQueue = (queue: PlayQueue, ids: string[]): PlayQueue => {
+  return { ...queue, upNext: [...ids, ...queue.upNext] };
+};
+
+export const addToQueue = (queue: PlayQueue, ids: string[]): PlayQueue => {
+  return { ...queue, upNext: [...queue.upNext, ...ids] };
+};
+
+/**
+ * Remove an upcoming item. Indexes into order must be after the current position.
+ */
+export const removeFromQueue = (queue: PlayQueue, section: QueueSection, index: number): PlayQueue => {
+  if (section === 'upNext') {
+    return { ...queue, upNext: queue.upNext.filter((_, i) => i !== index) };
+  }
+  if (index <= queue.position) return queue;
+  return { ...queue, order: queue.order.filter((_, i) => i !== index) };
+};
+
+/**
+ * Drag-reorder within a section. Only upcoming order items can be moved.
+ * The item ends up at index `to`: above the target when moved up, below it when moved down.
+ */
+export const moveQueueItem = (queue: PlayQueue, section: QueueSection, from: number, to: number): PlayQueue => {
+  if (from === to) return queue;
+  const list = section === 'upNext' ? [...queue.upNext] : [...queue.order];
+  if (section === 'order' && (from <= queue.position || to <= queue.position)) return queue;
+
+  const [item] = list.splice(from, 1);
+  list.splice(to, 0, item);
+  return section === 'upNext' ? { ...queue, upNext: list } : { ...queue, order: list };
+};
+
+export const clearUpNext = (queue: PlayQueue): PlayQueue => ({ ...queue, upNext: [] });
+
+/**
+ * Turn shuffle on or off. The current track stays put and the rest of the list is reordered.
+ */
+export const setQueueShuffle = (queue: PlayQueue, shuffled: boolean): PlayQueue => {
+  if (queue.shuffled === shuffled) return queue;
+  const order = shuffled ? shuffledOrder(queue.sourceIds, queue.currentId) : [...queue.sourceIds];
+  const position = queue.currentId ? order.indexOf(queue.currentId) : -1;
+  return { ...queue, shuffled, order, position };
+};
+
+/**
+ * Drop tracks that are no longer in the library
+ */
+export const pruneQueue = (queue: PlayQueue, validIds: Set<string>): PlayQueue => {
+  const keep = (id: string) => validIds.has(id);
+  const position = queue.order.slice(0, queue.position + 1).filter(keep).length - 1;
+  return {
+    ...queue,
+    sourceIds: queue.sourceIds.filter(keep),
+    order: queue.order.filter(keep),
+    position,
+    upNext: queue.upNext.filter(keep),
+    history: queue.history.filter(keep),
+    currentId: queue.currentId && keep(queue.currentId) ? queue.currentId : null
+  };
+};
+
+/**
+ * The current track followed by everything still to play, in play order
+ */
+export const getQueueTrackIds = (queue: PlayQueue): string[] => {
+  const upcoming = [...queue.upNext, ...queue.order.slice(queue.position + 1)];
+  return queue.currentId ? [queue.currentId, ...upcoming] : upcoming;
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { createSearchIndex, normalizeText } from './search';
+import { Track, Playlist, ChapterMarker } from '../types';
+
+const track = (id: string, fields: Partial<Track>): Track => ({ id, name: id, url: `blob:${id}`, type: 'local', ...fields });
+
+const tracks: Track[] = [
+  track('wish', { name: 'Wish You Were Here', artist: 'Pink Floyd', album: 'Wish You Were Here', year: 1975, duration: 334 }),
+  track('live', { name: 'Wish You Were Here (Live)', artist: 'Pink Floyd', album: 'Pulse', year: 1995, duration: 380 }),
+  track('money', { name: 'Money', artist: 'Pink Floyd', year: 1973, duration: 382 }),
+  track('pink', { name: 'Get the Party Started', artist: 'Pink', year: 2001, duration: 192 }),
+  track('halo', { name: 'Halo', artist: 'Beyoncé', year: 2008, duration: 90 }),
+  track('radio', { name: 'Night Radio', artist: 'Station', type: 'stream' })
+];
+const playlists: Playlist[] = [{ id: 'p1', name: 'Wish list', trackIds: [], createdAt: 0 }];
+const markers: ChapterMarker[] = [{ id: 'm1', trackId: 'money', timestamp: 30, label: 'Wishing well' }];
+
+const createIndex = () => {
+  const index = createSearchIndex();
+  index.syncTracks(tracks);
+  index.syncPlaylists(playlists);
+  index.syncMarkers(markers);
+  return index;
+};
+
+const trackIds = (query: string) => createIndex().search(query).tracks.map(t => t.id).sort();
+
+describe('search', () => {
+  it('keeps quoted qualifier values together', () => {
+    expect(trackIds('artist:"pink floyd"')).toEqual(['live', 'money', 'wish']);
+    expect(trackIds('artist:pink')).toEqual(['live', 'money', 'pink', 'wish']);
+  });
+
+  it('filters years by comparison and by range', () => {
+    expect(trackIds('year:>1974')).toEqual(['halo', 'live', 'pink', 'wish']);
+    expect(trackIds('year:2000..2010')).toEqual(['halo', 'pink']);
+    expect(trackIds('year:1973')).toEqual(['money']);
+  });
+
+  it('reads durations in units and as minutes:seconds', () => {
+    expect(trackIds('duration:<3m')).toEqual(['halo']);
+    expect(trackIds('duration:1:30')).toEqual(['halo']);
+    expect(trackIds('duration:>=6m20s')).toEqual(['live', 'money']);
+  });
+
+  it('excludes negated terms', () => {
+    expect(trackIds('wish -live')).toEqual(['wish']);
+    expect(trackIds('artist:"pink floyd" -year:1973')).toEqual(['live', 'wish']);
+  });
+
+  it('ignores diacritics', () => {
+    expect(normalizeText('Beyoncé')).toBe('beyonce');
+    expect(trackIds('beyonce')).toEqual(['halo']);
+    expect(trackIds('BEYONCÉ')).toEqual(['halo']);
+  });
+
+  it('matches only the last word as a prefix', () => {
+    expect(trackIds('pink flo')).toEqual(['live', 'money', 'wish']);
+    expect(trackIds('flo pink')).toEqual([]);
+  });
+
+  it('searches playlists and markers unless a track qualifier is used', () => {
+    const results = createIndex().search('wish');
+    expect(results.playlists.map(p => p.id)).toEqual(['p1']);
+    expect(results.markers.map(m => m.id)).toEqual(['m1']);
+
+    const qualified = createIndex().search('title:wish');
+    expect(qualified.playlists).toEqual([]);
+    expect(qualified.markers).toEqual([]);
+  });
+
+  it('reads type: as a result kind or a track source', () => {
+    const playlistsOnly = createIndex().search('type:playlist wish');
+    expect(playlistsOnly.playlists.map(p => p.id)).toEqual(['p1']);
+    expect(playlistsOnly.tracks).toEqual([]);
+    expect(playlistsOnly.markers).toEqual([]);
+
+    const streams = createIndex().search('type:stream');
+    expect(streams.tracks.map(t => t.id)).toEqual(['radio']);
+    expect(streams.playlists).toEqual([]);
+  });
+
+  it('re-indexes tracks that changed and drops removed ones', () => {
+    const index = createIndex();
+    index.syncTracks([{ ...tracks[0], name: 'Shine On' }]);
+    expect(index.search('shine').tracks.map(t => t.id)).toEqual(['wish']);
+    expect(index.search('money').tracks).toEqual([]);
+  });
+});
@@ -0,0 +1,327 @@
+// In-memory full-text search over tracks, playlists and chapter markers
+import { Track, Playlist, ChapterMarker } from '../types';
+
+export interface SearchResults {
+  tracks: Track[];
+  playlists: Playlist[];
+  markers: ChapterMarker[];
+}
+
+type DocumentKind = 'track' | 'playlist' | 'marker';
+
+interface SearchDocument {
+  key: string;
+  kind: DocumentKind;
+  fields: Record<string, string[]>; // Normalized tokens per field
+  year?: number;
+  duration?: number;
+  type?: Track['type'];
+}
+
+type NumericOperator = '>' | '<' | '>=' | '<=' | '=';
+
+interface QueryTerm {
+  field?: string; // Qualifier, e.g. "artist" in artist:floyd
+  tokens: string[];
+  negate: boolean;
+  numeric?: { operator: NumericOperator; value: number; max?: number };
+}
+
+// Qualifiers that only make sense for tracks
+const TRACK_FIELDS = ['title', 'artist', 'album', 'genre', 'year', 'duration', 'type'];
+const FIELD_ALIASES: Record<string, string> = { name: 'title', by: 'artist', length: 'duration', time: 'duration' };
+// type: takes a track source (local, stream) or a kind of result (track, playlist, marker)
+const RESULT_KINDS: DocumentKind[] = ['track', 'playlist', 'marker'];
+const TYPE_ALIASES: Record<string, string> = { tracks: 'track', playlists: 'playlist', markers: 'marker', chapter: 'marker', chapters: 'marker', streams: 'stream' };
+
+/**
+ * Lowercase and strip diacritics so "Beyoncé" matches "beyonce"
+ */
+export const normalizeText = (text: string): string => {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+};
+
+const tokenize = (text?: string): string[] => {
+  if (!text) return [];
+  return normalizeText(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+};
+
+/**
+ * Parse durations like "3m", "90s", "2m30s", "1:30" or "1h" into seconds
+ */
+const parseDuration = (value: string): number | null => {
+  if (/^\d+(:\d{1,2}){1,2}$/.test(value)) {
+    return value.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+  }
+  const match = value.match(/^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m)?(?:(\d+(?:\.\d+)?)s?)?$/);
+  if (!match || !match[0]) return null;
+  const [, h, m, s] = match;
+  return (parseFloat(h || '0') * 3600) + (parseFloat(m || '0') * 60) + parseFloat(s || '0');
+};
+
+const parseNumericFilter = (field: string, raw: string): QueryTerm['numeric'] | null => {
+  const parse = (value: string) => field === 'duration' ? parseDuration(value) : (/^\d+$/.test(value) ? parseInt(value, 10) : null);
+
+  // Ranges: year:2000..2010
+  const range = raw.split('..');
+  if (range.length === 2) {
+    const [min, max] = range.map(parse);
+    if (min === null || max === null) return null;
+    return { operator: '>=', value: min, max };
+  }
+
+  const match = raw.match(/^(>=|<=|>|<|=)?(.+)$/);
+  if (!match) return null;
+  const value = parse(match[2]);
+  if (value === null) return null;
+  return { operator: (match[1] as NumericOperator) || '=', value };
+};
+
+/**
+ * Split a query into terms, keeping quoted phrases together:
+ *   artist:"pink floyd" year:>1970 -live wish
+ */
+const parseQuery = (query: string): QueryTerm[] => {
+  const terms: QueryTerm[] = [];
+  const pattern = /(-)?(?:(\w+):)?(?:"([^"]*)"|(\S+))/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query)) !== null) {
+    const [, minus, rawField, quoted, bare] = match;
+    const value = quoted ?? bare ?? '';
+    let field = rawField?.toLowerCase();
+    if (field) field = FIELD_ALIASES[field] || field;
+
+    // Unknown qualifiers are searched as plain text
+    if (field && !TRACK_FIELDS.includes(field)) {
+      terms.push({ tokens: tokenize(`${rawField}:${value}`), negate: !!minus });
+      continue;
+    }
+
+    if (field === 'year' || field === 'duration') {
+      const numeric = parseNumericFilter(field, value.toLowerCase());
+      if (numeric) terms.push({ field, tokens: [], negate: !!minus, numeric });
+      continue;
+    }
+
+    const type = value.toLowerCase();
+    const tokens = field === 'type' ? [TYPE_ALIASES[type] || type] : tokenize(value);
+    if (tokens.length > 0) terms.push({ field, tokens, negate: !!minus });
+  }
+
+  return terms;
+};
+
+const compareNumeric = (actual: number | undefined, filter: NonNullable<QueryTerm['numeric']>): boolean => {
+  if (actual === undefined) return false;
+  if (filter.max !== undefined) return actual >= filter.value && actual <= filter.max;
+  switch (filter.operator) {
+    case '>': return actual > filter.value;
+    case '<': return actual < filter.value;
+    case '>=': return actual >= filter.value;
+    case '<=': return actual <= filter.value;
+    default: return filter.value === Math.floor(actual) || filter.value === Math.round(actual);
+  }
+};
+
+// Binary search for the first vocabulary entry >= prefix
+const lowerBound = (sorted: string[], prefix: string): number => {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (sorted[mid] < prefix) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+/**
+ * Create a search index. Call the sync* functions with the latest state;
+ * only records whose object identity changed are re-indexed.
+ */
+export const createSearchIndex = () => {
+  const documents = new Map<string, SearchDocument>();
+  const postings = new Map<string, Set<string>>();
+  const indexedSources = new Map<string, unknown>(); // doc key -> object it was built from
+  const tracksById = new Map<string, Track>();
+  const playlistsById = new Map<string, Playlist>();
+  const markersById = new Map<string, ChapterMarker>();
+  let sortedVocabulary: string[] | null = null;
+
+  const addDocument = (doc: SearchDocument, source: unknown) => {
+    removeDocument(doc.key);
+    documents.set(doc.key, doc);
+    indexedSources.set(doc.key, source);
+    for (const tokens of Object.values(doc.fields)) {
+      for (const token of tokens) {
+        let set = postings.get(token);
+        if (!set) {
+          set = new Set();
+          postings.set(token, set);
+          sortedVocabulary = null;
+        }
+        set.add(doc.key);
+      }
+    }
+  };
+
+  const removeDocument = (key: string) => {
+    const doc = documents.get(key);
+    if (!doc) return;
+    for (const tokens of Object.values(doc.fields)) {
+      for (const token of tokens) {
+        const set = postings.get(token);
+        if (!set) continue;
+        set.delete(key);
+        if (set.size === 0) {
+          postings.delete(token);
+          sortedVocabulary = null;
+        }
+      }
+    }
+    documents.delete(key);
+    indexedSources.delete(key);
+  };
+
+  // Add/replace changed records and drop ones that disappeared
+  const sync = <T extends { id: string }>(kind: DocumentKind, items: T[], byId: Map<string, T>, build: (item: T) => SearchDocument) => {
+    const seen = new Set<string>();
+    for (const item of items) {
+      const key = `${kind}:${item.id}`;
+      seen.add(key);
+      if (indexedSources.get(key) !== item) {
+        addDocument(build(item), item);
+      }
+      byId.set(item.id, item);
+    }
+    for (const [id] of byId) {
+      const key = `${kind}:${id}`;
+      if (!seen.has(key)) {
+        removeDocument(key);
+        byId.delete(id);
+      }
+    }
+  };
+
+  const syncTracks = (tracks: Track[]) => {
+    sync('track', tracks, tracksById, track => ({
+      key: `track:${track.id}`,
+      kind: 'track',
+      fields: {
+        title: tokenize(track.name),
+        artist: tokenize([track.artist, track.albumArtist].filter(Boolean).join(' ')),
+        album: tokenize(track.album),
+        genre: tokenize(track.genre),
+      },
+      year: track.year,
+      duration: track.duration,
+      type: track.type
+    }));
+  };
+
+  const syncPlaylists = (playlists: Playlist[]) => {
+    sync('playlist', playlists, playlistsById, playlist => ({
+      key: `playlist:${playlist.id}`,
+      kind: 'playlist',
+      fields: { title: tokenize(playlist.name) }
+    }));
+  };
+
+  const syncMarkers = (markers: ChapterMarker[]) => {
+    sync('marker', markers, markersById, marker => ({
+      key: `marker:${marker.id}`,
+      kind: 'marker',
+      fields: { title: tokenize(marker.label) }
+    }));
+  };
+
+  // Documents containing a token, or any token starting with it
+  const lookup = (token: string, allowPrefix: boolean): Set<string> => {
+    if (!allowPrefix) return postings.get(token) ?? new Set();
+    if (!sortedVocabulary) sortedVocabulary = Array.from(postings.keys()).sort();
+
+    const result = new Set<string>();
+    for (let i = lowerBound(sortedVocabulary, token); i < sortedVocabulary.length && sortedVocabulary[i].startsWith(token); i++) {
+      postings.get(sortedVocabulary[i])!.forEach(key => result.add(key));
+    }
+    return result;
+  };
+
+  const matchesTerm = (doc: SearchDocument, term: QueryTerm, isLastTerm: boolean): boolean => {
+    if (term.numeric) {
+      if (doc.kind !== 'track') return false;
+      return compareNumeric(term.field === 'year' ? doc.year : doc.duration, term.numeric);
+    }
+    if (term.field === 'type') {
+      return term.tokens[0] === doc.type || term.tokens[0] === doc.kind;
+    }
+
+    const fieldTokens = term.field ? doc.fields[term.field] ?? [] : Object.values(doc.fields).flat();
+    return term.tokens.every((token, i) => {
+      // Only the word still being typed is matched as a prefix
+      const prefix = isLastTerm && i === term.tokens.length - 1;
+      return fieldTokens.some(t => (prefix ? t.startsWith(token) : t === token));
+    });
+  };
+
+  // Exact title hits rank first, then prefix/other field hits
+  const score = (doc: SearchDocument, terms: QueryTerm[]): number => {
+    let total = 0;
+    for (const term of terms) {
+      if (term.negate || term.numeric) continue;
+      for (const token of term.tokens) {
+        if (doc.fields.title?.includes(token)) total += 3;
+        else if (doc.fields.title?.some(t => t.startsWith(token))) total += 2;
+        else total += 1;
+      }
+    }
+    return total;
+  };
+
+  const search = (query: string): SearchResults => {
+    const terms = parseQuery(query);
+    const results: SearchResults = { tracks: [], playlists: [], markers: [] };
+    if (terms.length === 0) return results;
+
+    const positive = terms.filter(t => !t.negate);
+    const lastTextTerm = [...positive].reverse().find(t => !t.numeric && t.field !== 'type');
+    // Track qualifiers limit results to tracks, unless type: asks for another kind
+    const trackOnly = terms.some(t => t.field && !t.negate && !(t.field === 'type' && RESULT_KINDS.includes(t.tokens[0] as DocumentKind)));
+
+    // Narrow candidates with the inverted index, then verify every term
+    let candidates: Set<string> | null = null;
+    for (const term of positive) {
+      if (term.numeric || term.field === 'type') continue;
+      for (let i = 0; i < term.tokens.length; i++) {
+        const matches = lookup(term.tokens[i], term === lastTextTerm && i === term.tokens.length - 1);
+        candidates = candidates
+          ? new Set(Array.from(candidates).filter(key => matches.has(key)))
+          : new Set(matches);
+      }
+    }
+    const keys: Iterable<string> = candidates ?? documents.keys();
+
+    const scored: { doc: SearchDocument; score: number }[] = [];
+    for (const key of keys) {
+      const doc = documents.get(key);
+      if (!doc) continue;
+      if (trackOnly && doc.kind !== 'track') continue;
+      const ok = terms.every(term => matchesTerm(doc, term, term === lastTextTerm) !== term.negate);
+      if (ok) scored.push({ doc, score: score(doc, terms) });
+    }
+    scored.sort((a, b) => b.score - a.score);
+
+    for (const { doc } of scored) {
+      const id = doc.key.substring(doc.key.indexOf(':') + 1);
+      if (doc.kind === 'track') results.tracks.push(tracksById.get(id)!);
+      else if (doc.kind === 'playlist') results.playlists.push(playlistsById.get(id)!);
+      else results.markers.push(markersById.get(id)!);
+    }
+    return results;
+  };
+
+  return { syncTracks, syncPlaylists, syncMarkers, search };
+};
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
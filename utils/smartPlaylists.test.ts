@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { Track, SmartPlaylistRule, SmartPlaylistRules } from '../types';
+import { evaluateSmartPlaylist, sortTracks } from './smartPlaylists';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 31);
+
+const track = (id: string, fields: Partial<Track> = {}): Track => ({ id, name: id, url: '', type: 'local', ...fields });
+
+const rule = (field: SmartPlaylistRule['field'], operator: SmartPlaylistRule['operator'], value: string): SmartPlaylistRule => ({
+  id: `${field}-${operator}`,
+  field,
+  operator,
+  value
+});
+
+const rules = (list: SmartPlaylistRule[], overrides: Partial<SmartPlaylistRules> = {}): SmartPlaylistRules => ({
+  match: 'all',
+  rules: list,
+  sortBy: 'name',
+  sortDirection: 'asc',
+  ...overrides
+});
+
+const ids = (tracks: Track[]) => tracks.map(t => t.id);
+
+const library = [
+  track('a', { artist: 'Miles Davis', genre: 'Jazz', year: 1959, playCount: 10, addedAt: NOW - 2 * DAY_MS, lastPlayedAt: NOW - DAY_MS, duration: 540 }),
+  track('b', { artist: 'Daft Punk', genre: 'Electronic', year: 2013, playCount: 3, addedAt: NOW - 30 * DAY_MS, duration: 200 }),
+  track('c', { artist: 'Local File', albumArtist: 'Miles Davis Quintet', genre: 'jazz', rating: 5, addedAt: NOW - 60 * DAY_MS }),
+  track('d', { type: 'stream', name: 'Radio' })
+];
+
+describe('evaluateSmartPlaylist', () => {
+  it('matches text case-insensitively, including the album artist', () => {
+    expect(ids(evaluateSmartPlaylist(rules([rule('artist', 'contains', 'MILES')]), library, NOW))).toEqual(['a', 'c']);
+    expect(ids(evaluateSmartPlaylist(rules([rule('genre', 'is', 'jazz')]), library, NOW))).toEqual(['a', 'c']);
+  });
+
+  it('combines rules with all or any', () => {
+    const list = [rule('genre', 'is', 'jazz'), rule('year', 'gt', '2000')];
+    expect(ids(evaluateSmartPlaylist(rules(list), library, NOW))).toEqual([]);
+    expect(ids(evaluateSmartPlaylist(rules(list, { match: 'any' }), library, NOW))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('filters dates by days before now', () => {
+    expect(ids(evaluateSmartPlaylist(rules([rule('addedAt', 'inLast', '14')]), library, NOW))).toEqual(['a']);
+    expect(ids(evaluateSmartPlaylist(rules([rule('lastPlayedAt', 'never', '')]), library, NOW))).toEqual(['b', 'c', 'd']);
+  });
+
+  it('compares durations in minutes', () => {
+    expect(ids(evaluateSmartPlaylist(rules([rule('duration', 'gt', '8')]), library, NOW))).toEqual(['a']);
+  });
+
+  it('treats a missing play count or rating as zero', () => {
+    expect(ids(evaluateSmartPlaylist(rules([rule('rating', 'lt', '1'), rule('type', 'is', 'local')]), library, NOW))).toEqual(['a', 'b']);
+  });
+
+  it('ignores incomplete rules', () => {
+    expect(evaluateSmartPlaylist(rules([rule('year', 'gt', '')]), library, NOW)).toHaveLength(library.length);
+  });
+
+  it('sorts and applies the limit', () => {
+    const result = evaluateSmartPlaylist(rules([], { sortBy: 'playCount', sortDirection: 'desc', limit: 2 }), library, NOW);
+    expect(ids(result)).toEqual(['a', 'b']);
+  });
+});
+
+describe('sortTracks', () => {
+  it('keeps equal tracks in their original order', () => {
+    const tracks = [track('x', { year: 2000 }), track('y', { year: 1990 }), track('z', { year: 2000 })];
+    expect(ids(sortTracks(tracks, { field: 'year', direction: 'asc' }))).toEqual(['y', 'x', 'z']);
+  });
+
+  it('puts tracks without a value first when ascending', () => {
+    const tracks = [track('x', { year: 2000 }), track('y')];
+    expect(ids(sortTracks(tracks, { field: 'year', direction: 'asc' }))).toEqual(['y', 'x']);
+  });
+});
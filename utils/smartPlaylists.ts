@@ -0,0 +1,195 @@
+// Rule evaluation for smart playlists
+import { Track, SmartPlaylistRule, SmartPlaylistRules, SmartRuleField, SmartRuleOperator, SmartSortField, TrackSort } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const generateRuleId = () => Math.random().toString(36).substr(2, 9);
+
+export const SMART_RULE_FIELDS: { field: SmartRuleField; label: string; operators: SmartRuleOperator[] }[] = [
+  { field: 'artist', label: 'Artist', operators: ['contains', 'notContains', 'is', 'isNot'] },
+  { field: 'album', label: 'Album', operators: ['contains', 'notContains', 'is', 'isNot'] },
+  { field: 'genre', label: 'Genre', operators: ['contains', 'notContains', 'is', 'isNot'] },
+  { field: 'type', label: 'Source', operators: ['is', 'isNot'] },
+  { field: 'year', label: 'Year', operators: ['is', 'isNot', 'gt', 'lt'] },
+  { field: 'addedAt', label: 'Date Added', operators: ['inLast', 'notInLast'] },
+  { field: 'playCount', label: 'Play Count', operators: ['is', 'isNot', 'gt', 'lt'] },
+  { field: 'lastPlayedAt', label: 'Last Played', operators: ['inLast', 'notInLast', 'never'] },
+  { field: 'duration', label: 'Duration (min)', operators: ['gt', 'lt'] },
+  { field: 'rating', label: 'Rating', operators: ['is', 'isNot', 'gt', 'lt'] },
+];
+
+export const SMART_OPERATOR_LABELS: Record<SmartRuleOperator, string> = {
+  contains: 'contains',
+  notContains: 'does not contain',
+  is: 'is',
+  isNot: 'is not',
+  gt: 'is greater than',
+  lt: 'is less than',
+  inLast: 'in the last (days)',
+  notInLast: 'not in the last (days)',
+  never: 'never',
+};
+
+export const SMART_SORT_FIELDS: { field: SmartSortField; label: string }[] = [
+  { field: 'name', label: 'Title' },
+  { field: 'artist', label: 'Artist' },
+  { field: 'album', label: 'Album' },
+  { field: 'year', label: 'Year' },
+  { field: 'addedAt', label: 'Date Added' },
+  { field: 'playCount', label: 'Play Count' },
+  { field: 'lastPlayedAt', label: 'Last Played' },
+  { field: 'duration', label: 'Duration' },
+  { field: 'rating', label: 'Rating' },
+];
+
+export const createSmartRule = (field: SmartRuleField = 'artist'): SmartPlaylistRule => {
+  const definition = SMART_RULE_FIELDS.find(f => f.field === field)!;
+  return { id: generateRuleId(), field, operator: definition.operators[0], value: field === 'type' ? 'local' : '' };
+};
+
+export const createSmartPlaylistRules = (): SmartPlaylistRules => ({
+  match: 'all',
+  rules: [createSmartRule()],
+  sortBy: 'name',
+  sortDirection: 'asc'
+});
+
+/**
+ * Starting points for the lists people most often rebuild by hand
+ */
+export const getSmartPlaylistTemplates = (): { name: string; rules: SmartPlaylistRules }[] => [
+  {
+    name: 'Recently Added',
+    rules: {
+      match: 'all',
+      rules: [{ id: generateRuleId(), field: 'addedAt', operator: 'inLast', value: '14' }],
+      sortBy: 'addedAt',
+      sortDirection: 'desc',
+      limit: 100
+    }
+  },
+  {
+    name: 'Never Played',
+    rules: {
+      match: 'all',
+      rules: [{ id: generateRuleId(), field: 'lastPlayedAt', operator: 'never', value: '' }],
+      sortBy: 'addedAt',
+      sortDirection: 'desc'
+    }
+  },
+  {
+    name: 'Long Tracks',
+    rules: {
+      match: 'all',
+      rules: [{ id: generateRuleId(), field: 'duration', operator: 'gt', value: '8' }],
+      sortBy: 'duration',
+      sortDirection: 'desc'
+    }
+  },
+];
+
+const getTextValue = (track: Track, field: SmartRuleField): string => {
+  switch (field) {
+    case 'artist': {
+      const artist = [track.artist, track.albumArtist].filter(a => a && a !== 'Local File').join(' ');
+      return artist.toLowerCase();
+    }
+    case 'album': return (track.album || '').toLowerCase();
+    case 'genre': return (track.genre || '').toLowerCase();
+    case 'type': return track.type;
+    default: return '';
+  }
+};
+
+const getNumericValue = (track: Track, field: SmartRuleField | SmartSortField): number | undefined => {
+  switch (field) {
+    case 'year': return track.year;
+    case 'playCount': return track.playCount ?? 0;
+    case 'rating': return track.rating ?? 0;
+    case 'duration': return track.duration;
+    case 'addedAt': return track.addedAt;
+    case 'lastPlayedAt': return track.lastPlayedAt;
+    default: return undefined;
+  }
+};
+
+const matchesRule = (track: Track, rule: SmartPlaylistRule, now: number): boolean => {
+  const value = rule.value.trim().toLowerCase();
+
+  switch (rule.field) {
+    case 'artist':
+    case 'album':
+    case 'genre':
+    case 'type': {
+      const actual = getTextValue(track, rule.field);
+      switch (rule.operator) {
+        case 'contains': return actual.includes(value);
+        case 'notContains': return !actual.includes(value);
+        case 'is': return actual === value;
+        case 'isNot': return actual !== value;
+        default: return false;
+      }
+    }
+
+    case 'addedAt':
+    case 'lastPlayedAt': {
+      const timestamp = getNumericValue(track, rule.field);
+      if (rule.operator === 'never') return timestamp === undefined;
+      const days = parseFloat(value);
+      if (isNaN(days)) return true; // Incomplete rules don't filter anything out
+      const cutoff = now - days * DAY_MS;
+      if (rule.operator === 'inLast') return timestamp !== undefined && timestamp >= cutoff;
+      if (rule.operator === 'notInLast') return timestamp === undefined || timestamp < cutoff;
+      return false;
+    }
+
+    default: {
+      let target = parseFloat(value);
+      if (isNaN(target)) return true;
+      if (rule.field === 'duration') target *= 60;
+      const actual = getNumericValue(track, rule.field);
+      if (actual === undefined) return rule.operator === 'isNot';
+      switch (rule.operator) {
+        case 'is': return actual === target;
+        case 'isNot': return actual !== target;
+        case 'gt': return actual > target;
+        case 'lt': return actual < target;
+        default: return false;
+      }
+    }
+  }
+};
+
+const compareBy = (field: SmartSortField) => (a: Track, b: Track): number => {
+  if (field === 'name' || field === 'album') {
+    return (a[field] || '').localeCompare(b[field] || '', undefined, { sensitivity: 'base' });
+  }
+  if (field === 'artist') {
+    return getTextValue(a, 'artist').localeCompare(getTextValue(b, 'artist'));
+  }
+  return (getNumericValue(a, field) ?? -Infinity) - (getNumericValue(b, field) ?? -Infinity);
+};
+
+/**
+ * Resolve a smart playlist against the current library
+ */
+export const evaluateSmartPlaylist = (rules: SmartPlaylistRules, tracks: Track[], now = Date.now()): Track[] => {
+  const matching = tracks.filter(track => {
+    if (rules.rules.length === 0) return true;
+    return rules.match === 'all'
+      ? rules.rules.every(rule => matchesRule(track, rule, now))
+      : rules.rules.some(rule => matchesRule(track, rule, now));
+  });
+
+  const sorted = sortTracks(matching, { field: rules.sortBy, direction: rules.sortDirection });
+  return rules.limit && rules.limit > 0 ? sorted.slice(0, rules.limit) : sorted;
+};
+
+/**
+ * Sorted copy; equal tracks keep their order
+ */
+export const sortTracks = (tracks: Track[], sort: TrackSort): Track[] => {
+  const direction = sort.direction === 'desc' ? -1 : 1;
+  const compare = compareBy(sort.field);
+  return [...tracks].sort((a, b) => compare(a, b) * direction);
+};
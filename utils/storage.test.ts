@@ -0,0 +1,72 @@
+// @vitest-environment happy-dom
+import { describe, expect, it, vi } from 'vitest';
+import { Track } from '../types';
+import { planEviction, evictTracks, getStorageReport, registerTorrentStore, clearTorrents } from './storage';
+
+vi.mock('./persistence', () => ({ getWaveformSizes: async () => new Map([['gone', 40]]) }));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = 100 * DAY_MS;
+
+const audio = (bytes: number) => new File([new Uint8Array(bytes)], 'audio.mp3');
+
+const localTrack = (id: string, file: File, fields: Partial<Track> = {}): Track => ({ id, name: id, url: `blob:${id}`, type: 'local', file, ...fields });
+
+const TRACKS: Track[] = [
+  localTrack('recent', audio(100), { lastPlayedAt: NOW - DAY_MS }),
+  localTrack('old', audio(200), { lastPlayedAt: NOW - 50 * DAY_MS }),
+  localTrack('never', audio(300), { addedAt: NOW - 80 * DAY_MS }),
+  localTrack('linked', audio(1000), { lastPlayedAt: 0, link: { folderId: 'f', path: 'a.mp3', size: 1000, lastModified: 0, fingerprint: 'x' } }),
+  { id: 'radio', name: 'Radio', url: 'https://radio.example/live', type: 'stream' }
+];
+
+describe('planEviction', () => {
+  it('drops the least recently played audio first and stops once enough is freed', () => {
+    expect(planEviction(TRACKS, { kind: 'lru', targetBytes: 350 }, new Set(), NOW)).toEqual({ trackIds: ['never', 'old'], files: 2, bytes: 500 });
+    expect(planEviction(TRACKS, { kind: 'lru', targetBytes: 300 }, new Set(), NOW).trackIds).toEqual(['never']);
+  });
+
+  it('never picks linked or stream tracks', () => {
+    const plan = planEviction(TRACKS, { kind: 'lru', targetBytes: Infinity }, new Set(), NOW);
+    expect(plan).toEqual({ trackIds: ['never', 'old', 'recent'], files: 3, bytes: 600 });
+  });
+
+  it('picks everything not played within the given days', () => {
+    expect(planEviction(TRACKS, { kind: 'unplayed', days: 30 }, new Set(), NOW).trackIds).toEqual(['never', 'old']);
+  });
+
+  it('keeps a file while any track split from it is protected', () => {
+    const album = audio(500);
+    const tracks = [localTrack('side-a', album, { lastPlayedAt: 1 }), localTrack('side-b', album, { lastPlayedAt: 2 }), ...TRACKS];
+    const plan = planEviction(tracks, { kind: 'lru', targetBytes: 1 }, new Set(['side-b']), NOW);
+    expect(plan.trackIds).toEqual(['never']);
+    expect(planEviction(tracks, { kind: 'lru', targetBytes: 1 }, new Set(), NOW).trackIds).toEqual(['side-a', 'side-b']);
+  });
+});
+
+describe('evictTracks', () => {
+  it('removes the audio but keeps the rest of the track', () => {
+    const [recent, old] = evictTracks(TRACKS, new Set(['old']), NOW);
+    expect(recent).toBe(TRACKS[0]);
+    expect(old).toMatchObject({ id: 'old', url: '', evictedAt: NOW, lastPlayedAt: NOW - 50 * DAY_MS });
+    expect(old.file).toBeUndefined();
+  });
+});
+
+describe('getStorageReport', () => {
+  it('reports torrents held in memory without counting them as used storage', async () => {
+    const clear = vi.fn();
+    registerTorrentStore({ getSize: () => 5000, clear });
+    const report = await getStorageReport([TRACKS[0]], []);
+    registerTorrentStore(null);
+
+    expect(report.categories).toMatchObject({ audio: 100, waveforms: 40, torrents: 5000, other: 0 });
+    expect(report.usage).toBe(report.categories.audio + report.categories.waveforms + report.categories.library + report.categories.covers);
+    expect(report.orphanedWaveforms).toEqual(['gone']);
+
+    registerTorrentStore({ getSize: () => 0, clear });
+    clearTorrents();
+    expect(clear).toHaveBeenCalledOnce();
+    registerTorrentStore(null);
+  });
+});
@@ -0,0 +1,224 @@
+// Browser storage: usage by category, the quota, and freeing space by dropping stored audio
+import { Track, Playlist } from '../types';
+import { getWaveformSizes } from './persistence';
+
+export type StorageCategory = 'audio' | 'covers' | 'waveforms' | 'cache' | 'torrents' | 'library' | 'other';
+
+export const STORAGE_CATEGORY_LABELS: Record<StorageCategory, string> = {
+  audio: 'Audio files',
+  covers: 'Cover art',
+  waveforms: 'Waveforms',
+  cache: 'Cached responses',
+  torrents: 'Torrents (in memory)',
+  library: 'Library data',
+  other: 'Other'
+};
+
+export const QUOTA_WARNING_RATIO = 0.8;
+export const QUOTA_CRITICAL_RATIO = 0.95;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+export interface StorageReport extends StorageEstimate {
+  persisted: boolean;
+  categories: Record<StorageCategory, number>; // Torrents are held in memory and aren't part of usage
+  orphanedWaveforms: string[]; // Peaks of tracks no longer in the library
+}
+
+export type EvictionPolicy =
+  | { kind: 'lru'; targetBytes: number } // Least recently played first, until this much is freed
+  | { kind: 'unplayed'; days: number }; // Everything not played in this many days
+
+export interface EvictionPlan {
+  trackIds: string[];
+  files: number;
+  bytes: number;
+}
+
+// --- Quota ---
+
+/**
+ * Usage and quota for this origin
+ * @returns null where the Storage API isn't available
+ */
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  try {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  } catch (error) {
+    console.warn('[Storage] Could not estimate usage:', error);
+    return null;
+  }
+};
+
+export const isStoragePersisted = async (): Promise<boolean> => {
+  try {
+    return await navigator.storage?.persisted?.() ?? false;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Ask the browser not to clear our data under storage pressure. Chrome decides silently
+ * from site engagement; Firefox asks the user.
+ */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  try {
+    if (await isStoragePersisted()) return true;
+    return await navigator.storage?.persist?.() ?? false;
+  } catch (error) {
+    console.warn('[Storage] Could not request persistent storage:', error);
+    return false;
+  }
+};
+
+// --- Usage by Category ---
+
+// Audio copied into the library; linked tracks are read from their folder and take no space
+const getStoredFiles = (tracks: Track[]): Map<File, Track[]> => {
+  const files = new Map<File, Track[]>();
+  tracks
+    .filter(t => t.type === 'local' && t.file && !t.link)
+    .forEach(track => files.set(track.file!, [...(files.get(track.file!) ?? []), track]));
+  return files;
+};
+
+// Covers are stored as data URLs inside track and playlist records
+const getCoverSize = (tracks: Track[], playlists: Playlist[]): number => {
+  const covers = new Set([...tracks, ...playlists]
+    .map(item => item.coverArtUrl)
+    .filter((url): url is string => !!url?.startsWith('data:')));
+  return [...covers].reduce((sum, url) => sum + url.length, 0);
+};
+
+// Track and playlist records without their covers, plus the settings in localStorage
+const getLibraryDataSize = (tracks: Track[], playlists: Playlist[]): number => {
+  const records = [
+    ...tracks.map(({ file, coverArtUrl, ...metadata }) => metadata),
+    ...playlists.map(({ coverArtUrl, ...playlist }) => playlist)
+  ];
+  const settings = Object.keys(localStorage).reduce((sum, key) => sum + key.length + (localStorage.getItem(key)?.length ?? 0), 0);
+  return JSON.stringify(records).length + settings;
+};
+
+// Cache Storage holds responses cached for offline playback. Only the declared length is
+// counted: reading bodies would pull whole files into memory, so unsized entries land in "Other".
+const getCacheSize = async (): Promise<number> => {
+  if (typeof caches === 'undefined') return 0;
+  let total = 0;
+  for (const name of await caches.keys()) {
+    const cache = await caches.open(name);
+    for (const request of await cache.keys()) {
+      const response = await cache.match(request);
+      if (!response) continue;
+      const length = Number(response.headers.get('content-length'));
+      if (length > 0) total += length;
+    }
+  }
+  return total;
+};
+
+// WebTorrent keeps the pieces of streamed and seeded torrents in memory, not in origin storage.
+// The client registers here when it starts, so measuring never loads the torrent library.
+
+interface TorrentStore {
+  getSize: () => number;
+  clear: () => void;
+}
+
+let torrentStore: TorrentStore | null = null;
+
+export const registerTorrentStore = (store: TorrentStore | null): void => {
+  torrentStore = store;
+};
+
+export const clearTorrents = (): void => torrentStore?.clear();
+
+/**
+ * Where the space goes. Sizes are estimates: the browser stores records in its own format,
+ * and whatever the categories don't explain is reported as "Other".
+ */
+export const getStorageReport = async (tracks: Track[], playlists: Playlist[]): Promise<StorageReport> => {
+  const [estimate, persisted, waveforms, cache] = await Promise.all([
+    getStorageEstimate(),
+    isStoragePersisted(),
+    getWaveformSizes(),
+    getCacheSize().catch(error => {
+      console.warn('[Storage] Could not measure cached responses:', error);
+      return 0;
+    })
+  ]);
+
+  const trackIds = new Set(tracks.map(t => t.id));
+  const categories: Record<StorageCategory, number> = {
+    audio: [...getStoredFiles(tracks).keys()].reduce((sum, file) => sum + file.size, 0),
+    covers: getCoverSize(tracks, playlists),
+    waveforms: [...waveforms.values()].reduce((sum, size) => sum + size, 0),
+    cache,
+    torrents: torrentStore?.getSize() ?? 0,
+    library: getLibraryDataSize(tracks, playlists),
+    other: 0
+  };
+  const measured = Object.values(categories).reduce((sum, size) => sum + size, 0) - categories.torrents;
+  const usage = estimate?.usage ?? measured;
+  categories.other = Math.max(0, usage - measured);
+
+  return {
+    usage,
+    quota: estimate?.quota ?? 0,
+    persisted,
+    categories,
+    orphanedWaveforms: [...waveforms.keys()].filter(id => !trackIds.has(id))
+  };
+};
+
+// --- Eviction ---
+
+/**
+ * Pick stored audio to drop. Tracks split from one file go together, since the file is only
+ * freed once none of them need it; a file used by a protected track (e.g. the one playing) stays.
+ */
+export const planEviction = (tracks: Track[], policy: EvictionPolicy, protectedIds: Set<string>, now = Date.now()): EvictionPlan => {
+  const candidates = [...getStoredFiles(tracks).entries()]
+    .filter(([, group]) => !group.some(t => protectedIds.has(t.id)))
+    .map(([file, group]) => ({
+      file,
+      group,
+      lastUsed: Math.max(...group.map(t => t.lastPlayedAt ?? t.addedAt ?? 0))
+    }))
+    .sort((a, b) => a.lastUsed - b.lastUsed);
+
+  const plan: EvictionPlan = { trackIds: [], files: 0, bytes: 0 };
+  for (const { file, group, lastUsed } of candidates) {
+    if (policy.kind === 'lru' && plan.bytes >= policy.targetBytes) break;
+    if (policy.kind === 'unplayed' && lastUsed >= now - policy.days * DAY_MS) break;
+    plan.trackIds.push(...group.map(t => t.id));
+    plan.files++;
+    plan.bytes += file.size;
+  }
+  return plan;
+};
+
+/**
+ * Drop the audio of these tracks but keep everything else about them. Persisting the
+ * result deletes the stored files.
+ */
+export const evictTracks = (tracks: Track[], trackIds: Set<string>, now = Date.now()): Track[] => {
+  return tracks.map(track => {
+    if (!trackIds.has(track.id)) return track;
+    const { file, ...rest } = track;
+    return { ...rest, url: '', evictedAt: now };
+  });
+};
+
+export const clearCacheStorage = async (): Promise<void> => {
+  if (typeof caches === 'undefined') return;
+  await Promise.all((await caches.keys()).map(name => caches.delete(name)));
+};
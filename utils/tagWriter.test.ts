@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import { writeMetadata } from './tagWriter';
+import { readMetadata, readID3v2Tag } from './metadata';
+
+const encoder = new TextEncoder();
+
+// MPEG-1 Layer III, 128 kbps, 44.1 kHz
+const MPEG_HEADER = [0xff, 0xfb, 0x90, 0x00];
+const MPEG_FRAME_LENGTH = 417;
+
+const mpegFrames = (count: number): Uint8Array => {
+  const bytes = new Uint8Array(MPEG_FRAME_LENGTH * count);
+  for (let i = 0; i < count; i++) bytes.set(MPEG_HEADER, i * MPEG_FRAME_LENGTH);
+  return bytes;
+};
+
+const syncsafe = (n: number) => [(n >>> 21) & 0x7f, (n >>> 14) & 0x7f, (n >>> 7) & 0x7f, n & 0x7f];
+const be24 = (n: number) => [(n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+const be32 = (n: number) => [(n >>> 24) & 0xff, ...be24(n)];
+const latin1 = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+const id3Tag = (version: number, frames: number[][]): Uint8Array => {
+  const body = frames.flat();
+  return new Uint8Array([...encoder.encode('ID3'), version, 0, 0, ...syncsafe(body.length), ...body]);
+};
+
+const v23Frame = (id: string, data: number[]) => [...encoder.encode(id), ...be32(data.length), 0, 0, ...data];
+const v22Frame = (id: string, data: number[]) => [...encoder.encode(id), ...be24(data.length), ...data];
+
+const le32 = (n: number) => [n & 0xff, (n >>> 8) & 0xff, (n >>> 16) & 0xff, (n >>> 24) & 0xff];
+
+// One Ogg page holding whole packets (each under 255 bytes); checksums are left at 0
+const oggPage = (serial: number, sequence: number, headerType: number, granule: number, packets: number[][]) => [
+  ...encoder.encode('OggS'), 0, headerType,
+  ...le32(granule), 0, 0, 0, 0,
+  ...le32(serial), ...le32(sequence), 0, 0, 0, 0,
+  packets.length, ...packets.map(packet => packet.length), ...packets.flat()
+];
+
+const readOggSerials = async (file: Blob): Promise<number[]> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const serials: number[] = [];
+  let offset = 0;
+  while (offset + 27 <= bytes.length) {
+    serials.push(bytes[offset + 14]);
+    const segments = bytes.subarray(offset + 27, offset + 27 + bytes[offset + 26]);
+    offset += 27 + segments.length + segments.reduce((sum, s) => sum + s, 0);
+  }
+  return serials;
+};
+
+// MP4 atom: 32-bit size, four-character type, then the body
+const atom = (type: string, ...body: number[][]) => {
+  const bytes = body.flat();
+  return [...be32(bytes.length + 8), ...latin1(type), ...bytes];
+};
+
+const ilstData = (type: string, dataType: number, value: number[]) => atom(type, atom('data', be32(dataType), [0, 0, 0, 0], value));
+
+// Reads the first chunk offset from the stco atom of a single-track file
+const readFirstChunkOffset = async (file: Blob): Promise<number> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  for (let i = 0; i + 16 <= bytes.length; i++) {
+    if (String.fromCharCode(...bytes.subarray(i, i + 4)) === 'stco') {
+      return new DataView(bytes.buffer).getUint32(i + 12);
+    }
+  }
+  throw new Error('No stco atom');
+};
+
+const cover = { mimeType: 'image/png', type: 3, data: new Uint8Array([0x89, 0x50, 0x4e, 0x47, 1, 2, 3]) };
+
+describe('writeMetadata', () => {
+  it('round-trips edits through an ID3v2.4 tag on MP3', async () => {
+    const written = await writeMetadata(new Blob([mpegFrames(20)]), {
+      title: 'New Title',
+      artist: 'New Artist',
+      album: 'New Album',
+      year: 2024,
+      genre: 'Jazz',
+      trackNumber: 5,
+      picture: cover
+    });
+    const meta = await readMetadata(written);
+
+    expect(meta).toMatchObject({ title: 'New Title', artist: 'New Artist', album: 'New Album', year: 2024, genre: 'Jazz', trackNumber: 5 });
+    expect(meta.picture?.mimeType).toBe('image/png');
+    expect(Array.from(meta.picture!.data)).toEqual(Array.from(cover.data));
+    expect((await readID3v2Tag(written))?.majorVersion).toBe(4);
+  });
+
+  it('keeps the audio bytes after the tag untouched', async () => {
+    const audio = mpegFrames(5);
+    audio[10] = 42;
+    const written = await writeMetadata(new Blob([id3Tag(3, [v23Frame('TIT2', [0, ...latin1('Old')])]), audio]), { title: 'New' });
+    const audioStart = (await readID3v2Tag(written))!.audioStart;
+    const rest = new Uint8Array(await written.slice(audioStart).arrayBuffer());
+    expect(Array.from(rest)).toEqual(Array.from(audio));
+  });
+
+  it('carries over frames the editor does not own', async () => {
+    const comment = [0, ...latin1('eng'), 0, ...latin1('Kept comment')];
+    const source = new Blob([id3Tag(3, [v23Frame('TIT2', [0, ...latin1('Old')]), v23Frame('COMM', comment)]), mpegFrames(5)]);
+    const tag = await readID3v2Tag(await writeMetadata(source, { title: 'New' }));
+    expect(tag?.frames.map(frame => frame.id)).toContain('COMM');
+  });
+
+  it('converts ID3v2.2 frames instead of dropping them', async () => {
+    const pic = [0, ...latin1('PNG'), 3, 0, ...cover.data];
+    const comment = [0, ...latin1('eng'), 0, ...latin1('Kept comment')];
+    const source = new Blob([id3Tag(2, [v22Frame('TT2', [0, ...latin1('Old')]), v22Frame('COM', comment), v22Frame('PIC', pic)]), mpegFrames(5)]);
+    const written = await writeMetadata(source, { title: 'New' });
+    const meta = await readMetadata(written);
+
+    expect(meta.title).toBe('New');
+    expect(meta.picture?.mimeType).toBe('image/png');
+    expect((await readID3v2Tag(written))?.frames.map(frame => frame.id)).toEqual(expect.arrayContaining(['TIT2', 'COMM', 'APIC']));
+  });
+
+  it('removes the cover when the edit clears it', async () => {
+    const withCover = await writeMetadata(new Blob([mpegFrames(5)]), { title: 'T', picture: cover });
+    const meta = await readMetadata(await writeMetadata(withCover, { title: 'T', picture: null }));
+    expect(meta.picture).toBeUndefined();
+    expect(meta.title).toBe('T');
+  });
+
+  it('writes Vorbis comments into FLAC', async () => {
+    const flac = new Uint8Array([...encoder.encode('fLaC'), 0x80, ...be24(34), ...new Uint8Array(34), 0xff, 0xf8]);
+    const meta = await readMetadata(await writeMetadata(new Blob([flac]), { title: 'Flac Title', trackNumber: 2, picture: cover }));
+    expect(meta).toMatchObject({ title: 'Flac Title', trackNumber: 2 });
+    expect(meta.picture?.mimeType).toBe('image/png');
+  });
+
+  it('rewrites Opus tags and keeps pages of other multiplexed streams in order', async () => {
+    const opusHead = [...encoder.encode('OpusHead'), 1, 2, 0x38, 0x01, ...le32(48000), 0, 0, 0];
+    const opusTags = [...encoder.encode('OpusTags'), ...le32(4), ...encoder.encode('test'), ...le32(1), ...le32(9), ...encoder.encode('TITLE=Old')];
+    const ogg = new Uint8Array([
+      ...oggPage(1, 0, 0x02, 0, [opusHead]),
+      ...oggPage(2, 0, 0x02, 0, [[...encoder.encode('other stream')]]),
+      ...oggPage(1, 1, 0x00, 0, [opusTags]),
+      ...oggPage(2, 1, 0x00, 100, [[7, 7, 7]]),
+      ...oggPage(1, 2, 0x04, 48000, [[1, 2, 3]])
+    ]);
+    const written = await writeMetadata(new Blob([ogg]), { title: 'New Title', artist: 'Artist' });
+
+    expect(await readMetadata(written)).toMatchObject({ title: 'New Title', artist: 'Artist' });
+    expect(await readOggSerials(written)).toEqual([1, 2, 1, 2, 1]);
+  });
+
+  it('rewrites MP4 items, keeps the track total and shifts chunk offsets when moov comes first', async () => {
+    const samples = [9, 8, 7, 6];
+    const ilst = atom('ilst', ilstData('©nam', 1, latin1('Old')), ilstData('trkn', 0, [0, 0, 0, 3, 0, 12, 0, 0]));
+    const hdlr = atom('hdlr', [0, 0, 0, 0, 0, 0, 0, 0], latin1('mdirappl'), new Array(9).fill(0));
+    const udta = atom('udta', atom('meta', [0, 0, 0, 0], hdlr, ilst));
+    const ftyp = atom('ftyp', latin1('M4A '), be32(0));
+    // The single chunk offset is patched in once the moov size is known
+    const stbl = (offset: number) => atom('stbl', atom('stco', [0, 0, 0, 0], be32(1), be32(offset)));
+    const moov = (offset: number) => atom('moov', atom('trak', atom('mdia', atom('minf', stbl(offset)))), udta);
+    const mdatOffset = ftyp.length + moov(0).length + 8;
+    const mp4 = new Uint8Array([...ftyp, ...moov(mdatOffset), ...atom('mdat', samples)]);
+
+    const written = await writeMetadata(new Blob([mp4]), { title: 'A much longer new title', trackNumber: 5 });
+    expect(await readMetadata(written)).toMatchObject({ title: 'A much longer new title', trackNumber: 5, trackTotal: 12 });
+
+    const offset = await readFirstChunkOffset(written);
+    expect(offset).toBeGreaterThan(mdatOffset);
+    expect(Array.from(new Uint8Array(await written.slice(offset, offset + samples.length).arrayBuffer()))).toEqual(samples);
+  });
+
+  it('rejects formats that cannot carry an ID3 tag', async () => {
+    const wav = new Uint8Array(4096);
+    wav.set(encoder.encode('RIFF'));
+    wav.set(encoder.encode('WAVE'), 8);
+    await expect(writeMetadata(new Blob([wav]), { title: 'x' })).rejects.toThrow('Unsupported file format');
+  });
+});
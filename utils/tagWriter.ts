@@ -0,0 +1,567 @@
+// Tag writing for local audio files (ID3v2.4, FLAC/Ogg Vorbis comments, MP4 ilst)
+import {
+  EmbeddedPicture,
+  readMetadata,
+  readID3v2Tag,
+  ID3v2Frame,
+  readVorbisComments,
+  readBytes,
+  findMpegFrame,
+  ascii,
+  uint32BE,
+  uint32LE,
+  uint24BE,
+  concatBytes
+} from './metadata';
+
+export interface TagEdits {
+  title?: string;
+  artist?: string;
+  album?: string;
+  year?: number;
+  genre?: string;
+  trackNumber?: number;
+  picture?: EmbeddedPicture | null; // undefined keeps the existing cover, null removes it
+}
+
+const encoder = new TextEncoder();
+
+const be32 = (n: number) => [(n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+const le32 = (n: number) => [n & 0xff, (n >>> 8) & 0xff, (n >>> 16) & 0xff, (n >>> 24) & 0xff];
+const syncsafe = (n: number) => [(n >>> 21) & 0x7f, (n >>> 14) & 0x7f, (n >>> 7) & 0x7f, n & 0x7f];
+
+const hasText = (value?: string): value is string => !!value && value.trim().length > 0;
+
+// --- ID3v2 ---
+
+// Frames owned by the editor; everything else in the old tag is carried over
+const ID3_EDITED_FRAMES = ['TIT2', 'TPE1', 'TALB', 'TDRC', 'TYER', 'TDAT', 'TIME', 'TRDA', 'TCON', 'TRCK'];
+
+const id3Frame = (id: string, data: Uint8Array): Uint8Array => {
+  return concatBytes([new Uint8Array([...encoder.encode(id), ...syncsafe(data.length), 0, 0]), data]);
+};
+
+const id3TextFrame = (id: string, value: string): Uint8Array => {
+  return id3Frame(id, new Uint8Array([3, ...encoder.encode(value)])); // 3 = UTF-8
+};
+
+// ID3v2.2 frames that have a v2.4 equivalent with the same payload layout
+const ID3V22_FRAME_IDS: Record<string, string> = {
+  TT1: 'TIT1', TT2: 'TIT2', TT3: 'TIT3', TP1: 'TPE1', TP2: 'TPE2', TP3: 'TPE3', TP4: 'TPE4',
+  TAL: 'TALB', TCO: 'TCON', TRK: 'TRCK', TPA: 'TPOS', TYE: 'TDRC', TCM: 'TCOM', TXT: 'TEXT',
+  TLA: 'TLAN', TRC: 'TSRC', TEN: 'TENC', TSS: 'TSSE', TBP: 'TBPM', TCR: 'TCOP', TPB: 'TPUB',
+  TOT: 'TOAL', TOA: 'TOPE', TOL: 'TOLY', TOF: 'TOFN', TLE: 'TLEN', TKE: 'TKEY', TMT: 'TMED',
+  TCP: 'TCMP', TXX: 'TXXX', COM: 'COMM', ULT: 'USLT', SLT: 'SYLT', UFI: 'UFID', CNT: 'PCNT',
+  POP: 'POPM', GEO: 'GEOB', WXX: 'WXXX', WAR: 'WOAR', WAF: 'WOAF', WAS: 'WOAS', WCM: 'WCOM',
+  WCP: 'WCOP', WPB: 'WPUB'
+};
+
+/**
+ * Upgrade a v2.2 frame for a v2.4 tag. PIC stores a 3-character image format where APIC
+ * has a MIME type; everything else only needs a new id. Frames with no equivalent are dropped.
+ */
+const convertID3v22Frame = (frame: ID3v2Frame): ID3v2Frame | null => {
+  if (frame.id === 'PIC') {
+    if (frame.data.length < 5) return null;
+    const format = ascii(frame.data, 1, 3).toUpperCase();
+    const mimeType = format === 'PNG' ? 'image/png' : format === '-->' ? '-->' : 'image/jpeg';
+    return {
+      id: 'APIC',
+      data: concatBytes([new Uint8Array([frame.data[0], ...encoder.encode(mimeType), 0]), frame.data.subarray(4)])
+    };
+  }
+  const id = ID3V22_FRAME_IDS[frame.id];
+  return id ? { id, data: frame.data } : null;
+};
+
+const writeID3 = async (file: Blob, edits: TagEdits, trackTotal?: number): Promise<Blob> => {
+  const existing = await readID3v2Tag(file);
+  const audioStart = existing?.audioStart ?? 0;
+  const frames: Uint8Array[] = [];
+
+  if (hasText(edits.title)) frames.push(id3TextFrame('TIT2', edits.title));
+  if (hasText(edits.artist)) frames.push(id3TextFrame('TPE1', edits.artist));
+  if (hasText(edits.album)) frames.push(id3TextFrame('TALB', edits.album));
+  if (edits.year) frames.push(id3TextFrame('TDRC', String(edits.year)));
+  if (hasText(edits.genre)) frames.push(id3TextFrame('TCON', edits.genre));
+  if (edits.trackNumber) {
+    frames.push(id3TextFrame('TRCK', trackTotal ? `${edits.trackNumber}/${trackTotal}` : String(edits.trackNumber)));
+  }
+  if (edits.picture) {
+    const { mimeType, data } = edits.picture;
+    frames.push(id3Frame('APIC', concatBytes([
+      new Uint8Array([0, ...encoder.encode(mimeType), 0, 3, 0]), // Latin-1, mime, front cover, empty description
+      data
+    ])));
+  }
+
+  // v2.3 and v2.4 frames share payload layout, so they can be copied into a v2.4 tag; v2.2 frames are converted
+  if (existing && existing.majorVersion >= 2 && existing.majorVersion <= 4) {
+    const carried = existing.majorVersion === 2
+      ? existing.frames.map(convertID3v22Frame).filter((frame): frame is ID3v2Frame => frame !== null)
+      : existing.frames;
+    for (const frame of carried) {
+      if (ID3_EDITED_FRAMES.includes(frame.id)) continue;
+      if (frame.id === 'APIC' && edits.picture !== undefined) continue;
+      frames.push(id3Frame(frame.id, frame.data));
+    }
+  }
+
+  const padding = new Uint8Array(1024);
+  const body = concatBytes([...frames, padding]);
+  const header = new Uint8Array([...encoder.encode('ID3'), 4, 0, 0, ...syncsafe(body.length)]);
+
+  // Drop any trailing ID3v1 tag; the new ID3v2 tag supersedes it
+  let audioEnd = file.size;
+  if (file.size >= 128 && ascii(await readBytes(file, file.size - 128, 3), 0, 3) === 'TAG') {
+    audioEnd -= 128;
+  }
+
+  return new Blob([header, body, file.slice(audioStart, audioEnd)], { type: file.type });
+};
+
+// --- Vorbis comments ---
+
+const VORBIS_EDITED_KEYS = ['TITLE', 'ARTIST', 'ALBUM', 'DATE', 'YEAR', 'GENRE', 'TRACKNUMBER'];
+
+const buildFlacPicture = (picture: EmbeddedPicture): Uint8Array => {
+  const mime = encoder.encode(picture.mimeType);
+  return concatBytes([
+    new Uint8Array([...be32(3), ...be32(mime.length), ...mime, ...be32(0), ...be32(0), ...be32(0), ...be32(0), ...be32(0), ...be32(picture.data.length)]),
+    picture.data
+  ]);
+};
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Merge edits into an existing comment list.
+ * `embedPicture` stores the cover as METADATA_BLOCK_PICTURE (Ogg has no picture blocks).
+ */
+const mergeVorbisComments = (comments: string[], edits: TagEdits, embedPicture: boolean): string[] => {
+  const kept = comments.filter(comment => {
+    const key = comment.substring(0, comment.indexOf('=')).toUpperCase();
+    if (VORBIS_EDITED_KEYS.includes(key)) return false;
+    if (key === 'METADATA_BLOCK_PICTURE' && edits.picture !== undefined) return false;
+    return true;
+  });
+
+  const next: string[] = [];
+  if (hasText(edits.title)) next.push(`TITLE=${edits.title}`);
+  if (hasText(edits.artist)) next.push(`ARTIST=${edits.artist}`);
+  if (hasText(edits.album)) next.push(`ALBUM=${edits.album}`);
+  if (edits.year) next.push(`DATE=${edits.year}`);
+  if (hasText(edits.genre)) next.push(`GENRE=${edits.genre}`);
+  if (edits.trackNumber) next.push(`TRACKNUMBER=${edits.trackNumber}`);
+  if (embedPicture && edits.picture) {
+    next.push(`METADATA_BLOCK_PICTURE=${toBase64(buildFlacPicture(edits.picture))}`);
+  }
+
+  return [...next, ...kept];
+};
+
+const buildVorbisComments = (vendor: string, comments: string[]): Uint8Array => {
+  const vendorBytes = encoder.encode(vendor);
+  const parts: Uint8Array[] = [new Uint8Array([...le32(vendorBytes.length), ...vendorBytes, ...le32(comments.length)])];
+  for (const comment of comments) {
+    const bytes = encoder.encode(comment);
+    parts.push(new Uint8Array(le32(bytes.length)), bytes);
+  }
+  return concatBytes(parts);
+};
+
+// --- FLAC ---
+
+const writeFlac = async (file: Blob, edits: TagEdits): Promise<Blob> => {
+  // A leading ID3 tag on FLAC is non-standard; it gets dropped on rewrite
+  const start = (await readID3v2Tag(file))?.audioStart ?? 0;
+  const blocks: { type: number; data: Uint8Array }[] = [];
+  let offset = start + 4;
+  let isLast = false;
+
+  while (!isLast && offset + 4 <= file.size) {
+    const header = await readBytes(file, offset, 4);
+    isLast = (header[0] & 0x80) !== 0;
+    const type = header[0] & 0x7f;
+    const length = uint24BE(header, 1);
+    blocks.push({ type, data: await readBytes(file, offset + 4, length) });
+    offset += 4 + length;
+  }
+
+  const existingComments = blocks.find(b => b.type === 4);
+  const { vendor, comments } = existingComments
+    ? readVorbisComments(existingComments.data)
+    : { vendor: 'penko-tune', comments: [] };
+
+  // Drop the blocks being replaced along with padding (re-added below)
+  const kept = blocks.filter(b => b.type !== 1 && b.type !== 4 && !(b.type === 6 && edits.picture !== undefined));
+  const streamInfoIndex = kept.findIndex(b => b.type === 0);
+  kept.splice(streamInfoIndex + 1, 0, { type: 4, data: buildVorbisComments(vendor, mergeVorbisComments(comments, edits, false)) });
+  if (edits.picture) {
+    kept.push({ type: 6, data: buildFlacPicture(edits.picture) });
+  }
+  kept.push({ type: 1, data: new Uint8Array(4096) });
+
+  const parts: BlobPart[] = [encoder.encode('fLaC')];
+  kept.forEach((block, index) => {
+    const lastFlag = index === kept.length - 1 ? 0x80 : 0;
+    const length = block.data.length;
+    parts.push(new Uint8Array([lastFlag | block.type, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff]), block.data);
+  });
+  parts.push(file.slice(offset));
+
+  return new Blob(parts, { type: file.type });
+};
+
+// --- Ogg (Vorbis, Opus) ---
+
+const OGG_CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let r = i << 24;
+    for (let j = 0; j < 8; j++) {
+      r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+    }
+    table[i] = r >>> 0;
+  }
+  return table;
+})();
+
+const oggCrc = (page: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < page.length; i++) {
+    crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) & 0xff) ^ page[i]]) >>> 0;
+  }
+  return crc;
+};
+
+interface OggPage {
+  headerType: number;
+  granule: Uint8Array; // Raw 8 bytes
+  serial: number;
+  sequence: number;
+  segments: Uint8Array;
+  body: Uint8Array;
+}
+
+const buildOggPage = (page: OggPage, sequence: number): Uint8Array => {
+  const out = new Uint8Array(27 + page.segments.length + page.body.length);
+  out.set(encoder.encode('OggS'), 0);
+  out[5] = page.headerType;
+  out.set(page.granule, 6);
+  out.set(le32(page.serial), 14);
+  out.set(le32(sequence), 18);
+  out[26] = page.segments.length;
+  out.set(page.segments, 27);
+  out.set(page.body, 27 + page.segments.length);
+  out.set(le32(oggCrc(out)), 22);
+  return out;
+};
+
+// Lay header packets out into pages, each packet ending with a lacing value < 255
+const paginateOggPackets = (packets: Uint8Array[], serial: number): OggPage[] => {
+  const pages: OggPage[] = [];
+  let segments: number[] = [];
+  let chunks: Uint8Array[] = [];
+  let continued = false;
+  let packetEndedOnPage = false;
+
+  const flush = (nextContinued: boolean) => {
+    pages.push({
+      headerType: continued ? 0x01 : 0,
+      // Pages where no packet completes carry a granule position of -1
+      granule: new Uint8Array(8).fill(packetEndedOnPage ? 0 : 0xff),
+      serial,
+      sequence: 0,
+      segments: new Uint8Array(segments),
+      body: concatBytes(chunks)
+    });
+    segments = [];
+    chunks = [];
+    continued = nextContinued;
+    packetEndedOnPage = false;
+  };
+
+  for (const packet of packets) {
+    let offset = 0;
+    while (true) {
+      const size = Math.min(255, packet.length - offset);
+      segments.push(size);
+      chunks.push(packet.subarray(offset, offset + size));
+      offset += size;
+      const done = size < 255;
+      if (done) packetEndedOnPage = true;
+      if (segments.length === 255) flush(!done);
+      if (done) break;
+    }
+  }
+  if (segments.length > 0) flush(false);
+
+  return pages;
+};
+
+const writeOgg = async (file: Blob, edits: TagEdits): Promise<Blob> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const pages: OggPage[] = [];
+  let offset = 0;
+
+  while (offset + 27 <= bytes.length && ascii(bytes, offset, 4) === 'OggS') {
+    const segmentCount = bytes[offset + 26];
+    const segments = bytes.subarray(offset + 27, offset + 27 + segmentCount);
+    const bodyStart = offset + 27 + segmentCount;
+    const bodyLength = segments.reduce((sum, s) => sum + s, 0);
+    pages.push({
+      headerType: bytes[offset + 5],
+      granule: bytes.subarray(offset + 6, offset + 14),
+      serial: uint32LE(bytes, offset + 14),
+      sequence: uint32LE(bytes, offset + 18),
+      segments,
+      body: bytes.subarray(bodyStart, bodyStart + bodyLength)
+    });
+    offset = bodyStart + bodyLength;
+  }
+  if (pages.length === 0) throw new Error('Not an Ogg file');
+
+  const serial = pages[0].serial;
+
+  // Collect header packets and the page where the last one ends
+  const firstBody = pages[0].body;
+  const isVorbis = ascii(firstBody, 1, 6) === 'vorbis';
+  const isOpus = ascii(firstBody, 0, 8) === 'OpusHead';
+  if (!isVorbis && !isOpus) throw new Error('Unsupported Ogg codec');
+
+  const headerCount = isVorbis ? 3 : 2;
+  const packets: Uint8Array[] = [];
+  let pending: Uint8Array[] = [];
+  let pageIndex = 0;
+
+  for (; pageIndex < pages.length && packets.length < headerCount; pageIndex++) {
+    const page = pages[pageIndex];
+    if (page.serial !== serial) continue; // Other multiplexed streams are copied through below
+    let segmentOffset = 0;
+    let packetStart = 0;
+    for (const lacing of page.segments) {
+      segmentOffset += lacing;
+      if (lacing < 255) {
+        pending.push(page.body.subarray(packetStart, segmentOffset));
+        packets.push(concatBytes(pending));
+        pending = [];
+        packetStart = segmentOffset;
+      }
+    }
+    if (packetStart < segmentOffset) pending.push(page.body.subarray(packetStart, segmentOffset));
+  }
+  if (packets.length < headerCount) throw new Error('Truncated Ogg headers');
+
+  const commentPrefix = isVorbis ? 7 : 8;
+  const { vendor, comments } = readVorbisComments(packets[1].subarray(commentPrefix));
+  const newComments = buildVorbisComments(vendor, mergeVorbisComments(comments, edits, true));
+  packets[1] = concatBytes([
+    packets[1].subarray(0, commentPrefix),
+    newComments,
+    isVorbis ? new Uint8Array([1]) : new Uint8Array(0) // Vorbis framing bit
+  ]);
+
+  // Our comment and setup pages are replaced where the first of them was; pages of
+  // other streams in between keep their place
+  const headerPages = paginateOggPackets(packets.slice(1), serial);
+  const outputPages: OggPage[] = [{ ...pages[0], headerType: 0x02 }];
+  pages.slice(1, pageIndex).forEach(page => {
+    if (page.serial !== serial) outputPages.push(page);
+    else outputPages.push(...headerPages.splice(0));
+  });
+  outputPages.push(...headerPages, ...pages.slice(pageIndex));
+
+  // Renumber our stream's pages; other multiplexed streams keep their numbering
+  let sequence = 0;
+  const parts = outputPages.map(page => buildOggPage(page, page.serial === serial ? sequence++ : page.sequence));
+
+  return new Blob([...parts, bytes.subarray(offset)], { type: file.type });
+};
+
+// --- MP4 ---
+
+interface Mp4Node {
+  type: string;
+  prefix?: Uint8Array; // Version/flags bytes before the children of a full-atom container
+  children?: Mp4Node[];
+  payload?: Uint8Array;
+}
+
+const MP4_CONTAINERS = ['moov', 'trak', 'mdia', 'minf', 'stbl', 'udta', 'meta', 'ilst', 'edts', 'dinf'];
+
+const parseMp4Nodes = (data: Uint8Array, start: number, end: number): Mp4Node[] => {
+  const nodes: Mp4Node[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = uint32BE(data, offset);
+    const type = ascii(data, offset + 4, 4);
+    let headerSize = 8;
+    if (size === 1) {
+      size = uint32BE(data, offset + 8) * 2 ** 32 + uint32BE(data, offset + 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) break;
+
+    const payloadStart = offset + headerSize;
+    const payloadEnd = offset + size;
+    if (MP4_CONTAINERS.includes(type)) {
+      // 'meta' is a full atom in ISO files, but not in some QuickTime files
+      const hasPrefix = type === 'meta' && ascii(data, payloadStart + 4, 4) !== 'hdlr';
+      const childStart = hasPrefix ? payloadStart + 4 : payloadStart;
+      nodes.push({
+        type,
+        prefix: hasPrefix ? data.slice(payloadStart, childStart) : undefined,
+        children: parseMp4Nodes(data, childStart, payloadEnd)
+      });
+    } else {
+      nodes.push({ type, payload: data.slice(payloadStart, payloadEnd) });
+    }
+    offset = payloadEnd;
+  }
+  return nodes;
+};
+
+const serializeMp4Node = (node: Mp4Node): Uint8Array => {
+  const body = node.children
+    ? concatBytes([node.prefix ?? new Uint8Array(0), ...node.children.map(serializeMp4Node)])
+    : node.payload ?? new Uint8Array(0);
+  const typeBytes = Uint8Array.from(node.type, c => c.charCodeAt(0));
+  return concatBytes([new Uint8Array(be32(body.length + 8)), typeBytes, body]);
+};
+
+const findMp4Child = (node: Mp4Node, type: string): Mp4Node | undefined => node.children?.find(c => c.type === type);
+
+const ilstItem = (type: string, dataType: number, value: Uint8Array): Mp4Node => ({
+  type,
+  children: [{ type: 'data', payload: concatBytes([new Uint8Array([...be32(dataType), 0, 0, 0, 0]), value]) }]
+});
+
+const MP4_EDITED_ITEMS = ['©nam', '©ART', '©alb', '©day', '©gen', 'gnre', 'trkn'];
+
+// Chunk offsets point into 'mdat'; shift them when 'moov' sits before it and changes size
+const shiftChunkOffsets = (node: Mp4Node, delta: number) => {
+  if (node.type === 'stco' && node.payload) {
+    const view = new DataView(node.payload.buffer, node.payload.byteOffset, node.payload.byteLength);
+    const count = view.getUint32(4);
+    for (let i = 0; i < count; i++) view.setUint32(8 + i * 4, view.getUint32(8 + i * 4) + delta);
+  } else if (node.type === 'co64' && node.payload) {
+    const view = new DataView(node.payload.buffer, node.payload.byteOffset, node.payload.byteLength);
+    const count = view.getUint32(4);
+    for (let i = 0; i < count; i++) view.setBigUint64(8 + i * 8, view.getBigUint64(8 + i * 8) + BigInt(delta));
+  }
+  node.children?.forEach(child => shiftChunkOffsets(child, delta));
+};
+
+const writeMp4 = async (file: Blob, edits: TagEdits): Promise<Blob> => {
+  // Locate the top-level 'moov' and 'mdat' atoms
+  let offset = 0;
+  let moovStart = -1;
+  let moovEnd = -1;
+  let mdatStart = -1;
+  while (offset + 8 <= file.size) {
+    const header = await readBytes(file, offset, 16);
+    let size = uint32BE(header, 0);
+    const type = ascii(header, 4, 4);
+    if (size === 1) size = uint32BE(header, 8) * 2 ** 32 + uint32BE(header, 12);
+    else if (size === 0) size = file.size - offset;
+    if (size < 8) break;
+    if (type === 'moov') {
+      moovStart = offset;
+      moovEnd = offset + size;
+    } else if (type === 'mdat' && mdatStart === -1) {
+      mdatStart = offset;
+    }
+    offset += size;
+  }
+  if (moovStart === -1) throw new Error('No moov atom found');
+
+  const moovBytes = await readBytes(file, moovStart, moovEnd - moovStart);
+  const [moov] = parseMp4Nodes(moovBytes, 0, moovBytes.length);
+
+  // Find or create moov/udta/meta/ilst
+  let udta = findMp4Child(moov, 'udta');
+  if (!udta) {
+    udta = { type: 'udta', children: [] };
+    moov.children!.push(udta);
+  }
+  let meta = findMp4Child(udta, 'meta');
+  if (!meta) {
+    const hdlr = new Uint8Array([0, 0, 0, 0, 0, 0, 0, 0, ...encoder.encode('mdirappl'), 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+    meta = { type: 'meta', prefix: new Uint8Array(4), children: [{ type: 'hdlr', payload: hdlr }] };
+    udta.children!.push(meta);
+  }
+  let ilst = findMp4Child(meta, 'ilst');
+  if (!ilst) {
+    ilst = { type: 'ilst', children: [] };
+    meta.children!.push(ilst);
+  }
+
+  // Keep the track total from the existing trkn item (items are leaves, so parse its 'data' atom here)
+  const oldTrkn = findMp4Child(ilst, 'trkn')?.payload;
+  const oldTrknData = oldTrkn && parseMp4Nodes(oldTrkn, 0, oldTrkn.length).find(node => node.type === 'data')?.payload;
+  const trackTotal = oldTrknData && oldTrknData.length >= 14 ? (oldTrknData[12] << 8) | oldTrknData[13] : 0;
+
+  const items = ilst.children!.filter(item => {
+    if (MP4_EDITED_ITEMS.includes(item.type)) return false;
+    if (item.type === 'covr' && edits.picture !== undefined) return false;
+    return true;
+  });
+
+  const text = (value: string) => encoder.encode(value);
+  if (hasText(edits.title)) items.push(ilstItem('©nam', 1, text(edits.title)));
+  if (hasText(edits.artist)) items.push(ilstItem('©ART', 1, text(edits.artist)));
+  if (hasText(edits.album)) items.push(ilstItem('©alb', 1, text(edits.album)));
+  if (edits.year) items.push(ilstItem('©day', 1, text(String(edits.year))));
+  if (hasText(edits.genre)) items.push(ilstItem('©gen', 1, text(edits.genre)));
+  if (edits.trackNumber) {
+    const n = edits.trackNumber;
+    items.push(ilstItem('trkn', 0, new Uint8Array([0, 0, (n >> 8) & 0xff, n & 0xff, (trackTotal >> 8) & 0xff, trackTotal & 0xff, 0, 0])));
+  }
+  if (edits.picture) {
+    items.push(ilstItem('covr', edits.picture.mimeType === 'image/png' ? 14 : 13, edits.picture.data));
+  }
+  ilst.children = items;
+
+  let newMoov = serializeMp4Node(moov);
+  const delta = newMoov.length - moovBytes.length;
+  if (delta !== 0 && mdatStart > moovStart) {
+    shiftChunkOffsets(moov, delta);
+    newMoov = serializeMp4Node(moov);
+  }
+
+  return new Blob([file.slice(0, moovStart), newMoov, file.slice(moovEnd)], { type: file.type });
+};
+
+// --- Public API ---
+
+/**
+ * Write tag edits into a copy of the audio file.
+ * Fields the editor doesn't own (lyrics, ReplayGain, etc.) are preserved.
+ */
+export const writeMetadata = async (file: Blob, edits: TagEdits): Promise<Blob> => {
+  const head = await readBytes(file, 0, 12);
+  const magic = ascii(head, 0, 4);
+
+  if (magic === 'OggS') return writeOgg(file, edits);
+  if (ascii(head, 4, 4) === 'ftyp') return writeMp4(file, edits);
+
+  const id3 = await readID3v2Tag(file);
+  const afterTag = await readBytes(file, id3?.audioStart ?? 0, 64 * 1024);
+  if (ascii(afterTag, 0, 4) === 'fLaC') return writeFlac(file, edits);
+
+  // An ID3 tag in front is only safe for MPEG audio; WAV and most other formats must start at byte 0
+  if (!id3 && findMpegFrame(afterTag) === -1) throw new Error('Unsupported file format for tag writing');
+
+  const current = await readMetadata(file);
+  return writeID3(file, edits, current.trackTotal);
+};
+
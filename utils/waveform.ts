@@ -0,0 +1,72 @@
+// Waveform overview: per-bucket peaks of a decoded file
+import { Track } from '../types';
+import { loadWaveform, saveWaveform } from './persistence';
+import { CueRange } from './cue';
+
+// Peaks don't need full bandwidth, and a low rate keeps the decoded buffer small
+const DECODE_SAMPLE_RATE = 8000;
+export const WAVEFORM_BUCKETS = 600;
+
+const peakCache = new Map<string, Promise<Float32Array | null>>();
+
+/**
+ * Reduce channel data to peaks in a worker; the channel copies are transferred to it
+ */
+const reduceInWorker = (channels: Float32Array[], buckets: number): Promise<Float32Array> => {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./waveformWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<Float32Array>) => {
+      worker.terminate();
+      resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Waveform worker failed'));
+    };
+    worker.postMessage({ channels, buckets }, channels.map(data => data.buffer));
+  });
+};
+
+/**
+ * Decode a file and reduce it to `buckets` absolute peaks (0-1) across all channels
+ * @param range Part of the file to cover, in seconds (a CUE track)
+ * @returns null if the file can't be decoded
+ */
+export const computeWaveformPeaks = async (file: Blob, buckets = WAVEFORM_BUCKETS, range?: CueRange): Promise<Float32Array | null> => {
+  try {
+    const ctx = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE);
+    const buffer = await ctx.decodeAudioData(await file.arrayBuffer());
+    const channels: Float32Array[] = [];
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+      const data = buffer.getChannelData(c);
+      channels.push(range
+        ? data.slice(Math.floor(range.start * DECODE_SAMPLE_RATE), range.end !== undefined ? Math.ceil(range.end * DECODE_SAMPLE_RATE) : undefined)
+        : data.slice());
+    }
+    return await reduceInWorker(channels, buckets);
+  } catch (error) {
+    console.warn('[Waveform] Could not decode file:', error);
+    return null;
+  }
+};
+
+/**
+ * Peaks for a local track: from memory, then the IndexedDB cache, then decoded.
+ * Streams have no waveform.
+ */
+export const getTrackWaveform = (track: Track): Promise<Float32Array | null> => {
+  if (track.type !== 'local' || !track.file) return Promise.resolve(null);
+  let peaks = peakCache.get(track.id);
+  if (!peaks) {
+    const file = track.file;
+    peaks = loadWaveform(track.id).then(async (stored) => {
+      if (stored) return stored;
+      const range = track.cueStart !== undefined ? { start: track.cueStart, end: track.cueEnd } : undefined;
+      const computed = await computeWaveformPeaks(file, WAVEFORM_BUCKETS, range);
+      if (computed) await saveWaveform(track.id, computed);
+      return computed;
+    });
+    peakCache.set(track.id, peaks);
+  }
+  return peaks;
+};
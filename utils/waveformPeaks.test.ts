@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { reducePeaks } from './waveformPeaks';
+
+describe('reducePeaks', () => {
+  it('keeps the largest absolute sample of each bucket', () => {
+    const samples = Float32Array.from([0.1, -0.5, 0.25, 0.2, -0.75, 0.5, 0, 1]);
+    expect(Array.from(reducePeaks([samples], 4))).toEqual([0.5, 0.25, 0.75, 1]);
+  });
+
+  it('takes the loudest channel at each point', () => {
+    const left = Float32Array.from([0.5, 0, 0, 0]);
+    const right = Float32Array.from([0, 0, 0, -0.25]);
+    expect(Array.from(reducePeaks([left, right], 2))).toEqual([0.5, 0.25]);
+  });
+
+  it('spreads samples that do not divide evenly across the buckets', () => {
+    const samples = Float32Array.from([0.25, 0, 0, 0.5, 0, 0, 0, 0, 0, 1]);
+    expect(Array.from(reducePeaks([samples], 3))).toEqual([0.25, 0.5, 1]);
+  });
+
+  it('returns silence for no audio', () => {
+    expect(Array.from(reducePeaks([], 3))).toEqual([0, 0, 0]);
+  });
+});
@@ -0,0 +1,24 @@
+// Waveform peak reduction, shared by the worker and its tests
+
+/**
+ * Largest absolute sample of every channel in each of `buckets` equal slices,
+ * so a stereo file draws as one envelope
+ */
+export const reducePeaks = (channels: Float32Array[], buckets: number): Float32Array => {
+  const peaks = new Float32Array(buckets);
+  const length = channels[0]?.length ?? 0;
+  const bucketLength = length / buckets;
+
+  for (const data of channels) {
+    for (let b = 0; b < buckets; b++) {
+      const end = Math.min(data.length, Math.floor((b + 1) * bucketLength));
+      let peak = peaks[b];
+      for (let i = Math.floor(b * bucketLength); i < end; i++) {
+        const value = Math.abs(data[i]);
+        if (value > peak) peak = value;
+      }
+      peaks[b] = peak;
+    }
+  }
+  return peaks;
+};
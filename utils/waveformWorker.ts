@@ -0,0 +1,15 @@
+// Web Worker: reduces decoded channel data to waveform peaks (see waveform.ts)
+// Decoding has to happen on the page (workers have no AudioContext); the browser already
+// does that off the main thread, and the long per-sample scan happens here.
+import { reducePeaks } from './waveformPeaks';
+
+interface PeaksRequest {
+  channels: Float32Array[];
+  buckets: number;
+}
+
+self.onmessage = (event: MessageEvent<PeaksRequest>) => {
+  const { channels, buckets } = event.data;
+  const peaks = reducePeaks(channels, buckets);
+  self.postMessage(peaks, { transfer: [peaks.buffer] });
+};
@@ -1,5 +1,6 @@
 // WebTorrent utilities for P2P music streaming and distribution
 import WebTorrent from 'webtorrent';
+import { registerTorrentStore } from './storage';
 
 let client: WebTorrent.Instance | null = null;
 
@@ -9,6 +10,10 @@ let client: WebTorrent.Instance | null = null;
 export const initWebTorrent = (): WebTorrent.Instance => {
   if (!client) {
     client = new WebTorrent();
+    registerTorrentStore({
+      getSize: () => client?.torrents.reduce((sum, torrent) => sum + torrent.downloaded, 0) ?? 0,
+      clear: () => client?.torrents.slice().forEach(torrent => client!.remove(torrent))
+    });
     console.log('[WebTorrent] Client initialized');
   }
   return client;
@@ -145,6 +150,7 @@ export const destroyWebTorrent = (): void => {
   if (client) {
     client.destroy();
     client = null;
+    registerTorrentStore(null);
     console.log('[WebTorrent] Client destroyed');
   }
 };
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { deflateRawSync } from 'node:zlib';
+import { createZip, readZip } from './zip';
+
+const encoder = new TextEncoder();
+
+// A single-entry deflated archive, as other ZIP tools write them
+const deflatedZip = (name: string, text: string): Blob => {
+  const nameBytes = encoder.encode(name);
+  const data = deflateRawSync(encoder.encode(text));
+  const local = new DataView(new ArrayBuffer(30));
+  local.setUint32(0, 0x04034b50, true);
+  local.setUint16(8, 8, true);
+  local.setUint32(18, data.length, true);
+  local.setUint32(22, text.length, true);
+  local.setUint16(26, nameBytes.length, true);
+  const central = new DataView(new ArrayBuffer(46));
+  central.setUint32(0, 0x02014b50, true);
+  central.setUint16(10, 8, true);
+  central.setUint32(20, data.length, true);
+  central.setUint32(24, text.length, true);
+  central.setUint16(28, nameBytes.length, true);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(10, 1, true);
+  end.setUint32(12, 46 + nameBytes.length, true);
+  end.setUint32(16, 30 + nameBytes.length + data.length, true);
+  return new Blob([local.buffer, nameBytes, data, central.buffer, nameBytes, end.buffer]);
+};
+
+describe('createZip', () => {
+  it('round-trips entries through readZip', async () => {
+    const zip = await createZip([
+      { name: 'manifest.json', data: new Blob(['{"version":1}']) },
+      { name: 'audio/Ünïcode.mp3', data: new Blob([new Uint8Array([1, 2, 3, 255])]) },
+      { name: 'empty.txt', data: new Blob([]) }
+    ]);
+    const entries = await readZip(zip);
+
+    expect(entries.map(entry => [entry.name, entry.size])).toEqual([['manifest.json', 13], ['audio/Ünïcode.mp3', 4], ['empty.txt', 0]]);
+    expect(await (await entries[0].read()).text()).toBe('{"version":1}');
+    expect(Array.from(new Uint8Array(await (await entries[1].read()).arrayBuffer()))).toEqual([1, 2, 3, 255]);
+  });
+
+  it('writes the CRC-32 of each entry', async () => {
+    const zip = await createZip([{ name: 'a.txt', data: new Blob(['hello']) }]);
+    const header = new DataView(await zip.slice(0, 30).arrayBuffer());
+    expect(header.getUint32(14, true)).toBe(0x3610a686);
+  });
+
+  it('reports progress up to 1', async () => {
+    const progress: number[] = [];
+    await createZip([{ name: 'a', data: new Blob(['12']) }, { name: 'b', data: new Blob(['34']) }], fraction => progress.push(fraction));
+    expect(progress).toEqual([0.5, 1]);
+  });
+});
+
+describe('readZip', () => {
+  it('inflates deflated entries', async () => {
+    const text = 'compressible '.repeat(50);
+    const [entry] = await readZip(deflatedZip('notes.txt', text));
+    expect(entry.name).toBe('notes.txt');
+    expect(await (await entry.read()).text()).toBe(text);
+  });
+
+  it('rejects files that are not archives', async () => {
+    await expect(readZip(new Blob(['not a zip']))).rejects.toThrow('Not a ZIP archive');
+  });
+});
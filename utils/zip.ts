@@ -0,0 +1,180 @@
+// Minimal ZIP archives: writes uncompressed ("stored") entries, reads stored and deflated ones.
+// Audio and images are already compressed, so storing them keeps backups fast and the
+// file contents are never copied into memory as a whole.
+
+export interface ZipEntry {
+  name: string;
+  size: number; // Uncompressed size in bytes
+  read: () => Promise<Blob>;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_SIGNATURE = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+const MAX_ZIP_SIZE = 0xffffffff; // No ZIP64: entries and offsets are 32-bit
+const CRC_CHUNK_SIZE = 4 * 1024 * 1024;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const updateCrc = (crc: number, bytes: Uint8Array): number => {
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return crc;
+};
+
+// Read in chunks so large audio files never sit in memory twice
+const crc32 = async (blob: Blob): Promise<number> => {
+  let crc = 0xffffffff;
+  for (let offset = 0; offset < blob.size; offset += CRC_CHUNK_SIZE) {
+    const chunk = new Uint8Array(await blob.slice(offset, offset + CRC_CHUNK_SIZE).arrayBuffer());
+    crc = updateCrc(crc, chunk);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time, as stored in every header
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+/**
+ * Build a ZIP archive. The returned Blob references the entry data instead of copying it.
+ * @param onProgress Called with 0-1 while checksums are computed
+ */
+export const createZip = async (
+  entries: { name: string; data: Blob }[],
+  onProgress?: (fraction: number) => void
+): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(new Date());
+  const totalBytes = entries.reduce((sum, entry) => sum + entry.data.size, 0) || 1;
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+  let processed = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = await crc32(entry.data);
+    const size = entry.data.size;
+    processed += size;
+    onProgress?.(processed / totalBytes);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    local.setUint16(4, 20, true); // Version needed: 2.0
+    local.setUint16(6, UTF8_FLAG, true);
+    local.setUint16(8, 0, true); // Stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const header = new Uint8Array(46 + name.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    view.setUint16(4, 20, true); // Version made by
+    view.setUint16(6, 20, true);
+    view.setUint16(8, UTF8_FLAG, true);
+    view.setUint16(10, 0, true);
+    view.setUint16(12, time, true);
+    view.setUint16(14, date, true);
+    view.setUint32(16, crc, true);
+    view.setUint32(20, size, true);
+    view.setUint32(24, size, true);
+    view.setUint16(28, name.length, true);
+    view.setUint32(42, offset, true);
+    header.set(name, 46);
+    central.push(header);
+
+    parts.push(local.buffer, name, entry.data);
+    offset += 30 + name.length + size;
+    if (offset > MAX_ZIP_SIZE) {
+      throw new Error('Archive is larger than 4 GB');
+    }
+  }
+
+  const centralSize = central.reduce((sum, header) => sum + header.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_SIGNATURE, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+};
+
+const inflate = (data: Blob): Promise<Blob> => {
+  return new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+};
+
+/**
+ * List the entries of a ZIP archive; entry data is only read when asked for
+ * @throws if the file is not a ZIP archive
+ */
+export const readZip = async (blob: Blob): Promise<ZipEntry[]> => {
+  // The end record sits in the last 22 bytes, plus up to 64 KB of comment
+  const tailStart = Math.max(0, blob.size - 22 - 0xffff);
+  const tail = new DataView(await blob.slice(tailStart).arrayBuffer());
+  let endOffset = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_SIGNATURE) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) throw new Error('Not a ZIP archive');
+
+  const count = tail.getUint16(endOffset + 10, true);
+  const centralSize = tail.getUint32(endOffset + 12, true);
+  const centralOffset = tail.getUint32(endOffset + 16, true);
+  const central = new DataView(await blob.slice(centralOffset, centralOffset + centralSize).arrayBuffer());
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  let position = 0;
+  for (let i = 0; i < count; i++) {
+    if (central.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt ZIP directory');
+    }
+    const method = central.getUint16(position + 10, true);
+    const compressedSize = central.getUint32(position + 20, true);
+    const size = central.getUint32(position + 24, true);
+    const nameLength = central.getUint16(position + 28, true);
+    const extraLength = central.getUint16(position + 30, true);
+    const commentLength = central.getUint16(position + 32, true);
+    const localOffset = central.getUint32(position + 42, true);
+    const name = decoder.decode(new Uint8Array(central.buffer, position + 46, nameLength));
+    position += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue; // Directory
+
+    entries.push({
+      name,
+      size,
+      read: async () => {
+        // The local header's name and extra field can differ from the central copy
+        const local = new DataView(await blob.slice(localOffset, localOffset + 30).arrayBuffer());
+        const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+        const data = blob.slice(dataStart, dataStart + compressedSize);
+        if (method === 0) return data;
+        if (method === 8) return inflate(data);
+        throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+      }
+    });
+  }
+  return entries;
+};